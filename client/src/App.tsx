@@ -35,6 +35,7 @@ import TestCoach from "@/pages/TestCoach";
 import TestAccess from "@/pages/TestAccess";
 import TestTake from "@/pages/TestTake";
 import TestResults from "@/pages/TestResults";
+import SharedShortlist from "@/pages/SharedShortlist";
 import NotFound from "@/pages/not-found";
 
 // Admin pages
@@ -182,6 +183,7 @@ function Router() {
       <Route path="/test/:referenceNumber/results/:attemptId" component={TestResults} />
       <Route path="/test/:referenceNumber/take/:attemptId" component={TestTake} />
       <Route path="/test/:referenceNumber" component={TestAccess} />
+      <Route path="/shortlist/:token" component={SharedShortlist} />
       <Route path="/admin/overview" component={() => <AdminRouter />} />
       <Route path="/admin/recruiters" component={() => <AdminRouter />} />
       <Route path="/admin/businesses" component={() => <AdminRouter />} />
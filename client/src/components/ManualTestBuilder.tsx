@@ -38,8 +38,14 @@ const manualTestSchema = z.object({
     timeMinutes: z.number().min(1, "Time must be at least 1 minute"),
     weight: z.number().min(0).max(100),
     orderIndex: z.number(),
+    // Item bank: how many questions of each difficulty each candidate draws (blank = every question)
+    itemSampling: z.object({
+      E: z.number().int().min(0).optional(),
+      M: z.number().int().min(0).optional(),
+      H: z.number().int().min(0).optional(),
+    }).optional(),
     items: z.array(z.object({
-      format: z.enum(["mcq", "multi_select", "true_false", "short_answer", "sjt_rank", "likert"]),
+      format: z.enum(["mcq", "multi_select", "true_false", "short_answer", "sjt_rank", "sjt_best_worst", "likert"]),
       stem: z.string().min(5, "Question text required"),
       options: z.array(z.string()).optional(),
       correctAnswer: z.any(),
@@ -96,9 +102,26 @@ const QUESTION_FORMATS = [
   { value: "true_false", label: "True/False" },
   { value: "short_answer", label: "Short Answer" },
   { value: "sjt_rank", label: "Situational Judgment (Ranking)" },
+  { value: "sjt_best_worst", label: "Situational Judgment (Best/Worst)" },
   { value: "likert", label: "Likert Scale (Agreement)" },
 ];
 
+// How each format's answer key is entered - option numbers are 0-based (see server/services/test-scoring)
+const ANSWER_KEY_HINTS: Record<string, { placeholder: string; description: string }> = {
+  mcq: { placeholder: "e.g., 0 (first option)", description: "Enter the index of the correct option (0-based)" },
+  multi_select: { placeholder: "e.g., [0,2]", description: "Enter every correct option. Wrong picks cancel out correct ones" },
+  true_false: { placeholder: "True or False", description: "Enter True or False" },
+  sjt_rank: { placeholder: "e.g., [2,0,3,1]", description: "Enter the options from most to least effective. Closer rankings earn partial credit" },
+  sjt_best_worst: { placeholder: "e.g., [2,1] (best, worst)", description: "Enter the best option, then the worst. Each is worth half the points" },
+  likert: { placeholder: "Leave blank, \"reverse\", or 1-5", description: "Blank: agreeing scores higher. \"reverse\": disagreeing scores higher. 1-5: the ideal answer" },
+};
+
+const DIFFICULTY_LEVELS = [
+  { value: "E", label: "Easy" },
+  { value: "M", label: "Medium" },
+  { value: "H", label: "Hard" },
+] as const;
+
 const SECTION_TYPES = [
   { value: "skills", label: "Skills Assessment", description: "Work samples, job-specific tasks" },
   { value: "aptitude", label: "Aptitude Test", description: "Numerical, verbal, logical reasoning" },
@@ -238,6 +261,7 @@ export default function ManualTestBuilder({ onComplete, onCancel }: ManualTestBu
           time_minutes: section.timeMinutes,
           weight: section.weight,
           order_index: section.orderIndex,
+          item_sampling: Object.values(section.itemSampling || {}).some(count => count) ? section.itemSampling : null,
           items: section.items.map(item => ({
             format: item.format,
             stem: item.stem,
@@ -700,6 +724,37 @@ function SectionEditor({ form, sectionIndex, section, isExpanded, onToggle, onRe
             />
           </div>
 
+          <div>
+            <div className="text-sm font-medium">Questions per candidate (optional)</div>
+            <p className="text-xs text-muted-foreground mb-2">
+              Use this section as an item bank: each candidate draws this many questions of each difficulty. Leave blank to give every question.
+            </p>
+            <div className="grid grid-cols-3 gap-4">
+              {DIFFICULTY_LEVELS.map((level) => (
+                <FormField
+                  key={level.value}
+                  control={form.control}
+                  name={`sections.${sectionIndex}.itemSampling.${level.value}`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-xs">{level.label}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+                          data-testid={`input-section-sampling-${level.value}-${sectionIndex}`}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+          </div>
+
           <Separator />
 
           {/* Questions */}
@@ -746,7 +801,8 @@ function QuestionEditor({ form, sectionIndex, questionIndex, onRemove }: any) {
   const questionFormat = form.watch(`sections.${sectionIndex}.items.${questionIndex}.format`);
   const options = form.watch(`sections.${sectionIndex}.items.${questionIndex}.options`) || [];
 
-  const requiresOptions = ["mcq", "multi_select", "sjt_rank", "likert"].includes(questionFormat);
+  const requiresOptions = ["mcq", "multi_select", "sjt_rank", "sjt_best_worst", "likert"].includes(questionFormat);
+  const answerKeyHint = ANSWER_KEY_HINTS[questionFormat];
 
   return (
     <Card>
@@ -856,14 +912,14 @@ function QuestionEditor({ form, sectionIndex, questionIndex, onRemove }: any) {
               <FormLabel>Correct Answer *</FormLabel>
               <FormControl>
                 <Input 
-                  placeholder={requiresOptions ? "e.g., 0 (first option), 1 (second option), or [0,2] for multiple" : "Enter correct answer"}
+                  placeholder={answerKeyHint?.placeholder ?? "Enter correct answer"}
                   {...field}
                   onChange={(e) => field.onChange(e.target.value)}
                   data-testid={`input-correct-answer-${sectionIndex}-${questionIndex}`}
                 />
               </FormControl>
               <FormDescription className="text-xs">
-                {requiresOptions ? "For MCQ: enter option index (0-based). For multiple select: [0,2,3]" : "Enter the correct answer or scoring criteria"}
+                {answerKeyHint?.description ?? "Enter the correct answer or scoring criteria"}
               </FormDescription>
               <FormMessage />
             </FormItem>
@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Building2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { OrganizationBillingDetails } from "@shared/schema";
+
+interface BillingDetailsResponse {
+  success: boolean;
+  details: (Required<OrganizationBillingDetails> & { organizationName: string }) | null;
+}
+
+/**
+ * Organization registration and VAT details printed on tax invoices
+ */
+export function BillingDetailsCard() {
+  const { toast } = useToast();
+  const [form, setForm] = useState({ registrationNumber: "", vatNumber: "", billingAddress: "" });
+
+  const { data, isLoading } = useQuery<BillingDetailsResponse>({
+    queryKey: ["/api/billing/details"],
+  });
+
+  useEffect(() => {
+    if (data?.details) {
+      setForm({
+        registrationNumber: data.details.registrationNumber,
+        vatNumber: data.details.vatNumber,
+        billingAddress: data.details.billingAddress,
+      });
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (details: OrganizationBillingDetails) => {
+      const response = await apiRequest("PUT", "/api/billing/details", details);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/details"] });
+      toast({
+        title: "Billing details saved",
+        description: "Future invoices will include these details.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.includes("403")
+          ? "Only organization owners and admins can change billing details."
+          : "Failed to save billing details. Check the VAT number format.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !data?.details) {
+    return null;
+  }
+
+  return (
+    <Card data-testid="card-billing-details">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Invoice Details
+        </CardTitle>
+        <CardDescription>
+          Registration and VAT details for {data.details.organizationName}, shown on tax invoices
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate(form);
+          }}
+        >
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="registrationNumber">Company Registration Number</Label>
+              <Input
+                id="registrationNumber"
+                placeholder="2024/123456/07"
+                value={form.registrationNumber}
+                onChange={(e) => setForm({ ...form, registrationNumber: e.target.value })}
+                data-testid="input-registration-number"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vatNumber">VAT Number</Label>
+              <Input
+                id="vatNumber"
+                placeholder="4123456789"
+                value={form.vatNumber}
+                onChange={(e) => setForm({ ...form, vatNumber: e.target.value })}
+                data-testid="input-vat-number"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="billingAddress">Billing Address</Label>
+            <Textarea
+              id="billingAddress"
+              rows={3}
+              value={form.billingAddress}
+              onChange={(e) => setForm({ ...form, billingAddress: e.target.value })}
+              data-testid="input-billing-address"
+            />
+          </div>
+          <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-billing-details">
+            {saveMutation.isPending ? "Saving..." : "Save Details"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowDownCircle, ArrowUpCircle, CalendarClock, Repeat } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  usePlanChangePreview,
+  useChangePlan,
+  useCancelScheduledPlanChange,
+  type PlanChangePreview,
+} from "@/hooks/use-plan-change";
+import type { Plan } from "@shared/schema";
+
+interface PublicPlan {
+  plan: Plan & { name: string };
+}
+
+interface ChangePlanCardProps {
+  currentPlanId: string;
+  product: string;
+  scheduledPlanId?: string | null;
+}
+
+const formatAmount = (cents: number) =>
+  `R${(cents / 100).toLocaleString("en-ZA", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-ZA", { year: "numeric", month: "long", day: "numeric" });
+
+const formatPlanName = (plan: Pick<Plan, "product" | "tier" | "interval">) =>
+  `${plan.product.charAt(0).toUpperCase() + plan.product.slice(1)} ${plan.tier.charAt(0).toUpperCase() + plan.tier.slice(1)} (${plan.interval})`;
+
+/**
+ * What a plan change will cost and when it takes effect
+ */
+export function PlanChangeSummary({ preview }: { preview: PlanChangePreview }) {
+  const limitChanges = preview.quotaChanges.filter((change) => change.currentLimit !== change.newLimit);
+
+  return (
+    <div className="space-y-3 text-sm" data-testid="plan-change-summary">
+      {preview.trialDays > 0 ? (
+        <p className="text-muted-foreground">
+          Starts a {preview.trialDays}-day free trial of {formatPlanName(preview.newPlan)}, ending{" "}
+          {formatDate(preview.newPeriodEnd)}. Nothing is charged today. Add payment details before the trial ends
+          to keep the plan at {formatAmount(preview.newPlan.priceCents)}.
+        </p>
+      ) : preview.type === "upgrade" ? (
+        <>
+          <div className="flex justify-between">
+            <span>{formatPlanName(preview.newPlan)}</span>
+            <span>{formatAmount(preview.newPlan.priceCents)}</span>
+          </div>
+          {preview.creditCents > 0 && (
+            <div className="flex justify-between text-muted-foreground">
+              <span>Credit for unused time on {formatPlanName(preview.currentPlan)}</span>
+              <span>-{formatAmount(preview.creditCents)}</span>
+            </div>
+          )}
+          <div className="flex justify-between border-t pt-2 font-semibold">
+            <span>Due today</span>
+            <span data-testid="text-plan-change-charge">{formatAmount(preview.chargeCents)}</span>
+          </div>
+          <p className="text-muted-foreground">
+            Takes effect immediately. Your next billing period ends {formatDate(preview.newPeriodEnd)}.
+          </p>
+        </>
+      ) : (
+        <p className="text-muted-foreground">
+          You'll keep {formatPlanName(preview.currentPlan)} until {formatDate(preview.effectiveAt)}, then move to{" "}
+          {formatPlanName(preview.newPlan)} at {formatAmount(preview.newPlan.priceCents)}. Nothing is charged today.
+        </p>
+      )}
+      {limitChanges.length > 0 && (
+        <div className="space-y-1">
+          {limitChanges.map((change) => (
+            <div key={change.featureKey} className="flex justify-between text-muted-foreground">
+              <span>{change.featureName}</span>
+              <span>
+                {change.currentLimit ?? "∞"} → {change.newLimit ?? "∞"}
+                {preview.type === "upgrade" && change.used > 0 && ` (${change.used} already used)`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ChangePlanCard({ currentPlanId, product, scheduledPlanId }: ChangePlanCardProps) {
+  const { toast } = useToast();
+  const [selectedPlanId, setSelectedPlanId] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get("plan")
+  );
+
+  const { data: plansData } = useQuery<{ success: boolean; plans: PublicPlan[] }>({
+    queryKey: ["/api/public/plans"],
+  });
+
+  const { data: previewData, isLoading: loadingPreview, error: previewError } = usePlanChangePreview(
+    selectedPlanId,
+    !!selectedPlanId
+  );
+
+  const changeMutation = useChangePlan();
+  const cancelMutation = useCancelScheduledPlanChange();
+
+  const productPlans = (plansData?.plans || [])
+    .map(({ plan }) => plan)
+    .filter((plan) => plan.product === product && plan.id !== currentPlanId)
+    .sort((a, b) => a.priceCents - b.priceCents);
+
+  const scheduledPlan = plansData?.plans.find(({ plan }) => plan.id === scheduledPlanId)?.plan;
+
+  const handleConfirm = () => {
+    if (!selectedPlanId) return;
+    changeMutation.mutate(selectedPlanId, {
+      onSuccess: (result) => {
+        if (result.status !== "checkout") {
+          toast({ title: result.message });
+          setSelectedPlanId(null);
+        }
+      },
+      onError: (error: Error) => {
+        toast({
+          title: "Error",
+          description: error.message.includes("403")
+            ? "Only organization owners and admins can change the plan."
+            : "Failed to change plan. Please try again.",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  if (productPlans.length === 0 && !scheduledPlanId) {
+    return null;
+  }
+
+  return (
+    <Card data-testid="card-change-plan">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Repeat className="h-5 w-5" />
+          Change Plan
+        </CardTitle>
+        <CardDescription>
+          Upgrades apply immediately with credit for unused time; downgrades apply at the end of the billing period
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {scheduledPlanId && (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border p-4" data-testid="scheduled-plan-change">
+            <div className="flex items-center gap-2 text-sm">
+              <CalendarClock className="h-4 w-4 text-muted-foreground" />
+              <span>
+                Moving to {scheduledPlan ? formatPlanName(scheduledPlan) : "a new plan"} at the end of this billing period
+              </span>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => cancelMutation.mutate(undefined, {
+                onSuccess: () => toast({ title: "Scheduled plan change canceled" }),
+              })}
+              disabled={cancelMutation.isPending}
+              data-testid="button-cancel-plan-change"
+            >
+              Keep Current Plan
+            </Button>
+          </div>
+        )}
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          {productPlans.map((plan) => (
+            <button
+              key={plan.id}
+              type="button"
+              onClick={() => setSelectedPlanId(plan.id)}
+              className={`rounded-lg border p-4 text-left transition-colors hover-elevate ${
+                selectedPlanId === plan.id ? "border-primary bg-primary/5" : ""
+              }`}
+              data-testid={`button-select-plan-${plan.id}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{formatPlanName(plan)}</span>
+                {plan.id === scheduledPlanId && <Badge variant="secondary">Scheduled</Badge>}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {plan.priceCents === 0 ? "Free" : `${formatAmount(plan.priceCents)} / ${plan.interval === "annual" ? "year" : "month"}`}
+              </p>
+            </button>
+          ))}
+        </div>
+
+        {selectedPlanId && (
+          <div className="rounded-lg border p-4 space-y-4">
+            {loadingPreview ? (
+              <p className="text-sm text-muted-foreground">Calculating...</p>
+            ) : previewError || !previewData ? (
+              <p className="text-sm text-destructive">This plan change isn't available.</p>
+            ) : (
+              <>
+                <PlanChangeSummary preview={previewData.preview} />
+                <div className="flex gap-3">
+                  <Button
+                    onClick={handleConfirm}
+                    disabled={changeMutation.isPending}
+                    className="gap-2"
+                    data-testid="button-confirm-plan-change"
+                  >
+                    {previewData.preview.type === "upgrade" ? (
+                      <ArrowUpCircle className="h-4 w-4" />
+                    ) : (
+                      <ArrowDownCircle className="h-4 w-4" />
+                    )}
+                    {changeMutation.isPending
+                      ? "Processing..."
+                      : previewData.preview.trialDays > 0
+                        ? "Start Free Trial"
+                        : previewData.preview.type === "upgrade"
+                          ? previewData.preview.chargeCents > 0 ? "Upgrade and Pay" : "Upgrade Now"
+                          : "Schedule Downgrade"}
+                  </Button>
+                  <Button variant="outline" onClick={() => setSelectedPlanId(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
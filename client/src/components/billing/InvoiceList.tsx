@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Download, FileText, Loader2 } from "lucide-react";
+import html2pdf from "html2pdf.js";
+import { useToast } from "@/hooks/use-toast";
+import type { Invoice, InvoiceBillTo, InvoiceLineItem, InvoiceSeller } from "@shared/schema";
+
+interface InvoiceListProps {
+  description: string;
+}
+
+const formatAmount = (cents: number) =>
+  `R${(cents / 100).toLocaleString("en-ZA", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: string | Date) =>
+  new Date(date).toLocaleDateString("en-ZA", { year: "numeric", month: "long", day: "numeric" });
+
+const escapeHtml = (value: string | undefined) =>
+  (value || "").replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+function generateInvoiceHTML(invoice: Invoice): string {
+  const billTo = invoice.billTo as InvoiceBillTo;
+  const seller = invoice.seller as InvoiceSeller;
+  const lineItems = invoice.lineItems as InvoiceLineItem[] | null;
+  const period = `${formatDate(invoice.periodStart)} – ${formatDate(invoice.periodEnd)}`;
+  const excludingVat = (cents: number) => Math.round(cents * 100 / (100 + invoice.vatRate));
+
+  // Itemised invoices (overage) get a row per line; line amounts are shown excluding VAT
+  const rows = lineItems && lineItems.length > 0
+    ? lineItems.map((item) => `
+          <tr style="border-bottom: 1px solid #e5e7eb;">
+            <td style="padding: 10px;">${escapeHtml(item.description)} (${item.quantity} × ${formatAmount(excludingVat(item.unitCents))})</td>
+            <td style="padding: 10px;">${period}</td>
+            <td style="text-align: right; padding: 10px;">${formatAmount(excludingVat(item.amountCents))}</td>
+          </tr>`).join("")
+    : `
+          <tr style="border-bottom: 1px solid #e5e7eb;">
+            <td style="padding: 10px;">${escapeHtml(invoice.description)}</td>
+            <td style="padding: 10px;">${period}</td>
+            <td style="text-align: right; padding: 10px;">${formatAmount(invoice.subtotalCents)}</td>
+          </tr>`;
+  const detailRow = (label: string, value?: string) =>
+    value ? `<div style="color: #374151; font-size: 13px;">${label}: ${escapeHtml(value)}</div>` : "";
+
+  return `
+    <div style="font-family: Arial, sans-serif; color: #111827; padding: 20px;">
+      <div style="display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 3px solid #D97706; padding-bottom: 20px;">
+        <div>
+          <div style="color: #D97706; font-size: 24px; font-weight: 700;">${escapeHtml(seller.name)}</div>
+          <div style="color: #374151; font-size: 13px; margin-top: 6px;">${escapeHtml(seller.address)}</div>
+          ${detailRow("Reg. No", seller.registrationNumber)}
+          ${detailRow("VAT No", seller.vatNumber)}
+          ${detailRow("Email", seller.email)}
+        </div>
+        <div style="text-align: right;">
+          <div style="font-size: 26px; font-weight: 700;">TAX INVOICE</div>
+          <div style="font-size: 14px; margin-top: 6px;">${escapeHtml(invoice.invoiceNumber)}</div>
+          <div style="color: #6b7280; font-size: 13px;">Date: ${formatDate(invoice.issuedAt)}</div>
+          <div style="color: ${invoice.status === "paid" ? "#059669" : "#6b7280"}; font-size: 13px; font-weight: 600; margin-top: 4px;">
+            ${invoice.status === "paid" ? "PAID" : invoice.status.toUpperCase()}
+          </div>
+        </div>
+      </div>
+
+      <div style="margin-top: 25px;">
+        <div style="color: #6b7280; font-size: 12px; font-weight: 600; text-transform: uppercase;">Bill To</div>
+        <div style="font-size: 16px; font-weight: 600; margin-top: 4px;">${escapeHtml(billTo.name)}</div>
+        ${billTo.address ? `<div style="color: #374151; font-size: 13px;">${escapeHtml(billTo.address)}</div>` : ""}
+        ${detailRow("Reg. No", billTo.registrationNumber)}
+        ${detailRow("VAT No", billTo.vatNumber)}
+        ${detailRow("Email", billTo.email)}
+      </div>
+
+      <table style="width: 100%; border-collapse: collapse; margin-top: 30px; font-size: 13px;">
+        <thead>
+          <tr style="background: #f3f4f6;">
+            <th style="text-align: left; padding: 10px;">Description</th>
+            <th style="text-align: left; padding: 10px;">Period</th>
+            <th style="text-align: right; padding: 10px;">Amount (excl. VAT)</th>
+          </tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+      </table>
+
+      <div style="margin-top: 20px; margin-left: auto; width: 280px; font-size: 13px;">
+        <div style="display: flex; justify-content: space-between; padding: 4px 0;">
+          <span>Subtotal</span><span>${formatAmount(invoice.subtotalCents)}</span>
+        </div>
+        <div style="display: flex; justify-content: space-between; padding: 4px 0;">
+          <span>VAT (${invoice.vatRate}%)</span><span>${formatAmount(invoice.vatCents)}</span>
+        </div>
+        <div style="display: flex; justify-content: space-between; padding: 8px 0; border-top: 2px solid #111827; font-weight: 700; font-size: 15px;">
+          <span>Total (${escapeHtml(invoice.currency)})</span><span>${formatAmount(invoice.totalCents)}</span>
+        </div>
+      </div>
+
+      <div style="margin-top: 50px; padding-top: 15px; border-top: 1px solid #e5e7eb; color: #9ca3af; font-size: 11px; text-align: center;">
+        ${invoice.paidAt ? `Paid on ${formatDate(invoice.paidAt)}. ` : ""}Thank you for your business.
+      </div>
+    </div>
+  `;
+}
+
+export function InvoiceList({ description }: InvoiceListProps) {
+  const { toast } = useToast();
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<{ success: boolean; invoices: Invoice[] }>({
+    queryKey: ["/api/billing/invoices"],
+  });
+
+  const invoices = data?.invoices || [];
+
+  const handleDownload = async (invoice: Invoice) => {
+    setDownloadingId(invoice.id);
+    try {
+      const opt = {
+        margin: 10,
+        filename: `${invoice.invoiceNumber}.pdf`,
+        image: { type: "jpeg" as const, quality: 0.98 },
+        html2canvas: { scale: 2 },
+        jsPDF: { unit: "mm" as const, format: "a4" as const, orientation: "portrait" as const },
+      };
+
+      await html2pdf().set(opt).from(generateInvoiceHTML(invoice)).save();
+    } catch (error) {
+      console.error("Error generating invoice PDF:", error);
+      toast({
+        title: "Error",
+        description: "Failed to download invoice. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <Card data-testid="card-payment-history">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Invoices
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <p>Loading invoices...</p>
+          </div>
+        ) : invoices.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <p>No invoices yet</p>
+            <p className="text-sm mt-1">A tax invoice is issued for every paid billing period</p>
+          </div>
+        ) : (
+          <div className="divide-y">
+            {invoices.map((invoice) => (
+              <div
+                key={invoice.id}
+                className="flex items-center justify-between gap-4 py-3"
+                data-testid={`invoice-${invoice.invoiceNumber}`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{invoice.invoiceNumber}</span>
+                    {invoice.kind === "overage" && <Badge variant="outline">Overage</Badge>}
+                    <Badge variant={invoice.status === "paid" ? "default" : "secondary"}>
+                      {invoice.status === "paid" ? "Paid" : invoice.status === "void" ? "Void" : "Issued"}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {formatDate(invoice.periodStart)} – {formatDate(invoice.periodEnd)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <span className="font-semibold">{formatAmount(invoice.totalCents)}</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDownload(invoice)}
+                    disabled={downloadingId === invoice.id}
+                    data-testid={`button-download-invoice-${invoice.invoiceNumber}`}
+                  >
+                    {downloadingId === invoice.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Download className="h-4 w-4 mr-1" />
+                    )}
+                    PDF
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Gauge } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface OverageEstimate {
+  periodStart: string;
+  periodEnd: string;
+  features: Array<{
+    featureKey: string;
+    featureName: string;
+    unit: string | null;
+    included: number;
+    used: number;
+    overageUnits: number;
+    unitCents: number;
+    amountCents: number;
+  }>;
+  totalCents: number;
+  spendingLimitCents: number | null;
+  remainingCents: number | null;
+}
+
+const formatAmount = (cents: number) =>
+  `R${(cents / 100).toLocaleString("en-ZA", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Running overage estimate for metered features, with the optional spending limit
+ */
+export function OverageCard() {
+  const { toast } = useToast();
+  const [limitInput, setLimitInput] = useState("");
+
+  const { data, isLoading } = useQuery<{ success: boolean; overage: OverageEstimate | null }>({
+    queryKey: ["/api/billing/overage"],
+  });
+
+  const overage = data?.overage;
+
+  useEffect(() => {
+    if (overage) {
+      setLimitInput(overage.spendingLimitCents === null ? "" : String(overage.spendingLimitCents / 100));
+    }
+  }, [overage?.spendingLimitCents]);
+
+  const limitMutation = useMutation({
+    mutationFn: async (limitCents: number | null) => {
+      const response = await apiRequest("PUT", "/api/billing/spending-limit", { limitCents });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/overage"] });
+      toast({
+        title: result.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.includes("403")
+          ? "Only organization owners and admins can change the spending limit."
+          : "Failed to update spending limit.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !overage || overage.features.length === 0) {
+    return null;
+  }
+
+  const handleSaveLimit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = limitInput.trim();
+    if (trimmed === "") {
+      limitMutation.mutate(null);
+      return;
+    }
+    const rands = Number(trimmed);
+    if (!Number.isFinite(rands) || rands < 0) {
+      toast({
+        title: "Invalid amount",
+        description: "Enter the limit in Rand, or leave it empty for no limit.",
+        variant: "destructive",
+      });
+      return;
+    }
+    limitMutation.mutate(Math.round(rands * 100));
+  };
+
+  return (
+    <Card data-testid="card-overage">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Usage Overage
+        </CardTitle>
+        <CardDescription>
+          Usage past your plan's allowance is billed per unit at the end of the billing period
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          {overage.features.map((feature) => (
+            <div key={feature.featureKey} className="flex items-center justify-between gap-4" data-testid={`overage-${feature.featureKey}`}>
+              <div>
+                <p className="font-medium">{feature.featureName}</p>
+                <p className="text-sm text-muted-foreground">
+                  {feature.used} used of {feature.included} included
+                  {feature.unitCents > 0 && ` • ${formatAmount(feature.unitCents)} per extra ${feature.unit || "unit"}`}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="font-semibold">{formatAmount(feature.amountCents)}</p>
+                {feature.overageUnits > 0 && (
+                  <p className="text-sm text-muted-foreground">{feature.overageUnits} over</p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="rounded-lg border p-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">Estimated overage this period</span>
+            <span className="text-xl font-bold" data-testid="text-overage-total">{formatAmount(overage.totalCents)}</span>
+          </div>
+          {overage.spendingLimitCents !== null && (
+            <>
+              <Progress
+                value={overage.spendingLimitCents > 0 ? Math.min((overage.totalCents / overage.spendingLimitCents) * 100, 100) : 100}
+                className="h-2"
+              />
+              <p className="text-sm text-muted-foreground">
+                {formatAmount(overage.remainingCents ?? 0)} left of your {formatAmount(overage.spendingLimitCents)} limit.
+                Metered features stop when the limit is reached.
+              </p>
+            </>
+          )}
+        </div>
+
+        <form className="flex flex-col sm:flex-row sm:items-end gap-3" onSubmit={handleSaveLimit}>
+          <div className="space-y-2 flex-1">
+            <Label htmlFor="spendingLimit">Monthly spending limit (R)</Label>
+            <Input
+              id="spendingLimit"
+              type="number"
+              min="0"
+              step="1"
+              placeholder="No limit"
+              value={limitInput}
+              onChange={(e) => setLimitInput(e.target.value)}
+              data-testid="input-spending-limit"
+            />
+          </div>
+          <Button type="submit" disabled={limitMutation.isPending} data-testid="button-save-spending-limit">
+            {limitMutation.isPending ? "Saving..." : "Save Limit"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,72 @@
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, CreditCard } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { submitCheckout } from "@/hooks/use-plan-change";
+
+interface PastDueCardProps {
+  restrictedAt?: string | null;
+  restrictOn?: string | null;
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-ZA", { year: "numeric", month: "long", day: "numeric" });
+
+/**
+ * Overdue payment notice, with a checkout for the outstanding amount
+ */
+export function PastDueCard({ restrictedAt, restrictOn }: PastDueCardProps) {
+  const { toast } = useToast();
+
+  const payMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/billing/pay-outstanding");
+      return response.json();
+    },
+    onSuccess: (result) => {
+      if (result.checkout) {
+        submitCheckout(result.checkout);
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.includes("403")
+          ? "Only organization owners and admins can pay for the subscription."
+          : "Failed to start checkout. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="border-destructive" data-testid="card-past-due">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-destructive">
+          <AlertTriangle className="h-5 w-5" />
+          {restrictedAt ? "Account Restricted" : "Payment Overdue"}
+        </CardTitle>
+        <CardDescription>
+          {restrictedAt
+            ? `Your account has been read-only since ${formatDate(restrictedAt)}. You can still view your data, but posting jobs and running AI screenings are paused.`
+            : restrictOn
+              ? `Your subscription payment is outstanding. Your account will become read-only on ${formatDate(restrictOn)} unless it's paid.`
+              : "Your subscription payment is outstanding."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Button
+          className="gap-2"
+          onClick={() => payMutation.mutate()}
+          disabled={payMutation.isPending}
+          data-testid="button-pay-outstanding"
+        >
+          <CreditCard className="h-4 w-4" />
+          {payMutation.isPending ? "Processing..." : "Pay Now"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Hourglass, CreditCard } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { submitCheckout } from "@/hooks/use-plan-change";
+
+interface TrialCardProps {
+  planId: string;
+  trialEndsAt: string;
+  paymentCaptured: boolean;
+  canceled: boolean;
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-ZA", { year: "numeric", month: "long", day: "numeric" });
+
+/**
+ * Free trial countdown, with a checkout to pay for the first period before it ends
+ */
+export function TrialCard({ planId, trialEndsAt, paymentCaptured, canceled }: TrialCardProps) {
+  const { toast } = useToast();
+
+  const daysLeft = Math.max(0, Math.ceil((new Date(trialEndsAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+
+  const checkoutMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/billing/checkout", { planId });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      if (result.checkout) {
+        submitCheckout(result.checkout);
+      }
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to start checkout. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="border-primary/20" data-testid="card-trial">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Hourglass className="h-5 w-5" />
+            Free Trial
+          </CardTitle>
+          <Badge variant="secondary" data-testid="badge-trial-days-left">
+            {daysLeft === 1 ? "1 day left" : `${daysLeft} days left`}
+          </Badge>
+        </div>
+        <CardDescription>
+          Your trial ends on {formatDate(trialEndsAt)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {canceled ? (
+          <p className="text-sm text-muted-foreground">
+            You've canceled this trial. You'll move to the free plan when it ends.
+          </p>
+        ) : paymentCaptured ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-trial-payment-captured">
+            Payment received. Your subscription continues automatically when the trial ends.
+          </p>
+        ) : (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Add payment details to keep this plan after the trial. Otherwise you'll move to the free plan.
+            </p>
+            <Button
+              className="gap-2"
+              onClick={() => checkoutMutation.mutate()}
+              disabled={checkoutMutation.isPending}
+              data-testid="button-trial-add-payment"
+            >
+              <CreditCard className="h-4 w-4" />
+              {checkoutMutation.isPending ? "Processing..." : "Add Payment Details"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,6 +11,8 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Sparkles } from "lucide-react";
 import { useLocation } from "wouter";
+import { usePlanChangePreview } from "@/hooks/use-plan-change";
+import { PlanChangeSummary } from "@/components/billing/ChangePlanCard";
 
 interface UpgradeDialogProps {
   open: boolean;
@@ -31,6 +33,10 @@ export function UpgradeDialog({
 }: UpgradeDialogProps) {
   const [, navigate] = useLocation();
 
+  // Prorated charge for moving to the next plan up, when there is one
+  const { data: previewData } = usePlanChangePreview(null, open);
+  const upgradePreview = previewData?.preview.type === "upgrade" ? previewData.preview : null;
+
   const getMessage = () => {
     if (reason === "QUOTA_EXCEEDED") {
       return `You've reached your ${featureName} limit${
@@ -44,7 +50,11 @@ export function UpgradeDialog({
   };
 
   const handleUpgrade = () => {
-    if (product) {
+    if (upgradePreview) {
+      // Billing page opens with the plan change preselected
+      const billingProduct = upgradePreview.newPlan.product === "individual" ? "individual" : "recruiter";
+      navigate(`/dashboard/${billingProduct}/billing?plan=${upgradePreview.newPlan.id}`);
+    } else if (product) {
       navigate(`/dashboard/${product}/billing`);
     } else {
       navigate("/pricing");
@@ -66,10 +76,15 @@ export function UpgradeDialog({
             {getMessage()}
           </AlertDialogDescription>
         </AlertDialogHeader>
+        {upgradePreview && (
+          <div className="rounded-lg border p-4">
+            <PlanChangeSummary preview={upgradePreview} />
+          </div>
+        )}
         <AlertDialogFooter>
           <AlertDialogCancel>Cancel</AlertDialogCancel>
           <AlertDialogAction onClick={handleUpgrade}>
-            View Plans
+            {upgradePreview ? "Upgrade" : "View Plans"}
           </AlertDialogAction>
         </AlertDialogFooter>
       </AlertDialogContent>
@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileText, Loader2, Paperclip, X } from "lucide-react";
+import { useLocation } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { CV, ApplicationAttachment } from "@shared/schema";
+
+type AttachmentType = ApplicationAttachment["type"];
+
+interface ApplyJobDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobId: string;
+  jobTitle: string;
+  company: string;
+  requiredAttachments?: AttachmentType[];
+  optionalAttachments?: AttachmentType[];
+}
+
+export function ApplyJobDialog({
+  open,
+  onOpenChange,
+  jobId,
+  jobTitle,
+  company,
+  requiredAttachments = [],
+  optionalAttachments = [],
+}: ApplyJobDialogProps) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [cvId, setCvId] = useState<string>("");
+  const [coverLetter, setCoverLetter] = useState("");
+  const [attachments, setAttachments] = useState<ApplicationAttachment[]>([]);
+  const [uploadingType, setUploadingType] = useState<AttachmentType | null>(null);
+
+  const { data: cvsData, isLoading: isLoadingCVs } = useQuery<{ success: boolean; cvs: CV[] }>({
+    queryKey: ["/api/cvs"],
+    enabled: open,
+  });
+
+  const userCvs = cvsData?.cvs || [];
+
+  // The selected CV satisfies "CV"; other attachment types need an uploaded file
+  const fileTypes = Array.from(new Set([...requiredAttachments, ...optionalAttachments]))
+    .filter((type) => type !== "CV");
+
+  const isRequired = (type: AttachmentType) => requiredAttachments.includes(type);
+  const attachmentFor = (type: AttachmentType) => attachments.find((a) => a.type === type);
+
+  const missingRequired = fileTypes.filter((type) => {
+    if (!isRequired(type)) return false;
+    if (type === "Cover Letter" && coverLetter.trim()) return false;
+    return !attachmentFor(type);
+  });
+
+  const handleUpload = async (type: AttachmentType, file: File) => {
+    setUploadingType(type);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch("/api/applications/attachments/upload", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "Upload failed");
+      }
+
+      const data = await response.json();
+      setAttachments((prev) => [
+        ...prev.filter((a) => a.type !== type),
+        { type, ...data.attachment },
+      ]);
+    } catch (error: any) {
+      toast({
+        title: "Upload failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setUploadingType(null);
+    }
+  };
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/applications", {
+        jobId,
+        method: "in-app",
+        cvId,
+        coverLetter: coverLetter.trim() || undefined,
+        attachments,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/applications"] });
+      toast({
+        title: "Application Submitted!",
+        description: `Your application for ${jobTitle} has been sent to ${company}.`,
+      });
+      onOpenChange(false);
+      setCoverLetter("");
+      setAttachments([]);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Application failed",
+        description: error.message.replace(/^\d+:\s*/, ""),
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Apply for {jobTitle}</DialogTitle>
+          <DialogDescription>
+            Your CV and documents will be shared with {company}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>CV</Label>
+            {isLoadingCVs ? (
+              <p className="text-sm text-muted-foreground">Loading your CVs...</p>
+            ) : userCvs.length === 0 ? (
+              <div className="rounded-md border p-4 text-sm">
+                <p className="mb-3 text-muted-foreground">You need a CV before you can apply.</p>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setLocation("/dashboard/individual/cvs")}
+                  data-testid="button-create-cv"
+                >
+                  Create a CV
+                </Button>
+              </div>
+            ) : (
+              <Select value={cvId} onValueChange={setCvId}>
+                <SelectTrigger data-testid="select-application-cv">
+                  <SelectValue placeholder="Select a CV" />
+                </SelectTrigger>
+                <SelectContent>
+                  {userCvs.map((cv) => (
+                    <SelectItem key={cv.id} value={cv.id}>
+                      {(cv.personalInfo as any)?.fullName || "Untitled CV"}
+                      {cv.referenceNumber ? ` (${cv.referenceNumber})` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="cover-letter">
+              Cover Letter {isRequired("Cover Letter") ? "" : "(optional)"}
+            </Label>
+            <Textarea
+              id="cover-letter"
+              value={coverLetter}
+              onChange={(e) => setCoverLetter(e.target.value)}
+              placeholder="Tell the employer why you're a good fit..."
+              rows={5}
+              maxLength={5000}
+              data-testid="textarea-cover-letter"
+            />
+          </div>
+
+          {fileTypes.length > 0 && (
+            <div className="space-y-3">
+              <Label>Documents</Label>
+              {fileTypes.map((type) => {
+                const uploaded = attachmentFor(type);
+                return (
+                  <div key={type} className="flex items-center justify-between gap-3 rounded-md border p-3">
+                    <div className="flex min-w-0 items-center gap-2">
+                      <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      <span className="text-sm font-medium">{type}</span>
+                      {isRequired(type) ? (
+                        <Badge variant="outline" className="text-xs">Required</Badge>
+                      ) : (
+                        <Badge variant="secondary" className="text-xs">Optional</Badge>
+                      )}
+                    </div>
+                    {uploaded ? (
+                      <div className="flex min-w-0 items-center gap-1 text-sm">
+                        <Paperclip className="h-3 w-3 shrink-0" />
+                        <span className="truncate max-w-[140px]">{uploaded.originalName}</span>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-6 w-6"
+                          onClick={() => setAttachments((prev) => prev.filter((a) => a.type !== type))}
+                          data-testid={`button-remove-attachment-${type}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    ) : uploadingType === type ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Input
+                        type="file"
+                        accept=".pdf,.doc,.docx,.jpg,.jpeg,.png"
+                        className="max-w-[200px] text-xs"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) handleUpload(type, file);
+                        }}
+                        data-testid={`input-attachment-${type}`}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {missingRequired.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Still required: {missingRequired.join(", ")}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => applyMutation.mutate()}
+            disabled={!cvId || missingRequired.length > 0 || uploadingType !== null || applyMutation.isPending}
+            data-testid="button-submit-application"
+          >
+            {applyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Submit Application
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
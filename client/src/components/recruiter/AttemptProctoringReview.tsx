@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, ShieldAlert, ShieldCheck, ShieldX } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { AttemptReviewOutcome } from "@shared/schema";
+
+export interface AttemptProctoring {
+  id: string;
+  candidateName: string;
+  fraudScore: number | null;
+  riskFactors: Array<{ rule: string; detail: string; points: number }>;
+  reviewRequired: boolean;
+  reviewOutcome: AttemptReviewOutcome | null;
+  reviewNotes: string | null;
+  reviewedAt: string | null;
+}
+
+const OUTCOME_LABELS: Record<AttemptReviewOutcome, string> = {
+  cleared: "Clear",
+  invalidated: "Invalidate",
+};
+
+/**
+ * An attempt's proctoring risk, and the recruiter's clear/invalidate review of it
+ */
+export function AttemptProctoringReview({ testId, attempt }: { testId: string; attempt: AttemptProctoring }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [outcome, setOutcome] = useState<AttemptReviewOutcome | null>(null);
+  const [notes, setNotes] = useState("");
+
+  const reviewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/competency-tests/${testId}/attempts/${attempt.id}/review`, {
+        outcome,
+        notes,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: outcome === "invalidated" ? "Attempt invalidated" : "Attempt cleared" });
+      setOutcome(null);
+      setNotes("");
+      queryClient.invalidateQueries({ queryKey: ["/api/competency-tests", testId, "attempts"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't save review",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!attempt.fraudScore && !attempt.reviewOutcome) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-md bg-muted/50 p-3 space-y-2 text-sm" data-testid={`proctoring-${attempt.id}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 font-medium">
+          {attempt.reviewOutcome === "invalidated" ? (
+            <ShieldX className="w-4 h-4 text-destructive" />
+          ) : attempt.reviewOutcome === "cleared" ? (
+            <ShieldCheck className="w-4 h-4 text-green-600" />
+          ) : (
+            <ShieldAlert className="w-4 h-4 text-amber-500" />
+          )}
+          Proctoring risk: {attempt.fraudScore ?? 0}/100
+          {attempt.reviewRequired && <Badge variant="destructive">Needs review</Badge>}
+          {attempt.reviewOutcome && (
+            <Badge variant={attempt.reviewOutcome === "invalidated" ? "destructive" : "secondary"} className="capitalize">
+              {attempt.reviewOutcome}
+            </Badge>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {(["cleared", "invalidated"] as const).map((value) => (
+            <Button
+              key={value}
+              variant="outline"
+              size="sm"
+              onClick={() => setOutcome(value)}
+              disabled={attempt.reviewOutcome === value}
+              data-testid={`button-review-${value}-${attempt.id}`}
+            >
+              {OUTCOME_LABELS[value]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {attempt.riskFactors.length > 0 && (
+        <ul className="list-disc list-inside text-muted-foreground">
+          {attempt.riskFactors.map((factor) => (
+            <li key={factor.rule}>
+              {factor.detail} (+{factor.points})
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {attempt.reviewNotes && (
+        <p className="text-muted-foreground">
+          Review notes: {attempt.reviewNotes}
+          {attempt.reviewedAt && ` (${new Date(attempt.reviewedAt).toLocaleDateString()})`}
+        </p>
+      )}
+
+      <Dialog open={outcome !== null} onOpenChange={(open) => !open && setOutcome(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {outcome === "invalidated" ? "Invalidate" : "Clear"} {attempt.candidateName}'s attempt
+            </DialogTitle>
+            <DialogDescription>
+              {outcome === "invalidated"
+                ? "An invalidated attempt is marked as not passed, whatever its score."
+                : "Clearing the attempt removes the review flag and keeps its result."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`review-notes-${attempt.id}`}>Notes</Label>
+            <Textarea
+              id={`review-notes-${attempt.id}`}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="What did you check, and why this decision?"
+              rows={3}
+              data-testid={`input-review-notes-${attempt.id}`}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOutcome(null)}>Cancel</Button>
+            <Button
+              variant={outcome === "invalidated" ? "destructive" : "default"}
+              onClick={() => reviewMutation.mutate()}
+              disabled={!notes.trim() || reviewMutation.isPending}
+              data-testid={`button-confirm-review-${attempt.id}`}
+            >
+              {reviewMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {outcome ? OUTCOME_LABELS[outcome] : ""}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileArchive, Upload, ChevronDown, ChevronUp } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { Role } from "@shared/schema";
+
+interface ImportProgress {
+  total: number;
+  queued: number;
+  processing: number;
+  created: number;
+  duplicate: number;
+  failed: number;
+}
+
+interface ResumeImportSummary {
+  id: string;
+  roleId: string | null;
+  status: "processing" | "completed";
+  totalFiles: number;
+  createdAt: string;
+  completedAt: string | null;
+  progress: ImportProgress;
+}
+
+interface ResumeImportFile {
+  id: string;
+  filename: string;
+  status: "queued" | "processing" | "created" | "duplicate" | "failed";
+  candidateId: string | null;
+  error: string | null;
+}
+
+const POLL_INTERVAL_MS = 3000;
+const NO_ROLE = "none";
+
+const FILE_STATUS_LABELS: Record<ResumeImportFile["status"], string> = {
+  queued: "Queued",
+  processing: "Parsing",
+  created: "Added",
+  duplicate: "Already in pool",
+  failed: "Failed",
+};
+
+function ImportFiles({ importId, isProcessing }: { importId: string; isProcessing: boolean }) {
+  const { data } = useQuery<{ success: boolean; import: ResumeImportSummary & { files: ResumeImportFile[] } }>({
+    queryKey: [`/api/ats/resume-imports/${importId}`],
+    refetchInterval: isProcessing ? POLL_INTERVAL_MS : false,
+  });
+
+  const files = data?.import.files || [];
+  if (files.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="max-h-64 overflow-y-auto divide-y rounded-md border text-sm" data-testid={`list-import-files-${importId}`}>
+      {files.map((file) => (
+        <li key={file.id} className="flex items-start justify-between gap-3 px-3 py-2">
+          <div className="min-w-0">
+            {file.candidateId ? (
+              <Link href={`/candidates/${file.candidateId}`} className="truncate block hover:underline">
+                {file.filename}
+              </Link>
+            ) : (
+              <p className="truncate">{file.filename}</p>
+            )}
+            {file.error && <p className="text-xs text-destructive">{file.error}</p>}
+          </div>
+          <Badge variant={file.status === "failed" ? "destructive" : "outline"} className="shrink-0">
+            {FILE_STATUS_LABELS[file.status]}
+          </Badge>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Bulk resume upload (multiple files or ZIPs) with background parsing progress
+ */
+export function BulkResumeUploadCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [roleId, setRoleId] = useState(NO_ROLE);
+  const [expandedImportId, setExpandedImportId] = useState<string | null>(null);
+
+  const { data: rolesData } = useQuery<{ success: boolean; roles: Role[] }>({
+    queryKey: ["/api/roles"],
+  });
+  const activeRoles = (rolesData?.roles || []).filter((role) => role.isActive === 1);
+
+  const { data: importsData } = useQuery<{ success: boolean; imports: ResumeImportSummary[] }>({
+    queryKey: ["/api/ats/resume-imports"],
+    refetchInterval: (query) =>
+      query.state.data?.imports.some((resumeImport) => resumeImport.status === "processing") ? POLL_INTERVAL_MS : false,
+  });
+  const imports = importsData?.imports || [];
+
+  // Refresh the candidate list as imported candidates arrive
+  const importedCount = imports.reduce((sum, resumeImport) => sum + resumeImport.progress.created, 0);
+  useEffect(() => {
+    if (importedCount > 0) {
+      queryClient.invalidateQueries({ queryKey: ["/api/ats/candidates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ats/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ats/duplicates"] });
+    }
+  }, [importedCount, queryClient]);
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      selectedFiles.forEach((file) => formData.append("files", file));
+      if (roleId !== NO_ROLE) {
+        formData.append("roleId", roleId);
+      }
+
+      const response = await fetch("/api/ats/resumes/bulk-upload", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to upload resumes");
+      }
+      return response.json();
+    },
+    onSuccess: (data: any) => {
+      toast({ title: "Upload received", description: data.message });
+      setSelectedFiles([]);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+      setExpandedImportId(data.import.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/ats/resume-imports"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mb-8" data-testid="card-bulk-resume-upload">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileArchive className="h-5 w-5" />
+          Bulk Resume Upload
+        </CardTitle>
+        <CardDescription>
+          Upload many CVs at once, or ZIP files from job boards. Each resume is parsed in the background and added to
+          your talent pool.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col lg:flex-row gap-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept=".pdf,.doc,.docx,.txt,.zip"
+            onChange={(e) => setSelectedFiles(Array.from(e.target.files || []))}
+            className="flex-1 text-sm file:mr-3 file:rounded-md file:border-0 file:bg-muted file:px-3 file:py-2"
+            data-testid="input-bulk-resumes"
+          />
+          <Select value={roleId} onValueChange={setRoleId}>
+            <SelectTrigger className="lg:w-64" data-testid="select-bulk-role">
+              <SelectValue placeholder="Screen against a role" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_ROLE}>Don't screen</SelectItem>
+              {activeRoles.map((role) => (
+                <SelectItem key={role.id} value={role.id}>
+                  Screen for {role.jobTitle}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => uploadMutation.mutate()}
+            disabled={selectedFiles.length === 0 || uploadMutation.isPending}
+            data-testid="button-bulk-upload"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {uploadMutation.isPending ? "Uploading..." : `Upload ${selectedFiles.length || ""}`.trim()}
+          </Button>
+        </div>
+
+        {imports.length > 0 && (
+          <div className="space-y-4">
+            {imports.map((resumeImport) => {
+              const { progress } = resumeImport;
+              const done = progress.created + progress.duplicate + progress.failed;
+              const isProcessing = resumeImport.status === "processing";
+              const isExpanded = expandedImportId === resumeImport.id;
+
+              return (
+                <div key={resumeImport.id} className="rounded-lg border p-4 space-y-3" data-testid={`import-${resumeImport.id}`}>
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="text-sm font-medium">
+                      {new Date(resumeImport.createdAt).toLocaleString("en-ZA")} &middot; {done} of {progress.total} processed
+                    </p>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="secondary">{progress.created} added</Badge>
+                      {progress.duplicate > 0 && <Badge variant="outline">{progress.duplicate} already in pool</Badge>}
+                      {progress.failed > 0 && <Badge variant="destructive">{progress.failed} failed</Badge>}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setExpandedImportId(isExpanded ? null : resumeImport.id)}
+                        data-testid={`button-toggle-import-${resumeImport.id}`}
+                      >
+                        {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                      </Button>
+                    </div>
+                  </div>
+                  {isProcessing && <Progress value={progress.total ? (done / progress.total) * 100 : 0} />}
+                  {isExpanded && <ImportFiles importId={resumeImport.id} isProcessing={isProcessing} />}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,110 @@
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { MapPin, Sparkles } from "lucide-react";
+import type { Candidate } from "@shared/schema";
+
+interface CandidateSearchResult {
+  candidate: Candidate;
+  relevance: number;
+  matchedSkills: string[];
+  scores: {
+    semantic: number | null;
+    keyword: number;
+    location: number;
+  };
+}
+
+interface CandidateSearchResponse {
+  success: boolean;
+  query: string;
+  semantic: boolean;
+  count: number;
+  results: CandidateSearchResult[];
+}
+
+/**
+ * Talent pool results for a natural-language search, most relevant first
+ */
+export function CandidateSearchResults({ query }: { query: string }) {
+  const { data, isLoading } = useQuery<CandidateSearchResponse>({
+    queryKey: [`/api/ats/candidates/search?q=${encodeURIComponent(query)}`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="grid gap-4">
+        {[1, 2, 3].map((i) => (
+          <Card key={i}>
+            <CardContent className="p-6">
+              <div className="animate-pulse space-y-3">
+                <div className="h-6 bg-muted rounded w-1/3"></div>
+                <div className="h-4 bg-muted rounded w-1/2"></div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  const results = data?.results || [];
+
+  return (
+    <div className="space-y-4">
+      <p className="flex items-center gap-1.5 text-sm text-muted-foreground" data-testid="text-search-mode">
+        <Sparkles className="w-4 h-4" />
+        {data?.semantic
+          ? `${results.length} candidates ranked by relevance to "${query}"`
+          : `${results.length} keyword matches for "${query}" (semantic search is unavailable)`}
+      </p>
+
+      {results.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <h3 className="text-lg font-semibold mb-1">No matching candidates</h3>
+            <p className="text-muted-foreground">Try describing the role, skills or location differently</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {results.map(({ candidate, relevance, matchedSkills }) => (
+            <Link key={candidate.id} href={`/candidates/${candidate.id}`}>
+              <Card className="hover-elevate" data-testid={`card-search-result-${candidate.id}`}>
+                <CardContent className="p-6 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <h3 className="text-lg font-semibold">{candidate.fullName || "Unnamed Candidate"}</h3>
+                      {candidate.headline && (
+                        <p className="text-sm text-muted-foreground">{candidate.headline}</p>
+                      )}
+                    </div>
+                    <Badge variant="secondary" className="shrink-0" data-testid={`badge-relevance-${candidate.id}`}>
+                      {relevance}% match
+                    </Badge>
+                  </div>
+                  {(candidate.city || candidate.country) && (
+                    <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                      <MapPin className="w-3.5 h-3.5" />
+                      <span>{[candidate.city, candidate.country].filter(Boolean).join(", ")}</span>
+                    </div>
+                  )}
+                  {matchedSkills.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {matchedSkills.map((skill) => (
+                        <Badge key={skill} variant="outline">
+                          {skill}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Share2, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface CandidateShare {
+  clientId: string;
+  clientName: string;
+  sharedAt: string;
+}
+
+interface CandidateSharesCardProps {
+  candidateId: string;
+  shares: CandidateShare[];
+}
+
+/**
+ * Which of the agency's corporate clients can see this candidate
+ */
+export function CandidateSharesCard({ candidateId, shares }: CandidateSharesCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedClientId, setSelectedClientId] = useState("");
+
+  const { data: clientsData } = useQuery<{ success: boolean; clients: Array<{ id: string; name: string }> }>({
+    queryKey: ["/api/recruiter/clients"],
+  });
+
+  const sharedClientIds = new Set(shares.map((share) => share.clientId));
+  const availableClients = (clientsData?.clients || []).filter((client) => !sharedClientIds.has(client.id));
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/ats/candidates/${candidateId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/recruiter/clients"] });
+  };
+
+  const shareMutation = useMutation({
+    mutationFn: async (clientId: string) => {
+      const response = await apiRequest("POST", `/api/ats/candidates/${candidateId}/shares`, { clientId });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Candidate shared with client" });
+      setSelectedClientId("");
+      invalidate();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to share candidate. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unshareMutation = useMutation({
+    mutationFn: async (clientId: string) => {
+      const response = await apiRequest("DELETE", `/api/ats/candidates/${candidateId}/shares/${clientId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Candidate is no longer shared with this client" });
+      invalidate();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to stop sharing candidate. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid="card-candidate-shares">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-white-brand">
+          <Share2 className="w-5 h-5 text-amber" />
+          Shared with Clients
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-slate">
+          This candidate is private to your organization. Share them with a corporate client to include them in that
+          client's candidate list.
+        </p>
+
+        {shares.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {shares.map((share) => (
+              <Badge
+                key={share.clientId}
+                variant="outline"
+                className="gap-1 border-amber text-amber"
+                data-testid={`badge-share-${share.clientId}`}
+              >
+                {share.clientName}
+                <button
+                  type="button"
+                  onClick={() => unshareMutation.mutate(share.clientId)}
+                  disabled={unshareMutation.isPending}
+                  aria-label={`Stop sharing with ${share.clientName}`}
+                  data-testid={`button-unshare-${share.clientId}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {availableClients.length > 0 && (
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Select value={selectedClientId} onValueChange={setSelectedClientId}>
+              <SelectTrigger className="sm:w-64" data-testid="select-share-client">
+                <SelectValue placeholder="Choose a client" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableClients.map((client) => (
+                  <SelectItem key={client.id} value={client.id}>
+                    {client.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => shareMutation.mutate(selectedClientId)}
+              disabled={!selectedClientId || shareMutation.isPending}
+              data-testid="button-share-candidate"
+            >
+              {shareMutation.isPending ? "Sharing..." : "Share"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Copy, Mail, Phone } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Candidate } from "@shared/schema";
+
+interface DuplicatePair {
+  id: string;
+  score: number;
+  reasons: string[];
+  candidate: Candidate;
+  duplicateOf: Candidate;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  email: "Same email",
+  phone: "Same phone",
+  name: "Same name",
+  similar_name: "Similar name",
+  profile: "Similar CV",
+};
+
+function CandidateSummary({ candidate }: { candidate: Candidate }) {
+  return (
+    <div className="space-y-1 text-sm min-w-0">
+      <p className="font-semibold truncate">{candidate.fullName || "Unnamed Candidate"}</p>
+      {candidate.headline && <p className="text-muted-foreground truncate">{candidate.headline}</p>}
+      {candidate.email && (
+        <p className="flex items-center gap-1.5 text-muted-foreground truncate">
+          <Mail className="w-3.5 h-3.5 shrink-0" />
+          {candidate.email}
+        </p>
+      )}
+      {candidate.phone && (
+        <p className="flex items-center gap-1.5 text-muted-foreground">
+          <Phone className="w-3.5 h-3.5 shrink-0" />
+          {candidate.phone}
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Added {new Date(candidate.createdAt).toLocaleDateString("en-ZA")}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Possible duplicate candidates flagged on ingest, with merge and dismiss actions
+ */
+export function DuplicateCandidatesCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [pendingMerge, setPendingMerge] = useState<{ survivor: Candidate; merged: Candidate } | null>(null);
+
+  const { data } = useQuery<{ success: boolean; count: number; duplicates: DuplicatePair[] }>({
+    queryKey: ["/api/ats/duplicates"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/ats/duplicates"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/ats/candidates"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/ats/stats"] });
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ survivorId, mergeCandidateId }: { survivorId: string; mergeCandidateId: string }) => {
+      const response = await apiRequest("POST", `/api/ats/candidates/${survivorId}/merge`, { mergeCandidateId });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Candidates merged" });
+      setPendingMerge(null);
+      invalidate();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to merge candidates. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (duplicateId: string) => {
+      const response = await apiRequest("POST", `/api/ats/duplicates/${duplicateId}/dismiss`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to dismiss. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const duplicates = data?.duplicates || [];
+  if (duplicates.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-8" data-testid="card-duplicate-candidates">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Copy className="h-5 w-5" />
+          Possible Duplicates ({duplicates.length})
+        </CardTitle>
+        <CardDescription>
+          These candidates look like the same person. Merging keeps both resumes and all screenings.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {duplicates.map((pair) => (
+          <div key={pair.id} className="rounded-lg border p-4 space-y-4" data-testid={`duplicate-pair-${pair.id}`}>
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="secondary">{pair.score}% match</Badge>
+              {pair.reasons.map((reason) => (
+                <Badge key={reason} variant="outline">
+                  {REASON_LABELS[reason] || reason}
+                </Badge>
+              ))}
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              {[pair.duplicateOf, pair.candidate].map((candidate, index) => {
+                const other = index === 0 ? pair.candidate : pair.duplicateOf;
+                return (
+                  <div key={candidate.id} className="flex flex-col justify-between gap-3 rounded-md bg-muted/40 p-3">
+                    <CandidateSummary candidate={candidate} />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setPendingMerge({ survivor: candidate, merged: other })}
+                      data-testid={`button-keep-${candidate.id}`}
+                    >
+                      Keep this record
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => dismissMutation.mutate(pair.id)}
+              disabled={dismissMutation.isPending}
+              data-testid={`button-dismiss-duplicate-${pair.id}`}
+            >
+              Not a duplicate
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+
+      <AlertDialog open={!!pendingMerge} onOpenChange={(open) => !open && setPendingMerge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge candidates?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingMerge && (
+                <>
+                  {pendingMerge.merged.fullName || "The other record"}'s experience, education, skills, resumes and
+                  screenings will be moved to {pendingMerge.survivor.fullName || "the kept record"}, and the other
+                  record will be deleted. This can't be undone.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingMerge && mergeMutation.mutate({
+                survivorId: pendingMerge.survivor.id,
+                mergeCandidateId: pendingMerge.merged.id,
+              })}
+              disabled={mergeMutation.isPending}
+              data-testid="button-confirm-merge"
+            >
+              {mergeMutation.isPending ? "Merging..." : "Merge"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,200 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Calendar, Download, Mail, Phone, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  JOB_APPLICATION_STATUSES,
+  type ApplicationAttachment,
+  type CV,
+  type JobApplication,
+} from "@shared/schema";
+
+interface Applicant extends Omit<JobApplication, "attachments"> {
+  attachments: ApplicationAttachment[] | null;
+  applicant: { id: string; email: string | null; firstName: string | null; lastName: string | null } | null;
+  cv: CV | null;
+  identityWithheld: boolean; // Blind screening, until moved past the reveal stage
+}
+
+interface JobApplicantsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobId: string | null;
+  jobTitle?: string;
+}
+
+export function JobApplicantsDialog({ open, onOpenChange, jobId, jobTitle }: JobApplicantsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<{ success: boolean; count: number; applications: Applicant[] }>({
+    queryKey: [`/api/jobs/${jobId}/applications`],
+    enabled: open && !!jobId,
+  });
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: string }) => {
+      const response = await apiRequest("PATCH", `/api/applications/${id}/status`, { status });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/applications`] });
+      toast({
+        title: "Status updated",
+        description: "The candidate will see the new status on their Applications page.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update application status.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const applications = data?.applications || [];
+
+  const applicantName = (application: Applicant) => {
+    const personalInfo = application.cv?.personalInfo as any;
+    if (personalInfo?.fullName) return personalInfo.fullName;
+    const name = [application.applicant?.firstName, application.applicant?.lastName].filter(Boolean).join(" ");
+    return name || application.applicant?.email || "Unknown applicant";
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Applicants{jobTitle ? ` — ${jobTitle}` : ""}</DialogTitle>
+          <DialogDescription>
+            {applications.length} application{applications.length !== 1 ? "s" : ""} received via SebenzaHub
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="h-[70vh] pr-4">
+          {isLoading ? (
+            <p className="text-center text-muted-foreground py-12">Loading applicants...</p>
+          ) : applications.length === 0 ? (
+            <div className="py-12 text-center">
+              <Users className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No applications yet.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {applications.map((application) => {
+                const personalInfo = application.cv?.personalInfo as any;
+                const cvSkills = (application.cv?.skills as string[] | undefined) || [];
+
+                return (
+                  <Card key={application.id} data-testid={`card-applicant-${application.id}`}>
+                    <CardHeader className="pb-3">
+                      <div className="flex flex-wrap items-start justify-between gap-3">
+                        <div className="space-y-1">
+                          <CardTitle className="text-lg">{applicantName(application)}</CardTitle>
+                          <div className="flex flex-wrap gap-3 text-sm text-muted-foreground">
+                            {(personalInfo?.contactEmail || application.applicant?.email) && (
+                              <span className="flex items-center gap-1">
+                                <Mail className="h-3 w-3" />
+                                {personalInfo?.contactEmail || application.applicant?.email}
+                              </span>
+                            )}
+                            {personalInfo?.contactPhone && (
+                              <span className="flex items-center gap-1">
+                                <Phone className="h-3 w-3" />
+                                {personalInfo.contactPhone}
+                              </span>
+                            )}
+                            <span className="flex items-center gap-1">
+                              <Calendar className="h-3 w-3" />
+                              {new Date(application.appliedAt).toLocaleDateString("en-ZA")}
+                            </span>
+                            {application.identityWithheld && (
+                              <Badge variant="secondary" data-testid={`badge-blind-${application.id}`}>
+                                Identity withheld
+                              </Badge>
+                            )}
+                            {application.pipelineStage && (
+                              <Badge variant="outline" data-testid={`badge-stage-${application.id}`}>
+                                {application.pipelineStage}
+                              </Badge>
+                            )}
+                          </div>
+                        </div>
+                        <Select
+                          value={application.status}
+                          onValueChange={(status) => updateStatusMutation.mutate({ id: application.id, status })}
+                          disabled={updateStatusMutation.isPending}
+                        >
+                          <SelectTrigger className="w-[140px] h-9" data-testid={`select-applicant-status-${application.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {JOB_APPLICATION_STATUSES.map((status) => (
+                              <SelectItem key={status} value={status}>{status}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {application.cv && (
+                        <div className="flex flex-wrap items-center gap-2">
+                          {application.cv.referenceNumber && (
+                            <Badge variant="outline" className="font-mono text-xs">{application.cv.referenceNumber}</Badge>
+                          )}
+                          {cvSkills.map((skill) => (
+                            <Badge key={skill} variant="secondary">{skill}</Badge>
+                          ))}
+                        </div>
+                      )}
+
+                      {application.coverLetter && (
+                        <div className="rounded-md bg-muted p-3">
+                          <p className="text-xs font-medium mb-1">Cover Letter</p>
+                          <p className="text-sm whitespace-pre-line">{application.coverLetter}</p>
+                        </div>
+                      )}
+
+                      {application.attachments && application.attachments.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {application.attachments.map((attachment) => (
+                            <a
+                              key={attachment.fileName}
+                              href={`/api/applications/${application.id}/attachments/${attachment.fileName}`}
+                              className="inline-flex items-center gap-1 rounded-md border px-2 py-1 text-sm hover-elevate"
+                              data-testid={`link-attachment-${attachment.fileName}`}
+                            >
+                              <Download className="h-3 w-3" />
+                              {attachment.type}: {attachment.originalName}
+                            </a>
+                          ))}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { EyeOff, GripVertical, History, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ApplicationStageTransition, CV, JobApplication } from "@shared/schema";
+
+interface PipelineApplication extends JobApplication {
+  applicant: { id: string; email: string | null; firstName: string | null; lastName: string | null } | null;
+  cv: CV | null;
+  identityWithheld: boolean; // Blind screening, until moved past the reveal stage
+}
+
+interface PipelineData {
+  success: boolean;
+  count: number;
+  stages: string[];
+  applications: PipelineApplication[];
+}
+
+interface TransitionWithActor extends ApplicationStageTransition {
+  actor: { id: string; email: string; firstName: string | null; lastName: string | null } | null;
+}
+
+interface JobPipelineBoardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobId: string | null;
+  jobTitle?: string;
+}
+
+const displayName = (person: { email: string | null; firstName: string | null; lastName: string | null } | null) => {
+  if (!person) return "Unknown";
+  const name = [person.firstName, person.lastName].filter(Boolean).join(" ");
+  return name || person.email || "Unknown";
+};
+
+function TransitionHistory({ applicationId }: { applicationId: string }) {
+  const { data, isLoading } = useQuery<{ success: boolean; transitions: TransitionWithActor[] }>({
+    queryKey: [`/api/applications/${applicationId}/transitions`],
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading history...</p>;
+  }
+
+  const transitions = data?.transitions || [];
+  if (transitions.length === 0) {
+    return <p className="text-xs text-muted-foreground">No moves yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {transitions.map((t) => (
+        <li key={t.id} className="text-xs text-muted-foreground" data-testid={`transition-${t.id}`}>
+          <span className="font-medium text-foreground">
+            {t.fromStage === t.toStage ? `${t.toStage}: ${t.fromStatus} → ${t.toStatus}` : `${t.fromStage ?? "—"} → ${t.toStage}`}
+          </span>
+          {" · "}
+          {displayName(t.actor)} · {new Date(t.createdAt).toLocaleString("en-ZA")}
+          {t.note && <span className="block italic">{t.note}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function JobPipelineBoard({ open, onOpenChange, jobId, jobTitle }: JobPipelineBoardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  const queryKey = [`/api/jobs/${jobId}/applications`];
+
+  const { data, isLoading } = useQuery<PipelineData>({
+    queryKey,
+    enabled: open && !!jobId,
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ id, stage }: { id: string; stage: string }) => {
+      const response = await apiRequest("POST", `/api/applications/${id}/stage`, { stage });
+      return response.json();
+    },
+    onMutate: async ({ id, stage }) => {
+      // Move the card immediately; the server response reconciles the status
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<PipelineData>(queryKey);
+      if (previous) {
+        queryClient.setQueryData<PipelineData>(queryKey, {
+          ...previous,
+          applications: previous.applications.map((a) => (a.id === id ? { ...a, pipelineStage: stage } : a)),
+        });
+      }
+      return { previous };
+    },
+    onError: (error: Error, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+      toast({
+        title: "Move failed",
+        description: error.message.replace(/^\d+:\s*/, ""),
+        variant: "destructive",
+      });
+    },
+    onSettled: (_data, _error, { id }) => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: [`/api/applications/${id}/transitions`] });
+    },
+  });
+
+  const stages = data?.stages || [];
+  const applications = data?.applications || [];
+
+  const handleDrop = (stage: string) => {
+    setDropTarget(null);
+    if (!draggingId) return;
+    const application = applications.find((a) => a.id === draggingId);
+    setDraggingId(null);
+    if (!application || application.pipelineStage === stage) return;
+    moveMutation.mutate({ id: application.id, stage });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-7xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Pipeline{jobTitle ? ` — ${jobTitle}` : ""}</DialogTitle>
+          <DialogDescription>
+            Drag applicants between stages. Every move is recorded and updates the candidate's application status.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-center text-muted-foreground py-12">Loading pipeline...</p>
+        ) : applications.length === 0 ? (
+          <div className="py-12 text-center">
+            <Users className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No applications yet.</p>
+          </div>
+        ) : (
+          <ScrollArea className="w-full">
+            <div className="flex gap-4 pb-4" style={{ minHeight: "60vh" }}>
+              {stages.map((stage) => {
+                const stageApplications = applications.filter((a) => a.pipelineStage === stage);
+                return (
+                  <div
+                    key={stage}
+                    className={`w-72 shrink-0 rounded-md border bg-muted/40 p-3 ${dropTarget === stage ? "ring-2 ring-primary" : ""}`}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDropTarget(stage);
+                    }}
+                    onDragLeave={() => setDropTarget((current) => (current === stage ? null : current))}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleDrop(stage);
+                    }}
+                    data-testid={`pipeline-column-${stage}`}
+                  >
+                    <div className="mb-3 flex items-center justify-between">
+                      <h3 className="text-sm font-semibold">{stage}</h3>
+                      <Badge variant="secondary">{stageApplications.length}</Badge>
+                    </div>
+                    <div className="space-y-2">
+                      {stageApplications.map((application) => {
+                        const personalInfo = application.cv?.personalInfo as any;
+                        return (
+                          <Card
+                            key={application.id}
+                            draggable
+                            onDragStart={(e) => {
+                              e.dataTransfer.effectAllowed = "move";
+                              setDraggingId(application.id);
+                            }}
+                            onDragEnd={() => setDraggingId(null)}
+                            className={`cursor-grab active:cursor-grabbing ${draggingId === application.id ? "opacity-50" : ""}`}
+                            data-testid={`pipeline-card-${application.id}`}
+                          >
+                            <CardContent className="p-3 space-y-2">
+                              <div className="flex items-start gap-2">
+                                <GripVertical className="h-4 w-4 shrink-0 text-muted-foreground mt-0.5" />
+                                <div className="min-w-0 flex-1">
+                                  <p className="text-sm font-medium truncate flex items-center gap-1">
+                                    {application.identityWithheld && (
+                                      <EyeOff className="h-3 w-3 shrink-0 text-muted-foreground" aria-label="Identity withheld" />
+                                    )}
+                                    {personalInfo?.fullName || displayName(application.applicant)}
+                                  </p>
+                                  <p className="text-xs text-muted-foreground">
+                                    Applied {new Date(application.appliedAt).toLocaleDateString("en-ZA")}
+                                  </p>
+                                </div>
+                                <Badge variant="outline" className="text-xs">{application.status}</Badge>
+                              </div>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-6 px-2 text-xs"
+                                onClick={() => setHistoryId(historyId === application.id ? null : application.id)}
+                                data-testid={`button-history-${application.id}`}
+                              >
+                                <History className="mr-1 h-3 w-3" />
+                                History
+                              </Button>
+                              {historyId === application.id && <TransitionHistory applicationId={application.id} />}
+                            </CardContent>
+                          </Card>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <ScrollBar orientation="horizontal" />
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { KnockoutRule, KnockoutRuleField, KnockoutRuleOperator } from "@shared/schema";
+
+const FIELD_LABELS: Record<KnockoutRuleField, string> = {
+  work_authorization: "Work authorization",
+  city: "City",
+  country: "Country",
+  availability: "Availability",
+  skills: "Skills",
+  certifications: "Certifications",
+  qualifications: "Qualifications",
+  years_experience: "Years of experience",
+  salary_expectation: "Salary expectation",
+};
+
+const OPERATOR_LABELS: Record<KnockoutRuleOperator, string> = {
+  equals: "is",
+  not_equals: "is not",
+  contains: "includes",
+  not_contains: "does not include",
+  one_of: "is one of",
+  gte: "is at least",
+  lte: "is at most",
+  exists: "is provided",
+};
+
+const NUMERIC_FIELDS: KnockoutRuleField[] = ["years_experience", "salary_expectation"];
+const TEXT_OPERATORS: KnockoutRuleOperator[] = ["contains", "not_contains", "equals", "not_equals", "one_of", "exists"];
+const NUMERIC_OPERATORS: KnockoutRuleOperator[] = ["gte", "lte", "equals", "not_equals", "exists"];
+
+function describeRule(rule: KnockoutRule): string {
+  if (rule.label) return rule.label;
+  const value = rule.operator === "exists"
+    ? ""
+    : ` ${Array.isArray(rule.value) ? rule.value.join(", ") : rule.value}`;
+  return `${FIELD_LABELS[rule.field]} ${OPERATOR_LABELS[rule.operator]}${value}`;
+}
+
+interface KnockoutRulesEditorProps {
+  value: KnockoutRule[];
+  onChange: (rules: KnockoutRule[]) => void;
+}
+
+/**
+ * Builds a role's structured knockout rules (field, operator, value)
+ */
+export function KnockoutRulesEditor({ value, onChange }: KnockoutRulesEditorProps) {
+  const [field, setField] = useState<KnockoutRuleField>("certifications");
+  const [operator, setOperator] = useState<KnockoutRuleOperator>("contains");
+  const [ruleValue, setRuleValue] = useState("");
+  const [label, setLabel] = useState("");
+
+  const isNumeric = NUMERIC_FIELDS.includes(field);
+  const operators = isNumeric ? NUMERIC_OPERATORS : TEXT_OPERATORS;
+
+  const changeField = (next: KnockoutRuleField) => {
+    setField(next);
+    setOperator(NUMERIC_FIELDS.includes(next) ? "gte" : "contains");
+  };
+
+  const buildRule = (): KnockoutRule | null => {
+    const rule: KnockoutRule = { field, operator, ...(label.trim() ? { label: label.trim() } : {}) };
+    if (operator === "exists") return rule;
+
+    if (isNumeric) {
+      const number = Number(ruleValue);
+      return ruleValue.trim() && Number.isFinite(number) ? { ...rule, value: number } : null;
+    }
+    if (operator === "one_of") {
+      const values = ruleValue.split(",").map((item) => item.trim()).filter(Boolean);
+      return values.length > 0 ? { ...rule, value: values } : null;
+    }
+    return ruleValue.trim() ? { ...rule, value: ruleValue.trim() } : null;
+  };
+
+  const newRule = buildRule();
+
+  const addRule = () => {
+    if (!newRule) return;
+    onChange([...value, newRule]);
+    setRuleValue("");
+    setLabel("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        <Select value={field} onValueChange={(next) => changeField(next as KnockoutRuleField)}>
+          <SelectTrigger data-testid="select-knockout-rule-field">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(FIELD_LABELS) as KnockoutRuleField[]).map((key) => (
+              <SelectItem key={key} value={key}>{FIELD_LABELS[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={operator} onValueChange={(next) => setOperator(next as KnockoutRuleOperator)}>
+          <SelectTrigger data-testid="select-knockout-rule-operator">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {operators.map((key) => (
+              <SelectItem key={key} value={key}>{OPERATOR_LABELS[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {operator !== "exists" && (
+          <Input
+            type={isNumeric ? "number" : "text"}
+            value={ruleValue}
+            onChange={(e) => setRuleValue(e.target.value)}
+            placeholder={operator === "one_of" ? "Comma-separated values" : isNumeric ? "e.g., 3" : "e.g., Code 10"}
+            data-testid="input-knockout-rule-value"
+          />
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Optional label, e.g., Must have a Code 10 licence"
+          data-testid="input-knockout-rule-label"
+        />
+        <Button type="button" variant="outline" onClick={addRule} disabled={!newRule} data-testid="button-add-knockout-rule">
+          Add Rule
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {value.map((rule, idx) => (
+          <Badge key={idx} variant="destructive" data-testid={`badge-knockout-rule-${idx}`}>
+            {describeRule(rule)}
+            <button
+              type="button"
+              className="ml-2 hover:text-destructive-foreground/70"
+              onClick={() => onChange(value.filter((_, i) => i !== idx))}
+            >
+              ×
+            </button>
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
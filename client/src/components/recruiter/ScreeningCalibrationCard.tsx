@@ -0,0 +1,173 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Scale } from "lucide-react";
+
+interface CalibrationReport {
+  screened: number;
+  overridden: number;
+  scores: {
+    overrides: number;
+    meanDelta: number | null;
+    meanAbsoluteDelta: number | null;
+    raised: number;
+    lowered: number;
+  };
+  knockouts: {
+    overrides: number;
+    aiKnockoutsOverturned: number;
+    addedByRecruiters: number;
+    reasons: Array<{ reason: string; triggered: number; overturned: number }>;
+  };
+  dimensions: Array<{
+    dimension: string;
+    currentWeight: number;
+    correlation: number | null;
+    suggestedWeight: number | null;
+  }>;
+  divergences: Array<{
+    screeningId: string;
+    candidateName: string | null;
+    aiScore: number | null;
+    recruiterScore: number | null;
+    aiKnockout: boolean;
+    recruiterKnockout: boolean | null;
+    reason: string | null;
+  }>;
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-md border p-3">
+      <div className="text-2xl font-bold text-amber">{value}</div>
+      <div className="text-xs text-slate">{label}</div>
+    </div>
+  );
+}
+
+/**
+ * Where recruiters disagree with the AI for a role, to guide tuning its weights and knockouts
+ */
+export function ScreeningCalibrationCard({ roleId }: { roleId: string }) {
+  const { data, isLoading } = useQuery<{ success: boolean; report: CalibrationReport }>({
+    queryKey: [`/api/roles/${roleId}/calibration`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const report = data?.report;
+
+  if (!report || report.overridden === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <Scale className="w-12 h-12 text-amber mb-4" />
+          <h3 className="text-lg font-semibold mb-2 text-white-brand">No overrides yet</h3>
+          <p className="text-slate text-center">
+            Override screening results you disagree with to see how recruiters and the AI compare
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const meanDelta = report.scores.meanDelta;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-white-brand">Recruiters vs AI</CardTitle>
+          <CardDescription className="text-slate">
+            {report.overridden} of {report.screened} screenings overridden
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <Stat
+            label="Average score change"
+            value={meanDelta === null ? "-" : `${meanDelta > 0 ? "+" : ""}${meanDelta}`}
+          />
+          <Stat label="Average gap" value={report.scores.meanAbsoluteDelta ?? "-"} />
+          <Stat label="AI knockouts overturned" value={report.knockouts.aiKnockoutsOverturned} />
+          <Stat label="Knockouts added by recruiters" value={report.knockouts.addedByRecruiters} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-white-brand">Score Weights</CardTitle>
+          <CardDescription className="text-slate">
+            Suggested weights follow how closely each AI dimension tracks recruiter scores
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2 text-sm">
+            {report.dimensions.map((dimension) => (
+              <div key={dimension.dimension} className="flex items-center justify-between" data-testid={`calibration-dimension-${dimension.dimension}`}>
+                <span className="text-slate capitalize">{dimension.dimension.replace("_", " ")}</span>
+                <span className="text-white-brand">
+                  {dimension.currentWeight}%
+                  {dimension.suggestedWeight !== null && dimension.suggestedWeight !== dimension.currentWeight && (
+                    <span className="text-amber"> → {dimension.suggestedWeight}%</span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+          {report.dimensions.every((dimension) => dimension.suggestedWeight === null) && (
+            <p className="text-xs text-slate mt-3">Override more scores to get weight suggestions.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {report.knockouts.reasons.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-white-brand">Knockout Rules</CardTitle>
+            <CardDescription className="text-slate">
+              Knockout reasons the AI gave, and how often recruiters overturned them
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {report.knockouts.reasons.map((reason) => (
+              <div key={reason.reason} className="flex items-center justify-between gap-4">
+                <span className="text-white-brand">{reason.reason}</span>
+                <Badge variant={reason.overturned > 0 ? "destructive" : "secondary"} className="shrink-0">
+                  {reason.overturned} of {reason.triggered} overturned
+                </Badge>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-white-brand">Biggest Disagreements</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {report.divergences.map((divergence) => (
+            <div key={divergence.screeningId} className="rounded-md border p-3 text-sm" data-testid={`calibration-divergence-${divergence.screeningId}`}>
+              <div className="flex items-center justify-between gap-4">
+                <span className="font-semibold text-white-brand">{divergence.candidateName || "Unnamed Candidate"}</span>
+                <span className="text-slate">
+                  AI {divergence.aiScore ?? "-"}%{divergence.aiKnockout ? " (knockout)" : ""}
+                  {" → "}
+                  Recruiter {divergence.recruiterScore ?? divergence.aiScore ?? "-"}%
+                  {(divergence.recruiterKnockout ?? divergence.aiKnockout) ? " (knockout)" : ""}
+                </span>
+              </div>
+              {divergence.reason && <p className="text-slate mt-1">{divergence.reason}</p>}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+
+const AI_DECISION = "ai";
+
+interface ScreeningOverrideDialogProps {
+  roleId: string;
+  screening: any;
+  candidateName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Lets a recruiter replace the AI score and/or knockout decision, with a reason
+ */
+export function ScreeningOverrideDialog({ roleId, screening, candidateName, open, onOpenChange }: ScreeningOverrideDialogProps) {
+  const { toast } = useToast();
+  const [score, setScore] = useState("");
+  const [knockout, setKnockout] = useState(AI_DECISION);
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setScore(screening.overrideScoreTotal?.toString() ?? "");
+      setKnockout(screening.overrideKnockout === null || screening.overrideKnockout === undefined
+        ? AI_DECISION
+        : screening.overrideKnockout === 1 ? "yes" : "no");
+      setReason(screening.overrideReason ?? "");
+    }
+  }, [open, screening]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/roles/${roleId}/screenings`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/roles/${roleId}/calibration`] });
+  };
+
+  const overrideMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/screenings/${screening.id}/override`, {
+        scoreTotal: score.trim() === "" ? null : Number(score),
+        knockout: knockout === AI_DECISION ? null : knockout === "yes",
+        reason,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      onOpenChange(false);
+      toast({
+        title: "Override saved",
+        description: "The AI result is kept alongside your decision.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Override failed",
+        description: error.message || "Failed to override screening",
+      });
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/screenings/${screening.id}/override`);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      onOpenChange(false);
+      toast({ title: "Override removed" });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to remove override",
+        description: error.message,
+      });
+    },
+  });
+
+  const scoreValue = Number(score);
+  const scoreValid = score.trim() === "" || (Number.isFinite(scoreValue) && scoreValue >= 0 && scoreValue <= 100);
+  const hasDecision = score.trim() !== "" || knockout !== AI_DECISION;
+  const hasOverride = screening.overrideScoreTotal !== null || screening.overrideKnockout !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Override Screening</DialogTitle>
+          <DialogDescription>
+            {candidateName} - AI score {screening.scoreTotal ?? 0}%{screening.knockout?.is_ko ? ", knocked out" : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="override-score">Your score (0-100)</Label>
+            <Input
+              id="override-score"
+              type="number"
+              min={0}
+              max={100}
+              placeholder="Leave blank to keep the AI score"
+              value={score}
+              onChange={(e) => setScore(e.target.value)}
+              data-testid="input-override-score"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Knockout decision</Label>
+            <Select value={knockout} onValueChange={setKnockout}>
+              <SelectTrigger data-testid="select-override-knockout">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AI_DECISION}>Keep the AI decision</SelectItem>
+                <SelectItem value="no">Not a knockout</SelectItem>
+                <SelectItem value="yes">Knockout</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="override-reason">Reason</Label>
+            <Textarea
+              id="override-reason"
+              placeholder="Why do you disagree with the AI?"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-override-reason"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {hasOverride && (
+            <Button
+              variant="outline"
+              onClick={() => clearMutation.mutate()}
+              disabled={clearMutation.isPending}
+              data-testid="button-clear-override"
+            >
+              Remove Override
+            </Button>
+          )}
+          <Button
+            onClick={() => overrideMutation.mutate()}
+            disabled={!scoreValid || !hasDecision || !reason.trim() || overrideMutation.isPending}
+            data-testid="button-save-override"
+          >
+            {overrideMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Override
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
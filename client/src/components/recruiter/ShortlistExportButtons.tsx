@@ -0,0 +1,25 @@
+import { Button } from "@/components/ui/button";
+import { getApiUrl } from "@/lib/queryClient";
+import { Download } from "lucide-react";
+
+/**
+ * Download links for a ranked shortlist export endpoint
+ */
+export function ShortlistExportButtons({ exportPath }: { exportPath: string }) {
+  return (
+    <div className="flex gap-2">
+      <Button variant="outline" size="sm" asChild data-testid="button-export-xlsx">
+        <a href={getApiUrl(`${exportPath}?format=xlsx`)} download>
+          <Download className="w-4 h-4 mr-2" />
+          Excel
+        </a>
+      </Button>
+      <Button variant="outline" size="sm" asChild data-testid="button-export-csv">
+        <a href={getApiUrl(`${exportPath}?format=csv`)} download>
+          <Download className="w-4 h-4 mr-2" />
+          CSV
+        </a>
+      </Button>
+    </div>
+  );
+}
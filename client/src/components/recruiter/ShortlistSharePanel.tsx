@@ -0,0 +1,271 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Copy, Link2, Loader2, Share2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface ShortlistShareSummary {
+  id: string;
+  recipientName: string;
+  recipientEmail: string | null;
+  candidateIds: string[];
+  expiresAt: string;
+  lastViewedAt: string | null;
+  url: string;
+  status: "active" | "expired" | "revoked";
+}
+
+const STATUS_VARIANTS: Record<ShortlistShareSummary["status"], "default" | "secondary" | "destructive"> = {
+  active: "default",
+  expired: "secondary",
+  revoked: "destructive",
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-ZA", { year: "numeric", month: "short", day: "numeric" });
+
+/**
+ * Expiring shortlist links for hiring managers and clients without an account
+ */
+export function ShortlistSharePanel({ roleId }: { roleId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [recipientName, setRecipientName] = useState("");
+  const [recipientEmail, setRecipientEmail] = useState("");
+  const [message, setMessage] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState("14");
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+
+  const sharesKey = [`/api/roles/${roleId}/shortlist-shares`];
+
+  const { data: sharesData } = useQuery<{ shares: ShortlistShareSummary[] }>({
+    queryKey: sharesKey,
+  });
+  const shares = sharesData?.shares || [];
+
+  const resetForm = () => {
+    setRecipientName("");
+    setRecipientEmail("");
+    setMessage("");
+    setExpiresInDays("14");
+    setCreatedUrl(null);
+  };
+
+  const copyLink = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: "Link copied" });
+  };
+
+  const shareMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/roles/${roleId}/shortlist-shares`, {
+        recipientName,
+        recipientEmail,
+        message,
+        expiresInDays: Number(expiresInDays),
+      });
+      return response.json();
+    },
+    onSuccess: (data: { url: string }) => {
+      setCreatedUrl(data.url);
+      queryClient.invalidateQueries({ queryKey: sharesKey });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't share shortlist",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (shareId: string) => {
+      const response = await apiRequest("DELETE", `/api/shortlist-shares/${shareId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Link revoked" });
+      queryClient.invalidateQueries({ queryKey: sharesKey });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to revoke link. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid="card-shortlist-shares">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-white-brand">
+            <Share2 className="w-5 h-5 text-amber" />
+            Client Shortlist Links
+          </CardTitle>
+          <CardDescription className="text-slate">
+            Share the top candidates with a hiring manager. They can mark each one Yes, No or Maybe without signing in.
+          </CardDescription>
+        </div>
+        <Button
+          size="sm"
+          onClick={() => {
+            resetForm();
+            setOpen(true);
+          }}
+          data-testid="button-share-shortlist"
+        >
+          <Link2 className="w-4 h-4 mr-2" />
+          Share Shortlist
+        </Button>
+      </CardHeader>
+      {shares.length > 0 && (
+        <CardContent className="space-y-2">
+          {shares.map((share) => (
+            <div
+              key={share.id}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3 text-sm"
+              data-testid={`row-shortlist-share-${share.id}`}
+            >
+              <div>
+                <div className="font-medium text-white-brand">
+                  {share.recipientName}
+                  <Badge variant={STATUS_VARIANTS[share.status]} className="ml-2 capitalize">
+                    {share.status}
+                  </Badge>
+                </div>
+                <div className="text-slate">
+                  {share.candidateIds.length} candidate(s) · expires {formatDate(share.expiresAt)}
+                  {share.lastViewedAt ? ` · last viewed ${formatDate(share.lastViewedAt)}` : " · not viewed yet"}
+                </div>
+              </div>
+              {share.status === "active" && (
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => copyLink(share.url)}
+                    data-testid={`button-copy-share-${share.id}`}
+                  >
+                    <Copy className="w-4 h-4 mr-2" />
+                    Copy Link
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(share.id)}
+                    disabled={revokeMutation.isPending}
+                    data-testid={`button-revoke-share-${share.id}`}
+                  >
+                    Revoke
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Share Shortlist</DialogTitle>
+            <DialogDescription>
+              The link shows the top-ranked candidates who weren't knocked out. Contact details follow your
+              organization's redaction setting.
+            </DialogDescription>
+          </DialogHeader>
+
+          {createdUrl ? (
+            <div className="space-y-3">
+              <Label>Shortlist link</Label>
+              <div className="flex gap-2">
+                <Input value={createdUrl} readOnly data-testid="input-shortlist-url" />
+                <Button variant="outline" onClick={() => copyLink(createdUrl)} data-testid="button-copy-shortlist-url">
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="shortlist-recipient-name">Recipient name</Label>
+                <Input
+                  id="shortlist-recipient-name"
+                  value={recipientName}
+                  onChange={(e) => setRecipientName(e.target.value)}
+                  placeholder="e.g. Thandi Nkosi"
+                  data-testid="input-recipient-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shortlist-recipient-email">Recipient email (optional)</Label>
+                <Input
+                  id="shortlist-recipient-email"
+                  type="email"
+                  value={recipientEmail}
+                  onChange={(e) => setRecipientEmail(e.target.value)}
+                  data-testid="input-recipient-email"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shortlist-message">Message (optional)</Label>
+                <Textarea
+                  id="shortlist-message"
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  rows={3}
+                  data-testid="input-shortlist-message"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shortlist-expiry">Link expires after (days)</Label>
+                <Input
+                  id="shortlist-expiry"
+                  type="number"
+                  min={1}
+                  max={90}
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(e.target.value)}
+                  data-testid="input-shortlist-expiry"
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {createdUrl ? (
+              <Button onClick={() => setOpen(false)}>Done</Button>
+            ) : (
+              <Button
+                onClick={() => shareMutation.mutate()}
+                disabled={!recipientName.trim() || shareMutation.isPending}
+                data-testid="button-create-shortlist-link"
+              >
+                {shareMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Create Link
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
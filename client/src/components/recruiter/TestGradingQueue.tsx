@@ -0,0 +1,221 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ClipboardCheck, Loader2, Sparkles } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface GradingQueueEntry {
+  responseId: string;
+  attemptId: string;
+  candidateName: string;
+  submittedAt: string | null;
+  item: {
+    id: string;
+    format: string;
+    stem: string;
+    maxPoints: number;
+    rubric: unknown;
+  };
+  response: unknown;
+  aiSuggestedPoints: number | null;
+  aiJustification: string | null;
+}
+
+// Formats the server can suggest a grade for (see server/services/test-grading)
+const AI_GRADABLE_FORMATS = ["short_answer", "essay", "code", "data_task"];
+
+const formatValue = (value: unknown) =>
+  typeof value === "string" ? value : JSON.stringify(value, null, 2);
+
+function GradingEntry({ testId, entry }: { testId: string; entry: GradingQueueEntry }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [points, setPoints] = useState(entry.aiSuggestedPoints?.toString() ?? "");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (entry.aiSuggestedPoints !== null && points === "") {
+      setPoints(entry.aiSuggestedPoints.toString());
+    }
+  }, [entry.aiSuggestedPoints]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/competency-tests", testId, "grading-queue"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/competency-tests", testId, "attempts"] });
+  };
+
+  const suggestMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/competency-tests/${testId}/responses/${entry.responseId}/suggest-grade`);
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't suggest a grade",
+        description: error.message || "Please grade this response by hand.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const gradeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/competency-tests/${testId}/responses/${entry.responseId}/grade`, {
+        pointsAwarded: Number(points),
+        graderNotes: notes,
+      });
+      return response.json();
+    },
+    onSuccess: (data: { attemptStatus: string }) => {
+      toast({
+        title: "Grade saved",
+        description: data.attemptStatus === "scored"
+          ? `All of ${entry.candidateName}'s answers are graded and the attempt has been scored.`
+          : undefined,
+      });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't save grade",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pointsValue = Number(points);
+  const validPoints = points !== "" && pointsValue >= 0 && pointsValue <= entry.item.maxPoints;
+
+  return (
+    <div className="p-4 border rounded-md space-y-3" data-testid={`grading-entry-${entry.responseId}`}>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="font-medium">{entry.candidateName}</div>
+          {entry.submittedAt && (
+            <div className="text-xs text-muted-foreground">
+              Submitted {new Date(entry.submittedAt).toLocaleString()}
+            </div>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Badge variant="secondary" className="text-xs">{entry.item.format.toUpperCase()}</Badge>
+          <Badge variant="outline" className="text-xs">{entry.item.maxPoints} points</Badge>
+        </div>
+      </div>
+
+      <p className="text-sm font-medium">{entry.item.stem}</p>
+
+      {entry.item.rubric != null && (
+        <div>
+          <div className="text-xs font-medium text-muted-foreground mb-1">Rubric</div>
+          <pre className="text-xs whitespace-pre-wrap bg-muted/50 rounded-md p-2">{formatValue(entry.item.rubric)}</pre>
+        </div>
+      )}
+
+      <div>
+        <div className="text-xs font-medium text-muted-foreground mb-1">Answer</div>
+        <div className="text-sm whitespace-pre-wrap border rounded-md p-3" data-testid={`text-answer-${entry.responseId}`}>
+          {formatValue(entry.response) || "No answer"}
+        </div>
+      </div>
+
+      {entry.aiSuggestedPoints !== null ? (
+        <div className="rounded-md bg-primary/5 border border-primary/20 p-3 text-sm">
+          <div className="flex items-center gap-2 font-medium">
+            <Sparkles className="w-4 h-4 text-primary" />
+            AI suggests {entry.aiSuggestedPoints} / {entry.item.maxPoints}
+          </div>
+          {entry.aiJustification && <p className="mt-1 text-muted-foreground">{entry.aiJustification}</p>}
+        </div>
+      ) : AI_GRADABLE_FORMATS.includes(entry.item.format) && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => suggestMutation.mutate()}
+          disabled={suggestMutation.isPending}
+          data-testid={`button-suggest-grade-${entry.responseId}`}
+        >
+          {suggestMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
+          Suggest Grade
+        </Button>
+      )}
+
+      <div className="grid gap-3 md:grid-cols-[8rem_1fr]">
+        <div className="space-y-1">
+          <Label htmlFor={`points-${entry.responseId}`}>Points</Label>
+          <Input
+            id={`points-${entry.responseId}`}
+            type="number"
+            min={0}
+            max={entry.item.maxPoints}
+            step={0.5}
+            value={points}
+            onChange={(e) => setPoints(e.target.value)}
+            data-testid={`input-points-${entry.responseId}`}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`notes-${entry.responseId}`}>Grader notes (optional)</Label>
+          <Textarea
+            id={`notes-${entry.responseId}`}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+            data-testid={`input-grader-notes-${entry.responseId}`}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          onClick={() => gradeMutation.mutate()}
+          disabled={!validPoints || gradeMutation.isPending}
+          data-testid={`button-save-grade-${entry.responseId}`}
+        >
+          {gradeMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {entry.aiSuggestedPoints !== null && pointsValue === entry.aiSuggestedPoints ? "Accept Suggestion" : "Save Grade"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Open-ended test responses waiting for a grade, with AI suggested scores to accept or adjust
+ */
+export function TestGradingQueue({ testId }: { testId: string }) {
+  const { data } = useQuery<{ success: boolean; queue: GradingQueueEntry[] }>({
+    queryKey: ["/api/competency-tests", testId, "grading-queue"],
+  });
+  const queue = data?.queue || [];
+
+  return (
+    <Card className="mt-6" data-testid="card-grading-queue">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5" />
+          Grading Queue ({queue.length})
+        </CardTitle>
+        <CardDescription>
+          Open-ended answers waiting for a grade. An attempt is scored once all of its answers are graded.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {queue.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing to grade right now.</p>
+        ) : (
+          queue.map((entry) => <GradingEntry key={entry.responseId} testId={testId} entry={entry} />)
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -70,7 +70,7 @@ export function useEntitlements() {
       };
     }
 
-    // METERED - always allowed, billed later
+    // METERED - allowed; overage is billed at period end and the server enforces any spending limit
     return { allowed: true };
   };
 
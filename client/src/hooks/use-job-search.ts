@@ -0,0 +1,56 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { CompleteJob } from "@/types/job";
+import type { JobSearchFacetCounts, JobSearchQuery } from "@shared/schema";
+
+export type JobSearchFilters = Omit<Partial<JobSearchQuery>, "cursor" | "limit">;
+
+export interface JobSearchPage {
+  success: boolean;
+  count: number;
+  total: number;
+  jobs: CompleteJob[];
+  facets: JobSearchFacetCounts;
+  nextCursor: string | null;
+}
+
+/**
+ * Serialize filters for GET /api/jobs/search, skipping empty values
+ */
+export function buildJobSearchParams(filters: JobSearchFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== null && value !== "") {
+      params.set(key, String(value));
+    }
+  }
+  return params;
+}
+
+/**
+ * Server-side job search with "load more" pagination
+ */
+export function useJobSearch(filters: JobSearchFilters, pageSize = 20) {
+  const query = useInfiniteQuery<JobSearchPage>({
+    queryKey: ["/api/jobs/search", filters, pageSize],
+    initialPageParam: null,
+    queryFn: async ({ pageParam }) => {
+      const params = buildJobSearchParams(filters);
+      params.set("limit", String(pageSize));
+      if (pageParam) params.set("cursor", pageParam as string);
+
+      const response = await apiRequest("GET", `/api/jobs/search?${params.toString()}`);
+      return response.json();
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const firstPage = query.data?.pages[0];
+
+  return {
+    ...query,
+    jobs: query.data?.pages.flatMap((page) => page.jobs) ?? [],
+    total: firstPage?.total ?? 0,
+    facets: firstPage?.facets,
+  };
+}
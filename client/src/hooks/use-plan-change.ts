@@ -0,0 +1,105 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Plan } from "@shared/schema";
+
+export interface PlanChangePreview {
+  type: "upgrade" | "downgrade";
+  effective: "immediate" | "period_end";
+  effectiveAt: string;
+  currentPlan: Plan;
+  newPlan: Plan;
+  creditCents: number;
+  chargeCents: number;
+  trialDays: number;
+  newPeriodEnd: string;
+  quotaChanges: Array<{
+    featureKey: string;
+    featureName: string;
+    used: number;
+    currentLimit: number | null;
+    newLimit: number | null;
+  }>;
+}
+
+interface CheckoutSession {
+  url: string;
+  method: "POST";
+  fields: Record<string, string>;
+}
+
+interface PlanChangeResponse {
+  success: boolean;
+  status: "checkout" | "changed" | "scheduled" | "trialing";
+  checkout?: CheckoutSession;
+  preview: PlanChangePreview;
+  message: string;
+}
+
+/**
+ * Send the browser to the payment gateway's hosted page
+ */
+export function submitCheckout(checkout: CheckoutSession) {
+  const form = document.createElement("form");
+  form.method = checkout.method;
+  form.action = checkout.url;
+  for (const [name, value] of Object.entries(checkout.fields)) {
+    const input = document.createElement("input");
+    input.type = "hidden";
+    input.name = name;
+    input.value = value;
+    form.appendChild(input);
+  }
+  document.body.appendChild(form);
+  form.submit();
+}
+
+/**
+ * Preview moving to a plan; without a planId, previews the next plan up
+ */
+export function usePlanChangePreview(planId?: string | null, enabled = true) {
+  const url = planId
+    ? `/api/billing/plan-change/preview?planId=${encodeURIComponent(planId)}`
+    : "/api/billing/plan-change/preview";
+
+  return useQuery<{ success: boolean; preview: PlanChangePreview; scheduledPlanId: string | null }>({
+    queryKey: [url],
+    enabled,
+    staleTime: 0,
+  });
+}
+
+function invalidateBilling() {
+  queryClient.invalidateQueries({ queryKey: ["/api/me/subscription"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/me/entitlements"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/billing/invoices"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/billing/overage"] });
+}
+
+/**
+ * Change plan; upgrades that need payment redirect to the gateway
+ */
+export function useChangePlan() {
+  return useMutation({
+    mutationFn: async (planId: string): Promise<PlanChangeResponse> => {
+      const response = await apiRequest("POST", "/api/billing/plan-change", { planId });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      if (result.status === "checkout" && result.checkout) {
+        submitCheckout(result.checkout);
+        return;
+      }
+      invalidateBilling();
+    },
+  });
+}
+
+export function useCancelScheduledPlanChange() {
+  return useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/billing/plan-change");
+      return response.json();
+    },
+    onSuccess: invalidateBilling,
+  });
+}
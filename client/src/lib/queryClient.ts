@@ -2,7 +2,7 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || "";
 
-function getApiUrl(path: string): string {
+export function getApiUrl(path: string): string {
   if (API_BASE_URL && !path.startsWith("http")) {
     return `${API_BASE_URL}${path}`;
   }
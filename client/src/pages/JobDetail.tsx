@@ -50,6 +50,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { JobApplication } from "@shared/schema";
+import { ApplyJobDialog } from "@/components/individuals/ApplyJobDialog";
 import {
   formatLocation,
   formatSalary,
@@ -73,6 +74,7 @@ export default function JobDetail() {
     skills: true,
     qualifications: true,
   });
+  const [applyDialogOpen, setApplyDialogOpen] = useState(false);
 
   const { data: jobData, isLoading, error } = useQuery<{
     success: boolean;
@@ -185,9 +187,9 @@ export default function JobDetail() {
     };
   }, [job]);
 
-  // Mutation to track application
+  // Mutation to track applications made outside SebenzaHub (WhatsApp / company website)
   const trackApplicationMutation = useMutation({
-    mutationFn: async (data: { jobId: string }) => {
+    mutationFn: async (data: { jobId: string; method: "whatsapp" | "external" }) => {
       return apiRequest("POST", "/api/applications", data);
     },
     onSuccess: () => {
@@ -295,7 +297,7 @@ export default function JobDetail() {
 
     // Track application if user is logged in and hasn't applied yet
     if (user && job.id && !existingApplication) {
-      trackApplicationMutation.mutate({ jobId: job.id });
+      trackApplicationMutation.mutate({ jobId: job.id, method: "whatsapp" });
     }
   };
 
@@ -311,15 +313,16 @@ export default function JobDetail() {
 
     if (!job?.id) return;
 
-    // Track application
-    if (!existingApplication) {
-      trackApplicationMutation.mutate({ jobId: job.id });
+    // A self-tracked application (WhatsApp/website) can still be submitted in-app
+    if (existingApplication?.method === "in-app") {
+      toast({
+        title: "Already applied",
+        description: "You have already applied to this position.",
+      });
+      return;
     }
 
-    toast({
-      title: "Application Submitted!",
-      description: "Your application has been submitted successfully.",
-    });
+    setApplyDialogOpen(true);
   };
 
   const handleApplyViaWebsite = () => {
@@ -335,7 +338,7 @@ export default function JobDetail() {
 
     // Track application if user is logged in and hasn't applied yet
     if (user && job.id && !existingApplication) {
-      trackApplicationMutation.mutate({ jobId: job.id });
+      trackApplicationMutation.mutate({ jobId: job.id, method: "external" });
     }
   };
 
@@ -1549,6 +1552,16 @@ export default function JobDetail() {
           </CardContent>
         </Card>
       </div>
+
+      <ApplyJobDialog
+        open={applyDialogOpen}
+        onOpenChange={setApplyDialogOpen}
+        jobId={job.id}
+        jobTitle={job.title}
+        company={job.company}
+        requiredAttachments={job.attachments?.required}
+        optionalAttachments={job.attachments?.optional}
+      />
     </div>
   );
 }
@@ -13,7 +13,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Settings, Users, Workflow, MessageSquare, Shield, DollarSign, Trash2 } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
-import type { User } from "@shared/schema";
+import { jobAdminSchema, type User } from "@shared/schema";
 
 interface TeamMember {
   id: string;
@@ -43,8 +43,15 @@ interface ComplianceSettings {
   dataRetentionDays: number;
   popiaOfficer?: string;
   dataDeletionContact?: string;
+  contactRedaction: string;
+  blindScreening: number;
+  blindRevealStage: string | null;
 }
 
+// Pipeline used when the organization hasn't configured its own stages
+const DEFAULT_PIPELINE: string[] = jobAdminSchema.shape.pipeline.parse(undefined);
+const FIRST_STAGE = "__first";
+
 interface IntegrationSettings {
   slackWebhook?: string;
   msTeamsWebhook?: string;
@@ -89,6 +96,9 @@ export default function RecruiterSettings() {
     dataRetentionDays: 365,
     popiaOfficer: "",
     dataDeletionContact: "",
+    contactRedaction: "partial",
+    blindScreening: 0,
+    blindRevealStage: null,
   });
   
   // Integration Settings State
@@ -115,6 +125,10 @@ export default function RecruiterSettings() {
     enabled: !!orgId,
   });
 
+  const revealStageOptions = pipelineStages.length > 0
+    ? [...pipelineStages].sort((a, b) => a.order - b.order).map((stage) => stage.name)
+    : DEFAULT_PIPELINE;
+
   // Fetch Interview Settings
   const { data: interviewData } = useQuery({
     queryKey: [`/api/organizations/${orgId}/interview-settings`],
@@ -148,6 +162,9 @@ export default function RecruiterSettings() {
         dataRetentionDays: data.data_retention_days || 365,
         popiaOfficer: data.popia_officer || "",
         dataDeletionContact: data.data_deletion_contact || "",
+        contactRedaction: data.contact_redaction || "partial",
+        blindScreening: data.blind_screening ?? 0,
+        blindRevealStage: data.blind_reveal_stage ?? null,
       });
     }
   }, [complianceData]);
@@ -248,6 +265,9 @@ export default function RecruiterSettings() {
         dataRetentionDays: settings.dataRetentionDays,
         popiaOfficer: settings.popiaOfficer,
         dataDeletionContact: settings.dataDeletionContact,
+        contactRedaction: settings.contactRedaction,
+        blindScreening: settings.blindScreening,
+        blindRevealStage: settings.blindRevealStage,
       });
       return response.json();
     },
@@ -664,6 +684,69 @@ export default function RecruiterSettings() {
                     data-testid="input-deletion-contact"
                   />
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="contact-redaction">Candidate Contact Details in Exports</Label>
+                  <Select
+                    value={complianceSettings.contactRedaction}
+                    onValueChange={(value) =>
+                      setComplianceSettings({ ...complianceSettings, contactRedaction: value })
+                    }
+                  >
+                    <SelectTrigger id="contact-redaction" data-testid="select-contact-redaction">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Show in full</SelectItem>
+                      <SelectItem value="partial">Partially masked</SelectItem>
+                      <SelectItem value="full">Hidden</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-slate">Applies to spreadsheet exports and shared shortlists</p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="blind-screening">Blind Screening</Label>
+                  <Select
+                    value={String(complianceSettings.blindScreening)}
+                    onValueChange={(value) =>
+                      setComplianceSettings({ ...complianceSettings, blindScreening: Number(value) })
+                    }
+                  >
+                    <SelectTrigger id="blind-screening" data-testid="select-blind-screening">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0">Off</SelectItem>
+                      <SelectItem value="1">On for all roles and job applicants</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-slate">
+                    Hides name, photo, gender, age, address, institutions and contact details from reviewers and AI screening.
+                    Roles can override this.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="blind-reveal-stage">Reveal Identity After Stage</Label>
+                  <Select
+                    value={complianceSettings.blindRevealStage ?? FIRST_STAGE}
+                    onValueChange={(value) =>
+                      setComplianceSettings({ ...complianceSettings, blindRevealStage: value === FIRST_STAGE ? null : value })
+                    }
+                  >
+                    <SelectTrigger id="blind-reveal-stage" data-testid="select-blind-reveal-stage">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={FIRST_STAGE}>First pipeline stage</SelectItem>
+                      {revealStageOptions.map((stage) => (
+                        <SelectItem key={stage} value={stage}>{stage}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-slate">Candidates moved past this stage are shown in full</p>
+                </div>
               </div>
 
               <Button
@@ -0,0 +1,256 @@
+import { useEffect, useState } from "react";
+import { useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertCircle, Mail, MapPin, Phone, Loader2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ShortlistDecision } from "@shared/schema";
+
+interface SharedCandidate {
+  candidateId: string;
+  rank: number;
+  fullName: string | null;
+  headline: string | null;
+  city: string | null;
+  country: string | null;
+  email: string | null;
+  phone: string | null;
+  summary: string | null;
+  score: number | null;
+  skills: string[];
+  mustHavesSatisfied: string[];
+  highlights: string[];
+  feedback: { decision: ShortlistDecision; comment: string | null } | null;
+}
+
+interface SharedShortlistData {
+  recipientName: string;
+  message: string | null;
+  expiresAt: string;
+  role: {
+    jobTitle: string;
+    jobDescription: string;
+    locationCity: string | null;
+    locationCountry: string | null;
+    workType: string | null;
+  };
+  candidates: SharedCandidate[];
+}
+
+const DECISIONS: Array<{ value: ShortlistDecision; label: string }> = [
+  { value: "yes", label: "Yes" },
+  { value: "maybe", label: "Maybe" },
+  { value: "no", label: "No" },
+];
+
+function CandidateFeedback({ token, candidate }: { token: string; candidate: SharedCandidate }) {
+  const { toast } = useToast();
+  const [decision, setDecision] = useState<ShortlistDecision | null>(candidate.feedback?.decision ?? null);
+  const [comment, setComment] = useState(candidate.feedback?.comment ?? "");
+
+  useEffect(() => {
+    setDecision(candidate.feedback?.decision ?? null);
+    setComment(candidate.feedback?.comment ?? "");
+  }, [candidate.feedback]);
+
+  const feedbackMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/public/shortlists/${token}/candidates/${candidate.candidateId}/feedback`, {
+        decision,
+        comment,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/public/shortlists/${token}`] });
+      toast({ title: "Feedback sent", description: "Your recruiter has been notified." });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Couldn't send feedback",
+        description: error.message,
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="flex gap-2">
+        {DECISIONS.map((option) => (
+          <Button
+            key={option.value}
+            type="button"
+            size="sm"
+            variant={decision === option.value ? "default" : "outline"}
+            onClick={() => setDecision(option.value)}
+            data-testid={`button-decision-${option.value}-${candidate.candidateId}`}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+      <Textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="Add a comment for the recruiter (optional)"
+        rows={2}
+        data-testid={`input-comment-${candidate.candidateId}`}
+      />
+      <Button
+        size="sm"
+        onClick={() => feedbackMutation.mutate()}
+        disabled={!decision || feedbackMutation.isPending}
+        data-testid={`button-send-feedback-${candidate.candidateId}`}
+      >
+        {feedbackMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        {candidate.feedback ? "Update Feedback" : "Send Feedback"}
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Shortlist shared with a client contact by link - no account needed
+ */
+export default function SharedShortlist() {
+  const { token } = useParams();
+
+  const { data, isLoading, error } = useQuery<SharedShortlistData>({
+    queryKey: [`/api/public/shortlists/${token}`],
+    enabled: !!token,
+    retry: false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-lg">
+          <CardContent className="flex flex-col items-center p-8 text-center">
+            <AlertCircle className="w-12 h-12 text-destructive mb-4" />
+            <h1 className="text-lg font-semibold mb-2">Shortlist unavailable</h1>
+            <p className="text-muted-foreground">
+              This shortlist link has expired or is no longer available. Please ask your recruiter for a new link.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const location = [data.role.locationCity, data.role.locationCountry].filter(Boolean).join(", ");
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto py-8 px-4 max-w-4xl space-y-6">
+        <div>
+          <p className="text-sm text-muted-foreground">Shortlist for {data.recipientName}</p>
+          <h1 className="text-3xl font-bold" data-testid="text-shortlist-role">{data.role.jobTitle}</h1>
+          {location && (
+            <p className="text-muted-foreground flex items-center gap-1 mt-1">
+              <MapPin className="w-4 h-4" />
+              {location}{data.role.workType && ` (${data.role.workType})`}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground mt-2">
+            Link expires {new Date(data.expiresAt).toLocaleDateString("en-ZA", { year: "numeric", month: "long", day: "numeric" })}
+          </p>
+        </div>
+
+        {data.message && (
+          <Card>
+            <CardContent className="p-4 whitespace-pre-line" data-testid="text-shortlist-message">{data.message}</CardContent>
+          </Card>
+        )}
+
+        {data.candidates.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center text-muted-foreground">
+              There are no candidates on this shortlist any more.
+            </CardContent>
+          </Card>
+        ) : (
+          data.candidates.map((candidate) => (
+            <Card key={candidate.candidateId} data-testid={`card-shared-candidate-${candidate.candidateId}`}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-xl">
+                      #{candidate.rank} {candidate.fullName || "Candidate"}
+                    </CardTitle>
+                    {candidate.headline && <CardDescription>{candidate.headline}</CardDescription>}
+                  </div>
+                  {candidate.score !== null && (
+                    <div className="text-right shrink-0">
+                      <div className="text-2xl font-bold">{candidate.score}%</div>
+                      <div className="text-xs text-muted-foreground">Match</div>
+                    </div>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                  {(candidate.city || candidate.country) && (
+                    <span className="flex items-center gap-1">
+                      <MapPin className="w-4 h-4" />
+                      {[candidate.city, candidate.country].filter(Boolean).join(", ")}
+                    </span>
+                  )}
+                  {candidate.email && (
+                    <span className="flex items-center gap-1">
+                      <Mail className="w-4 h-4" />
+                      {candidate.email}
+                    </span>
+                  )}
+                  {candidate.phone && (
+                    <span className="flex items-center gap-1">
+                      <Phone className="w-4 h-4" />
+                      {candidate.phone}
+                    </span>
+                  )}
+                </div>
+
+                {candidate.summary && <p className="text-sm">{candidate.summary}</p>}
+
+                {candidate.highlights.length > 0 && (
+                  <ul className="text-sm space-y-1">
+                    {candidate.highlights.map((highlight, i) => (
+                      <li key={i}>• {highlight}</li>
+                    ))}
+                  </ul>
+                )}
+
+                {(candidate.mustHavesSatisfied.length > 0 || candidate.skills.length > 0) && (
+                  <div className="flex flex-wrap gap-1">
+                    {candidate.mustHavesSatisfied.map((skill) => (
+                      <Badge key={`must-${skill}`} variant="default">{skill}</Badge>
+                    ))}
+                    {candidate.skills
+                      .filter((skill) => !candidate.mustHavesSatisfied.includes(skill))
+                      .map((skill) => (
+                        <Badge key={skill} variant="outline">{skill}</Badge>
+                      ))}
+                  </div>
+                )}
+
+                <CandidateFeedback token={token!} candidate={candidate} />
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
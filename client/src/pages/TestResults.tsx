@@ -3,9 +3,23 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle2, XCircle, FileText, Clock, Calendar } from "lucide-react";
+import { CheckCircle2, XCircle, FileText, Clock, Calendar, Hourglass } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
+interface SectionResult {
+  type: string;
+  title: string;
+  score: number;
+  cutScore: number | null;
+  missedCut: boolean;
+}
+
+interface MissedCutScore {
+  section: string;
+  score: number;
+  cutScore: number;
+}
+
 export default function TestResults() {
   const { referenceNumber, attemptId } = useParams();
 
@@ -51,7 +65,10 @@ export default function TestResults() {
 
   const { attempt, test, sections } = resultsData;
   const passed = attempt.passed === 1;
+  const awaitingGrading = attempt.status === "submitted";
   const score = attempt.overallScore || 0;
+  const missedCutScores: MissedCutScore[] = attempt.missedCutScores || [];
+  const missedOverall = missedCutScores.find((miss) => miss.section === "overall");
 
   return (
     <div className="min-h-screen bg-background py-8 px-4">
@@ -72,7 +89,12 @@ export default function TestResults() {
         <Card>
           <CardHeader className="text-center space-y-4">
             <div className="flex items-center justify-center">
-              {passed ? (
+              {awaitingGrading ? (
+                <div className="flex flex-col items-center gap-2">
+                  <Hourglass className="w-16 h-16 text-muted-foreground" />
+                  <Badge variant="secondary">Grading in Progress</Badge>
+                </div>
+              ) : passed ? (
                 <div className="flex flex-col items-center gap-2">
                   <CheckCircle2 className="w-16 h-16 text-green-500" />
                   <Badge className="bg-green-500">Passed</Badge>
@@ -86,7 +108,9 @@ export default function TestResults() {
             </div>
             <div className="space-y-2">
               <div className="text-5xl font-bold">{score}%</div>
-              <CardDescription>Overall Score</CardDescription>
+              <CardDescription>
+                Overall Score{missedOverall && ` (pass mark ${missedOverall.cutScore}%)`}
+              </CardDescription>
             </div>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -121,13 +145,19 @@ export default function TestResults() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            {sections.map((section: any) => (
-              <div key={section.id} className="space-y-2">
+            {sections.map((section: SectionResult) => (
+              <div key={section.type} className="space-y-2" data-testid={`section-result-${section.type}`}>
                 <div className="flex items-center justify-between">
                   <div className="font-medium">{section.title}</div>
-                  <div className="text-sm font-medium">{section.score}%</div>
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    {section.missedCut && <Badge variant="destructive">Below pass mark</Badge>}
+                    {section.score}%
+                  </div>
                 </div>
                 <Progress value={section.score} className="h-2" />
+                {section.cutScore !== null && (
+                  <p className="text-xs text-muted-foreground">Pass mark: {section.cutScore}%</p>
+                )}
               </div>
             ))}
           </CardContent>
@@ -140,7 +170,9 @@ export default function TestResults() {
           </CardHeader>
           <CardContent>
             <p className="text-sm text-muted-foreground">
-              {passed
+              {awaitingGrading
+                ? "Some of your answers are being graded by the recruiter. Your score may change once grading is complete."
+                : passed
                 ? "Congratulations! You have passed this assessment. The recruiter will be notified of your results and will contact you regarding next steps."
                 : "Thank you for completing this assessment. The recruiter will review your results and may contact you for further evaluation or feedback."}
             </p>
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, Fragment } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
@@ -8,7 +8,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
-import { AlertCircle, Clock, ChevronLeft, ChevronRight, AlertTriangle, MoveUp, MoveDown } from "lucide-react";
+import { AlertCircle, Clock, ChevronLeft, ChevronRight, AlertTriangle, MoveUp, MoveDown, ThumbsUp, ThumbsDown } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
@@ -170,12 +170,19 @@ export default function TestTake() {
       }
     };
 
+    const handleCopy = () => recordAntiCheatEvent("copy");
+    const handlePaste = () => recordAntiCheatEvent("paste");
+
     document.addEventListener("fullscreenchange", handleFullscreenChange);
     document.addEventListener("visibilitychange", handleVisibilityChange);
+    document.addEventListener("copy", handleCopy);
+    document.addEventListener("paste", handlePaste);
     
     return () => {
       document.removeEventListener("fullscreenchange", handleFullscreenChange);
       document.removeEventListener("visibilitychange", handleVisibilityChange);
+      document.removeEventListener("copy", handleCopy);
+      document.removeEventListener("paste", handlePaste);
     };
   }, [isFullscreen, fullscreenExits, tabSwitches]);
 
@@ -579,6 +586,59 @@ export default function TestTake() {
               </div>
             )}
 
+            {/* SJT Best/Worst */}
+            {currentQuestion.format === "sjt_best_worst" && Array.isArray(currentQuestion.options) && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground mb-4">
+                  Choose the most effective and the least effective response:
+                </p>
+                <div className="grid grid-cols-[1fr_auto_auto] items-center gap-x-4 gap-y-2 text-sm">
+                  <span />
+                  <span className="font-medium text-center">Most</span>
+                  <span className="font-medium text-center">Least</span>
+                  {currentQuestion.options.map((choice: string, index: number) => {
+                    const rawAnswer = answers[currentQuestion.id];
+                    const selection = rawAnswer && typeof rawAnswer === "object" && !Array.isArray(rawAnswer)
+                      ? rawAnswer
+                      : { best: null, worst: null };
+
+                    const choose = (pick: "best" | "worst") => {
+                      const other = pick === "best" ? "worst" : "best";
+                      handleAnswerChange({
+                        ...selection,
+                        [pick]: choice,
+                        [other]: selection[other] === choice ? null : selection[other],
+                      });
+                    };
+
+                    return (
+                      <Fragment key={index}>
+                        <p className="p-3 rounded-lg border leading-relaxed">{choice}</p>
+                        <Button
+                          type="button"
+                          variant={selection.best === choice ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => choose("best")}
+                          data-testid={`button-best-${index}`}
+                        >
+                          <ThumbsUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant={selection.worst === choice ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => choose("worst")}
+                          data-testid={`button-worst-${index}`}
+                        >
+                          <ThumbsDown className="h-4 w-4" />
+                        </Button>
+                      </Fragment>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Navigation Buttons */}
             <div className="flex justify-between items-center pt-6 border-t">
               <Button
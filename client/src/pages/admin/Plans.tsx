@@ -51,6 +51,7 @@ interface Plan {
   interval: string;
   priceCents: number;
   currency: string;
+  trialDays: number;
   isPublic: number;
   version: number;
   entitlements?: FeatureEntitlement[];
@@ -78,6 +79,7 @@ const planFormSchema = z.object({
   tier: z.enum(["free", "standard", "premium"]),
   interval: z.enum(["month", "year"]),
   priceCents: z.number().min(0, "Price must be positive"),
+  trialDays: z.number().int().min(0, "Trial length can't be negative").max(365),
   isPublic: z.number().min(0).max(1),
 });
 
@@ -116,6 +118,7 @@ export default function Plans() {
       tier: "free",
       interval: "month",
       priceCents: 0,
+      trialDays: 0,
       isPublic: 1,
     },
   });
@@ -205,6 +208,7 @@ export default function Plans() {
       tier: plan.tier as any,
       interval: plan.interval as any,
       priceCents: plan.priceCents,
+      trialDays: plan.trialDays,
       isPublic: plan.isPublic,
     });
   };
@@ -351,6 +355,11 @@ export default function Plans() {
                       </TableCell>
                       <TableCell className="font-medium">
                         {formatPrice(plan.priceCents)}
+                        {plan.trialDays > 0 && (
+                          <div className="text-xs text-muted-foreground font-normal">
+                            {plan.trialDays}-day trial
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>
                         <Badge variant={plan.isPublic === 1 ? "default" : "secondary"}>
@@ -511,6 +520,29 @@ export default function Plans() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="trialDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Free Trial (days)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        data-testid="input-trial-days"
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Checkout starts a trial of this length for holders who haven't trialled this product before (0 = no trial)
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="isPublic"
@@ -43,7 +43,11 @@ export default function AddCandidatePage() {
     onSuccess: (data: any) => {
       toast({
         title: "Success",
-        description: "Resume uploaded and candidate profile created successfully",
+        description: data.duplicate
+          ? data.message
+          : data.possibleDuplicates?.length
+            ? "Candidate profile created. It looks similar to an existing candidate - review it under Possible Duplicates."
+            : "Resume uploaded and candidate profile created successfully",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/ats/candidates"] });
       setLocation(`/candidates/${data.candidateId}`);
@@ -81,7 +85,9 @@ export default function AddCandidatePage() {
     onSuccess: (data: any) => {
       toast({
         title: "Success",
-        description: "Candidate profile created successfully from resume text",
+        description: data.duplicate
+          ? data.message
+          : "Candidate profile created successfully from resume text",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/ats/candidates"] });
       setLocation(`/candidates/${data.candidate.id}`);
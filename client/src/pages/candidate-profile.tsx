@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { CandidateSharesCard, type CandidateShare } from "@/components/recruiter/CandidateSharesCard";
 import {
   ArrowLeft,
   Mail,
@@ -41,6 +42,7 @@ interface CandidateDetails {
   awards: any[];
   skills: Array<{ skillName: string; kind: string }>;
   resumes: any[];
+  shares: CandidateShare[];
 }
 
 export default function CandidateProfilePage() {
@@ -50,6 +52,7 @@ export default function CandidateProfilePage() {
   const { data, isLoading } = useQuery<{
     success: boolean;
     candidate: CandidateDetails;
+    identityWithheld?: boolean;
   }>({
     queryKey: [`/api/ats/candidates/${candidateId}`],
     enabled: !!candidateId,
@@ -83,7 +86,7 @@ export default function CandidateProfilePage() {
             <CardContent className="p-12 text-center">
               <h2 className="text-2xl font-semibold mb-2">Candidate not found</h2>
               <p className="text-muted-foreground mb-6">
-                The candidate you're looking for doesn't exist.
+                The candidate you're looking for doesn't exist or isn't in your organization's talent pool.
               </p>
               <Link href="/candidates">
                 <Button>Back to Candidates</Button>
@@ -124,6 +127,11 @@ export default function CandidateProfilePage() {
                       {candidate.headline}
                     </p>
                   )}
+                  {data?.identityWithheld && (
+                    <p className="text-sm text-slate mt-2" data-testid="text-identity-withheld">
+                      Blind screening: name, contact details, address, links and institutions are hidden until this candidate passes the reveal stage on one of your roles.
+                    </p>
+                  )}
                 </div>
                 {candidate.workAuthorization && (
                   <Badge variant="secondary" className="text-sm bg-amber text-charcoal">
@@ -423,6 +431,8 @@ export default function CandidateProfilePage() {
               </CardContent>
             </Card>
           )}
+
+          <CandidateSharesCard candidateId={candidate.id} shares={candidate.shares || []} />
         </div>
       </div>
     </div>
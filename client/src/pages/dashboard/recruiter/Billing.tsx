@@ -10,7 +10,6 @@ import {
   X,
   TrendingUp,
   Calendar,
-  FileText,
   Zap,
   Users,
   Shield,
@@ -18,6 +17,12 @@ import {
   Building2,
 } from "lucide-react";
 import { Link } from "wouter";
+import { InvoiceList } from "@/components/billing/InvoiceList";
+import { OverageCard } from "@/components/billing/OverageCard";
+import { ChangePlanCard } from "@/components/billing/ChangePlanCard";
+import { TrialCard } from "@/components/billing/TrialCard";
+import { PastDueCard } from "@/components/billing/PastDueCard";
+import { BillingDetailsCard } from "@/components/billing/BillingDetailsCard";
 
 interface Subscription {
   subscription: {
@@ -25,6 +30,11 @@ interface Subscription {
     status: string;
     currentPeriodStart: string;
     currentPeriodEnd: string;
+    scheduledPlanId?: string | null;
+    trialEndsAt?: string | null;
+    cancelAtPeriodEnd?: number;
+    metadata?: { paymentMethodCaptured?: boolean } | null;
+    restrictedAt?: string | null;
     holderType: string;
     holderId: string;
   };
@@ -35,6 +45,7 @@ interface Subscription {
     interval: string;
     priceCents: number;
   };
+  restrictOn?: string | null;
 }
 
 interface Entitlement {
@@ -152,6 +163,14 @@ export default function RecruiterBilling() {
       </div>
 
       <div className="grid gap-6">
+        {/* Past Due Card - shown while a renewal or failed payment is outstanding */}
+        {subscription?.status === 'past_due' && (
+          <PastDueCard
+            restrictedAt={subscription.restrictedAt}
+            restrictOn={subscriptionData?.restrictOn}
+          />
+        )}
+
         {/* Organization Info Banner */}
         {isOrganizationBilling && (
           <Card className="border-blue-200 bg-blue-50 dark:bg-blue-950/20 dark:border-blue-900" data-testid="card-org-info">
@@ -382,24 +401,33 @@ export default function RecruiterBilling() {
           </Card>
         )}
 
-        {/* Payment History Card */}
-        <Card data-testid="card-payment-history">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <FileText className="h-5 w-5" />
-              Payment History
-            </CardTitle>
-            <CardDescription>
-              View {isOrganizationBilling ? 'organization' : 'your'} past invoices and transactions
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="text-center py-8 text-muted-foreground">
-              <p>No payment history available yet</p>
-              <p className="text-sm mt-1">Transactions will appear here once you make a payment</p>
-            </div>
-          </CardContent>
-        </Card>
+        {/* Trial Card - plan changes open up once the subscription is active */}
+        {plan && subscription?.status === 'trialing' && subscription.trialEndsAt && (
+          <TrialCard
+            planId={plan.id}
+            trialEndsAt={subscription.trialEndsAt}
+            paymentCaptured={!!subscription.metadata?.paymentMethodCaptured}
+            canceled={subscription.cancelAtPeriodEnd === 1}
+          />
+        )}
+
+        {/* Change Plan Card */}
+        {plan && subscription?.status === 'active' && (
+          <ChangePlanCard
+            currentPlanId={plan.id}
+            product={plan.product}
+            scheduledPlanId={subscription?.scheduledPlanId}
+          />
+        )}
+
+        {/* Usage Overage Card - shown when the plan has metered features */}
+        <OverageCard />
+
+        {/* Invoice Details Card - organizations only */}
+        <BillingDetailsCard />
+
+        {/* Invoices Card */}
+        <InvoiceList description={`Tax invoices for ${isOrganizationBilling ? "your organization's" : 'your'} subscription payments`} />
       </div>
     </div>
   );
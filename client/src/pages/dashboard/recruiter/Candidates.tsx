@@ -5,7 +5,10 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Search, UserPlus, Mail, Phone, MapPin, Users, TrendingUp, Award, Globe } from "lucide-react";
+import { Search, UserPlus, Mail, Phone, MapPin, Users, TrendingUp, Award, Globe, Sparkles } from "lucide-react";
+import { BulkResumeUploadCard } from "@/components/recruiter/BulkResumeUploadCard";
+import { DuplicateCandidatesCard } from "@/components/recruiter/DuplicateCandidatesCard";
+import { CandidateSearchResults } from "@/components/recruiter/CandidateSearchResults";
 import type { Candidate } from "@shared/schema";
 
 interface StatsData {
@@ -20,6 +23,8 @@ interface StatsData {
 
 export default function RecruiterCandidates() {
   const [searchQuery, setSearchQuery] = useState("");
+  // Submitted natural-language search; the list is filtered locally until one is run
+  const [smartQuery, setSmartQuery] = useState("");
 
   const { data: candidatesData, isLoading } = useQuery<{
     success: boolean;
@@ -170,20 +175,39 @@ export default function RecruiterCandidates() {
         </>
       )}
 
-      <div className="mb-6">
-        <div className="relative">
+      <BulkResumeUploadCard />
+
+      <DuplicateCandidatesCard />
+
+      <form
+        className="mb-6 flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setSmartQuery(searchQuery.trim());
+        }}
+      >
+        <div className="relative flex-1">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
           <Input
-            placeholder="Search candidates by name, email, or headline..."
+            placeholder='Search by name, or describe who you need, e.g. "warehouse supervisor with forklift licence near Durban"'
             value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            onChange={(e) => {
+              setSearchQuery(e.target.value);
+              if (!e.target.value) setSmartQuery("");
+            }}
             className="pl-10"
             data-testid="input-search-candidates"
           />
         </div>
-      </div>
+        <Button type="submit" variant="outline" disabled={!searchQuery.trim()} data-testid="button-smart-search">
+          <Sparkles className="w-4 h-4 mr-2" />
+          Smart Search
+        </Button>
+      </form>
 
-      {isLoading ? (
+      {smartQuery ? (
+        <CandidateSearchResults query={smartQuery} />
+      ) : isLoading ? (
         <div className="grid gap-4">
           {[1, 2, 3].map((i) => (
             <Card key={i}>
@@ -288,7 +312,7 @@ export default function RecruiterCandidates() {
       )}
 
       <div className="mt-6 text-center text-sm text-muted-foreground">
-        {filteredCandidates.length > 0 && (
+        {!smartQuery && filteredCandidates.length > 0 && (
           <span data-testid="text-candidate-count">
             Showing {filteredCandidates.length} of {candidates.length} candidates
           </span>
@@ -40,13 +40,15 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Search, Plus, X, Briefcase, MapPin, DollarSign, Calendar, Building2, FileText, Sparkles, AlertCircle, Play, Pause, Eye, EyeOff, Trash2, Edit, CheckCircle2, Upload, FileText as FileTextIcon, ArrowUp, ArrowDown, Download } from "lucide-react";
+import { Search, Plus, X, Briefcase, MapPin, DollarSign, Calendar, Building2, FileText, Sparkles, AlertCircle, Play, Pause, Eye, EyeOff, Trash2, Edit, CheckCircle2, Upload, FileText as FileTextIcon, ArrowUp, ArrowDown, Download, Users, KanbanSquare } from "lucide-react";
 import { type Job, type RecruiterProfile, insertJobSchema } from "@shared/schema";
 import { JobDescriptionAIDialog } from "@/components/JobDescriptionAIDialog";
 import { CompanyDescriptionAIDialog } from "@/components/CompanyDescriptionAIDialog";
 import { ImportJobDialog } from "@/components/ImportJobDialog";
 import { BulkImportJobDialog } from "@/components/BulkImportJobDialog";
 import SeoAssistantPanel from "@/components/recruiter/SeoAssistantPanel";
+import { JobApplicantsDialog } from "@/components/recruiter/JobApplicantsDialog";
+import { JobPipelineBoard } from "@/components/recruiter/JobPipelineBoard";
 import {
   Collapsible,
   CollapsibleContent,
@@ -325,6 +327,8 @@ export default function RecruiterJobPostings() {
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
   const [previewingJob, setPreviewingJob] = useState<Job | null>(null);
   const [cardPreviewDialogOpen, setCardPreviewDialogOpen] = useState(false);
+  const [applicantsJob, setApplicantsJob] = useState<Job | null>(null);
+  const [pipelineJob, setPipelineJob] = useState<Job | null>(null);
 
   const { data: jobsData, isLoading } = useQuery<{ success: boolean; count: number; jobs: Job[] }>({
     queryKey: ["/api/jobs"],
@@ -3339,6 +3343,24 @@ export default function RecruiterJobPostings() {
                 </div>
 
                 <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setApplicantsJob(job)}
+                    data-testid={`button-applicants-${job.id}`}
+                  >
+                    <Users className="mr-1 h-3 w-3" />
+                    Applicants
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setPipelineJob(job)}
+                    data-testid={`button-pipeline-${job.id}`}
+                  >
+                    <KanbanSquare className="mr-1 h-3 w-3" />
+                    Pipeline
+                  </Button>
                   <Button
                     size="sm"
                     variant="outline"
@@ -3544,6 +3566,20 @@ export default function RecruiterJobPostings() {
         }}
       />
 
+      <JobApplicantsDialog
+        open={applicantsJob !== null}
+        onOpenChange={(open) => !open && setApplicantsJob(null)}
+        jobId={applicantsJob?.id ?? null}
+        jobTitle={applicantsJob?.title}
+      />
+
+      <JobPipelineBoard
+        open={pipelineJob !== null}
+        onOpenChange={(open) => !open && setPipelineJob(null)}
+        jobId={pipelineJob?.id ?? null}
+        jobTitle={pipelineJob?.title}
+      />
+
       {/* Preview Dialog for Job Cards */}
       <Dialog open={cardPreviewDialogOpen} onOpenChange={setCardPreviewDialogOpen}>
         <DialogContent className="max-w-4xl max-h-[90vh]">
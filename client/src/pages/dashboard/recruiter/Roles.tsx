@@ -18,6 +18,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { insertRoleSchema } from "@shared/schema";
 import { z } from "zod";
 import { SkillsMultiSelect } from "@/components/SkillsMultiSelect";
+import { KnockoutRulesEditor } from "@/components/recruiter/KnockoutRulesEditor";
 
 interface RolesStatsData {
   success: boolean;
@@ -416,6 +417,8 @@ function RoleForm({
       salaryMax: undefined,
       salaryCurrency: "ZAR",
       knockouts: [],
+      knockoutRules: [],
+      blindScreening: null,
       weights: {
         skills: 30,
         experience: 25,
@@ -690,7 +693,7 @@ function RoleForm({
             <FormItem>
               <FormLabel>Knockout Criteria</FormLabel>
               <FormDescription>
-                Define automatic disqualification criteria (e.g., "No work authorization", "Below minimum salary")
+                Criteria the AI weighs when screening (e.g., "No work authorization", "Below minimum salary")
               </FormDescription>
               <FormControl>
                 <div className="space-y-2">
@@ -745,6 +748,52 @@ function RoleForm({
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="knockoutRules"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Knockout Rules</FormLabel>
+              <FormDescription>
+                Candidates who fail a rule are knocked out before AI screening, without using a screening credit
+              </FormDescription>
+              <FormControl>
+                <KnockoutRulesEditor value={field.value} onChange={field.onChange} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="blindScreening"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Blind Screening</FormLabel>
+              <Select
+                onValueChange={(value) => field.onChange(value === "org" ? null : Number(value))}
+                value={field.value === null || field.value === undefined ? "org" : String(field.value)}
+              >
+                <FormControl>
+                  <SelectTrigger data-testid="select-blind-screening">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="org">Use organization setting</SelectItem>
+                  <SelectItem value="1">On</SelectItem>
+                  <SelectItem value="0">Off</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                Hides candidate identity from reviewers and AI screening until they are moved past the reveal stage
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <div className="space-y-4">
           <div className="flex items-center justify-between">
             <h3 className="font-semibold">Scoring Weights</h3>
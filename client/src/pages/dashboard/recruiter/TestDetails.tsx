@@ -10,6 +10,8 @@ import { Loader2 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
+import { TestGradingQueue } from "@/components/recruiter/TestGradingQueue";
+import { AttemptProctoringReview, type AttemptProctoring } from "@/components/recruiter/AttemptProctoringReview";
 
 interface TestSection {
   id: string;
@@ -18,6 +20,7 @@ interface TestSection {
   itemCount: number;
   weight: number;
   cutScore: number;
+  itemSampling: Partial<Record<'E' | 'M' | 'H', number>> | null;
   items: TestItem[];
 }
 
@@ -30,6 +33,39 @@ interface TestItem {
   correctAnswer: any;
 }
 
+interface AttemptSectionResult {
+  type: string;
+  title: string;
+  score: number;
+  cutScore: number | null;
+  missedCut: boolean;
+}
+
+interface TestAttemptSummary extends AttemptProctoring {
+  status: string;
+  submittedAt: string | null;
+  overallScore: number | null;
+  passed: boolean;
+  missedCutScores: Array<{ section: string; score: number; cutScore: number }>;
+  sections: AttemptSectionResult[];
+}
+
+const SECTION_TYPE_LABELS: Record<string, string> = {
+  overall: 'Overall',
+  skills: 'Skills',
+  aptitude: 'Aptitude',
+  work_style: 'Work Style',
+};
+
+// Difficulties left blank in a section's item sampling give every item of that difficulty
+const SAMPLING_DIFFICULTY_LABELS = { E: 'easy', M: 'medium', H: 'hard' } as const;
+
+function describeItemSampling(sampling: NonNullable<TestSection['itemSampling']>): string {
+  return (Object.keys(SAMPLING_DIFFICULTY_LABELS) as Array<keyof typeof SAMPLING_DIFFICULTY_LABELS>)
+    .map(difficulty => `${sampling[difficulty] ?? 'all'} ${SAMPLING_DIFFICULTY_LABELS[difficulty]}`)
+    .join(', ');
+}
+
 interface TestDetails {
   id: string;
   referenceNumber: string;
@@ -61,6 +97,11 @@ export default function TestDetails() {
     queryKey: ['/api/competency-tests', id],
   });
 
+  const { data: attemptsData } = useQuery<{ success: boolean; attempts: TestAttemptSummary[] }>({
+    queryKey: ['/api/competency-tests', id, 'attempts'],
+  });
+  const attempts = attemptsData?.attempts || [];
+
   // Mutation to update test status
   const updateStatusMutation = useMutation({
     mutationFn: async (newStatus: 'draft' | 'active' | 'archived') => {
@@ -454,6 +495,77 @@ export default function TestDetails() {
         </Card>
       </div>
 
+      <TestGradingQueue testId={test.id} />
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            Candidate Results ({attempts.length})
+          </CardTitle>
+          <CardDescription>
+            Pass mark: {test.cutScores?.overall ?? 50}% overall
+            {Object.entries(test.cutScores?.sections || {}).map(([type, cutScore]) =>
+              `, ${cutScore}% ${SECTION_TYPE_LABELS[type] || type}`
+            ).join('')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {attempts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No candidates have submitted this test yet.</p>
+          ) : (
+            attempts.map((attempt) => (
+              <div
+                key={attempt.id}
+                className="p-3 border rounded-md space-y-2"
+                data-testid={`attempt-${attempt.id}`}
+              >
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <div className="font-medium">{attempt.candidateName}</div>
+                    {attempt.submittedAt && (
+                      <div className="text-xs text-muted-foreground">
+                        Submitted {new Date(attempt.submittedAt).toLocaleString()}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-lg font-bold">{attempt.overallScore ?? 0}%</span>
+                    {attempt.status === 'submitted' ? (
+                      <Badge variant="secondary">Awaiting grading</Badge>
+                    ) : (
+                      <Badge variant={attempt.passed ? 'default' : 'destructive'}>
+                        {attempt.passed ? 'Passed' : 'Not Passed'}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {attempt.sections.map((section) => (
+                    <Badge
+                      key={section.type}
+                      variant={section.missedCut ? 'destructive' : 'outline'}
+                      title={section.title}
+                    >
+                      {SECTION_TYPE_LABELS[section.type] || section.type}: {section.score}%
+                      {section.cutScore !== null && ` / ${section.cutScore}%`}
+                    </Badge>
+                  ))}
+                </div>
+                {attempt.missedCutScores.length > 0 && (
+                  <p className="text-xs text-destructive">
+                    Missed cut: {attempt.missedCutScores.map((miss) =>
+                      `${SECTION_TYPE_LABELS[miss.section] || miss.section} (${miss.score}% < ${miss.cutScore}%)`
+                    ).join(', ')}
+                  </p>
+                )}
+                <AttemptProctoringReview testId={test.id} attempt={attempt} />
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
       <Card className="mt-6">
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -484,8 +596,13 @@ export default function TestDetails() {
                     <Badge variant="outline">
                       {section.itemCount} questions
                     </Badge>
+                    {section.itemSampling && (
+                      <Badge variant="outline" data-testid={`badge-section-sampling-${index}`}>
+                        Each candidate draws {describeItemSampling(section.itemSampling)}
+                      </Badge>
+                    )}
                     <Badge variant="outline">
-                      Weight: {(section.weight * 100).toFixed(0)}%
+                      Weight: {section.weight}%
                     </Badge>
                   </div>
                 </div>
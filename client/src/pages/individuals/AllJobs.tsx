@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -7,6 +7,15 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
 import { 
   Briefcase, 
   MapPin, 
@@ -23,7 +32,9 @@ import {
   AlertCircle,
   TrendingUp,
   CheckCircle2,
-  List
+  List,
+  Loader2,
+  Save
 } from "lucide-react";
 import type { CompleteJob } from "@/types/job";
 import { 
@@ -34,46 +45,111 @@ import {
   getCompensationPerks,
   getWorkArrangementDisplay
 } from "@/types/job";
+import { useJobSearch, type JobSearchFilters } from "@/hooks/use-job-search";
+import { JOB_SEARCH_FACETS, type JobSearchFacet } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const FACET_FILTERS: { facet: JobSearchFacet; label: string }[] = [
+  { facet: "province", label: "All Provinces" },
+  { facet: "city", label: "All Cities" },
+  { facet: "workArrangement", label: "All Arrangements" },
+  { facet: "seniority", label: "All Levels" },
+  { facet: "industry", label: "All Industries" },
+  { facet: "employmentType", label: "All Types" },
+];
+
+// Saved searches link here with their filters in the query string
+function getInitialParams() {
+  const params = new URLSearchParams(window.location.search);
+  const facetFilters: Partial<Record<JobSearchFacet, string>> = {};
+  for (const facet of JOB_SEARCH_FACETS) {
+    const value = params.get(facet);
+    if (value) facetFilters[facet] = value;
+  }
+  return {
+    q: params.get("q") || "",
+    facetFilters,
+    salaryMin: params.get("salaryMin") || "",
+    openOnly: !!params.get("closingAfter"),
+    savedSearchId: params.get("savedSearch"),
+  };
+}
 
 export default function AllJobs() {
   const [, setLocation] = useLocation();
-  const [searchQuery, setSearchQuery] = useState("");
-  const [locationFilter, setLocationFilter] = useState("all");
-  const [industryFilter, setIndustryFilter] = useState("all");
-  const [typeFilter, setTypeFilter] = useState("all");
+  const { toast } = useToast();
+  const [initialParams] = useState(getInitialParams);
+  const [searchQuery, setSearchQuery] = useState(initialParams.q);
+  const [debouncedQuery, setDebouncedQuery] = useState(initialParams.q);
+  const [facetFilters, setFacetFilters] = useState<Partial<Record<JobSearchFacet, string>>>(initialParams.facetFilters);
+  const [salaryMin, setSalaryMin] = useState(initialParams.salaryMin);
+  const [openOnly, setOpenOnly] = useState(initialParams.openOnly);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [searchName, setSearchName] = useState("");
 
-  const { data: jobsData, isLoading } = useQuery<{ success: boolean; jobs: CompleteJob[] }>({
-    queryKey: ["/api/jobs"],
-  });
+  // Opening a saved search resets its "new jobs" count
+  useEffect(() => {
+    if (!initialParams.savedSearchId) return;
+    apiRequest("POST", `/api/individual/saved-searches/${initialParams.savedSearchId}/seen`)
+      .then(() => queryClient.invalidateQueries({ queryKey: ["/api/individual/saved-searches"] }))
+      .catch(() => {});
+  }, [initialParams.savedSearchId]);
 
-  const locations = jobsData?.jobs
-    ? Array.from(new Set(jobsData.jobs.map(job => formatLocation(job))))
-    : [];
-  
-  const industries = jobsData?.jobs
-    ? Array.from(new Set(jobsData.jobs.map(job => job.industry || job.companyDetails?.industry).filter(Boolean)))
-    : [];
+  // Avoid a search request on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
 
-  const employmentTypes = jobsData?.jobs
-    ? Array.from(new Set(jobsData.jobs.map(job => job.employmentType).filter(Boolean)))
-    : [];
+  const filters = {
+    q: debouncedQuery || undefined,
+    ...facetFilters,
+    salaryMin: salaryMin ? Number(salaryMin) : undefined,
+    closingAfter: openOnly ? new Date().toISOString().slice(0, 10) : undefined,
+  } as JobSearchFilters;
 
-  const filteredJobs = jobsData?.jobs?.filter(job => {
-    const matchesSearch = searchQuery === "" || 
-      job.title?.toLowerCase()?.includes(searchQuery.toLowerCase()) ||
-      job.company?.toLowerCase()?.includes(searchQuery.toLowerCase()) ||
-      job.description?.toLowerCase()?.includes(searchQuery.toLowerCase()) ||
-      job.core?.summary?.toLowerCase()?.includes(searchQuery.toLowerCase());
-    
-    const jobLocation = formatLocation(job);
-    const jobIndustry = job.industry || job.companyDetails?.industry;
-    
-    const matchesLocation = locationFilter === "all" || jobLocation === locationFilter;
-    const matchesIndustry = industryFilter === "all" || jobIndustry === industryFilter;
-    const matchesType = typeFilter === "all" || job.employmentType === typeFilter;
+  const { jobs, total, facets, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useJobSearch(filters);
 
-    return matchesSearch && matchesLocation && matchesIndustry && matchesType;
-  }) || [];
+  const setFacetFilter = (facet: JobSearchFacet, value: string) => {
+    setFacetFilters((prev) => ({ ...prev, [facet]: value === "all" ? undefined : value }));
+  };
+
+  const hasFilters = !!searchQuery || !!salaryMin || openOnly || Object.values(facetFilters).some(Boolean);
+
+  const saveSearchMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/individual/saved-searches", {
+        name: searchName.trim(),
+        // "Still accepting applications" is relative to today, so it isn't saved as a fixed date
+        filters: { ...filters, q: searchQuery.trim() || undefined, closingAfter: undefined },
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/individual/saved-searches"] });
+      toast({
+        title: "Search saved",
+        description: "We'll let you know when new jobs match this search.",
+      });
+      setSaveDialogOpen(false);
+      setSearchName("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save search",
+        description: error.message.replace(/^\d+:\s*/, ""),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const clearFilters = () => {
+    setSearchQuery("");
+    setFacetFilters({});
+    setSalaryMin("");
+    setOpenOnly(false);
+  };
 
   const handleApplyViaWhatsApp = (job: CompleteJob) => {
     const whatsapp = job.application?.whatsappNumber || job.whatsappContact;
@@ -109,7 +185,7 @@ export default function AllJobs() {
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-5 w-5" />
             <Input
               type="text"
-              placeholder="Search by job title, company, or keywords..."
+              placeholder="Search by job title, skills, or keywords..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="pl-10 h-12 text-base bg-white"
@@ -117,45 +193,64 @@ export default function AllJobs() {
             />
           </div>
 
-          <div className="flex flex-col sm:flex-row gap-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {FACET_FILTERS.map(({ facet, label }) => {
+              const options = facets?.[facet] || [];
+              const selected = facetFilters[facet];
+              return (
+                <Select key={facet} value={selected || "all"} onValueChange={(value) => setFacetFilter(facet, value)}>
+                  <SelectTrigger className="bg-white/10 border-white/20 text-white" data-testid={`select-${facet}`}>
+                    <SelectValue placeholder={label} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">{label}</SelectItem>
+                    {selected && !options.some((option) => option.value === selected) && (
+                      <SelectItem value={selected}>{selected}</SelectItem>
+                    )}
+                    {options.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.value} ({option.count})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              );
+            })}
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
             <div className="flex items-center gap-2 flex-1">
               <Filter className="h-4 w-4 text-white/70" />
-              <Select value={locationFilter} onValueChange={setLocationFilter}>
-                <SelectTrigger className="bg-white/10 border-white/20 text-white" data-testid="select-location">
-                  <SelectValue placeholder="All Locations" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Locations</SelectItem>
-                  {locations.map(location => (
-                    <SelectItem key={location} value={location}>{location}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <Input
+                type="number"
+                min={0}
+                placeholder="Minimum salary (ZAR)"
+                value={salaryMin}
+                onChange={(e) => setSalaryMin(e.target.value)}
+                className="bg-white/10 border-white/20 text-white placeholder:text-white/60"
+                data-testid="input-salary-min"
+              />
             </div>
-
-            <Select value={industryFilter} onValueChange={setIndustryFilter} >
-              <SelectTrigger className="bg-white/10 border-white/20 text-white flex-1" data-testid="select-industry">
-                <SelectValue placeholder="All Industries" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Industries</SelectItem>
-                {industries.filter((ind): ind is string => !!ind).map(industry => (
-                  <SelectItem key={industry} value={industry}>{industry}</SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-
-            <Select value={typeFilter} onValueChange={setTypeFilter}>
-              <SelectTrigger className="bg-white/10 border-white/20 text-white flex-1" data-testid="select-type">
-                <SelectValue placeholder="All Types" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Types</SelectItem>
-                {employmentTypes.filter((t): t is string => !!t).map(type => (
-                  <SelectItem key={type} value={type}>{type}</SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            <Button
+              variant={openOnly ? "secondary" : "outline"}
+              onClick={() => setOpenOnly(!openOnly)}
+              className={openOnly ? "" : "bg-white/10 border-white/20 text-white"}
+              data-testid="button-open-only"
+            >
+              <Calendar className="h-4 w-4 mr-2" />
+              Still accepting applications
+            </Button>
+            {hasFilters && (
+              <>
+                <Button variant="secondary" onClick={() => setSaveDialogOpen(true)} data-testid="button-save-search">
+                  <Save className="h-4 w-4 mr-2" />
+                  Save search
+                </Button>
+                <Button variant="ghost" onClick={clearFilters} className="text-white" data-testid="button-clear-filters">
+                  Clear filters
+                </Button>
+              </>
+            )}
           </div>
         </div>
 
@@ -166,17 +261,17 @@ export default function AllJobs() {
                 <p className="text-muted-foreground">Loading jobs...</p>
               </CardContent>
             </Card>
-          ) : filteredJobs.length > 0 ? (
+          ) : jobs.length > 0 ? (
             <>
               <div className="mb-4 p-4 bg-white/95 rounded-lg flex items-center justify-between">
                 <div>
                   <p className="text-sm text-muted-foreground">Jobs Found</p>
-                  <p className="text-2xl font-bold">{filteredJobs.length}</p>
+                  <p className="text-2xl font-bold">{total}</p>
                 </div>
                 <Briefcase className="h-12 w-12 text-primary opacity-20" />
               </div>
 
-              {filteredJobs.map((job) => {
+              {jobs.map((job) => {
                 const daysLeft = getDaysRemaining(job.application?.closingDate || job.admin?.closingDate);
                 const isUrgent = daysLeft !== null && daysLeft <= 7;
                 const perks = getCompensationPerks(job);
@@ -340,20 +435,69 @@ export default function AllJobs() {
                 </Card>
               );
             })}
+
+              {hasNextPage && (
+                <div className="flex justify-center">
+                  <Button
+                    variant="secondary"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                    data-testid="button-load-more"
+                  >
+                    {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Load more jobs
+                  </Button>
+                </div>
+              )}
           </>
         ) : (
           <Card className="bg-white/95">
             <CardContent className="p-12 text-center">
               <Briefcase className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
-              <h3 className="text-xl font-semibold mb-2">No jobs available</h3>
+              <h3 className="text-xl font-semibold mb-2">{hasFilters ? "No matching jobs" : "No jobs available"}</h3>
               <p className="text-muted-foreground">
-                Check back soon for new opportunities
+                {hasFilters ? "Try removing some filters or broadening your search" : "Check back soon for new opportunities"}
               </p>
             </CardContent>
           </Card>
         )}
       </div>
       </div>
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save this search</DialogTitle>
+            <DialogDescription>
+              Saved searches show how many new jobs match, and can alert you by email or WhatsApp.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name">Name</Label>
+            <Input
+              id="saved-search-name"
+              value={searchName}
+              onChange={(e) => setSearchName(e.target.value)}
+              placeholder="e.g. Software Developer in Cape Town"
+              maxLength={100}
+              data-testid="input-saved-search-name"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveSearchMutation.mutate()}
+              disabled={!searchName.trim() || saveSearchMutation.isPending}
+              data-testid="button-confirm-save-search"
+            >
+              {saveSearchMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -21,8 +21,11 @@ interface JobApplication {
   id: string;
   userId: string;
   jobId: string;
+  method: "in-app" | "whatsapp" | "external";
+  cvId: string | null;
   appliedAt: string;
   status: string;
+  statusUpdatedBy: string | null;
   notes: string | null;
   createdAt: string;
   updatedAt: string;
@@ -81,6 +84,17 @@ export default function IndividualApplications() {
     }
   };
 
+  const getMethodLabel = (method: JobApplication["method"]) => {
+    switch (method) {
+      case "in-app":
+        return "Applied via SebenzaHub";
+      case "whatsapp":
+        return "Applied via WhatsApp";
+      default:
+        return "Applied via company website";
+    }
+  };
+
   const formatSalary = (min?: number | null, max?: number | null) => {
     if (!min && !max) return "Salary not specified";
     if (min && max) return `R${min.toLocaleString()} - R${max.toLocaleString()}`;
@@ -210,6 +224,9 @@ export default function IndividualApplications() {
                       <Calendar className="h-3 w-3" />
                       <span data-testid="text-applied-date">{formatDate(application.appliedAt)}</span>
                     </div>
+                    <span className="text-xs text-slate" data-testid="text-application-method">
+                      {getMethodLabel(application.method)}
+                    </span>
                   </div>
                 </div>
               </CardHeader>
@@ -231,25 +248,33 @@ export default function IndividualApplications() {
                     View Job Details
                   </Button>
 
-                  <div className="flex items-center gap-2">
-                    <span className="text-sm text-slate">Update status:</span>
-                    <Select
-                      value={application.status}
-                      onValueChange={(status) => updateStatusMutation.mutate({ id: application.id, status })}
-                      disabled={updateStatusMutation.isPending}
-                    >
-                      <SelectTrigger className="w-[140px] h-9" data-testid="select-status">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="Applied">Applied</SelectItem>
-                        <SelectItem value="Viewed">Viewed</SelectItem>
-                        <SelectItem value="Interview">Interview</SelectItem>
-                        <SelectItem value="Offer">Offer</SelectItem>
-                        <SelectItem value="Rejected">Rejected</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                  {application.method === "in-app" ? (
+                    <span className="text-sm text-slate" data-testid="text-status-managed">
+                      {application.statusUpdatedBy && application.statusUpdatedBy !== application.userId
+                        ? `Status updated by the employer on ${formatDate(application.updatedAt)}`
+                        : "The employer will update the status as your application progresses"}
+                    </span>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-slate">Update status:</span>
+                      <Select
+                        value={application.status}
+                        onValueChange={(status) => updateStatusMutation.mutate({ id: application.id, status })}
+                        disabled={updateStatusMutation.isPending}
+                      >
+                        <SelectTrigger className="w-[140px] h-9" data-testid="select-status">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="Applied">Applied</SelectItem>
+                          <SelectItem value="Viewed">Viewed</SelectItem>
+                          <SelectItem value="Interview">Interview</SelectItem>
+                          <SelectItem value="Offer">Offer</SelectItem>
+                          <SelectItem value="Rejected">Rejected</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
                 </div>
 
                 {application.notes && (
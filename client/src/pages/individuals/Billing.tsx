@@ -10,7 +10,6 @@ import {
   X,
   TrendingUp,
   Calendar,
-  FileText,
   Zap,
   Users,
   Briefcase,
@@ -18,6 +17,11 @@ import {
   ArrowUpCircle,
 } from "lucide-react";
 import { Link } from "wouter";
+import { InvoiceList } from "@/components/billing/InvoiceList";
+import { OverageCard } from "@/components/billing/OverageCard";
+import { ChangePlanCard } from "@/components/billing/ChangePlanCard";
+import { TrialCard } from "@/components/billing/TrialCard";
+import { PastDueCard } from "@/components/billing/PastDueCard";
 
 interface Subscription {
   subscription: {
@@ -25,6 +29,11 @@ interface Subscription {
     status: string;
     currentPeriodStart: string;
     currentPeriodEnd: string;
+    scheduledPlanId?: string | null;
+    trialEndsAt?: string | null;
+    cancelAtPeriodEnd?: number;
+    metadata?: { paymentMethodCaptured?: boolean } | null;
+    restrictedAt?: string | null;
   };
   plan: {
     id: string;
@@ -34,6 +43,7 @@ interface Subscription {
     interval: string;
     price: number;
   };
+  restrictOn?: string | null;
 }
 
 interface Entitlement {
@@ -140,6 +150,14 @@ export default function IndividualBilling() {
       </div>
 
       <div className="grid gap-6">
+        {/* Past Due Card - shown while a renewal or failed payment is outstanding */}
+        {subscription?.status === 'past_due' && (
+          <PastDueCard
+            restrictedAt={subscription.restrictedAt}
+            restrictOn={subscriptionData?.restrictOn}
+          />
+        )}
+
         {/* Current Plan Card */}
         <Card data-testid="card-current-plan">
           <CardHeader>
@@ -345,24 +363,30 @@ export default function IndividualBilling() {
           </Card>
         )}
 
-        {/* Payment History Card */}
-        <Card data-testid="card-payment-history">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <FileText className="h-5 w-5" />
-              Payment History
-            </CardTitle>
-            <CardDescription>
-              View your past invoices and transactions
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="text-center py-8 text-muted-foreground">
-              <p>No payment history available yet</p>
-              <p className="text-sm mt-1">Transactions will appear here once you make a payment</p>
-            </div>
-          </CardContent>
-        </Card>
+        {/* Trial Card - plan changes open up once the subscription is active */}
+        {plan && subscription?.status === 'trialing' && subscription.trialEndsAt && (
+          <TrialCard
+            planId={plan.id}
+            trialEndsAt={subscription.trialEndsAt}
+            paymentCaptured={!!subscription.metadata?.paymentMethodCaptured}
+            canceled={subscription.cancelAtPeriodEnd === 1}
+          />
+        )}
+
+        {/* Change Plan Card */}
+        {plan && subscription?.status === 'active' && (
+          <ChangePlanCard
+            currentPlanId={plan.id}
+            product={plan.product}
+            scheduledPlanId={subscription?.scheduledPlanId}
+          />
+        )}
+
+        {/* Usage Overage Card - shown when the plan has metered features */}
+        <OverageCard />
+
+        {/* Invoices Card */}
+        <InvoiceList description="Tax invoices for your subscription payments" />
       </div>
     </div>
   );
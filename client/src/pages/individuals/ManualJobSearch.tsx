@@ -1,4 +1,3 @@
-import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -17,7 +16,8 @@ import {
   Award,
   AlertCircle,
   TrendingUp,
-  CheckCircle2
+  CheckCircle2,
+  Loader2
 } from "lucide-react";
 import type { CompleteJob } from "@/types/job";
 import { 
@@ -28,13 +28,12 @@ import {
   getCompensationPerks,
   getWorkArrangementDisplay
 } from "@/types/job";
+import { useJobSearch } from "@/hooks/use-job-search";
 
 export default function ManualJobSearch() {
   const [, setLocation] = useLocation();
 
-  const { data: jobsData, isLoading } = useQuery<{ success: boolean; jobs: CompleteJob[] }>({
-    queryKey: ["/api/jobs?status=Live"],
-  });
+  const { jobs, total, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useJobSearch({});
 
   const handleApplyViaWhatsApp = (job: CompleteJob) => {
     const whatsapp = job.application?.whatsappNumber || job.whatsappContact;
@@ -61,17 +60,17 @@ export default function ManualJobSearch() {
               <p className="text-muted-foreground">Loading jobs...</p>
             </CardContent>
           </Card>
-        ) : jobsData?.jobs && jobsData.jobs.length > 0 ? (
+        ) : jobs.length > 0 ? (
           <>
             <div className="mb-4 p-4 bg-muted rounded-lg flex items-center justify-between">
               <div>
                 <p className="text-sm text-muted-foreground">Live Jobs Available</p>
-                <p className="text-2xl font-bold">{jobsData.jobs.length}</p>
+                <p className="text-2xl font-bold">{total}</p>
               </div>
               <Briefcase className="h-12 w-12 text-primary opacity-20" />
             </div>
 
-            {jobsData.jobs.map((job) => {
+            {jobs.map((job) => {
                 const daysLeft = getDaysRemaining(job.application?.closingDate || job.admin?.closingDate);
                 const isUrgent = daysLeft !== null && daysLeft <= 7;
                 const perks = getCompensationPerks(job);
@@ -232,6 +231,20 @@ export default function ManualJobSearch() {
                   </Card>
                 );
               })}
+
+              {hasNextPage && (
+                <div className="flex justify-center">
+                  <Button
+                    variant="secondary"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                    data-testid="button-load-more"
+                  >
+                    {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Load more jobs
+                  </Button>
+                </div>
+              )}
             </>
           ) : (
             <Card className="bg-white/95">
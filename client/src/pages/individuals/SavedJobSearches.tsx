@@ -1,9 +1,63 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Save, Search } from "lucide-react";
+import { Bell, Save, Search, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { SavedSearch, SavedSearchFilters } from "@shared/schema";
+
+interface SavedSearchWithCount extends SavedSearch {
+  newJobsCount: number;
+  resultsPath: string;
+}
+
+function describeFilters(filters: SavedSearchFilters): string {
+  const parts = [
+    filters.q ? `"${filters.q}"` : null,
+    filters.industry,
+    filters.city,
+    filters.province,
+    filters.workArrangement,
+    filters.seniority,
+    filters.employmentType,
+    filters.salaryMin ? `Min R${filters.salaryMin.toLocaleString("en-ZA")}` : null,
+    filters.salaryMax ? `Max R${filters.salaryMax.toLocaleString("en-ZA")}` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" • ") : "All jobs";
+}
 
 export default function SavedJobSearches() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<{ success: boolean; searches: SavedSearchWithCount[] }>({
+    queryKey: ["/api/individual/saved-searches"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/individual/saved-searches/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/individual/saved-searches"] });
+      toast({
+        title: "Saved search deleted",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete saved search.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const searches = data?.searches || [];
+
   return (
     <div className="container mx-auto p-6 max-w-6xl">
       <div className="mb-6">
@@ -23,98 +77,78 @@ export default function SavedJobSearches() {
         </div>
 
         <div className="space-y-4">
-          <Card className="bg-white/95 hover-elevate" data-testid="saved-search-example-1">
-            <CardHeader>
-              <div className="flex items-start justify-between">
-                <div className="flex-1">
-                  <CardTitle className="text-lg mb-1">Software Developer in Cape Town</CardTitle>
-                  <p className="text-sm text-muted-foreground">
-                    Technology • Cape Town • Permanent • Min R30,000
-                  </p>
-                </div>
-                <Badge variant="secondary">5 new jobs</Badge>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="flex gap-3">
-                <Button className="flex-1" data-testid="button-view-saved-search-1">
-                  <Search className="h-4 w-4 mr-2" />
-                  View Results
-                </Button>
-                <Button variant="outline" size="icon" data-testid="button-delete-saved-search-1">
-                  <span className="sr-only">Delete</span>
-                  <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                  </svg>
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card className="bg-white/95 hover-elevate" data-testid="saved-search-example-2">
-            <CardHeader>
-              <div className="flex items-start justify-between">
-                <div className="flex-1">
-                  <CardTitle className="text-lg mb-1">Project Manager - Remote</CardTitle>
-                  <p className="text-sm text-muted-foreground">
-                    Any Industry • Remote • Permanent • Min R40,000
-                  </p>
-                </div>
-                <Badge variant="secondary">2 new jobs</Badge>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="flex gap-3">
-                <Button className="flex-1" data-testid="button-view-saved-search-2">
-                  <Search className="h-4 w-4 mr-2" />
-                  View Results
-                </Button>
-                <Button variant="outline" size="icon" data-testid="button-delete-saved-search-2">
-                  <span className="sr-only">Delete</span>
-                  <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                  </svg>
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card className="bg-white/95 hover-elevate" data-testid="saved-search-example-3">
-            <CardHeader>
-              <div className="flex items-start justify-between">
-                <div className="flex-1">
-                  <CardTitle className="text-lg mb-1">Data Analyst in Johannesburg</CardTitle>
-                  <p className="text-sm text-muted-foreground">
-                    Finance • Johannesburg • Contract • Min R35,000
-                  </p>
-                </div>
-                <Badge variant="secondary">8 new jobs</Badge>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="flex gap-3">
-                <Button className="flex-1" data-testid="button-view-saved-search-3">
-                  <Search className="h-4 w-4 mr-2" />
-                  View Results
-                </Button>
-                <Button variant="outline" size="icon" data-testid="button-delete-saved-search-3">
-                  <span className="sr-only">Delete</span>
-                  <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                  </svg>
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
+          {isLoading ? (
+            <Card className="bg-white/95">
+              <CardContent className="p-8 text-center">
+                <p className="text-muted-foreground">Loading saved searches...</p>
+              </CardContent>
+            </Card>
+          ) : (
+            searches.map((search) => (
+              <Card key={search.id} className="bg-white/95 hover-elevate" data-testid={`saved-search-${search.id}`}>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex-1">
+                      <CardTitle className="text-lg mb-1">{search.name}</CardTitle>
+                      <p className="text-sm text-muted-foreground">
+                        {describeFilters(search.filters as SavedSearchFilters)}
+                      </p>
+                    </div>
+                    <Badge variant={search.newJobsCount > 0 ? "default" : "secondary"}>
+                      {search.newJobsCount} new job{search.newJobsCount !== 1 ? "s" : ""}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex gap-3">
+                    <Button
+                      className="flex-1"
+                      onClick={() => setLocation(search.resultsPath)}
+                      data-testid={`button-view-saved-search-${search.id}`}
+                    >
+                      <Search className="h-4 w-4 mr-2" />
+                      View Results
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(search.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-saved-search-${search.id}`}
+                    >
+                      <span className="sr-only">Delete</span>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
 
           <Card className="bg-white/95">
             <CardContent className="p-8 text-center">
               <p className="text-muted-foreground mb-4">
-                Save your searches from the Manual Job Search page to quickly access them here
+                {searches.length === 0
+                  ? "Save your searches from the All Jobs page to quickly access them here"
+                  : "New matches are sent daily by email or WhatsApp, based on your notification settings"}
               </p>
-              <Button variant="outline" data-testid="button-go-to-manual-search">
-                Go to Manual Search
-              </Button>
+              <div className="flex flex-wrap justify-center gap-3">
+                <Button
+                  variant="outline"
+                  onClick={() => setLocation("/dashboard/individual/jobs/all")}
+                  data-testid="button-go-to-all-jobs"
+                >
+                  Go to All Jobs
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setLocation("/dashboard/individual/settings")}
+                  data-testid="button-alert-settings"
+                >
+                  <Bell className="h-4 w-4 mr-2" />
+                  Alert Settings
+                </Button>
+              </div>
             </CardContent>
           </Card>
         </div>
@@ -42,6 +42,16 @@ type CorporateClient = {
   notes: string | null;
   createdAt: Date;
   updatedAt: Date;
+  sharedCandidates?: SharedCandidate[];
+};
+
+type SharedCandidate = {
+  id: string;
+  fullName: string | null;
+  headline: string | null;
+  city: string | null;
+  country: string | null;
+  sharedAt: Date;
 };
 
 type ClientContact = {
@@ -151,6 +161,9 @@ export default function CorporateClients() {
   // Extract engagements from selectedClient (no separate endpoint)
   const engagements = selectedClient?.engagements || [];
 
+  // Talent pool candidates the agency has shared with this client
+  const sharedCandidates = selectedClient?.sharedCandidates || [];
+
   // Fetch client jobs separately
   const { data: jobs = [] } = useQuery<any[]>({
     queryKey: ["/api/recruiter/clients", selectedClientId, "jobs"],
@@ -497,7 +510,7 @@ export default function CorporateClients() {
 
             {/* Tabs */}
             <Tabs defaultValue="overview" className="w-full">
-              <TabsList className="grid w-full grid-cols-4">
+              <TabsList className="grid w-full grid-cols-5">
                 <TabsTrigger value="overview" data-testid="tab-overview">
                   Overview
                 </TabsTrigger>
@@ -510,6 +523,9 @@ export default function CorporateClients() {
                 <TabsTrigger value="jobs" data-testid="tab-jobs">
                   Jobs ({jobs.length})
                 </TabsTrigger>
+                <TabsTrigger value="candidates" data-testid="tab-shared-candidates">
+                  Candidates ({sharedCandidates.length})
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="overview" className="space-y-4">
@@ -899,6 +915,46 @@ export default function CorporateClients() {
                   </div>
                 )}
               </TabsContent>
+
+              <TabsContent value="candidates" className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  {sharedCandidates.length} candidate{sharedCandidates.length !== 1 ? "s" : ""} shared from your talent pool
+                </p>
+
+                {sharedCandidates.length === 0 ? (
+                  <Card>
+                    <CardContent className="p-12 text-center">
+                      <Users className="w-12 h-12 mx-auto mb-3 opacity-50 text-muted-foreground" />
+                      <p className="text-muted-foreground">
+                        No candidates shared with this client yet. Share a candidate from their profile.
+                      </p>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  <div className="space-y-3">
+                    {sharedCandidates.map((candidate) => (
+                      <Card
+                        key={candidate.id}
+                        className="hover-elevate cursor-pointer"
+                        onClick={() => {
+                          window.location.href = `/candidates/${candidate.id}`;
+                        }}
+                        data-testid={`card-shared-candidate-${candidate.id}`}
+                      >
+                        <CardContent className="p-4">
+                          <h4 className="font-semibold">{candidate.fullName || "Unnamed Candidate"}</h4>
+                          {candidate.headline && (
+                            <p className="text-sm text-muted-foreground mt-1">{candidate.headline}</p>
+                          )}
+                          <p className="text-xs text-muted-foreground mt-2">
+                            Shared {formatDistanceToNow(new Date(candidate.sharedAt), { addSuffix: true })}
+                          </p>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                )}
+              </TabsContent>
             </Tabs>
           </div>
         )}
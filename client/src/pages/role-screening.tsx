@@ -1,7 +1,7 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation, useRoute } from "wouter";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, getApiUrl } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,8 +10,35 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Loader2, UserCheck, AlertTriangle, CheckCircle2, XCircle, Eye, ArrowLeft } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, UserCheck, AlertTriangle, CheckCircle2, XCircle, Eye, EyeOff, ArrowLeft, UserCog, MessageSquare } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ScreeningOverrideDialog } from "@/components/recruiter/ScreeningOverrideDialog";
+import { ScreeningCalibrationCard } from "@/components/recruiter/ScreeningCalibrationCard";
+import { ShortlistExportButtons } from "@/components/recruiter/ShortlistExportButtons";
+import { ShortlistSharePanel } from "@/components/recruiter/ShortlistSharePanel";
+
+interface ScreeningRunProgress {
+  id: string;
+  status: string;
+  total: number;
+  completed: number;
+  failed: number;
+}
+
+interface ClientFeedback {
+  shareId: string;
+  candidateId: string;
+  recipientName: string;
+  decision: "yes" | "no" | "maybe";
+  comment: string | null;
+}
+
+const CLIENT_DECISION_LABELS: Record<ClientFeedback["decision"], string> = {
+  yes: "Yes",
+  no: "No",
+  maybe: "Maybe",
+};
 
 export default function RoleScreening() {
   const [, params] = useRoute("/roles/:roleId/screen");
@@ -21,6 +48,8 @@ export default function RoleScreening() {
 
   const [selectedCandidates, setSelectedCandidates] = useState<string[]>([]);
   const [viewingScreening, setViewingScreening] = useState<any>(null);
+  const [overridingScreening, setOverridingScreening] = useState<any>(null);
+  const [activeRun, setActiveRun] = useState<ScreeningRunProgress | null>(null);
 
   const { data: roleData, isLoading: roleLoading } = useQuery({
     queryKey: [`/api/roles/${roleId}`],
@@ -36,20 +65,73 @@ export default function RoleScreening() {
     enabled: !!roleId,
   });
 
+  const { data: feedbackData } = useQuery<{ feedback: ClientFeedback[] }>({
+    queryKey: [`/api/roles/${roleId}/shortlist-feedback`],
+    enabled: !!roleId,
+  });
+
+  const { data: latestRunData } = useQuery({
+    queryKey: [`/api/roles/${roleId}/screening-runs/latest`],
+    enabled: !!roleId,
+  });
+
+  // Resume following a run that was still in progress when the page was opened
+  useEffect(() => {
+    const run = (latestRunData as any)?.run;
+    if (run?.status === "running") {
+      setActiveRun((current) => current || run);
+    }
+  }, [latestRunData]);
+
+  const activeRunId = activeRun?.status === "running" ? activeRun.id : null;
+
+  // Screenings run in the background worker; follow their progress over SSE
+  useEffect(() => {
+    if (!roleId || !activeRunId) return;
+
+    const events = new EventSource(getApiUrl(`/api/roles/${roleId}/screening-runs/${activeRunId}/events`), {
+      withCredentials: true,
+    });
+
+    events.addEventListener("progress", (event) => {
+      setActiveRun(JSON.parse((event as MessageEvent).data));
+      queryClient.invalidateQueries({ queryKey: [`/api/roles/${roleId}/screenings`] });
+    });
+
+    events.addEventListener("done", (event) => {
+      const run: ScreeningRunProgress = JSON.parse((event as MessageEvent).data);
+      events.close();
+      setActiveRun(run);
+      queryClient.invalidateQueries({ queryKey: [`/api/roles/${roleId}/screenings`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/roles/${roleId}/screening-runs/latest`] });
+      toast({
+        title: "Screening complete",
+        description: run.failed > 0
+          ? `${run.completed} candidates evaluated, ${run.failed} could not be screened.`
+          : "Candidates have been evaluated successfully.",
+      });
+    });
+
+    return () => events.close();
+  }, [roleId, activeRunId]);
+
   const role = (roleData as any)?.role;
   const allCandidates = (candidatesData as any)?.candidates || [];
   const screenings = (screeningsData as any)?.screenings || [];
+  const stages: string[] = (screeningsData as any)?.stages || [];
+  const clientFeedback = feedbackData?.feedback || [];
 
   const screenMutation = useMutation({
     mutationFn: async (candidateIds: string[]) => {
-      return apiRequest("POST", `/api/roles/${roleId}/screen`, { candidateIds });
+      const res = await apiRequest("POST", `/api/roles/${roleId}/screen`, { candidateIds });
+      return res.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/roles/${roleId}/screenings`] });
+    onSuccess: (data: any) => {
+      setActiveRun(data.run);
       setSelectedCandidates([]);
       toast({
-        title: "Screening complete",
-        description: "Candidates have been evaluated successfully.",
+        title: "Screening started",
+        description: data.message || "Candidates are being evaluated in the background.",
       });
     },
     onError: (error: any) => {
@@ -61,6 +143,24 @@ export default function RoleScreening() {
     },
   });
 
+  const stageMutation = useMutation({
+    mutationFn: async ({ screeningId, stage }: { screeningId: string; stage: string }) => {
+      const res = await apiRequest("PUT", `/api/screenings/${screeningId}/stage`, { stage });
+      return res.json();
+    },
+    onSuccess: (data: any) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/roles/${roleId}/screenings`] });
+      toast({ title: data.message || "Candidate moved" });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Move failed",
+        description: error.message || "Failed to move candidate",
+      });
+    },
+  });
+
   const toggleCandidate = (candidateId: string) => {
     setSelectedCandidates((prev) =>
       prev.includes(candidateId)
@@ -125,9 +225,38 @@ export default function RoleScreening() {
           <TabsTrigger value="results" data-testid="tab-results">
             Results {screenings.length > 0 && `(${screenings.length})`}
           </TabsTrigger>
+          <TabsTrigger value="calibration" data-testid="tab-calibration">Calibration</TabsTrigger>
         </TabsList>
 
         <TabsContent value="screen" className="space-y-6">
+          {activeRun && (
+            <Card data-testid="card-screening-progress">
+              <CardHeader>
+                <CardTitle className="text-white-brand flex items-center gap-2">
+                  {activeRun.status === "running" ? (
+                    <Loader2 className="w-5 h-5 animate-spin text-amber" />
+                  ) : (
+                    <CheckCircle2 className="w-5 h-5 text-green-600" />
+                  )}
+                  {activeRun.status === "running" ? "Screening in progress" : "Screening complete"}
+                </CardTitle>
+                <CardDescription className="text-slate">
+                  You can leave this page; screening continues in the background
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <Progress
+                  value={activeRun.total > 0 ? ((activeRun.completed + activeRun.failed) / activeRun.total) * 100 : 0}
+                  className="h-2"
+                />
+                <div className="text-sm text-slate" data-testid="text-screening-progress">
+                  {activeRun.completed + activeRun.failed} of {activeRun.total} screened
+                  {activeRun.failed > 0 && `, ${activeRun.failed} failed`}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle className="text-white-brand">Select Candidates to Screen</CardTitle>
@@ -155,11 +284,11 @@ export default function RoleScreening() {
                     </div>
                     <Button
                       onClick={handleScreenSelected}
-                      disabled={selectedCandidates.length === 0 || screenMutation.isPending}
+                      disabled={selectedCandidates.length === 0 || screenMutation.isPending || !!activeRunId}
                       className="bg-amber-gradient text-charcoal hover:opacity-90"
                       data-testid="button-screen-selected"
                     >
-                      {screenMutation.isPending ? (
+                      {screenMutation.isPending || activeRunId ? (
                         <>
                           <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                           Screening...
@@ -222,10 +351,19 @@ export default function RoleScreening() {
             </Card>
           ) : (
             <div className="space-y-4">
+              <ShortlistSharePanel roleId={roleId!} />
+              <div className="flex justify-end">
+                <ShortlistExportButtons exportPath={`/api/roles/${roleId}/screenings/export`} />
+              </div>
               {screenings.map((item: any, idx: number) => {
-                const { screening, candidate } = item;
-                const isKnockout = screening.knockout?.is_ko;
-                const score = screening.scoreTotal || 0;
+                const { screening, candidate, identityWithheld } = item;
+                // A recruiter override stands over the AI result
+                const isOverridden = screening.overrideScoreTotal !== null || screening.overrideKnockout !== null;
+                const isKnockout = screening.overrideKnockout !== null
+                  ? screening.overrideKnockout === 1
+                  : screening.knockout?.is_ko;
+                const score = screening.overrideScoreTotal ?? screening.scoreTotal ?? 0;
+                const feedback = clientFeedback.filter((f) => f.candidateId === candidate.id);
 
                 return (
                   <Card
@@ -245,6 +383,18 @@ export default function RoleScreening() {
                                 Knockout
                               </Badge>
                             )}
+                            {identityWithheld && (
+                              <Badge variant="outline" data-testid={`badge-blind-${screening.id}`}>
+                                <EyeOff className="w-3 h-3 mr-1" />
+                                Identity withheld
+                              </Badge>
+                            )}
+                            {isOverridden && (
+                              <Badge variant="secondary" data-testid={`badge-overridden-${screening.id}`}>
+                                <UserCog className="w-3 h-3 mr-1" />
+                                Recruiter override
+                              </Badge>
+                            )}
                           </div>
                           <CardDescription className="text-slate">
                             {candidate.headline || "No headline"}
@@ -252,7 +402,11 @@ export default function RoleScreening() {
                         </div>
                         <div className="text-right">
                           <div className="text-3xl font-bold text-amber">{score.toFixed(1)}%</div>
-                          <div className="text-xs text-slate">Total Score</div>
+                          <div className="text-xs text-slate">
+                            {screening.overrideScoreTotal !== null
+                              ? `Recruiter score (AI ${(screening.scoreTotal || 0).toFixed(1)}%)`
+                              : "Total Score"}
+                          </div>
                         </div>
                       </div>
                     </CardHeader>
@@ -310,6 +464,34 @@ export default function RoleScreening() {
                         </div>
                       )}
 
+                      {isOverridden && screening.overrideReason && (
+                        <div className="rounded-md border p-3 text-sm" data-testid={`text-override-reason-${screening.id}`}>
+                          <div className="font-medium mb-1 text-white-brand">Override reason</div>
+                          <p className="text-slate">{screening.overrideReason}</p>
+                        </div>
+                      )}
+
+                      {feedback.length > 0 && (
+                        <div className="rounded-md border p-3 text-sm space-y-2" data-testid={`client-feedback-${screening.id}`}>
+                          <div className="font-medium flex items-center gap-1 text-white-brand">
+                            <MessageSquare className="w-4 h-4 text-amber" />
+                            Client Feedback
+                          </div>
+                          {feedback.map((f) => (
+                            <div key={f.shareId}>
+                              <Badge
+                                variant={f.decision === "yes" ? "default" : f.decision === "no" ? "destructive" : "secondary"}
+                                className="mr-2"
+                              >
+                                {CLIENT_DECISION_LABELS[f.decision]}
+                              </Badge>
+                              <span className="text-white-brand">{f.recipientName}</span>
+                              {f.comment && <p className="text-slate mt-1">{f.comment}</p>}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
                       {isKnockout && screening.knockout?.reasons?.length > 0 && (
                         <div className="bg-destructive/10 border border-destructive rounded-md p-3">
                           <div className="text-sm font-medium mb-2 flex items-center gap-1">
@@ -324,23 +506,50 @@ export default function RoleScreening() {
                         </div>
                       )}
 
-                      <div className="flex gap-2">
+                      <div className="flex flex-wrap gap-2">
+                        {stages.length > 0 && (
+                          <Select
+                            value={screening.pipelineStage || stages[0]}
+                            onValueChange={(stage) => stageMutation.mutate({ screeningId: screening.id, stage })}
+                            disabled={stageMutation.isPending}
+                          >
+                            <SelectTrigger className="w-44 h-9" data-testid={`select-stage-${screening.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {stages.map((stage) => (
+                                <SelectItem key={stage} value={stage}>{stage}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        {!identityWithheld && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => navigate(`/candidates/${candidate.id}`)}
+                            data-testid={`button-view-profile-${screening.id}`}
+                          >
+                            <Eye className="w-4 h-4 mr-2" />
+                            View Profile
+                          </Button>
+                        )}
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => navigate(`/candidates/${candidate.id}`)}
-                          data-testid={`button-view-profile-${screening.id}`}
+                          onClick={() => setViewingScreening({ screening, candidate })}
+                          data-testid={`button-view-details-${screening.id}`}
                         >
-                          <Eye className="w-4 h-4 mr-2" />
-                          View Profile
+                          View Details
                         </Button>
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => setViewingScreening({ screening, candidate })}
-                          data-testid={`button-view-details-${screening.id}`}
+                          onClick={() => setOverridingScreening({ screening, candidate })}
+                          data-testid={`button-override-${screening.id}`}
                         >
-                          View Details
+                          <UserCog className="w-4 h-4 mr-2" />
+                          Override
                         </Button>
                       </div>
                     </CardContent>
@@ -350,8 +559,22 @@ export default function RoleScreening() {
             </div>
           )}
         </TabsContent>
+
+        <TabsContent value="calibration" className="space-y-6">
+          <ScreeningCalibrationCard roleId={roleId!} />
+        </TabsContent>
       </Tabs>
 
+      {overridingScreening && (
+        <ScreeningOverrideDialog
+          roleId={roleId!}
+          screening={overridingScreening.screening}
+          candidateName={overridingScreening.candidate.fullName}
+          open={!!overridingScreening}
+          onOpenChange={(open) => !open && setOverridingScreening(null)}
+        />
+      )}
+
       {viewingScreening && (
         <Dialog open={!!viewingScreening} onOpenChange={() => setViewingScreening(null)}>
           <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
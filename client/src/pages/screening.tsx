@@ -11,6 +11,7 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Plus, Upload, FileText, TrendingUp, AlertCircle, CheckCircle2, XCircle, Clock, Target } from "lucide-react";
 import type { ScreeningJob, ScreeningCandidate, ScreeningEvaluation } from "@shared/schema";
+import { ShortlistExportButtons } from "@/components/recruiter/ShortlistExportButtons";
 
 interface ScreeningStatsData {
   success: boolean;
@@ -622,8 +623,15 @@ function ScreeningResults({ jobId }: { jobId: string }) {
     <div className="space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle data-testid="text-results-title">{job.jobTitle}</CardTitle>
-          <CardDescription>{job.jobDescription}</CardDescription>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle data-testid="text-results-title">{job.jobTitle}</CardTitle>
+              <CardDescription>{job.jobDescription}</CardDescription>
+            </div>
+            {evaluations.length > 0 && (
+              <ShortlistExportButtons exportPath={`/api/screening/jobs/${job.id}/export`} />
+            )}
+          </div>
         </CardHeader>
         <CardContent>
           <div className="flex gap-2 flex-wrap">
@@ -0,0 +1,152 @@
+/**
+ * Migration Script: Backfill Candidate Organizations
+ *
+ * ATS candidates added before talent pools were scoped to an organization have
+ * no organization_id, so they don't show in any organization's pool. This assigns
+ * each one to the talent pool that brought it in, using the first of:
+ * - the organization that uploaded one of the candidate's resumes
+ * - the user who added the candidate's CV (recorded for fraud detection)
+ * - the organization behind the job the candidate's linked user applied to
+ *
+ * A user's talent pool is their organization, or their own pool when they don't
+ * belong to one (see server/services/talent-pool). Candidates with none of the
+ * above are listed; pass --organization <id> to put them in that pool instead.
+ *
+ * Run this once after deploying organization-scoped talent pools. Safe to re-run.
+ */
+
+import { db } from "../server/db";
+import { candidates, resumes, fraudDetections, jobApplications, jobs, memberships } from "../shared/schema";
+import { eq, and, isNull, isNotNull, desc } from "drizzle-orm";
+
+function fallbackOrganization(): string | null {
+  const index = process.argv.indexOf('--organization');
+  return index !== -1 ? process.argv[index + 1] || null : null;
+}
+
+const poolOwners = new Map<string, string>();
+
+async function talentPoolOwner(userId: string): Promise<string> {
+  const cached = poolOwners.get(userId);
+  if (cached) return cached;
+
+  const [membership] = await db.select({ organizationId: memberships.organizationId })
+    .from(memberships)
+    .where(eq(memberships.userId, userId))
+    .limit(1);
+
+  const owner = membership?.organizationId || userId;
+  poolOwners.set(userId, owner);
+  return owner;
+}
+
+async function resumeOrganization(candidateId: string): Promise<string | null> {
+  const [resume] = await db.select({ organizationId: resumes.organizationId })
+    .from(resumes)
+    .where(and(eq(resumes.candidateId, candidateId), isNotNull(resumes.organizationId)))
+    .orderBy(resumes.createdAt)
+    .limit(1);
+
+  return resume?.organizationId ?? null;
+}
+
+async function uploaderOrganization(candidateId: string): Promise<string | null> {
+  const [detection] = await db.select({ userId: fraudDetections.userId })
+    .from(fraudDetections)
+    .where(and(
+      eq(fraudDetections.contentType, 'cv_upload'),
+      eq(fraudDetections.contentId, candidateId),
+      isNotNull(fraudDetections.userId)
+    ))
+    .orderBy(fraudDetections.createdAt)
+    .limit(1);
+
+  return detection?.userId ? talentPoolOwner(detection.userId) : null;
+}
+
+async function applicationOrganization(userId: string | null): Promise<string | null> {
+  if (!userId) return null;
+
+  const [application] = await db.select({ organizationId: jobs.organizationId, postedByUserId: jobs.postedByUserId })
+    .from(jobApplications)
+    .innerJoin(jobs, eq(jobApplications.jobId, jobs.id))
+    .where(eq(jobApplications.userId, userId))
+    .orderBy(desc(jobApplications.appliedAt))
+    .limit(1);
+
+  if (!application) return null;
+  if (application.organizationId) return application.organizationId;
+  return application.postedByUserId ? talentPoolOwner(application.postedByUserId) : null;
+}
+
+async function backfillCandidateOrganizations() {
+  console.log("🔄 Backfilling organizations for unscoped ATS candidates...\n");
+
+  const fallback = fallbackOrganization();
+
+  const unscoped = await db.select({ id: candidates.id, userId: candidates.userId, fullName: candidates.fullName })
+    .from(candidates)
+    .where(isNull(candidates.organizationId));
+
+  console.log(`📦 ${unscoped.length} candidate(s) without an organization`);
+
+  const counts = { resume: 0, uploader: 0, application: 0, fallback: 0 };
+  const unresolved: typeof unscoped = [];
+
+  for (const candidate of unscoped) {
+    let organizationId: string | null = null;
+    let source: keyof typeof counts | null = null;
+
+    if ((organizationId = await resumeOrganization(candidate.id))) {
+      source = 'resume';
+    } else if ((organizationId = await uploaderOrganization(candidate.id))) {
+      source = 'uploader';
+    } else if ((organizationId = await applicationOrganization(candidate.userId))) {
+      source = 'application';
+    } else if ((organizationId = fallback)) {
+      source = 'fallback';
+    }
+
+    if (!organizationId || !source) {
+      unresolved.push(candidate);
+      continue;
+    }
+
+    await db.update(candidates)
+      .set({ organizationId })
+      .where(and(eq(candidates.id, candidate.id), isNull(candidates.organizationId)));
+
+    counts[source]++;
+  }
+
+  // ============================================================================
+  // SUMMARY
+  // ============================================================================
+
+  console.log("\n✅ Candidate organization backfill complete!\n");
+  console.log(`📊 Summary:`);
+  console.log(`   - From resume uploads: ${counts.resume}`);
+  console.log(`   - From the user who added the CV: ${counts.uploader}`);
+  console.log(`   - From job applications: ${counts.application}`);
+  console.log(`   - Assigned to --organization: ${counts.fallback}`);
+  console.log(`   - Unresolved: ${unresolved.length}\n`);
+
+  if (unresolved.length > 0) {
+    console.log("⚠️  No owner found for these candidates (re-run with --organization <id> to assign them):");
+    for (const candidate of unresolved) {
+      console.log(`   - ${candidate.id} ${candidate.fullName || ''}`);
+    }
+    console.log();
+  }
+}
+
+// Run the migration
+backfillCandidateOrganizations()
+  .then(() => {
+    console.log("🎉 Done!");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("❌ Error:", error);
+    process.exit(1);
+  });
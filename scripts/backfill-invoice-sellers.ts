@@ -0,0 +1,42 @@
+/**
+ * Migration Script: Backfill Invoice Sellers
+ *
+ * Invoices now keep a copy of the supplier details they were issued with, so a
+ * re-downloaded tax invoice doesn't change when the company's details do. Invoices
+ * issued before that have no copy; this records the currently configured supplier
+ * details (INVOICE_SELLER_* environment variables) on them.
+ *
+ * Run this once after deploying invoice seller snapshots, with the same supplier
+ * details the earlier invoices were issued under. Safe to re-run.
+ */
+
+import { db } from "../server/db";
+import { invoices } from "../shared/schema";
+import { isNull } from "drizzle-orm";
+import { getInvoiceSeller } from "../server/services/invoices";
+
+async function backfillInvoiceSellers() {
+  console.log("🧾 Backfilling invoice seller details...\n");
+
+  const seller = getInvoiceSeller();
+  console.log(`   Seller: ${seller.name}, VAT ${seller.vatNumber || '(none)'}, ${seller.address}\n`);
+
+  const updated = await db.update(invoices)
+    .set({ seller })
+    .where(isNull(invoices.seller))
+    .returning({ invoiceNumber: invoices.invoiceNumber });
+
+  console.log("✅ Invoice seller backfill complete!\n");
+  console.log(`📊 Invoices updated: ${updated.length}\n`);
+}
+
+// Run the migration
+backfillInvoiceSellers()
+  .then(() => {
+    console.log("🎉 Done!");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("❌ Error:", error);
+    process.exit(1);
+  });
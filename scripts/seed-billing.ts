@@ -39,7 +39,7 @@ interface PlanSpec {
 type EntitlementSpec =
   | { kind: 'TOGGLE'; enabled: boolean }
   | { kind: 'QUOTA'; monthlyCap: number }
-  | { kind: 'METERED'; overageUnitCents: number };
+  | { kind: 'METERED'; overageUnitCents: number; includedUnits?: number };
 
 // ============================================================================
 // 1. FEATURE CATALOG
@@ -197,7 +197,7 @@ async function grant(planId: string, featureKey: string, spec: EntitlementSpec)
     const values = {
       ...baseValues,
       enabled: 1,
-      monthlyCap: null,
+      monthlyCap: spec.includedUnits ?? null, // Units included before overage applies
       overageUnitCents: spec.overageUnitCents,
     };
     
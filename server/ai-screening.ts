@@ -1,4 +1,5 @@
 import OpenAI from "openai";
+import { anonymizeScreeningProfile, BLIND_SCREENING_INSTRUCTION } from "./services/blind-screening";
 
 // Check if OpenAI integration is properly configured
 export function isAIConfigured(): boolean {
@@ -185,10 +186,14 @@ Return JSON matching this schema:
   }
 }
 
+// Blind screening withholds the candidate's name, contact details and institutions from the prompt
 export async function evaluateCandidateWithAI(
   candidate: ParsedCandidate,
-  criteria: ScreeningCriteria
+  criteria: ScreeningCriteria,
+  options: { blind?: boolean } = {}
 ): Promise<CandidateEvaluation> {
+  const candidateData = options.blind ? anonymizeScreeningProfile(candidate) : candidate;
+
   const prompt = `You are a Candidate Screening AI. Evaluate this candidate against the job requirements and return a scored evaluation.
 
 SCORING WEIGHTS:
@@ -208,7 +213,7 @@ Nice-to-have skills: ${criteria.nice_to_have_skills.join(', ')}
 Knockouts: ${criteria.knockouts.join(', ')}
 
 CANDIDATE DATA:
-${JSON.stringify(candidate, null, 2)}
+${JSON.stringify(candidateData, null, 2)}
 
 INSTRUCTIONS:
 1. Score 0-100 based on the weights above
@@ -216,7 +221,7 @@ INSTRUCTIONS:
 3. Provide 3-6 concise reasoning bullets citing CV evidence
 4. Identify must-haves satisfied/missing
 5. Flag red/yellow concerns
-6. Be fair, inclusive, and evidence-based
+6. Be fair, inclusive, and evidence-based${options.blind ? `\n7. ${BLIND_SCREENING_INSTRUCTION}` : ''}
 
 Return JSON matching this schema:
 {
@@ -86,7 +86,8 @@ Return a JSON object with this exact structure:
           "format": string,          // "mcq", "multi_select", "sjt_rank", "sjt_best_worst", "likert", "true_false", "short_answer"
           "stem": string,            // Question text
           "options": string[],       // Answer choices (for MCQ/multi-select/SJT)
-          "correct_answer": any,     // Correct answer key
+          "correct_answer": any,     // Answer key: mcq option text; multi_select array of correct options; sjt_rank options most to least effective;
+                                     // sjt_best_worst { "best": option, "worst": option }; true_false true/false; likert "positive" or "reverse"
           "competencies": string[],  // e.g., ["Customer Empathy", "POPIA Literacy", "Numeracy"]
           "difficulty": "E" | "M" | "H",
           "time_seconds": number,    // Optional per-item timer
@@ -262,3 +262,314 @@ export async function sendRecruiterProfileApprovalEmail(profile: {
   console.log('[Email] Recruiter profile approval email sent:', data?.id);
   return data;
 }
+
+/**
+ * Send a job seeker the new jobs matching one of their saved searches
+ */
+export async function sendSavedSearchAlertEmail(alert: {
+  email: string;
+  firstName?: string | null;
+  searchName: string;
+  totalNew: number;
+  jobs: { title: string; company: string; location: string; url: string }[];
+  resultsUrl: string;
+}) {
+  const { client } = await getUncachableResendClient();
+
+  const greeting = alert.firstName ? `Hi ${alert.firstName},` : 'Hi,';
+  const jobLabel = alert.totalNew === 1 ? 'new job' : 'new jobs';
+
+  const { data, error } = await client.emails.send({
+    from: FROM_EMAIL,
+    to: alert.email,
+    subject: `${alert.totalNew} ${jobLabel} for "${alert.searchName}"`,
+    html: `
+      <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background-color: #79583a; padding: 20px; border-radius: 8px 8px 0 0;">
+          <h1 style="color: white; margin: 0;">New Job Matches</h1>
+        </div>
+        
+        <div style="background-color: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px;">
+          <p style="margin-top: 0;">${greeting}</p>
+          <p>${alert.totalNew} ${jobLabel} matching your saved search <strong>${alert.searchName}</strong> ${alert.totalNew === 1 ? 'has' : 'have'} been posted on Sebenza Hub.</p>
+          
+          <table style="width: 100%; border-collapse: collapse;">
+            ${alert.jobs.map(job => `
+            <tr>
+              <td style="padding: 10px; border-bottom: 1px solid #ddd;">
+                <a href="${job.url}" style="color: #79583a; font-weight: bold;">${job.title}</a><br />
+                <span style="color: #666;">${job.company} • ${job.location}</span>
+              </td>
+            </tr>
+            `).join('')}
+          </table>
+
+          <a href="${alert.resultsUrl}" style="display: inline-block; background-color: #79583a; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin-top: 20px;">
+            View All Matches
+          </a>
+        </div>
+
+        <div style="text-align: center; margin-top: 20px; color: #999; font-size: 12px;">
+          <p>You can turn off job alerts in your Sebenza Hub notification settings.</p>
+        </div>
+      </div>
+    `,
+  });
+
+  if (error) {
+    console.error('[Email] Failed to send saved search alert email:', error);
+    throw new Error(`Failed to send email: ${error.message}`);
+  }
+
+  console.log('[Email] Saved search alert email sent:', data?.id);
+  return data;
+}
+
+/**
+ * Remind a billing contact that their free trial is about to end
+ */
+export async function sendTrialEndingEmail(trial: {
+  email: string;
+  name: string;
+  planName: string;
+  trialEndsAt: Date;
+  paymentCaptured: boolean;
+  billingUrl: string;
+}) {
+  const { client } = await getUncachableResendClient();
+
+  const endDate = trial.trialEndsAt.toLocaleDateString('en-ZA', { year: 'numeric', month: 'long', day: 'numeric' });
+
+  const { data, error } = await client.emails.send({
+    from: FROM_EMAIL,
+    to: trial.email,
+    subject: `Your ${trial.planName} trial ends on ${endDate}`,
+    html: `
+      <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background-color: #79583a; padding: 20px; border-radius: 8px 8px 0 0;">
+          <h1 style="color: white; margin: 0;">Your Trial Is Ending</h1>
+        </div>
+        
+        <div style="background-color: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px;">
+          <p style="margin-top: 0;">Hi ${trial.name},</p>
+          <p>Your free trial of <strong>${trial.planName}</strong> ends on <strong>${endDate}</strong>.</p>
+          ${trial.paymentCaptured
+            ? `<p>Your payment is on file, so your subscription will continue without interruption.</p>`
+            : `<p>Add your payment details before then to keep your plan. Otherwise your account will move to the free plan when the trial ends.</p>`}
+
+          <a href="${trial.billingUrl}" style="display: inline-block; background-color: #79583a; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin-top: 20px;">
+            ${trial.paymentCaptured ? 'View Billing' : 'Add Payment Details'}
+          </a>
+        </div>
+      </div>
+    `,
+  });
+
+  if (error) {
+    console.error('[Email] Failed to send trial ending email:', error);
+    throw new Error(`Failed to send email: ${error.message}`);
+  }
+
+  console.log('[Email] Trial ending email sent:', data?.id);
+  return data;
+}
+
+/**
+ * Tell a billing contact how their free trial ended - converted to the paid
+ * plan, or moved to the free plan
+ */
+export async function sendTrialEndedEmail(trial: {
+  email: string;
+  name: string;
+  planName: string;
+  converted: boolean;
+  billingUrl: string;
+}) {
+  const { client } = await getUncachableResendClient();
+
+  const { data, error } = await client.emails.send({
+    from: FROM_EMAIL,
+    to: trial.email,
+    subject: trial.converted
+      ? `Your ${trial.planName} subscription is now active`
+      : `Your ${trial.planName} trial has ended`,
+    html: `
+      <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background-color: #79583a; padding: 20px; border-radius: 8px 8px 0 0;">
+          <h1 style="color: white; margin: 0;">${trial.converted ? 'Subscription Active' : 'Trial Ended'}</h1>
+        </div>
+        
+        <div style="background-color: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px;">
+          <p style="margin-top: 0;">Hi ${trial.name},</p>
+          ${trial.converted
+            ? `<p>Your free trial has ended and your <strong>${trial.planName}</strong> subscription is now active. Thank you for subscribing!</p>`
+            : `<p>Your free trial of <strong>${trial.planName}</strong> has ended and your account has moved to the free plan. You can upgrade again at any time.</p>`}
+
+          <a href="${trial.billingUrl}" style="display: inline-block; background-color: #79583a; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin-top: 20px;">
+            ${trial.converted ? 'View Billing' : 'Upgrade Now'}
+          </a>
+        </div>
+      </div>
+    `,
+  });
+
+  if (error) {
+    console.error('[Email] Failed to send trial ended email:', error);
+    throw new Error(`Failed to send email: ${error.message}`);
+  }
+
+  console.log('[Email] Trial ended email sent:', data?.id);
+  return data;
+}
+
+/**
+ * Failed-payment (dunning) notices, escalating from the renewal payment request
+ * or first failure to restricted access, plus the all-clear once payment succeeds
+ */
+export async function sendDunningNoticeEmail(notice: {
+  email: string;
+  name: string;
+  planName: string;
+  stage: 'due' | 'failed' | 'reminder' | 'final' | 'restricted' | 'restored';
+  amount: string;
+  restrictOn?: Date;
+  billingUrl: string;
+}) {
+  const { client } = await getUncachableResendClient();
+
+  const restrictDate = notice.restrictOn?.toLocaleDateString('en-ZA', { year: 'numeric', month: 'long', day: 'numeric' });
+
+  const content = {
+    due: {
+      subject: `Payment due for your ${notice.planName} subscription`,
+      heading: 'Payment Due',
+      body: `<p>Your <strong>${notice.planName}</strong> subscription has renewed. Please pay <strong>${notice.amount}</strong> for the new period to avoid any interruption${restrictDate ? ` - your account will be restricted on <strong>${restrictDate}</strong> if it remains unpaid` : ''}.</p>`,
+    },
+    failed: {
+      subject: `Payment failed for your ${notice.planName} subscription`,
+      heading: 'Payment Failed',
+      body: `<p>We couldn't collect your payment of <strong>${notice.amount}</strong> for <strong>${notice.planName}</strong>. Please update your payment to avoid any interruption${restrictDate ? ` - your account will be restricted on <strong>${restrictDate}</strong> if it remains unpaid` : ''}.</p>`,
+    },
+    reminder: {
+      subject: `Reminder: your ${notice.planName} payment is still outstanding`,
+      heading: 'Payment Still Outstanding',
+      body: `<p>Your payment of <strong>${notice.amount}</strong> for <strong>${notice.planName}</strong> is still outstanding.${restrictDate ? ` Your account will be restricted on <strong>${restrictDate}</strong> if it isn't paid.` : ''}</p>`,
+    },
+    final: {
+      subject: `Final notice: your ${notice.planName} account will be restricted`,
+      heading: 'Final Notice',
+      body: `<p>This is a final notice that your payment of <strong>${notice.amount}</strong> for <strong>${notice.planName}</strong> is overdue. ${restrictDate ? `On <strong>${restrictDate}</strong>` : 'Soon'} your account will become read-only: you'll still see your jobs and candidates, but won't be able to post jobs or run AI screenings.</p>`,
+    },
+    restricted: {
+      subject: `Your ${notice.planName} account has been restricted`,
+      heading: 'Account Restricted',
+      body: `<p>Because your payment of <strong>${notice.amount}</strong> for <strong>${notice.planName}</strong> is overdue, your account is now read-only. Pay the outstanding amount to restore full access immediately.</p>`,
+    },
+    restored: {
+      subject: `Payment received - your ${notice.planName} account is restored`,
+      heading: 'Payment Received',
+      body: `<p>Thank you - we've received your payment of <strong>${notice.amount}</strong> and your <strong>${notice.planName}</strong> account is fully active again.</p>`,
+    },
+  }[notice.stage];
+
+  const { data, error } = await client.emails.send({
+    from: FROM_EMAIL,
+    to: notice.email,
+    subject: content.subject,
+    html: `
+      <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background-color: #79583a; padding: 20px; border-radius: 8px 8px 0 0;">
+          <h1 style="color: white; margin: 0;">${content.heading}</h1>
+        </div>
+        
+        <div style="background-color: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px;">
+          <p style="margin-top: 0;">Hi ${notice.name},</p>
+          ${content.body}
+
+          <a href="${notice.billingUrl}" style="display: inline-block; background-color: #79583a; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin-top: 20px;">
+            ${notice.stage === 'restored' ? 'View Billing' : 'Pay Now'}
+          </a>
+        </div>
+      </div>
+    `,
+  });
+
+  if (error) {
+    console.error('[Email] Failed to send dunning notice email:', error);
+    throw new Error(`Failed to send email: ${error.message}`);
+  }
+
+  console.log(`[Email] Dunning ${notice.stage} email sent:`, data?.id);
+  return data;
+}
+
+// For text typed by people outside the platform, e.g. a client's shortlist comment
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Tell a recruiter that their client has given feedback on a shared shortlist
+ */
+export async function sendShortlistFeedbackEmail(feedback: {
+  email: string;
+  firstName?: string | null;
+  recipientName: string;
+  roleTitle: string;
+  candidateName: string;
+  decision: 'yes' | 'no' | 'maybe';
+  comment?: string | null;
+  roleUrl: string;
+}) {
+  const { client } = await getUncachableResendClient();
+
+  const greeting = feedback.firstName ? `Hi ${feedback.firstName},` : 'Hi,';
+  const decisionLabel = { yes: 'Yes', no: 'No', maybe: 'Maybe' }[feedback.decision];
+
+  const { data, error } = await client.emails.send({
+    from: FROM_EMAIL,
+    to: feedback.email,
+    subject: `${feedback.recipientName} said "${decisionLabel}" to ${feedback.candidateName} for ${feedback.roleTitle}`,
+    html: `
+      <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background-color: #79583a; padding: 20px; border-radius: 8px 8px 0 0;">
+          <h1 style="color: white; margin: 0;">Shortlist Feedback</h1>
+        </div>
+        
+        <div style="background-color: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px;">
+          <p style="margin-top: 0;">${greeting}</p>
+          <p><strong>${escapeHtml(feedback.recipientName)}</strong> reviewed <strong>${escapeHtml(feedback.candidateName)}</strong> on the shortlist for <strong>${escapeHtml(feedback.roleTitle)}</strong>.</p>
+          
+          <table style="width: 100%; border-collapse: collapse;">
+            <tr>
+              <td style="padding: 10px; border-bottom: 1px solid #ddd; font-weight: bold;">Decision:</td>
+              <td style="padding: 10px; border-bottom: 1px solid #ddd;">${decisionLabel}</td>
+            </tr>
+            ${feedback.comment ? `
+            <tr>
+              <td style="padding: 10px; border-bottom: 1px solid #ddd; font-weight: bold;">Comment:</td>
+              <td style="padding: 10px; border-bottom: 1px solid #ddd;">${escapeHtml(feedback.comment)}</td>
+            </tr>
+            ` : ''}
+          </table>
+
+          <a href="${feedback.roleUrl}" style="display: inline-block; background-color: #79583a; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin-top: 20px;">
+            View Role
+          </a>
+        </div>
+      </div>
+    `,
+  });
+
+  if (error) {
+    console.error('[Email] Failed to send shortlist feedback email:', error);
+    throw new Error(`Failed to send email: ${error.message}`);
+  }
+
+  console.log('[Email] Shortlist feedback email sent:', data?.id);
+  return data;
+}
@@ -291,5 +291,12 @@ app.use((req, res, next) => {
     }).catch(err => {
       console.error('[Billing Cron] Failed to initialize billing cron job:', err.message);
     });
+
+    // Initialize daily new-match alerts for saved job searches
+    import('./services/saved-search-alerts.js').then(({ initializeSavedSearchAlerts }) => {
+      initializeSavedSearchAlerts();
+    }).catch(err => {
+      console.error('[Saved Search Alerts] Failed to initialize alerts:', err.message);
+    });
   });
 })();
@@ -358,7 +358,7 @@ router.put("/organizations/:orgId/compliance-settings", authenticateSession, req
     return res.status(400).json({ error: validated.error });
   }
   
-  const { eeDataCapture, consentText, dataRetentionDays, popiaOfficer, dataDeletionContact } = validated;
+  const { eeDataCapture, consentText, dataRetentionDays, popiaOfficer, dataDeletionContact, contactRedaction } = validated;
   
   const { rows: existing } = await pool.query(
     `SELECT id FROM compliance_settings WHERE organization_id = $1`,
@@ -368,10 +368,10 @@ router.put("/organizations/:orgId/compliance-settings", authenticateSession, req
   if (existing.length === 0) {
     const { rows } = await pool.query(
       `INSERT INTO compliance_settings(organization_id, ee_data_capture, consent_text, 
-                                        data_retention_days, popia_officer, data_deletion_contact)
-       VALUES ($1, $2, $3, $4, $5, $6)
+                                        data_retention_days, popia_officer, data_deletion_contact, contact_redaction)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
        RETURNING *`,
-      [orgId, eeDataCapture, consentText, dataRetentionDays, popiaOfficer, dataDeletionContact]
+      [orgId, eeDataCapture, consentText, dataRetentionDays, popiaOfficer, dataDeletionContact, contactRedaction]
     );
     return res.json(rows[0]);
   }
@@ -379,10 +379,10 @@ router.put("/organizations/:orgId/compliance-settings", authenticateSession, req
   const { rows } = await pool.query(
     `UPDATE compliance_settings 
      SET ee_data_capture = $1, consent_text = $2, data_retention_days = $3,
-         popia_officer = $4, data_deletion_contact = $5, updated_at = NOW()
-     WHERE organization_id = $6
+         popia_officer = $4, data_deletion_contact = $5, contact_redaction = $6, updated_at = NOW()
+     WHERE organization_id = $7
      RETURNING *`,
-    [eeDataCapture, consentText, dataRetentionDays, popiaOfficer, dataDeletionContact, orgId]
+    [eeDataCapture, consentText, dataRetentionDays, popiaOfficer, dataDeletionContact, contactRedaction, orgId]
   );
   
   res.json(rows[0]);
@@ -7,6 +7,7 @@ const redisUrl = process.env.REDIS_URL;
 let connection: IORedis | null = null;
 let screeningQueue: Queue | null = null;
 let fraudDetectionQueue: Queue | null = null;
+let resumeImportQueue: Queue | null = null;
 
 if (redisUrl) {
   try {
@@ -16,7 +17,8 @@ if (redisUrl) {
     });
     screeningQueue = new Queue("screening", { connection });
     fraudDetectionQueue = new Queue("fraud-detection", { connection });
-    console.log("[Queue] Redis connected, screening and fraud detection queues initialized");
+    resumeImportQueue = new Queue("resume-import", { connection });
+    console.log("[Queue] Redis connected, screening, fraud detection and resume import queues initialized");
   } catch (error) {
     console.error("[Queue] Failed to connect to Redis:", error);
   }
@@ -24,7 +26,7 @@ if (redisUrl) {
   console.warn("[Queue] REDIS_URL not configured, background screening and fraud detection disabled");
 }
 
-export { connection, screeningQueue, fraudDetectionQueue };
+export { connection, screeningQueue, fraudDetectionQueue, resumeImportQueue };
 
 // Helper to check if queue is available
 export function isQueueAvailable(): boolean {
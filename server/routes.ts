@@ -1,173 +1,86 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertSubscriberSchema, insertJobSchema, insertCVSchema, insertCandidateProfileSchema, insertOrganizationSchema, insertRecruiterProfileSchema, insertScreeningJobSchema, insertScreeningCandidateSchema, insertScreeningEvaluationSchema, insertCandidateSchema, insertExperienceSchema, insertEducationSchema, insertCertificationSchema, insertProjectSchema, insertAwardSchema, insertSkillSchema, insertRoleSchema, insertScreeningSchema, insertIndividualPreferencesSchema, insertIndividualNotificationSettingsSchema, type User } from "@shared/schema";
+import { insertSubscriberSchema, insertJobSchema, insertCVSchema, insertCandidateProfileSchema, insertOrganizationSchema, insertRecruiterProfileSchema, insertScreeningJobSchema, insertScreeningCandidateSchema, insertScreeningEvaluationSchema, insertCandidateSchema, insertExperienceSchema, insertEducationSchema, insertCertificationSchema, insertProjectSchema, insertAwardSchema, insertSkillSchema, insertRoleSchema, knockoutRuleSchema, insertScreeningSchema, insertIndividualPreferencesSchema, insertIndividualNotificationSettingsSchema, submitJobApplicationSchema, moveApplicationStageSchema, moveScreeningStageSchema, gradeTestResponseSchema, reviewTestAttemptSchema, JOB_APPLICATION_STATUSES, jobSearchQuerySchema, insertSavedSearchSchema, organizationBillingDetailsSchema, updateSpendingLimitSchema, changePlanSchema, mergeCandidatesSchema, type User } from "@shared/schema";
 import { db } from "./db";
-import { users, candidateProfiles, organizations, recruiterProfiles, memberships, jobs, jobApplications, jobFavorites, screeningJobs, screeningCandidates, screeningEvaluations, candidates, experiences, education, certifications, projects, awards, skills, candidateSkills, resumes, roles, screenings, individualPreferences, individualNotificationSettings, fraudDetections, cvs, competencyTests, testSections, testItems, testAttempts, testResponses, insertCompetencyTestSchema, insertTestSectionSchema, insertTestItemSchema, autoSearchPreferences, autoSearchResults, corporateClients, corporateClientContacts, corporateClientEngagements, insertCorporateClientSchema, insertCorporateClientContactSchema, insertCorporateClientEngagementSchema, plans, features, featureEntitlements, subscriptions, usage, paymentEvents, insertFeatureSchema, insertPlanSchema } from "@shared/schema";
+import { users, candidateProfiles, organizations, recruiterProfiles, memberships, jobs, jobApplications, applicationStageTransitions, jobFavorites, screeningJobs, screeningCandidates, screeningEvaluations, candidates, experiences, education, certifications, projects, awards, skills, candidateSkills, resumes, roles, screenings, individualPreferences, individualNotificationSettings, savedSearches, fraudDetections, cvs, competencyTests, testSections, testItems, testAttempts, testResponses, insertCompetencyTestSchema, insertTestSectionSchema, insertTestItemSchema, autoSearchPreferences, autoSearchResults, corporateClients, corporateClientContacts, corporateClientEngagements, candidateShares, candidateDuplicates, insertCorporateClientSchema, insertCorporateClientContactSchema, insertCorporateClientEngagementSchema, plans, features, featureEntitlements, subscriptions, usage, paymentEvents, insertFeatureSchema, insertPlanSchema } from "@shared/schema";
 import { sendNewUserSignupEmail, sendRecruiterProfileApprovalEmail } from "./emails";
 import { eq, and, desc, sql, inArray, or, gte } from "drizzle-orm";
 import { authenticateSession, requireRole, type AuthRequest } from "./auth-middleware";
-import { screeningQueue, isQueueAvailable } from "./queue";
 import { z } from "zod";
 import { queueFraudDetection } from "./fraud-queue-helper";
 import { pool } from "./db-pool";
 import { generateUniqueCVReference, generateUniqueJobReference, generateUniqueTestReference } from "./reference-generator";
 import { generateTestBlueprint, validateBlueprint, type GenerateTestInput } from "./ai-test-generation";
 import { checkAllowed, consume } from "./services/entitlements";
-
-// Helper function to enqueue screening jobs for all active roles
-async function enqueueScreeningsForCandidate(candidateId: string) {
-  if (!isQueueAvailable()) {
-    console.log(`[Auto-Screen] Queue not available, skipping auto-screening for candidate ${candidateId}`);
-    return;
+import { getRestrictionDate } from "./services/dunning";
+import { getJobPipeline, currentStage, statusToStage, moveApplicationToStage } from "./services/application-pipeline";
+import { searchJobs, findNewMatchingJobs } from "./services/job-search";
+import { parseSavedSearchFilters, getSavedSearchPath } from "./services/saved-search-alerts";
+import { resolveBillingHolder, canManageBilling, startCheckout, handleGatewayNotification, cancelSubscription, getCurrentSubscription, previewPlanChange, suggestUpgradePlan, changePlan, cancelScheduledPlanChange, isTrialEligible, startTrial, startPastDueCheckout } from "./services/billing";
+import { getPaymentGateway, FakeGateway } from "./services/payment-gateway";
+import { listInvoices, getInvoice } from "./services/invoices";
+import { getOverageEstimate } from "./services/entitlements";
+import { setSpendingLimit } from "./services/overage";
+import { detectDuplicates, listOpenDuplicates, dismissDuplicate, mergeCandidates } from "./services/candidate-duplicates";
+import { enqueueScreeningsForCandidate, ingestParsedResume } from "./services/resume-ingestion";
+import { searchCandidates } from "./services/candidate-search";
+import { startRoleScreening, getRoleScreeningRun, getLatestRoleScreeningRun } from "./services/role-screening";
+import { overrideScreening, clearScreeningOverride, getRoleCalibration } from "./services/screening-calibration";
+import { exportScreeningJob, exportRoleScreenings, EXPORT_FORMATS, type ExportFormat } from "./services/screening-export";
+import { getBlindScreeningSettings, getRoleBlindReview, getJobBlindReview, isIdentityWithheld, moveScreeningStage, anonymizeCandidate, anonymizeCandidateProfile, anonymizeEducation, anonymizeApplicant, getWithheldCandidateIds, withoutIdentityFields } from "./services/blind-screening";
+import { scoreItemResponse, scoreAttempt, attemptSectionResults } from "./services/test-scoring";
+import { getManagedTest, getGradingQueue, suggestGrade, suggestGradesForAttempt, gradeResponse } from "./services/test-grading";
+import { assessProctoringRisk, reviewAttempt } from "./services/proctoring";
+import { getAttemptLayout, isItemInLayout, optionsInLayout, layoutSectionItems, attemptItems, type AttemptItemLayout } from "./services/test-randomization";
+import { createResumeImport, getResumeImport, listResumeImports, MAX_IMPORT_FILES } from "./services/resume-imports";
+import { getTalentPoolOwner, ownedCandidateIds, getOwnedCandidate, getOwnedRole, ownedRoles, getOwnedScreening, findDuplicateCandidate, candidateMatchKeys, shareCandidate, unshareCandidate, listCandidateShares, listSharedCandidates } from "./services/talent-pool";
+
+// Resolve the caller's ATS talent pool, or send a 403 when their plan has no ATS access
+async function requireAtsPool(req: Request, res: Response): Promise<string | null> {
+  const user = req.user as any;
+  const organizationId = await getTalentPoolOwner(user.id);
+
+  const allowed = await checkAllowed({ type: 'org', id: organizationId }, 'ats_access');
+  if (!allowed.ok) {
+    res.status(403).json({
+      success: false,
+      message: "ATS access is not available in your current plan. Please upgrade to access this feature.",
+    });
+    return null;
   }
 
-  try {
-    const { rows: activeRoles } = await pool.query(
-      "SELECT id FROM roles WHERE is_active = TRUE OR is_active = 1"
-    );
-    
-    if (activeRoles.length === 0) {
-      console.log(`[Auto-Screen] No active roles found, skipping screening for candidate ${candidateId}`);
-      return;
-    }
-
-    for (const role of activeRoles) {
-      await screeningQueue!.add("screen", { 
-        roleId: role.id, 
-        candidateId 
-      });
-    }
-    
-    console.log(`[Auto-Screen] Enqueued ${activeRoles.length} screening job(s) for candidate ${candidateId}`);
-  } catch (error) {
-    console.error(`[Auto-Screen] Failed to enqueue screenings for candidate ${candidateId}:`, error);
+  return organizationId;
+}
+// Explain why an AI screening batch was blocked by the ai_screenings entitlement
+function aiScreeningLimitMessage(reason: string | undefined, batch: string): string {
+  const errorMsg = reason || '';
+
+  if (errorMsg.includes('QUOTA_EXCEEDED')) {
+    return `You've reached your monthly AI screening limit. You're trying to screen ${batch}. Upgrade your plan to screen more candidates.`;
+  } else if (errorMsg.includes('FEATURE_NOT_IN_PLAN')) {
+    return "AI screening is not available in your current plan. Please upgrade.";
+  } else if (errorMsg.includes('FEATURE_DISABLED')) {
+    return "AI screening is not enabled in your current plan. Please upgrade.";
+  } else if (errorMsg.includes('SPENDING_LIMIT_REACHED')) {
+    return `Screening ${batch} would exceed your overage spending limit. Raise the limit on the Billing page to continue.`;
+  } else if (errorMsg.includes('ACCOUNT_RESTRICTED')) {
+    return "AI screenings are paused because a payment is overdue. Pay the outstanding amount on the Billing page to continue.";
   }
+
+  return "You've reached your AI screening limit.";
 }
 import { parseCVWithAI, evaluateCandidateWithAI, isAIConfigured } from "./ai-screening";
 import { parseCVWithAI as parseResumeWithAI, isAIConfigured as isAIConfiguredForCV } from "./ai-cv-ingestion";
+import { extractTextFromFile } from "./text-extraction";
 import multer from "multer";
 import { promises as fs } from "fs";
 import path from "path";
+import { randomUUID } from "crypto";
 import shortlistRoutes from "./shortlist.routes";
 import organizationSettingsRoutes from "./organization-settings.routes";
 import adminRoutes from "./admin.routes";
 
-// Shared OpenAI client for OCR (reused across requests)
-let ocrOpenAI: any = null;
-async function getOCRClient() {
-  if (!ocrOpenAI) {
-    const { default: OpenAI } = await import('openai');
-    ocrOpenAI = new OpenAI({
-      baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-      apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY
-    });
-  }
-  return ocrOpenAI;
-}
-
-// Helper function to extract text from uploaded files
-async function extractTextFromFile(filePath: string, mimetype: string): Promise<string> {
-  if (mimetype === 'application/pdf') {
-    // Try regular text extraction first (fast for text-based PDFs)
-    const { PDFParse } = await import('pdf-parse');
-    const dataBuffer = await fs.readFile(filePath);
-    
-    let parser: any = null;
-    try {
-      parser = new PDFParse({ data: dataBuffer });
-      const result = await parser.getText();
-      
-      // Check if we got meaningful text (>100 chars indicates text-based PDF)
-      if (result.text.trim().length > 100) {
-        console.log(`[PDF Parse] Text-based PDF: extracted ${result.text.length} characters, ${result.total} pages`);
-        return result.text;
-      }
-      
-      // Very little text extracted - likely image-based/scanned PDF, use OCR
-      console.log(`[PDF Parse] Image-based PDF detected (only ${result.text.length} chars). Falling back to OCR...`);
-      
-      // Convert PDF pages to images and use OpenAI Vision for OCR
-      const { pdf } = await import('pdf-to-img');
-      const openai = await getOCRClient();
-      
-      const document = await pdf(filePath, { scale: 2 });
-      const pageTexts: string[] = [];
-      let pageNum = 1;
-      
-      for await (const pageImage of document) {
-        console.log(`[OCR] Processing page ${pageNum}...`);
-        
-        // Convert image buffer to base64
-        const base64Image = pageImage.toString('base64');
-        const dataUrl = `data:image/png;base64,${base64Image}`;
-        
-        // Use OpenAI Vision to extract text
-        const response = await openai.chat.completions.create({
-          model: "gpt-4o",
-          messages: [
-            {
-              role: "user",
-              content: [
-                {
-                  type: "text",
-                  text: "Extract all text from this image. Return only the extracted text, preserving formatting and structure as much as possible."
-                },
-                {
-                  type: "image_url",
-                  image_url: { url: dataUrl }
-                }
-              ]
-            }
-          ],
-          max_tokens: 4000
-        });
-        
-        const extractedText = response.choices[0]?.message?.content || '';
-        pageTexts.push(extractedText);
-        pageNum++;
-      }
-      
-      const fullText = pageTexts.join('\n\n');
-      console.log(`[OCR] Successfully extracted ${fullText.length} characters from ${pageNum - 1} page(s)`);
-      return fullText;
-      
-    } catch (error) {
-      console.error(`[PDF Parse/OCR] Error extracting text:`, error);
-      throw new Error(`Failed to parse PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    } finally {
-      // Ensure parser cleanup even if OCR fails
-      if (parser) {
-        try {
-          await parser.destroy();
-        } catch (cleanupError) {
-          console.warn('[PDF Parse] Cleanup error:', cleanupError);
-        }
-      }
-    }
-  } else if (mimetype === 'text/plain') {
-    const fileBuffer = await fs.readFile(filePath);
-    return fileBuffer.toString('utf-8');
-  } else if (mimetype === 'application/msword') {
-    // Use word-extractor for legacy .DOC files
-    const WordExtractor = (await import('word-extractor')).default;
-    const extractor = new WordExtractor();
-    const extracted = await extractor.extract(filePath);
-    const text = extracted.getBody();
-    console.log(`[DOC Parse] Extracted ${text.length} characters from DOC`);
-    return text;
-  } else if (mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-    // Use mammoth to extract text from DOCX files
-    const mammoth = await import('mammoth');
-    const result = await mammoth.extractRawText({ path: filePath });
-    console.log(`[DOCX Parse] Extracted ${result.value.length} characters from DOCX`);
-    return result.value;
-  } else {
-    // Fallback: try to extract as text
-    const fileBuffer = await fs.readFile(filePath);
-    return fileBuffer.toString('utf-8');
-  }
-}
 import tokenAuthRoutes from "./token-auth.routes";
 
 // Configure multer for CV photo uploads
@@ -291,6 +204,63 @@ async function processCompanyLogo(inputPath: string, outputPath: string): Promis
     .toFile(outputPath);
 }
 
+// Configure multer for job application attachments (ID, certificates, cover letters, etc.)
+// Files are stored under a server-generated name in the uploader's own folder, so an application
+// can only reference its applicant's uploads, and are only served through the authenticated download route
+const APPLICATION_ATTACHMENTS_DIR = path.join(process.cwd(), 'uploads', 'application-attachments');
+
+function applicationAttachmentPath(userId: string, fileName?: string): string {
+  const dir = path.join(APPLICATION_ATTACHMENTS_DIR, path.basename(userId));
+  return fileName ? path.join(dir, path.basename(fileName)) : dir;
+}
+
+const applicationAttachmentStorage = multer.diskStorage({
+  destination: async (req, file, cb) => {
+    const dir = applicationAttachmentPath((req.user as any).id);
+    try {
+      await fs.mkdir(dir, { recursive: true });
+      cb(null, dir);
+    } catch (error) {
+      cb(error as Error, dir);
+    }
+  },
+  filename: (req, file, cb) => {
+    const ext = path.extname(file.originalname).toLowerCase().replace(/[^.a-z0-9]/g, '');
+    cb(null, `${randomUUID()}${ext || '.bin'}`);
+  }
+});
+
+const applicationAttachmentUpload = multer({
+  storage: applicationAttachmentStorage,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedMimes = [
+      'application/pdf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'image/jpeg',
+      'image/png',
+    ];
+    if (allowedMimes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only PDF, Word documents and JPG/PNG images are allowed'));
+    }
+  }
+});
+
+// Escape user-supplied values for the server-rendered fake payment page
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/subscribe", async (req, res) => {
     try {
@@ -389,6 +359,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
             userMessage = "Job posting is not available in your current plan. Please upgrade.";
           } else if (errorMsg.includes('FEATURE_DISABLED')) {
             userMessage = "Job posting is not enabled in your current plan. Please upgrade.";
+          } else if (errorMsg.includes('SPENDING_LIMIT_REACHED')) {
+            userMessage = "This job post would exceed your overage spending limit. Raise the limit on the Billing page to continue.";
+          } else if (errorMsg.includes('ACCOUNT_RESTRICTED')) {
+            userMessage = "Your account is read-only because a payment is overdue. Pay the outstanding amount on the Billing page to post jobs.";
           }
           
           return res.status(403).json({
@@ -529,6 +503,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Search Live jobs with filters, facet counts and cursor pagination
+  app.get("/api/jobs/search", async (req, res) => {
+    try {
+      const parsed = jobSearchQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid search parameters",
+          errors: parsed.error.errors,
+        });
+      }
+
+      const result = await searchJobs(parsed.data);
+
+      res.json({
+        success: true,
+        count: result.jobs.length,
+        total: result.total,
+        jobs: result.jobs.map(normalizeJobSkills),
+        facets: result.facets,
+        nextCursor: result.nextCursor,
+      });
+    } catch (error) {
+      console.error("Error searching jobs:", error);
+      res.status(500).json({
+        success: false,
+        message: "Error searching jobs.",
+      });
+    }
+  });
+
   app.get("/api/jobs/:id", async (req, res) => {
     try {
       const { id } = req.params;
@@ -932,7 +937,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Fetch related data in parallel
-      const [contacts, engagements, clientJobs] = await Promise.all([
+      const [contacts, engagements, clientJobs, sharedCandidates] = await Promise.all([
         db.select()
           .from(corporateClientContacts)
           .where(eq(corporateClientContacts.clientId, id))
@@ -947,7 +952,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           .from(jobs)
           .where(eq(jobs.clientId, id))
           .orderBy(desc(jobs.createdAt)),
+
+        listSharedCandidates(membership.organizationId, id),
       ]);
+      const withheld = await getWithheldCandidateIds(membership.organizationId, sharedCandidates.map(candidate => candidate.id));
       
       res.json({
         success: true,
@@ -956,6 +964,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           contacts,
           engagements,
           jobs: clientJobs.map(normalizeJobSkills),
+          sharedCandidates: sharedCandidates.map(candidate => withheld.has(candidate.id) ? anonymizeCandidate(candidate) : candidate),
         },
       });
     } catch (error) {
@@ -1590,22 +1599,72 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Job Applications API - Track which jobs users have applied to
-  
+  // Job Applications API - In-app applications and self-tracked applications
+
+  // Check whether a user can manage a job's applicants
+  // (posted the job, owns it as an individual recruiter, or is a member of its organization)
+  const canManageJob = async (userId: string, job: { postedByUserId: string | null; organizationId: string | null }) => {
+    if (job.postedByUserId === userId || job.organizationId === userId) {
+      return true;
+    }
+    if (!job.organizationId) {
+      return false;
+    }
+    const [membership] = await db.select()
+      .from(memberships)
+      .where(and(
+        eq(memberships.userId, userId),
+        eq(memberships.organizationId, job.organizationId)
+      ))
+      .limit(1);
+    return membership !== undefined;
+  };
+
+  // Upload a single attachment for an in-app application
+  app.post("/api/applications/attachments/upload", authenticateSession, applicationAttachmentUpload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          message: "No file uploaded.",
+        });
+      }
+
+      res.json({
+        success: true,
+        attachment: {
+          fileName: req.file.filename,
+          originalName: req.file.originalname,
+          mimeType: req.file.mimetype,
+          size: req.file.size,
+        },
+      });
+    } catch (error: any) {
+      console.error("Application attachment upload error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Error uploading attachment.",
+      });
+    }
+  });
+
   // Create a new job application
   app.post("/api/applications", authenticateSession, async (req, res) => {
     try {
       const user = req.user as any;
-      const { jobId, status, notes } = req.body;
-      
-      if (!jobId) {
-        return res.status(400).json({
+      const validatedData = submitJobApplicationSchema.parse(req.body);
+      const { jobId, method } = validatedData;
+
+      const [job] = await db.select().from(jobs).where(eq(jobs.id, jobId));
+      if (!job) {
+        return res.status(404).json({
           success: false,
-          message: "Job ID is required.",
+          message: "Job not found.",
         });
       }
       
-      // Check if user already applied to this job
+      // Check if user already applied to this job. An application the user only tracked
+      // themselves (WhatsApp/website) can still be submitted in-app, which replaces it.
       const [existing] = await db.select()
         .from(jobApplications)
         .where(and(
@@ -1613,36 +1672,131 @@ export async function registerRoutes(app: Express): Promise<Server> {
           eq(jobApplications.jobId, jobId)
         ));
       
-      if (existing) {
+      if (existing && (existing.method === "in-app" || method !== "in-app")) {
         return res.status(409).json({
           success: false,
           message: "You have already applied to this job.",
           application: existing,
         });
       }
+
+      if (method !== "in-app") {
+        // Self-tracked application (applied via WhatsApp or the employer's website)
+        const [application] = await db.insert(jobApplications)
+          .values({
+            userId: user.id,
+            jobId,
+            method,
+            status: validatedData.status || "Applied",
+            notes: validatedData.notes || null,
+          })
+          .returning();
+
+        console.log(`New job application tracked: User ${user.id} applied to job ${jobId} via ${method}`);
+
+        return res.json({
+          success: true,
+          message: "Application tracked successfully!",
+          application,
+        });
+      }
+
+      // In-app applications are only accepted for live jobs
+      const jobStatus = (job.admin as any)?.status;
+      if (jobStatus && jobStatus !== "Live") {
+        return res.status(400).json({
+          success: false,
+          message: "This job is not accepting applications.",
+        });
+      }
+
+      // The CV must belong to the applicant
+      const [cv] = await db.select()
+        .from(cvs)
+        .where(and(eq(cvs.id, validatedData.cvId!), eq(cvs.userId, user.id)))
+        .limit(1);
+
+      if (!cv) {
+        return res.status(400).json({
+          success: false,
+          message: "Selected CV not found.",
+        });
+      }
+
+      // Every attachment the job requires must be provided. The selected CV covers "CV"
+      // and a written cover letter covers "Cover Letter".
+      const attachments = validatedData.attachments || [];
+      const requiredAttachments: string[] = (job.attachments as any)?.required || [];
+      const missing = requiredAttachments.filter((type) => {
+        if (type === "CV") return false;
+        if (type === "Cover Letter" && validatedData.coverLetter?.trim()) return false;
+        return !attachments.some((a) => a.type === type);
+      });
+
+      if (missing.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: `Missing required attachments: ${missing.join(", ")}`,
+          missing,
+        });
+      }
+
+      // Attachments must be the applicant's own uploads
+      for (const attachment of attachments) {
+        try {
+          await fs.access(applicationAttachmentPath(user.id, attachment.fileName));
+        } catch {
+          return res.status(400).json({
+            success: false,
+            message: `Attachment "${attachment.originalName}" was not found. Please upload it again.`,
+          });
+        }
+      }
       
-      // Create the application
-      const [application] = await db.insert(jobApplications)
-        .values({
-          userId: user.id,
-          jobId,
-          status: status || "Applied",
-          notes: notes || null,
-        })
-        .returning();
+      // New applicants enter the first stage of the job's pipeline
+      const stages = await getJobPipeline(job);
+
+      const submission = {
+        method,
+        pipelineStage: stages[0] ?? null,
+        cvId: cv.id,
+        coverLetter: validatedData.coverLetter || null,
+        attachments,
+        answers: validatedData.answers || null,
+        status: "Applied",
+        notes: validatedData.notes || existing?.notes || null,
+      };
+
+      // Create the application, or turn the self-tracked one into it
+      const [application] = existing
+        ? await db.update(jobApplications)
+            .set({ ...submission, appliedAt: new Date(), statusUpdatedBy: null, updatedAt: new Date() })
+            .where(eq(jobApplications.id, existing.id))
+            .returning()
+        : await db.insert(jobApplications)
+            .values({ userId: user.id, jobId, ...submission })
+            .returning();
       
-      console.log(`New job application: User ${user.id} applied to job ${jobId}`);
+      console.log(`New in-app job application: User ${user.id} applied to job ${jobId} with CV ${cv.id}`);
       
       res.json({
         success: true,
-        message: "Application tracked successfully!",
+        message: "Application submitted successfully!",
         application,
       });
     } catch (error: any) {
       console.error("Job application error:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          message: "Validation error: " + error.errors.map((e: any) => `${e.path.join('.')}: ${e.message}`).join(', '),
+        });
+      }
+
       res.status(500).json({
         success: false,
-        message: "Error tracking application.",
+        message: "Error submitting application.",
       });
     }
   });
@@ -1681,89 +1835,384 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     }
   });
-  
-  // Update application status
-  app.patch("/api/applications/:id/status", authenticateSession, async (req, res) => {
+
+  // Get in-app applicants for a job (recruiter side)
+  app.get("/api/jobs/:id/applications", authenticateSession, async (req, res) => {
     try {
       const user = req.user as any;
       const { id } = req.params;
-      const { status, notes } = req.body;
-      
-      // Validate status
-      const validStatuses = ["Applied", "Viewed", "Interview", "Rejected", "Offer"];
-      if (!status || !validStatuses.includes(status)) {
-        return res.status(400).json({
+
+      const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+      if (!job) {
+        return res.status(404).json({
           success: false,
-          message: `Invalid status. Must be one of: ${validStatuses.join(", ")}`,
+          message: "Job not found.",
         });
       }
-      
-      // Update application (only if it belongs to the user)
-      const [application] = await db.update(jobApplications)
-        .set({ 
-          status,
-          notes: notes !== undefined ? notes : undefined,
-          updatedAt: new Date(),
-        })
-        .where(and(
-          eq(jobApplications.id, id),
-          eq(jobApplications.userId, user.id)
-        ))
-        .returning();
-      
-      if (!application) {
-        return res.status(404).json({
+
+      if (!(await canManageJob(user.id, job))) {
+        return res.status(403).json({
           success: false,
-          message: "Application not found or you don't have permission to update it.",
+          message: "You don't have permission to view applicants for this job.",
         });
       }
-      
-      console.log(`Application status updated: ${id} - ${status}`);
-      
+
+      const rows = await db.select({
+        application: jobApplications,
+        applicant: {
+          id: users.id,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+        cv: cvs,
+      })
+        .from(jobApplications)
+        .leftJoin(users, eq(jobApplications.userId, users.id))
+        .leftJoin(cvs, eq(jobApplications.cvId, cvs.id))
+        .where(and(
+          eq(jobApplications.jobId, id),
+          eq(jobApplications.method, "in-app")
+        ))
+        .orderBy(desc(jobApplications.appliedAt));
+
+      const stages = await getJobPipeline(job);
+      const review = await getJobBlindReview(job, stages);
+
+      // Blind screening withholds identity (and the uploaded files, which carry it) until past the reveal stage
+      const applications = rows.map(r => {
+        const pipelineStage = currentStage(r.application, stages);
+        const identityWithheld = isIdentityWithheld(review, pipelineStage);
+        const { applicant, cv } = identityWithheld
+          ? anonymizeApplicant(r.application.id, r.applicant, r.cv)
+          : r;
+
+        return {
+          ...r.application,
+          attachments: identityWithheld ? [] : r.application.attachments,
+          pipelineStage,
+          applicant,
+          cv,
+          identityWithheld,
+        };
+      });
+
       res.json({
         success: true,
-        message: `Application status updated to ${status}`,
-        application,
+        count: applications.length,
+        stages,
+        blind: review.blind,
+        applications,
       });
-    } catch (error: any) {
-      console.error("Application status update error:", error);
+    } catch (error) {
+      console.error("Error fetching job applicants:", error);
       res.status(500).json({
         success: false,
-        message: "Error updating application status.",
+        message: "Error fetching applicants.",
       });
     }
   });
 
-  // AI Job Description Generator
-  app.post("/api/jobs/generate-description", async (req, res) => {
+  // Download an application attachment (applicant or the job's recruiters only)
+  app.get("/api/applications/:id/attachments/:fileName", authenticateSession, async (req, res) => {
     try {
-      const { jobTitle, companyName, industry, jobIndustry, seniorityLevel, employmentType, workArrangement, responsibilities, requiredSkills, tone } = req.body;
+      const user = req.user as any;
+      const { id, fileName } = req.params;
 
-      // Validate required fields
-      if (!jobTitle) {
-        return res.status(400).json({
+      const [row] = await db.select({ application: jobApplications, job: jobs })
+        .from(jobApplications)
+        .innerJoin(jobs, eq(jobApplications.jobId, jobs.id))
+        .where(eq(jobApplications.id, id))
+        .limit(1);
+
+      if (!row) {
+        return res.status(404).json({
           success: false,
-          message: "Job title is required.",
+          message: "Application not found.",
         });
       }
 
-      // Check if AI is configured
-      if (!isAIConfigured()) {
-        return res.status(503).json({
+      const isApplicant = row.application.userId === user.id;
+      if (!isApplicant && !(await canManageJob(user.id, row.job))) {
+        return res.status(403).json({
           success: false,
-          message: "AI service is not configured. Please contact support.",
+          message: "You don't have permission to view this attachment.",
         });
       }
 
-      // Initialize OpenAI client
-      const OpenAI = (await import("openai")).default;
-      const openai = new OpenAI({
-        baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-        apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
-      });
+      if (!isApplicant) {
+        const stages = await getJobPipeline(row.job);
+        const review = await getJobBlindReview(row.job, stages);
+        if (isIdentityWithheld(review, currentStage(row.application, stages))) {
+          return res.status(403).json({
+            success: false,
+            message: "Attachments are hidden during blind screening until the applicant is moved past the reveal stage.",
+          });
+        }
+      }
 
-      // Build system prompt with South African market context
-      const systemPrompt = `You are an expert South African recruiter and job description writer. Your task is to generate professional, compelling job summaries that resonate with the South African job market.
+      const attachment = ((row.application.attachments as any[]) || []).find((a) => a.fileName === fileName);
+      if (!attachment) {
+        return res.status(404).json({
+          success: false,
+          message: "Attachment not found.",
+        });
+      }
+
+      res.download(applicationAttachmentPath(row.application.userId, attachment.fileName), attachment.originalName);
+    } catch (error) {
+      console.error("Error downloading application attachment:", error);
+      res.status(500).json({
+        success: false,
+        message: "Error downloading attachment.",
+      });
+    }
+  });
+  
+  // Update application status
+  // Recruiters with access to the job can move in-app applications; individuals can only
+  // update the status of applications they track themselves (WhatsApp/website)
+  app.patch("/api/applications/:id/status", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const { id } = req.params;
+      const { status, notes } = req.body;
+      
+      // Validate status
+      if (!status || !JOB_APPLICATION_STATUSES.includes(status)) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid status. Must be one of: ${JOB_APPLICATION_STATUSES.join(", ")}`,
+        });
+      }
+
+      const [row] = await db.select({ application: jobApplications, job: jobs })
+        .from(jobApplications)
+        .leftJoin(jobs, eq(jobApplications.jobId, jobs.id))
+        .where(eq(jobApplications.id, id))
+        .limit(1);
+
+      if (!row) {
+        return res.status(404).json({
+          success: false,
+          message: "Application not found or you don't have permission to update it.",
+        });
+      }
+
+      const isApplicant = row.application.userId === user.id;
+      const isRecruiter = row.application.method === "in-app" && row.job !== null && await canManageJob(user.id, row.job);
+      const canUpdate = isRecruiter || (isApplicant && row.application.method !== "in-app");
+
+      if (!canUpdate) {
+        return res.status(isApplicant ? 403 : 404).json({
+          success: false,
+          message: isApplicant
+            ? "The status of this application is managed by the employer."
+            : "Application not found or you don't have permission to update it.",
+        });
+      }
+
+      if (isRecruiter) {
+        // Recruiter status changes move the application to the pipeline stage that maps to the
+        // status; statuses without a matching stage (e.g. "Rejected") are changed in place
+        const stages = await getJobPipeline(row.job!);
+        const fromStage = currentStage(row.application, stages);
+        const toStage = statusToStage(status, stages) ?? fromStage;
+
+        if (!toStage) {
+          return res.status(400).json({
+            success: false,
+            message: "This job has no pipeline stages configured.",
+          });
+        }
+
+        const { application } = await moveApplicationToStage(
+          { ...row.application, pipelineStage: fromStage },
+          stages,
+          toStage,
+          user.id,
+          { status, note: typeof notes === "string" ? notes : undefined }
+        );
+
+        return res.json({
+          success: true,
+          message: `Application status updated to ${status}`,
+          application,
+        });
+      }
+      
+      const [application] = await db.update(jobApplications)
+        .set({ 
+          status,
+          statusUpdatedBy: user.id,
+          notes: notes !== undefined ? notes : undefined,
+          updatedAt: new Date(),
+        })
+        .where(eq(jobApplications.id, id))
+        .returning();
+      
+      console.log(`Application status updated: ${id} - ${status} by user ${user.id}`);
+      
+      res.json({
+        success: true,
+        message: `Application status updated to ${status}`,
+        application,
+      });
+    } catch (error: any) {
+      console.error("Application status update error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Error updating application status.",
+      });
+    }
+  });
+
+  // Move an in-app application to another pipeline stage (Kanban drag-and-drop)
+  app.post("/api/applications/:id/stage", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const { id } = req.params;
+      const { stage, note } = moveApplicationStageSchema.parse(req.body);
+
+      const [row] = await db.select({ application: jobApplications, job: jobs })
+        .from(jobApplications)
+        .innerJoin(jobs, eq(jobApplications.jobId, jobs.id))
+        .where(and(
+          eq(jobApplications.id, id),
+          eq(jobApplications.method, "in-app")
+        ))
+        .limit(1);
+
+      if (!row || !(await canManageJob(user.id, row.job))) {
+        return res.status(404).json({
+          success: false,
+          message: "Application not found or you don't have permission to update it.",
+        });
+      }
+
+      const stages = await getJobPipeline(row.job);
+      if (!stages.includes(stage)) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid stage. Must be one of: ${stages.join(", ")}`,
+        });
+      }
+
+      const fromStage = currentStage(row.application, stages);
+      if (fromStage === stage) {
+        return res.json({
+          success: true,
+          message: `Application is already in ${stage}`,
+          application: row.application,
+        });
+      }
+
+      const { application } = await moveApplicationToStage(
+        { ...row.application, pipelineStage: fromStage },
+        stages,
+        stage,
+        user.id,
+        { note }
+      );
+
+      res.json({
+        success: true,
+        message: `Application moved to ${stage}`,
+        application,
+      });
+    } catch (error: any) {
+      console.error("Application stage move error:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          message: "Validation error: " + error.errors.map((e: any) => `${e.path.join('.')}: ${e.message}`).join(', '),
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: "Error moving application.",
+      });
+    }
+  });
+
+  // Get the stage transition history of an application (recruiter side)
+  app.get("/api/applications/:id/transitions", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const { id } = req.params;
+
+      const [row] = await db.select({ application: jobApplications, job: jobs })
+        .from(jobApplications)
+        .innerJoin(jobs, eq(jobApplications.jobId, jobs.id))
+        .where(eq(jobApplications.id, id))
+        .limit(1);
+
+      if (!row || !(await canManageJob(user.id, row.job))) {
+        return res.status(404).json({
+          success: false,
+          message: "Application not found.",
+        });
+      }
+
+      const transitions = await db.select({
+        transition: applicationStageTransitions,
+        actor: {
+          id: users.id,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+      })
+        .from(applicationStageTransitions)
+        .leftJoin(users, eq(applicationStageTransitions.actorUserId, users.id))
+        .where(eq(applicationStageTransitions.applicationId, id))
+        .orderBy(desc(applicationStageTransitions.createdAt));
+
+      res.json({
+        success: true,
+        transitions: transitions.map(t => ({ ...t.transition, actor: t.actor })),
+      });
+    } catch (error) {
+      console.error("Error fetching application transitions:", error);
+      res.status(500).json({
+        success: false,
+        message: "Error fetching application history.",
+      });
+    }
+  });
+
+  // AI Job Description Generator
+  app.post("/api/jobs/generate-description", async (req, res) => {
+    try {
+      const { jobTitle, companyName, industry, jobIndustry, seniorityLevel, employmentType, workArrangement, responsibilities, requiredSkills, tone } = req.body;
+
+      // Validate required fields
+      if (!jobTitle) {
+        return res.status(400).json({
+          success: false,
+          message: "Job title is required.",
+        });
+      }
+
+      // Check if AI is configured
+      if (!isAIConfigured()) {
+        return res.status(503).json({
+          success: false,
+          message: "AI service is not configured. Please contact support.",
+        });
+      }
+
+      // Initialize OpenAI client
+      const OpenAI = (await import("openai")).default;
+      const openai = new OpenAI({
+        baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+        apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
+      });
+
+      // Build system prompt with South African market context
+      const systemPrompt = `You are an expert South African recruiter and job description writer. Your task is to generate professional, compelling job summaries that resonate with the South African job market.
 
 Context about South Africa:
 - Diverse workforce with 11 official languages
@@ -1998,6 +2447,10 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
         userMessage = "CV builder is not available in your current plan. Please upgrade.";
       } else if (errorMsg.includes('FEATURE_DISABLED')) {
         userMessage = "CV builder is not enabled in your current plan. Please upgrade.";
+      } else if (errorMsg.includes('SPENDING_LIMIT_REACHED')) {
+        userMessage = "Creating this CV would exceed your overage spending limit. Raise the limit on the Billing page to continue.";
+      } else if (errorMsg.includes('ACCOUNT_RESTRICTED')) {
+        userMessage = "Your account is read-only because a payment is overdue. Pay the outstanding amount on the Billing page to create CVs.";
       }
       
       return res.status(403).json({
@@ -3038,20 +3491,9 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       // Check quota BEFORE processing (but don't consume yet)
       const allowed = await checkAllowed(orgHolder, 'ai_screenings', cvCount);
       if (!allowed.ok) {
-        const errorMsg = allowed.reason || '';
-        let userMessage = "You've reached your AI screening limit.";
-        
-        if (errorMsg.includes('QUOTA_EXCEEDED')) {
-          userMessage = `You've reached your monthly AI screening limit. You're trying to screen ${cvCount} CVs. Upgrade your plan to screen more candidates.`;
-        } else if (errorMsg.includes('FEATURE_NOT_IN_PLAN')) {
-          userMessage = "AI screening is not available in your current plan. Please upgrade.";
-        } else if (errorMsg.includes('FEATURE_DISABLED')) {
-          userMessage = "AI screening is not enabled in your current plan. Please upgrade.";
-        }
-        
         return res.status(403).json({
           success: false,
-          message: userMessage,
+          message: aiScreeningLimitMessage(allowed.reason, `${cvCount} CVs`),
         });
       }
 
@@ -3060,6 +3502,8 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
         .set({ status: 'processing' })
         .where(eq(screeningJobs.id, jobId));
 
+      const blindSettings = await getBlindScreeningSettings(orgHolder.id);
+
       const processedCandidates: Array<{ candidateId: string; evaluation: any }> = [];
 
       // Process each CV
@@ -3100,7 +3544,7 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
             salary_range: job.salaryRange as any,
             knockouts: job.knockouts,
             weights: job.weights as any,
-          });
+          }, { blind: blindSettings.enabled });
 
           // Store evaluation
           const [storedEvaluation] = await db.insert(screeningEvaluations)
@@ -3180,12 +3624,20 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
     }
   });
 
-  // Export screening results as JSON
+  // Export screening results as JSON, or a ranked shortlist with ?format=csv|xlsx
   app.get("/api/screening/jobs/:id/export", authenticateSession, async (req, res) => {
     try {
       const user = req.user as any;
       const userId = user.id;
 
+      const format = (req.query.format as string | undefined) || 'json';
+      if (format !== 'json' && !EXPORT_FORMATS.includes(format as ExportFormat)) {
+        return res.status(400).json({
+          success: false,
+          message: "format must be json, csv or xlsx",
+        });
+      }
+
       const [job] = await db.select()
         .from(screeningJobs)
         .where(and(
@@ -3200,6 +3652,15 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
         });
       }
 
+      if (format !== 'json') {
+        const organizationId = job.organizationId || await getTalentPoolOwner(userId);
+        const shortlist = await exportScreeningJob(organizationId, job, format as ExportFormat);
+
+        res.setHeader('Content-Type', shortlist.contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${shortlist.filename}"`);
+        return res.send(shortlist.content);
+      }
+
       // Get candidates and evaluations
       const candidates = await db.select()
         .from(screeningCandidates)
@@ -3245,32 +3706,33 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       const user = req.user as any;
       const userId = user.id;
 
-      // FEATURE GATE: Check ATS access (org-level for recruiters)
-      const [membership] = await db.select()
-        .from(memberships)
-        .where(eq(memberships.userId, userId))
-        .limit(1);
-      
-      const orgHolder = {
-        type: 'org' as const,
-        id: membership?.organizationId || userId
-      };
-      
-      const allowed = await checkAllowed(orgHolder, 'ats_access');
-      if (!allowed.ok) {
-        return res.status(403).json({
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
+      const validatedData = insertCandidateSchema.parse(req.body);
+
+      const duplicate = await findDuplicateCandidate(organizationId, validatedData);
+      if (duplicate) {
+        return res.status(409).json({
           success: false,
-          message: "ATS access is not available in your current plan. Please upgrade to access this feature.",
+          message: "A candidate with this email or phone number is already in your talent pool.",
+          candidateId: duplicate.id,
         });
       }
 
-      const validatedData = insertCandidateSchema.parse(req.body);
       const [candidate] = await db.insert(candidates)
-        .values(validatedData)
+        .values({
+          ...validatedData,
+          ...candidateMatchKeys(validatedData),
+          organizationId,
+        })
         .returning();
 
-      // Auto-enqueue screening jobs for all active roles
-      enqueueScreeningsForCandidate(candidate.id).catch(err => {
+      const possibleDuplicates = await detectDuplicates(candidate);
+
+      // Auto-enqueue screening jobs for the organization's active roles
+      enqueueScreeningsForCandidate(candidate.id, organizationId).catch(err => {
         console.error(`[Auto-Screen] Failed to enqueue screenings:`, err);
       });
 
@@ -3281,6 +3743,7 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
         success: true,
         message: "Candidate created successfully",
         candidate,
+        possibleDuplicates,
       });
     } catch (error: any) {
       console.error("Create candidate error:", error);
@@ -3298,43 +3761,33 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       const user = req.user as any;
       const userId = user.id;
 
-      // FEATURE GATE: Check ATS access (org-level for recruiters)
-      const [membership] = await db.select()
-        .from(memberships)
-        .where(eq(memberships.userId, userId))
-        .limit(1);
-      
-      const orgHolder = {
-        type: 'org' as const,
-        id: membership?.organizationId || userId
-      };
-      
-      const allowed = await checkAllowed(orgHolder, 'ats_access');
-      if (!allowed.ok) {
-        return res.status(403).json({
-          success: false,
-          message: "ATS access is not available in your current plan. Please upgrade to access this feature.",
-        });
-      }
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
 
       const searchQuery = req.query.search as string || '';
       const city = req.query.city as string || '';
       const country = req.query.country as string || '';
       
-      // For now, get all candidates (pagination and filtering can be added later)
-      const allCandidates = await db.select().from(candidates);
+      // For now, get the whole talent pool (pagination and filtering can be added later)
+      const allCandidates = await db.select()
+        .from(candidates)
+        .where(eq(candidates.organizationId, organizationId));
+
+      // Blind screening: anonymous candidates can't be found by what they withhold
+      const withheld = await getWithheldCandidateIds(organizationId, allCandidates.map(c => c.id));
       
       // Simple filtering
       let filtered = allCandidates;
       if (searchQuery) {
         filtered = filtered.filter(c => 
-          c.fullName?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          c.email?.toLowerCase().includes(searchQuery.toLowerCase()) ||
+          (!withheld.has(c.id) && c.fullName?.toLowerCase().includes(searchQuery.toLowerCase())) ||
+          (!withheld.has(c.id) && c.email?.toLowerCase().includes(searchQuery.toLowerCase())) ||
           c.headline?.toLowerCase().includes(searchQuery.toLowerCase())
         );
       }
       if (city) {
-        filtered = filtered.filter(c => c.city?.toLowerCase() === city.toLowerCase());
+        filtered = filtered.filter(c => !withheld.has(c.id) && c.city?.toLowerCase() === city.toLowerCase());
       }
       if (country) {
         filtered = filtered.filter(c => c.country?.toLowerCase() === country.toLowerCase());
@@ -3343,7 +3796,7 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       res.json({
         success: true,
         count: filtered.length,
-        candidates: filtered,
+        candidates: filtered.map(c => withheld.has(c.id) ? anonymizeCandidate(c) : c),
       });
     } catch (error) {
       console.error("List candidates error:", error);
@@ -3354,13 +3807,58 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
     }
   });
 
+  // Natural-language candidate search, blending semantic similarity with keyword and location matching
+  app.get("/api/ats/candidates/search", authenticateSession, async (req, res) => {
+    try {
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
+      const query = (req.query.q as string || '').trim();
+      if (!query) {
+        return res.status(400).json({
+          success: false,
+          message: "Search query is required",
+        });
+      }
+
+      const { semantic, results } = await searchCandidates(organizationId, {
+        query,
+        city: req.query.city as string || undefined,
+        country: req.query.country as string || undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) || undefined : undefined,
+      });
+
+      // Candidates whose identity is withheld come back anonymized
+      res.json({
+        success: true,
+        query,
+        semantic,
+        count: results.length,
+        results,
+      });
+    } catch (error) {
+      console.error("Candidate search error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to search candidates",
+      });
+    }
+  });
+
   // Get candidates dashboard statistics
   app.get("/api/ats/stats", authenticateSession, async (req, res) => {
     try {
       const user = req.user as any;
       const userId = user.id;
 
-      const allCandidates = await db.select().from(candidates);
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
+      const allCandidates = await db.select()
+        .from(candidates)
+        .where(eq(candidates.organizationId, organizationId));
       const sevenDaysAgo = new Date();
       sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
 
@@ -3376,6 +3874,8 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       })
         .from(candidateSkills)
         .innerJoin(skills, eq(candidateSkills.skillId, skills.id))
+        .innerJoin(candidates, eq(candidateSkills.candidateId, candidates.id))
+        .where(eq(candidates.organizationId, organizationId))
         .groupBy(skills.name)
         .orderBy(sql`count(${candidateSkills.candidateId}) desc`)
         .limit(10);
@@ -3416,11 +3916,13 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       const user = req.user as any;
       const userId = user.id;
 
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
       const candidateId = req.params.id;
 
-      const [candidate] = await db.select()
-        .from(candidates)
-        .where(eq(candidates.id, candidateId));
+      const candidate = await getOwnedCandidate(organizationId, candidateId);
 
       if (!candidate) {
         return res.status(404).json({
@@ -3464,18 +3966,25 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
         .from(resumes)
         .where(eq(resumes.candidateId, candidateId));
 
+      const shares = await listCandidateShares(organizationId, candidateId);
+
+      const profile = {
+        ...candidate,
+        experiences: candidateExperiences,
+        education: candidateEducation,
+        certifications: candidateCertifications,
+        projects: candidateProjects,
+        awards: candidateAwards,
+        skills: candidateSkillsData,
+        resumes: candidateResumes,
+        shares,
+      };
+      const identityWithheld = (await getWithheldCandidateIds(organizationId, [candidateId])).has(candidateId);
+
       res.json({
         success: true,
-        candidate: {
-          ...candidate,
-          experiences: candidateExperiences,
-          education: candidateEducation,
-          certifications: candidateCertifications,
-          projects: candidateProjects,
-          awards: candidateAwards,
-          skills: candidateSkillsData,
-          resumes: candidateResumes,
-        },
+        candidate: identityWithheld ? anonymizeCandidateProfile(profile) : profile,
+        identityWithheld,
       });
     } catch (error) {
       console.error("Get candidate error:", error);
@@ -3492,25 +4001,54 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       const user = req.user as any;
       const userId = user.id;
 
-      const candidateId = req.params.id;
-      const validatedData = insertCandidateSchema.partial().parse(req.body);
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
 
-      const [updated] = await db.update(candidates)
-        .set(validatedData)
-        .where(eq(candidates.id, candidateId))
-        .returning();
+      const candidateId = req.params.id;
+      const parsed = insertCandidateSchema.partial().parse(req.body);
 
-      if (!updated) {
+      const existing = await getOwnedCandidate(organizationId, candidateId);
+      if (!existing) {
         return res.status(404).json({
           success: false,
           message: "Candidate not found",
         });
       }
 
+      // A blind recruiter sees an anonymized profile; saving it must not overwrite the identity
+      const identityWithheld = (await getWithheldCandidateIds(organizationId, [candidateId])).has(candidateId);
+      const validatedData = identityWithheld ? withoutIdentityFields(parsed) : parsed;
+
+      const contact = {
+        email: validatedData.email !== undefined ? validatedData.email : existing.email,
+        phone: validatedData.phone !== undefined ? validatedData.phone : existing.phone,
+      };
+
+      const duplicate = await findDuplicateCandidate(organizationId, contact, candidateId);
+      if (duplicate) {
+        return res.status(409).json({
+          success: false,
+          message: "Another candidate with this email or phone number is already in your talent pool.",
+          candidateId: duplicate.id,
+        });
+      }
+
+      const [updated] = await db.update(candidates)
+        .set({
+          ...validatedData,
+          ...candidateMatchKeys(contact),
+        })
+        .where(and(
+          eq(candidates.id, candidateId),
+          eq(candidates.organizationId, organizationId)
+        ))
+        .returning();
+
       res.json({
         success: true,
         message: "Candidate updated successfully",
-        candidate: updated,
+        candidate: identityWithheld ? anonymizeCandidate(updated) : updated,
       });
     } catch (error: any) {
       console.error("Update candidate error:", error);
@@ -3528,10 +4066,17 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       const user = req.user as any;
       const userId = user.id;
 
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
       const candidateId = req.params.id;
 
       const [deleted] = await db.delete(candidates)
-        .where(eq(candidates.id, candidateId))
+        .where(and(
+          eq(candidates.id, candidateId),
+          eq(candidates.organizationId, organizationId)
+        ))
         .returning();
 
       if (!deleted) {
@@ -3541,6 +4086,12 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
         });
       }
 
+      await db.delete(candidateShares).where(eq(candidateShares.candidateId, candidateId));
+      await db.delete(candidateDuplicates).where(or(
+        eq(candidateDuplicates.candidateId, candidateId),
+        eq(candidateDuplicates.duplicateOfId, candidateId)
+      ));
+
       res.json({
         success: true,
         message: "Candidate deleted successfully",
@@ -3554,6 +4105,174 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
     }
   });
 
+  // ============================================================================
+  // ATS - Sharing candidates with corporate clients
+  // ============================================================================
+
+  // Share a candidate with one of the agency's corporate clients
+  app.post("/api/ats/candidates/:id/shares", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user.id;
+
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
+      const { clientId } = z.object({ clientId: z.string().min(1) }).parse(req.body);
+
+      const result = await shareCandidate(organizationId, req.params.id, clientId, userId);
+      if (!result.ok) {
+        return res.status(404).json({
+          success: false,
+          message: result.reason === 'CANDIDATE_NOT_FOUND' ? "Candidate not found" : "Client not found",
+        });
+      }
+
+      res.json({
+        success: true,
+        message: "Candidate shared with client",
+        share: result.share,
+      });
+    } catch (error: any) {
+      console.error("Share candidate error:", error);
+      res.status(400).json({
+        success: false,
+        message: "Failed to share candidate",
+        errors: error.errors,
+      });
+    }
+  });
+
+  // Stop sharing a candidate with a corporate client
+  app.delete("/api/ats/candidates/:id/shares/:clientId", authenticateSession, async (req, res) => {
+    try {
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
+      const removed = await unshareCandidate(organizationId, req.params.id, req.params.clientId);
+      if (!removed) {
+        return res.status(404).json({
+          success: false,
+          message: "Share not found",
+        });
+      }
+
+      res.json({
+        success: true,
+        message: "Candidate is no longer shared with this client",
+      });
+    } catch (error) {
+      console.error("Unshare candidate error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to stop sharing candidate",
+      });
+    }
+  });
+
+  // ============================================================================
+  // ATS - Duplicate detection and merge
+  // ============================================================================
+
+  // List possible duplicate pairs awaiting review
+  app.get("/api/ats/duplicates", authenticateSession, async (req, res) => {
+    try {
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
+      const duplicates = await listOpenDuplicates(organizationId);
+      const withheld = await getWithheldCandidateIds(organizationId, duplicates.flatMap(pair => [pair.candidate.id, pair.duplicateOf.id]));
+      const shown = <T extends { id: string; fullName: string | null }>(candidate: T) => withheld.has(candidate.id) ? anonymizeCandidate(candidate) : candidate;
+
+      res.json({
+        success: true,
+        count: duplicates.length,
+        duplicates: duplicates.map(pair => ({ ...pair, candidate: shown(pair.candidate), duplicateOf: shown(pair.duplicateOf) })),
+      });
+    } catch (error) {
+      console.error("List duplicates error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch possible duplicates",
+      });
+    }
+  });
+
+  // Mark a flagged pair as different people
+  app.post("/api/ats/duplicates/:id/dismiss", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user.id;
+
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
+      const dismissed = await dismissDuplicate(organizationId, req.params.id, userId);
+      if (!dismissed) {
+        return res.status(404).json({
+          success: false,
+          message: "Possible duplicate not found",
+        });
+      }
+
+      res.json({
+        success: true,
+        message: "Marked as not a duplicate",
+      });
+    } catch (error) {
+      console.error("Dismiss duplicate error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to dismiss possible duplicate",
+      });
+    }
+  });
+
+  // Merge another candidate into this one (the other record is removed)
+  app.post("/api/ats/candidates/:id/merge", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user.id;
+
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
+      const { mergeCandidateId } = mergeCandidatesSchema.parse(req.body);
+
+      const result = await mergeCandidates(organizationId, req.params.id, mergeCandidateId, userId);
+      if (!result.ok) {
+        return res.status(result.reason === 'SAME_CANDIDATE' ? 400 : 404).json({
+          success: false,
+          message: result.reason === 'SAME_CANDIDATE'
+            ? "A candidate can't be merged into itself"
+            : "Candidate not found",
+        });
+      }
+
+      // Re-index the combined profile
+      const { indexCandidate, isEmbeddingsConfigured } = await import("./embeddings");
+      if (isEmbeddingsConfigured()) {
+        indexCandidate(result.candidate.id).catch(err => {
+          console.error(`[ATS] Failed to generate embedding for candidate ${result.candidate.id}:`, err);
+        });
+      }
+
+      res.json({
+        success: true,
+        message: "Candidates merged successfully",
+        candidate: result.candidate,
+      });
+    } catch (error: any) {
+      console.error("Merge candidates error:", error);
+      res.status(400).json({
+        success: false,
+        message: "Failed to merge candidates",
+        errors: error.errors,
+      });
+    }
+  });
+
   // ============================================================================
   // ATS - Experiences Management
   // ============================================================================
@@ -3563,7 +4282,18 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       const user = req.user as any;
       const userId = user.id;
 
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
       const { candidateId } = req.params;
+
+      if (!await getOwnedCandidate(organizationId, candidateId)) {
+        return res.status(404).json({
+          success: false,
+          message: "Candidate not found",
+        });
+      }
       const validatedData = insertExperienceSchema.parse({
         ...req.body,
         candidateId,
@@ -3593,12 +4323,19 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       const user = req.user as any;
       const userId = user.id;
 
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
       const { id } = req.params;
-      const validatedData = insertExperienceSchema.partial().parse(req.body);
+      const validatedData = insertExperienceSchema.partial().omit({ candidateId: true }).parse(req.body);
 
       const [updated] = await db.update(experiences)
         .set(validatedData)
-        .where(eq(experiences.id, id))
+        .where(and(
+          eq(experiences.id, id),
+          inArray(experiences.candidateId, ownedCandidateIds(organizationId))
+        ))
         .returning();
 
       if (!updated) {
@@ -3628,10 +4365,17 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       const user = req.user as any;
       const userId = user.id;
 
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
       const { id } = req.params;
 
       const [deleted] = await db.delete(experiences)
-        .where(eq(experiences.id, id))
+        .where(and(
+          eq(experiences.id, id),
+          inArray(experiences.candidateId, ownedCandidateIds(organizationId))
+        ))
         .returning();
 
       if (!deleted) {
@@ -3663,7 +4407,18 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       const user = req.user as any;
       const userId = user.id;
 
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
       const { candidateId } = req.params;
+
+      if (!await getOwnedCandidate(organizationId, candidateId)) {
+        return res.status(404).json({
+          success: false,
+          message: "Candidate not found",
+        });
+      }
       const validatedData = insertEducationSchema.parse({
         ...req.body,
         candidateId,
@@ -3673,10 +4428,12 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
         .values(validatedData)
         .returning();
 
+      const identityWithheld = (await getWithheldCandidateIds(organizationId, [candidateId])).has(candidateId);
+
       res.json({
         success: true,
         message: "Education added successfully",
-        education: edu,
+        education: identityWithheld ? anonymizeEducation([edu])[0] : edu,
       });
     } catch (error: any) {
       console.error("Add education error:", error);
@@ -3693,25 +4450,40 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       const user = req.user as any;
       const userId = user.id;
 
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
       const { id } = req.params;
-      const validatedData = insertEducationSchema.partial().parse(req.body);
+      const validatedData = insertEducationSchema.partial().omit({ candidateId: true }).parse(req.body);
 
-      const [updated] = await db.update(education)
-        .set(validatedData)
-        .where(eq(education.id, id))
-        .returning();
+      const [existing] = await db.select({ candidateId: education.candidateId })
+        .from(education)
+        .where(and(
+          eq(education.id, id),
+          inArray(education.candidateId, ownedCandidateIds(organizationId))
+        ));
 
-      if (!updated) {
+      if (!existing) {
         return res.status(404).json({
           success: false,
           message: "Education not found",
         });
       }
 
+      // Blind recruiters see "Withheld" for the institution; saving that must not overwrite it
+      const identityWithheld = (await getWithheldCandidateIds(organizationId, [existing.candidateId])).has(existing.candidateId);
+      const { institution, ...withoutInstitution } = validatedData;
+      const changes = identityWithheld ? withoutInstitution : validatedData;
+
+      const [updated] = Object.keys(changes).length > 0
+        ? await db.update(education).set(changes).where(eq(education.id, id)).returning()
+        : await db.select().from(education).where(eq(education.id, id));
+
       res.json({
         success: true,
         message: "Education updated successfully",
-        education: updated,
+        education: identityWithheld ? anonymizeEducation([updated])[0] : updated,
       });
     } catch (error: any) {
       console.error("Update education error:", error);
@@ -3728,10 +4500,17 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       const user = req.user as any;
       const userId = user.id;
 
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
       const { id } = req.params;
 
       const [deleted] = await db.delete(education)
-        .where(eq(education.id, id))
+        .where(and(
+          eq(education.id, id),
+          inArray(education.candidateId, ownedCandidateIds(organizationId))
+        ))
         .returning();
 
       if (!deleted) {
@@ -3763,7 +4542,18 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       const user = req.user as any;
       const userId = user.id;
 
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
       const { candidateId } = req.params;
+
+      if (!await getOwnedCandidate(organizationId, candidateId)) {
+        return res.status(404).json({
+          success: false,
+          message: "Candidate not found",
+        });
+      }
       const validatedData = insertCertificationSchema.parse({
         ...req.body,
         candidateId,
@@ -3793,8 +4583,15 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       const user = req.user as any;
       const userId = user.id;
 
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
       const { id } = req.params;
-      await db.delete(certifications).where(eq(certifications.id, id));
+      await db.delete(certifications).where(and(
+        eq(certifications.id, id),
+        inArray(certifications.candidateId, ownedCandidateIds(organizationId))
+      ));
       res.json({ success: true, message: "Certification deleted" });
     } catch (error) {
       console.error("Delete certification error:", error);
@@ -3807,7 +4604,18 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       const user = req.user as any;
       const userId = user.id;
 
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
       const { candidateId } = req.params;
+
+      if (!await getOwnedCandidate(organizationId, candidateId)) {
+        return res.status(404).json({
+          success: false,
+          message: "Candidate not found",
+        });
+      }
       const validatedData = insertProjectSchema.parse({
         ...req.body,
         candidateId,
@@ -3817,10 +4625,12 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
         .values(validatedData)
         .returning();
 
+      const identityWithheld = (await getWithheldCandidateIds(organizationId, [candidateId])).has(candidateId);
+
       res.json({
         success: true,
         message: "Project added successfully",
-        project,
+        project: identityWithheld ? { ...project, link: null } : project,
       });
     } catch (error: any) {
       console.error("Add project error:", error);
@@ -3837,8 +4647,15 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       const user = req.user as any;
       const userId = user.id;
 
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
       const { id } = req.params;
-      await db.delete(projects).where(eq(projects.id, id));
+      await db.delete(projects).where(and(
+        eq(projects.id, id),
+        inArray(projects.candidateId, ownedCandidateIds(organizationId))
+      ));
       res.json({ success: true, message: "Project deleted" });
     } catch (error) {
       console.error("Delete project error:", error);
@@ -3851,7 +4668,18 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       const user = req.user as any;
       const userId = user.id;
 
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
       const { candidateId } = req.params;
+
+      if (!await getOwnedCandidate(organizationId, candidateId)) {
+        return res.status(404).json({
+          success: false,
+          message: "Candidate not found",
+        });
+      }
       const validatedData = insertAwardSchema.parse({
         ...req.body,
         candidateId,
@@ -3881,8 +4709,15 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       const user = req.user as any;
       const userId = user.id;
 
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
       const { id } = req.params;
-      await db.delete(awards).where(eq(awards.id, id));
+      await db.delete(awards).where(and(
+        eq(awards.id, id),
+        inArray(awards.candidateId, ownedCandidateIds(organizationId))
+      ));
       res.json({ success: true, message: "Award deleted" });
     } catch (error) {
       console.error("Delete award error:", error);
@@ -3899,7 +4734,18 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       const user = req.user as any;
       const userId = user.id;
 
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
       const { candidateId } = req.params;
+
+      if (!await getOwnedCandidate(organizationId, candidateId)) {
+        return res.status(404).json({
+          success: false,
+          message: "Candidate not found",
+        });
+      }
       const { skillName, kind } = req.body;
 
       if (!skillName || !kind) {
@@ -3952,8 +4798,19 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
       const user = req.user as any;
       const userId = user.id;
 
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
       const { candidateId, skillId } = req.params;
 
+      if (!await getOwnedCandidate(organizationId, candidateId)) {
+        return res.status(404).json({
+          success: false,
+          message: "Candidate not found",
+        });
+      }
+
       await db.delete(candidateSkills)
         .where(and(
           eq(candidateSkills.candidateId, candidateId),
@@ -4007,6 +4864,29 @@ Based on the job title "${jobTitle}", suggest 5-8 most relevant skills from the
     },
   });
 
+  // Bulk resume uploads also accept ZIPs of CVs, unpacked before parsing
+  const bulkUpload = multer({
+    dest: uploadDir,
+    limits: {
+      fileSize: 100 * 1024 * 1024, // 100MB max (ZIPs from job boards)
+    },
+    fileFilter: (_req, file, cb) => {
+      const allowedMimes = [
+        'text/plain',
+        'application/pdf',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'application/msword',
+        'application/zip',
+        'application/x-zip-compressed',
+      ];
+      if (allowedMimes.includes(file.mimetype) || file.originalname.toLowerCase().endsWith('.zip')) {
+        cb(null, true);
+      } else {
+        cb(new Error('Invalid file type. Only TXT, PDF, DOC, DOCX and ZIP files are allowed.'));
+      }
+    },
+  });
+
   // ============================================================================
   // Job Import - Parse and Extract
   // ============================================================================
@@ -4674,24 +5554,9 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
     const userId = authReq.user!.id;
 
     try {
-      // FEATURE GATE: Check ATS access (org-level for recruiters)
-      const [membership] = await db.select()
-        .from(memberships)
-        .where(eq(memberships.userId, userId))
-        .limit(1);
-      
-      const orgHolder = {
-        type: 'org' as const,
-        id: membership?.organizationId || userId
-      };
-      
-      const allowed = await checkAllowed(orgHolder, 'ats_access');
-      if (!allowed.ok) {
-        return res.status(403).json({
-          success: false,
-          message: "ATS access is not available in your current plan. Please upgrade to access this feature.",
-        });
-      }
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
 
       // Check if AI is configured
       if (!isAIConfiguredForCV()) {
@@ -4721,170 +5586,28 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
         uploadedFile.size
       );
 
-      const { candidate: parsedCandidate } = parsedResult;
-
-      // Create candidate and all related records in transaction
-      const [newCandidate] = await db.insert(candidates)
-        .values({
-          fullName: parsedCandidate.full_name || null,
-          headline: parsedCandidate.headline || null,
-          email: parsedCandidate.contact?.email || null,
-          phone: parsedCandidate.contact?.phone || null,
-          city: parsedCandidate.contact?.city || null,
-          country: parsedCandidate.contact?.country || null,
-          links: parsedCandidate.links || {},
-          summary: parsedCandidate.summary || null,
-          workAuthorization: parsedCandidate.work_authorization || null,
-          availability: parsedCandidate.availability || null,
-          salaryExpectation: parsedCandidate.salary_expectation || null,
-          notes: parsedCandidate.notes || null,
-        })
-        .returning();
-
-      const candidateId = newCandidate.id;
-
-      // Create resume record
-      await db.insert(resumes).values({
-        candidateId,
+      const result = await ingestParsedResume(organizationId, parsedResult, {
         filename: uploadedFile.originalname,
         filesizeBytes: uploadedFile.size,
-        parsedOk: parsedResult.source_meta.parsed_ok ? 1 : 0,
-        parseNotes: parsedResult.source_meta.parse_notes,
         rawText: uploadedFile.mimetype === 'text/plain' ? fileContent : null,
-      });
+      }, { userId, autoScreen: true });
 
-      // Create experiences
-      if (parsedCandidate.experience && parsedCandidate.experience.length > 0) {
-        for (const exp of parsedCandidate.experience) {
-          await db.insert(experiences).values({
-            candidateId,
-            title: exp.title || null,
-            company: exp.company || null,
-            industry: exp.industry || null,
-            location: exp.location || null,
-            startDate: exp.start_date || null,
-            endDate: exp.end_date || null,
-            isCurrent: exp.is_current ? 1 : 0,
-            bullets: exp.bullets || [],
-          });
-        }
+      if (result.duplicate) {
+        return res.json({
+          success: true,
+          duplicate: true,
+          message: "This candidate is already in your talent pool. The resume was added to their profile.",
+          candidateId: result.candidate.id,
+          candidate: result.candidate,
+        });
       }
 
-      // Create education
-      if (parsedCandidate.education && parsedCandidate.education.length > 0) {
-        for (const edu of parsedCandidate.education) {
-          await db.insert(education).values({
-            candidateId,
-            institution: edu.institution || null,
-            qualification: edu.qualification || null,
-            location: edu.location || null,
-            gradDate: edu.grad_date || null,
-          });
-        }
-      }
-
-      // Create certifications
-      if (parsedCandidate.certifications && parsedCandidate.certifications.length > 0) {
-        for (const cert of parsedCandidate.certifications) {
-          await db.insert(certifications).values({
-            candidateId,
-            name: cert.name || null,
-            issuer: cert.issuer || null,
-            year: cert.year || null,
-          });
-        }
-      }
-
-      // Create projects
-      if (parsedCandidate.projects && parsedCandidate.projects.length > 0) {
-        for (const proj of parsedCandidate.projects) {
-          await db.insert(projects).values({
-            candidateId,
-            name: proj.name || null,
-            what: proj.what || null,
-            impact: proj.impact || null,
-            link: proj.link || null,
-          });
-        }
-      }
-
-      // Create awards
-      if (parsedCandidate.awards && parsedCandidate.awards.length > 0) {
-        for (const award of parsedCandidate.awards) {
-          await db.insert(awards).values({
-            candidateId,
-            name: award.name || null,
-            byWhom: award.by || null,
-            year: award.year || null,
-            note: award.note || null,
-          });
-        }
-      }
-
-      // Create skills
-      if (parsedCandidate.skills) {
-        const allSkills: Array<{ name: string; kind: string }> = [];
-
-        if (parsedCandidate.skills.technical) {
-          allSkills.push(...parsedCandidate.skills.technical.map(s => ({ name: s, kind: 'technical' })));
-        }
-        if (parsedCandidate.skills.tools) {
-          allSkills.push(...parsedCandidate.skills.tools.map(s => ({ name: s, kind: 'tools' })));
-        }
-        if (parsedCandidate.skills.soft) {
-          allSkills.push(...parsedCandidate.skills.soft.map(s => ({ name: s, kind: 'soft' })));
-        }
-
-        for (const { name, kind } of allSkills) {
-          if (!name?.trim()) continue;
-
-          // Find or create skill
-          let [skill] = await db.select()
-            .from(skills)
-            .where(eq(skills.name, name.trim()));
-
-          if (!skill) {
-            [skill] = await db.insert(skills)
-              .values({ name: name.trim() })
-              .returning();
-          }
-
-          // Link to candidate
-          await db.insert(candidateSkills)
-            .values({
-              candidateId,
-              skillId: skill.id,
-              kind,
-            })
-            .onConflictDoNothing();
-        }
-      }
-
-      console.log(`[ATS] Successfully created candidate: ${newCandidate.fullName} (${candidateId})`);
-
-      // Generate embeddings asynchronously (non-blocking)
-      const { indexCandidate, isEmbeddingsConfigured } = await import("./embeddings");
-      if (isEmbeddingsConfigured()) {
-        indexCandidate(candidateId).catch(err => {
-          console.error(`[ATS] Failed to generate embedding for candidate ${candidateId}:`, err);
-        });
-      } else {
-        console.log(`[ATS] Embeddings not configured, skipping embedding generation`);
-      }
-
-      // Auto-enqueue screening jobs for all active roles
-      enqueueScreeningsForCandidate(candidateId).catch(err => {
-        console.error(`[Auto-Screen] Failed to enqueue screenings:`, err);
-      });
-
-      // Queue fraud detection for CV upload
-      await queueFraudDetection('cv_upload', candidateId, newCandidate, userId);
-
       res.json({
         success: true,
         message: "Resume uploaded and parsed successfully",
-        candidateId: candidateId,
-        candidate: newCandidate,
+        candidateId: result.candidate.id,
+        candidate: result.candidate,
+        possibleDuplicates: result.possibleDuplicates,
       });
     } catch (error: any) {
       console.error("[ATS] Resume upload error:", error);
@@ -4912,6 +5635,10 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
       const user = req.user as any;
       const userId = user.id;
 
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
       // Check if AI is configured
       if (!isAIConfiguredForCV()) {
         return res.status(503).json({
@@ -4938,164 +5665,28 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
 
       // If createCandidate=true, create the candidate and all related records
       if (createCandidate) {
-        const { candidate: parsedCandidate } = parsedResult;
-
-        // Create candidate
-        const [newCandidate] = await db.insert(candidates)
-          .values({
-            fullName: parsedCandidate.full_name || null,
-            headline: parsedCandidate.headline || null,
-            email: parsedCandidate.contact?.email || null,
-            phone: parsedCandidate.contact?.phone || null,
-            city: parsedCandidate.contact?.city || null,
-            country: parsedCandidate.contact?.country || null,
-            links: parsedCandidate.links || {},
-            summary: parsedCandidate.summary || null,
-            workAuthorization: parsedCandidate.work_authorization || null,
-            availability: parsedCandidate.availability || null,
-            salaryExpectation: parsedCandidate.salary_expectation || null,
-            notes: parsedCandidate.notes || null,
-          })
-          .returning();
-
-        const candidateId = newCandidate.id;
-
-        // Create resume record
-        await db.insert(resumes).values({
-          candidateId,
+        const result = await ingestParsedResume(organizationId, parsedResult, {
           filename: parsedResult.source_meta.filename,
           filesizeBytes: parsedResult.source_meta.filesize_bytes,
-          parsedOk: parsedResult.source_meta.parsed_ok ? 1 : 0,
-          parseNotes: parsedResult.source_meta.parse_notes,
           rawText,
-        });
-
-        // Create experiences
-        if (parsedCandidate.experience && parsedCandidate.experience.length > 0) {
-          for (const exp of parsedCandidate.experience) {
-            await db.insert(experiences).values({
-              candidateId,
-              title: exp.title || null,
-              company: exp.company || null,
-              industry: exp.industry || null,
-              location: exp.location || null,
-              startDate: exp.start_date || null,
-              endDate: exp.end_date || null,
-              isCurrent: exp.is_current ? 1 : 0,
-              bullets: exp.bullets || [],
-            });
-          }
-        }
-
-        // Create education
-        if (parsedCandidate.education && parsedCandidate.education.length > 0) {
-          for (const edu of parsedCandidate.education) {
-            await db.insert(education).values({
-              candidateId,
-              institution: edu.institution || null,
-              qualification: edu.qualification || null,
-              location: edu.location || null,
-              gradDate: edu.grad_date || null,
-            });
-          }
-        }
-
-        // Create certifications
-        if (parsedCandidate.certifications && parsedCandidate.certifications.length > 0) {
-          for (const cert of parsedCandidate.certifications) {
-            await db.insert(certifications).values({
-              candidateId,
-              name: cert.name || null,
-              issuer: cert.issuer || null,
-              year: cert.year || null,
-            });
-          }
-        }
-
-        // Create projects
-        if (parsedCandidate.projects && parsedCandidate.projects.length > 0) {
-          for (const proj of parsedCandidate.projects) {
-            await db.insert(projects).values({
-              candidateId,
-              name: proj.name || null,
-              what: proj.what || null,
-              impact: proj.impact || null,
-              link: proj.link || null,
-            });
-          }
-        }
-
-        // Create awards
-        if (parsedCandidate.awards && parsedCandidate.awards.length > 0) {
-          for (const award of parsedCandidate.awards) {
-            await db.insert(awards).values({
-              candidateId,
-              name: award.name || null,
-              byWhom: award.by || null,
-              year: award.year || null,
-              note: award.note || null,
-            });
-          }
-        }
-
-        // Create skills
-        if (parsedCandidate.skills) {
-          const allSkills: Array<{ name: string; kind: string }> = [];
-
-          if (parsedCandidate.skills.technical) {
-            allSkills.push(...parsedCandidate.skills.technical.map(s => ({ name: s, kind: 'technical' })));
-          }
-          if (parsedCandidate.skills.tools) {
-            allSkills.push(...parsedCandidate.skills.tools.map(s => ({ name: s, kind: 'tools' })));
-          }
-          if (parsedCandidate.skills.soft) {
-            allSkills.push(...parsedCandidate.skills.soft.map(s => ({ name: s, kind: 'soft' })));
-          }
-
-          for (const { name, kind } of allSkills) {
-            // Find or create skill
-            let [skill] = await db.select()
-              .from(skills)
-              .where(eq(skills.name, name.trim()));
-
-            if (!skill) {
-              [skill] = await db.insert(skills)
-                .values({ name: name.trim() })
-                .returning();
-            }
-
-            // Link to candidate
-            await db.insert(candidateSkills)
-              .values({
-                candidateId,
-                skillId: skill.id,
-                kind,
-              })
-              .onConflictDoNothing();
-          }
-        }
-
-        // Generate embeddings asynchronously (non-blocking)
-        const { indexCandidate, isEmbeddingsConfigured } = await import("./embeddings");
-        if (isEmbeddingsConfigured()) {
-          indexCandidate(candidateId).catch(err => {
-            console.error(`[ATS] Failed to generate embedding for candidate ${candidateId}:`, err);
+        }, { userId, autoScreen: true });
+
+        if (result.duplicate) {
+          return res.json({
+            success: true,
+            duplicate: true,
+            message: "This candidate is already in your talent pool. The resume was added to their profile.",
+            candidate: result.candidate,
+            parsed: parsedResult,
           });
         }
 
-        // Auto-enqueue screening jobs for all active roles
-        enqueueScreeningsForCandidate(candidateId).catch(err => {
-          console.error(`[Auto-Screen] Failed to enqueue screenings:`, err);
-        });
-
-        // Queue fraud detection for CV upload
-        await queueFraudDetection('cv_upload', candidateId, newCandidate, userId);
-
         res.json({
           success: true,
           message: "CV parsed and candidate created successfully",
-          candidate: newCandidate,
+          candidate: result.candidate,
           parsed: parsedResult,
+          possibleDuplicates: result.possibleDuplicates,
         });
       } else {
         // Just return parsed data without creating candidate
@@ -5115,6 +5706,96 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
     }
   });
 
+  // Bulk upload: many CVs and/or ZIPs of CVs, parsed one by one in the background
+  app.post("/api/ats/resumes/bulk-upload", authenticateSession, bulkUpload.array('files', 50), async (req, res) => {
+    const uploadedFiles = Array.isArray(req.files) ? req.files : [];
+    const user = req.user as any;
+
+    try {
+      // FEATURE GATE: Check ATS access and resolve the organization's talent pool
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
+      if (!isAIConfiguredForCV()) {
+        return res.status(503).json({
+          success: false,
+          message: "AI integration is not configured. Please set up OpenAI integration.",
+        });
+      }
+
+      if (uploadedFiles.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: "No files uploaded",
+        });
+      }
+
+      const roleId = typeof req.body.roleId === 'string' && req.body.roleId ? req.body.roleId : null;
+      const result = await createResumeImport(organizationId, user.id, roleId, uploadedFiles.splice(0));
+
+      if (!result.ok) {
+        const errors = {
+          QUEUE_UNAVAILABLE: { status: 503, message: "Bulk upload is temporarily unavailable. Please upload resumes one at a time." },
+          ROLE_NOT_FOUND: { status: 404, message: "Role not found" },
+          NO_RESUMES: { status: 400, message: "No resumes were found in the uploaded files" },
+          TOO_MANY_FILES: { status: 400, message: `A bulk upload can contain at most ${MAX_IMPORT_FILES} resumes` },
+        } as const;
+        const { status, message } = errors[result.reason];
+        return res.status(status).json({ success: false, message });
+      }
+
+      res.json({
+        success: true,
+        message: `${result.progress.queued} resume(s) queued for processing`,
+        import: { ...result.resumeImport, progress: result.progress },
+      });
+    } catch (error: any) {
+      console.error("[ATS] Bulk resume upload error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to process bulk upload",
+        error: error.message,
+      });
+    } finally {
+      // Files not handed over to the import (e.g. the request was rejected)
+      for (const file of uploadedFiles) {
+        await fs.unlink(file.path).catch(() => {});
+      }
+    }
+  });
+
+  // Recent bulk imports with their progress
+  app.get("/api/ats/resume-imports", authenticateSession, async (req, res) => {
+    try {
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
+      const imports = await listResumeImports(organizationId);
+      res.json({ success: true, imports });
+    } catch (error) {
+      console.error("Error fetching resume imports:", error);
+      res.status(500).json({ success: false, message: "Failed to fetch resume imports" });
+    }
+  });
+
+  // A single bulk import with per-file status and failures
+  app.get("/api/ats/resume-imports/:id", authenticateSession, async (req, res) => {
+    try {
+      const organizationId = await requireAtsPool(req, res);
+      if (!organizationId) return;
+
+      const resumeImport = await getResumeImport(organizationId, req.params.id);
+      if (!resumeImport) {
+        return res.status(404).json({ success: false, message: "Import not found" });
+      }
+
+      res.json({ success: true, import: resumeImport });
+    } catch (error) {
+      console.error("Error fetching resume import:", error);
+      res.status(500).json({ success: false, message: "Failed to fetch resume import" });
+    }
+  });
+
   // ============================================================================
   // Individuals - CV Upload for Job Seekers
   // ============================================================================
@@ -5589,15 +6270,13 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
   app.get("/api/roles", authenticateSession, async (req, res) => {
     try {
       const user = req.user as any;
-      const userId = user.id;
+      const organizationId = await getTalentPoolOwner(user.id);
 
       const isActiveFilter = req.query.isActive;
       const createdBy = req.query.createdBy as string;
 
-      let query = db.select().from(roles);
-      
       // Build filters
-      const filters = [];
+      const filters = [ownedRoles(organizationId)];
       if (isActiveFilter !== undefined) {
         filters.push(eq(roles.isActive, isActiveFilter === 'true' ? 1 : 0));
       }
@@ -5605,9 +6284,10 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
         filters.push(eq(roles.createdBy, createdBy));
       }
 
-      const allRoles = filters.length > 0 
-        ? await query.where(and(...filters)).orderBy(desc(roles.createdAt))
-        : await query.orderBy(desc(roles.createdAt));
+      const allRoles = await db.select()
+        .from(roles)
+        .where(and(...filters))
+        .orderBy(desc(roles.createdAt));
 
       res.json({
         success: true,
@@ -5627,9 +6307,9 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
   app.get("/api/roles/stats", authenticateSession, async (req, res) => {
     try {
       const user = req.user as any;
-      const userId = user.id;
+      const organizationId = await getTalentPoolOwner(user.id);
 
-      const allRoles = await db.select().from(roles);
+      const allRoles = await db.select().from(roles).where(ownedRoles(organizationId));
       const activeRoles = allRoles.filter(r => r.isActive === 1);
       const inactiveRoles = allRoles.filter(r => r.isActive === 0);
 
@@ -5637,7 +6317,9 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
       const screeningsCount = await db.select({
         count: sql<number>`count(*)::int`,
       })
-        .from(screenings);
+        .from(screenings)
+        .innerJoin(roles, eq(screenings.roleId, roles.id))
+        .where(ownedRoles(organizationId));
 
       // Get screenings by role (top 5)
       const screeningsByRole = await db.select({
@@ -5648,6 +6330,7 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
       })
         .from(screenings)
         .innerJoin(roles, eq(screenings.roleId, roles.id))
+        .where(ownedRoles(organizationId))
         .groupBy(screenings.roleId, roles.jobTitle)
         .orderBy(sql`count(*) desc`)
         .limit(5);
@@ -5683,13 +6366,9 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
   app.get("/api/roles/:id", authenticateSession, async (req, res) => {
     try {
       const user = req.user as any;
-      const userId = user.id;
-
-      const roleId = req.params.id;
+      const organizationId = await getTalentPoolOwner(user.id);
 
-      const [role] = await db.select()
-        .from(roles)
-        .where(eq(roles.id, roleId));
+      const role = await getOwnedRole(organizationId, req.params.id);
 
       if (!role) {
         return res.status(404).json({
@@ -5715,16 +6394,27 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
   app.patch("/api/roles/:id", authenticateSession, async (req, res) => {
     try {
       const user = req.user as any;
-      const userId = user.id;
+      const organizationId = await getTalentPoolOwner(user.id);
 
       const roleId = req.params.id;
       const updates = req.body;
 
+      if (!(await getOwnedRole(organizationId, roleId))) {
+        return res.status(404).json({
+          success: false,
+          message: "Role not found",
+        });
+      }
+
       // Don't allow updating id, createdBy, or createdAt
       delete updates.id;
       delete updates.createdBy;
       delete updates.createdAt;
 
+      if (updates.knockoutRules !== undefined) {
+        updates.knockoutRules = z.array(knockoutRuleSchema).parse(updates.knockoutRules);
+      }
+
       const [updatedRole] = await db.update(roles)
         .set(updates)
         .where(eq(roles.id, roleId))
@@ -5756,10 +6446,17 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
   app.delete("/api/roles/:id", authenticateSession, async (req, res) => {
     try {
       const user = req.user as any;
-      const userId = user.id;
+      const organizationId = await getTalentPoolOwner(user.id);
 
       const roleId = req.params.id;
 
+      if (!(await getOwnedRole(organizationId, roleId))) {
+        return res.status(404).json({
+          success: false,
+          message: "Role not found",
+        });
+      }
+
       const [deactivatedRole] = await db.update(roles)
         .set({ isActive: 0 })
         .where(eq(roles.id, roleId))
@@ -5786,7 +6483,7 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
     }
   });
 
-  // Screen ATS candidates against a role
+  // Screen ATS candidates against a role - queued for the background worker
   app.post("/api/roles/:roleId/screen", authenticateSession, async (req, res) => {
     try {
       const user = req.user as any;
@@ -5810,183 +6507,159 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
         });
       }
 
-      // Fetch the role
-      const [role] = await db.select()
-        .from(roles)
-        .where(eq(roles.id, roleId));
+      const organizationId = await getTalentPoolOwner(userId);
+      const result = await startRoleScreening(organizationId, userId, roleId, candidateIds.map(String));
 
-      if (!role) {
-        return res.status(404).json({
-          success: false,
-          message: "Role not found",
-        });
+      if (!result.ok) {
+        switch (result.reason) {
+          case 'QUEUE_UNAVAILABLE':
+            return res.status(503).json({
+              success: false,
+              message: "Background screening is temporarily unavailable. Please try again later.",
+            });
+          case 'ROLE_NOT_FOUND':
+            return res.status(404).json({
+              success: false,
+              message: "Role not found",
+            });
+          case 'NO_CANDIDATES':
+            return res.status(404).json({
+              success: false,
+              message: "None of the selected candidates are in your talent pool",
+            });
+          case 'NOT_ALLOWED':
+            return res.status(403).json({
+              success: false,
+              message: aiScreeningLimitMessage(result.entitlementReason, `${candidateIds.length} candidates`),
+            });
+        }
       }
 
-      const screeningResults = [];
+      res.status(202).json({
+        success: true,
+        message: `Screening ${result.run.total} candidate(s) in the background`,
+        run: result.run,
+      });
+    } catch (error: any) {
+      console.error("Screen candidates error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to screen candidates",
+        error: error.message,
+      });
+    }
+  });
+
+  // Latest screening run for a role, so the page can resume following its progress
+  app.get("/api/roles/:roleId/screening-runs/latest", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = await getTalentPoolOwner(user.id);
+
+      const run = await getLatestRoleScreeningRun(organizationId, req.params.roleId);
+      res.json({ success: true, run: run || null });
+    } catch (error) {
+      console.error("Get screening run error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch screening run",
+      });
+    }
+  });
 
-      // Screen each candidate
-      for (const candidateId of candidateIds) {
-        // Fetch candidate with all related data
-        const [candidate] = await db.select()
-          .from(candidates)
-          .where(eq(candidates.id, candidateId));
+  // Screening run progress as server-sent events, until the run completes
+  app.get("/api/roles/:roleId/screening-runs/:runId/events", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = await getTalentPoolOwner(user.id);
 
-        if (!candidate) {
-          console.warn(`Candidate ${candidateId} not found, skipping`);
-          continue;
-        }
+      const run = await getRoleScreeningRun(organizationId, req.params.runId);
+      if (!run || run.roleId !== req.params.roleId) {
+        return res.status(404).json({
+          success: false,
+          message: "Screening run not found",
+        });
+      }
 
-        // Get related data
-        const candidateExperiences = await db.select()
-          .from(experiences)
-          .where(eq(experiences.candidateId, candidateId));
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
 
-        const candidateEducation = await db.select()
-          .from(education)
-          .where(eq(education.candidateId, candidateId));
+      let lastSent = '';
+      let closed = false;
 
-        const candidateCertifications = await db.select()
-          .from(certifications)
-          .where(eq(certifications.candidateId, candidateId));
+      // The worker may run in another process, so follow the run's counters
+      const sendProgress = async () => {
+        const current = await getRoleScreeningRun(organizationId, run.id);
+        if (!current || closed) return;
 
-        const candidateSkillsData = await db.select({
-          skillId: candidateSkills.skillId,
-          skillName: skills.name,
-          kind: candidateSkills.kind,
-        })
-          .from(candidateSkills)
-          .innerJoin(skills, eq(candidateSkills.skillId, skills.id))
-          .where(eq(candidateSkills.candidateId, candidateId));
-
-        // Transform to format expected by AI evaluation
-        const candidateForEvaluation = {
-          full_name: candidate.fullName || '',
-          contact: {
-            email: candidate.email ?? undefined,
-            phone: candidate.phone ?? undefined,
-            city: candidate.city ?? undefined,
-            country: candidate.country ?? undefined,
-          },
-          headline: candidate.headline ?? undefined,
-          skills: candidateSkillsData.map(s => s.skillName || ''),
-          experience: candidateExperiences.map(exp => ({
-            title: exp.title || '',
-            company: exp.company || '',
-            industry: exp.industry ?? undefined,
-            location: exp.location ?? undefined,
-            start_date: exp.startDate ?? undefined,
-            end_date: exp.endDate ?? undefined,
-            is_current: exp.isCurrent === 1,
-            bullets: exp.bullets || [],
-          })),
-          education: candidateEducation.map(edu => ({
-            institution: edu.institution || '',
-            qualification: edu.qualification || '',
-            location: edu.location ?? undefined,
-            grad_date: edu.gradDate ?? undefined,
-          })),
-          certifications: candidateCertifications.map(cert => ({
-            name: cert.name || '',
-            issuer: cert.issuer ?? undefined,
-            year: cert.year ?? undefined,
-          })),
-          projects: [],
-          awards: [],
-          achievements: [],
-          work_authorization: candidate.workAuthorization ?? undefined,
-          salary_expectation: candidate.salaryExpectation ?? undefined,
-          availability: candidate.availability ?? undefined,
-          summary: candidate.summary ?? undefined,
-          links: candidate.links || {},
-        };
+        const payload = JSON.stringify({
+          id: current.id,
+          status: current.status,
+          total: current.total,
+          completed: current.completed,
+          failed: current.failed,
+        });
+        if (payload !== lastSent) {
+          lastSent = payload;
+          res.write(`event: progress\ndata: ${payload}\n\n`);
+        }
 
-        // Evaluate candidate against role
-        const evaluation = await evaluateCandidateWithAI(
-          candidateForEvaluation,
-          {
-            job_title: role.jobTitle,
-            job_description: role.jobDescription,
-            seniority: role.seniority ?? undefined,
-            employment_type: role.employmentType ?? undefined,
-            location: {
-              city: role.locationCity ?? undefined,
-              country: role.locationCountry ?? undefined,
-              work_type: role.workType ?? undefined,
-            },
-            must_have_skills: role.mustHaveSkills,
-            nice_to_have_skills: role.niceToHaveSkills,
-            salary_range: {
-              min: role.salaryMin ?? undefined,
-              max: role.salaryMax ?? undefined,
-              currency: role.salaryCurrency ?? undefined,
-            },
-            knockouts: role.knockouts,
-            weights: role.weights as any,
-          }
-        );
+        if (current.status === 'completed') {
+          res.write(`event: done\ndata: ${payload}\n\n`);
+          stop();
+          res.end();
+        }
+      };
 
-        // Store screening result (upsert to handle re-screening)
-        const [screening] = await db.insert(screenings)
-          .values({
-            roleId,
-            candidateId,
-            scoreTotal: evaluation.score_total,
-            scoreBreakdown: evaluation.score_breakdown,
-            mustHavesSatisfied: evaluation.must_haves_satisfied,
-            missingMustHaves: evaluation.missing_must_haves,
-            knockout: evaluation.knockout,
-            reasons: evaluation.reasons,
-            flags: evaluation.flags,
-          })
-          .onConflictDoUpdate({
-            target: [screenings.roleId, screenings.candidateId],
-            set: {
-              scoreTotal: evaluation.score_total,
-              scoreBreakdown: evaluation.score_breakdown,
-              mustHavesSatisfied: evaluation.must_haves_satisfied,
-              missingMustHaves: evaluation.missing_must_haves,
-              knockout: evaluation.knockout,
-              reasons: evaluation.reasons,
-              flags: evaluation.flags,
-              createdAt: sql`now()`,
-            },
-          })
-          .returning();
+      const interval = setInterval(() => {
+        sendProgress().catch(error => {
+          console.error(`[Screening] Progress stream error for run ${run.id}:`, error);
+        });
+      }, 1000);
+      const stop = () => {
+        closed = true;
+        clearInterval(interval);
+      };
+      req.on('close', stop);
 
-        screeningResults.push({
-          screening,
-          candidate: {
-            id: candidate.id,
-            fullName: candidate.fullName,
-            headline: candidate.headline,
-          },
+      await sendProgress();
+    } catch (error) {
+      console.error("Screening progress stream error:", error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          message: "Failed to stream screening progress",
         });
+      } else {
+        res.end();
       }
-
-      res.json({
-        success: true,
-        message: `Screened ${screeningResults.length} candidate(s)`,
-        screenings: screeningResults,
-      });
-    } catch (error: any) {
-      console.error("Screen candidates error:", error);
-      res.status(500).json({
-        success: false,
-        message: "Failed to screen candidates",
-        error: error.message,
-      });
     }
   });
 
-  // Get all screenings for a role (ranked by score)
+  // Get all screenings for a role (ranked by score, recruiter overrides first).
+  // Blind roles withhold candidate identity until the candidate is past the reveal stage.
   app.get("/api/roles/:roleId/screenings", authenticateSession, async (req, res) => {
     try {
       const user = req.user as any;
-      const userId = user.id;
+      const organizationId = await getTalentPoolOwner(user.id);
 
       const roleId = req.params.roleId;
 
-      const allScreenings = await db.select({
+      const role = await getOwnedRole(organizationId, roleId);
+      if (!role) {
+        return res.status(404).json({
+          success: false,
+          message: "Role not found",
+        });
+      }
+
+      const review = await getRoleBlindReview(organizationId, role);
+
+      const rows = await db.select({
         screening: screenings,
         candidate: {
           id: candidates.id,
@@ -6001,11 +6674,24 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
         .from(screenings)
         .innerJoin(candidates, eq(screenings.candidateId, candidates.id))
         .where(eq(screenings.roleId, roleId))
-        .orderBy(desc(screenings.scoreTotal));
+        .orderBy(sql`coalesce(${screenings.overrideScoreTotal}, ${screenings.scoreTotal}) desc nulls last`);
+
+      const allScreenings = rows.map(({ screening, candidate }) => {
+        const stage = currentStage(screening, review.stages);
+        const identityWithheld = isIdentityWithheld(review, stage);
+        return {
+          screening: { ...screening, pipelineStage: stage },
+          candidate: identityWithheld ? anonymizeCandidate(candidate) : candidate,
+          identityWithheld,
+        };
+      });
 
       res.json({
         success: true,
         count: allScreenings.length,
+        blind: review.blind,
+        stages: review.stages,
+        revealStage: review.revealStage,
         screenings: allScreenings,
       });
     } catch (error) {
@@ -6017,16 +6703,57 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
     }
   });
 
-  // Get all screenings for a candidate
-  app.get("/api/candidates/:candidateId/screenings", authenticateSession, async (req, res) => {
+  // Export a role's ranked shortlist as CSV or Excel (?format=csv|xlsx)
+  app.get("/api/roles/:roleId/screenings/export", authenticateSession, async (req, res) => {
     try {
       const user = req.user as any;
-      const userId = user.id;
+      const organizationId = await getTalentPoolOwner(user.id);
 
-      const candidateId = req.params.candidateId;
-
-      const allScreenings = await db.select({
-        screening: screenings,
+      const format = ((req.query.format as string | undefined) || 'xlsx') as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({
+          success: false,
+          message: "format must be csv or xlsx",
+        });
+      }
+
+      const shortlist = await exportRoleScreenings(organizationId, req.params.roleId, format);
+      if (!shortlist) {
+        return res.status(404).json({
+          success: false,
+          message: "Role not found",
+        });
+      }
+
+      res.setHeader('Content-Type', shortlist.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${shortlist.filename}"`);
+      res.send(shortlist.content);
+    } catch (error) {
+      console.error("Export role screenings error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to export shortlist",
+      });
+    }
+  });
+
+  // Get all screenings for a candidate
+  app.get("/api/candidates/:candidateId/screenings", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = await getTalentPoolOwner(user.id);
+
+      const candidateId = req.params.candidateId;
+
+      if (!(await getOwnedCandidate(organizationId, candidateId))) {
+        return res.status(404).json({
+          success: false,
+          message: "Candidate not found",
+        });
+      }
+
+      const allScreenings = await db.select({
+        screening: screenings,
         role: {
           id: roles.id,
           jobTitle: roles.jobTitle,
@@ -6039,7 +6766,7 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
       })
         .from(screenings)
         .innerJoin(roles, eq(screenings.roleId, roles.id))
-        .where(eq(screenings.candidateId, candidateId))
+        .where(and(eq(screenings.candidateId, candidateId), ownedRoles(organizationId)))
         .orderBy(desc(screenings.createdAt));
 
       res.json({
@@ -6060,21 +6787,18 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
   app.delete("/api/screenings/:id", authenticateSession, async (req, res) => {
     try {
       const user = req.user as any;
-      const userId = user.id;
-
-      const screeningId = req.params.id;
-
-      const deletedScreening = await db.delete(screenings)
-        .where(eq(screenings.id, screeningId))
-        .returning();
+      const organizationId = await getTalentPoolOwner(user.id);
 
-      if (!deletedScreening.length) {
+      const screening = await getOwnedScreening(organizationId, req.params.id);
+      if (!screening) {
         return res.status(404).json({
           success: false,
           message: "Screening not found",
         });
       }
 
+      await db.delete(screenings).where(eq(screenings.id, screening.id));
+
       res.json({
         success: true,
         message: "Screening deleted successfully",
@@ -6088,6 +6812,162 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
     }
   });
 
+  // Override a screening's score and/or knockout decision (the AI result is kept)
+  app.put("/api/screenings/:id/override", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = await getTalentPoolOwner(user.id);
+
+      const { scoreTotal, knockout, reason } = req.body;
+
+      if (!reason || typeof reason !== 'string' || !reason.trim()) {
+        return res.status(400).json({
+          success: false,
+          message: "A reason is required to override a screening",
+        });
+      }
+
+      if (scoreTotal !== undefined && scoreTotal !== null &&
+          (typeof scoreTotal !== 'number' || scoreTotal < 0 || scoreTotal > 100)) {
+        return res.status(400).json({
+          success: false,
+          message: "scoreTotal must be a number between 0 and 100",
+        });
+      }
+
+      if (knockout !== undefined && knockout !== null && typeof knockout !== 'boolean') {
+        return res.status(400).json({
+          success: false,
+          message: "knockout must be true or false",
+        });
+      }
+
+      const result = await overrideScreening(organizationId, user.id, req.params.id, { scoreTotal, knockout, reason });
+
+      if (!result.ok) {
+        if (result.reason === 'NOT_FOUND') {
+          return res.status(404).json({
+            success: false,
+            message: "Screening not found",
+          });
+        }
+        return res.status(400).json({
+          success: false,
+          message: "Provide a score or knockout decision to override",
+        });
+      }
+
+      res.json({
+        success: true,
+        message: "Screening overridden",
+        screening: result.screening,
+      });
+    } catch (error) {
+      console.error("Override screening error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to override screening",
+      });
+    }
+  });
+
+  // Remove a recruiter override so the AI result stands again
+  app.delete("/api/screenings/:id/override", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = await getTalentPoolOwner(user.id);
+
+      const screening = await clearScreeningOverride(organizationId, req.params.id);
+      if (!screening) {
+        return res.status(404).json({
+          success: false,
+          message: "Screening not found",
+        });
+      }
+
+      res.json({
+        success: true,
+        message: "Override removed",
+        screening,
+      });
+    } catch (error) {
+      console.error("Clear screening override error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to remove override",
+      });
+    }
+  });
+
+  // Move a screened candidate through the hiring pipeline for the role (reveals blind candidates past the reveal stage)
+  app.put("/api/screenings/:id/stage", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = await getTalentPoolOwner(user.id);
+      const { stage } = moveScreeningStageSchema.parse(req.body);
+
+      const result = await moveScreeningStage(organizationId, req.params.id, stage);
+
+      if (!result.ok) {
+        if (result.reason === 'NOT_FOUND') {
+          return res.status(404).json({
+            success: false,
+            message: "Screening not found",
+          });
+        }
+        return res.status(400).json({
+          success: false,
+          message: "Invalid stage for your hiring pipeline",
+        });
+      }
+
+      res.json({
+        success: true,
+        message: result.identityWithheld ? `Moved to ${stage}` : `Moved to ${stage} - candidate identity is now visible`,
+        screening: result.screening,
+        identityWithheld: result.identityWithheld,
+      });
+    } catch (error: any) {
+      console.error("Screening stage move error:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          message: "Validation error: " + error.errors.map((e: any) => `${e.path.join('.')}: ${e.message}`).join(', '),
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: "Failed to move candidate",
+      });
+    }
+  });
+
+  // Calibration report - where recruiters and the AI disagree for a role
+  app.get("/api/roles/:roleId/calibration", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = await getTalentPoolOwner(user.id);
+
+      const report = await getRoleCalibration(organizationId, req.params.roleId);
+      if (!report) {
+        return res.status(404).json({
+          success: false,
+          message: "Role not found",
+        });
+      }
+
+      res.json({ success: true, report });
+    } catch (error) {
+      console.error("Get screening calibration error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to build calibration report",
+      });
+    }
+  });
+
   // ========================================
   // INDIVIDUAL SETTINGS ENDPOINTS
   // ========================================
@@ -6305,6 +7185,147 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
     }
   });
 
+  // ============================================================================
+  // SAVED JOB SEARCHES
+  // ============================================================================
+
+  const MAX_SAVED_SEARCHES = 20;
+
+  // List saved searches with the number of jobs posted since each was last viewed
+  app.get("/api/individual/saved-searches", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+
+      const searches = await db.select()
+        .from(savedSearches)
+        .where(eq(savedSearches.userId, user.id))
+        .orderBy(desc(savedSearches.createdAt));
+
+      const withCounts = await Promise.all(searches.map(async (search) => {
+        const { total } = await findNewMatchingJobs(parseSavedSearchFilters(search.filters), search.lastSeenAt, 0);
+        return {
+          ...search,
+          newJobsCount: total,
+          resultsPath: getSavedSearchPath(search),
+        };
+      }));
+
+      res.json({
+        success: true,
+        searches: withCounts,
+      });
+    } catch (error) {
+      console.error("Get saved searches error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch saved searches",
+      });
+    }
+  });
+
+  app.post("/api/individual/saved-searches", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const validatedData = insertSavedSearchSchema.parse(req.body);
+
+      const [{ count }] = await db.select({ count: sql<number>`count(*)::int` })
+        .from(savedSearches)
+        .where(eq(savedSearches.userId, user.id));
+
+      if (count >= MAX_SAVED_SEARCHES) {
+        return res.status(400).json({
+          success: false,
+          message: `You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one to save another.`,
+        });
+      }
+
+      const [search] = await db.insert(savedSearches)
+        .values({
+          userId: user.id,
+          name: validatedData.name,
+          filters: validatedData.filters,
+        })
+        .returning();
+
+      res.json({
+        success: true,
+        search,
+        message: "Search saved",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: "Validation error",
+          errors: error.errors,
+        });
+      }
+      console.error("Create saved search error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to save search",
+      });
+    }
+  });
+
+  // Mark a saved search's results as seen, resetting its "N new jobs" count
+  app.post("/api/individual/saved-searches/:id/seen", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+
+      const [search] = await db.update(savedSearches)
+        .set({ lastSeenAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(savedSearches.id, req.params.id), eq(savedSearches.userId, user.id)))
+        .returning();
+
+      if (!search) {
+        return res.status(404).json({
+          success: false,
+          message: "Saved search not found",
+        });
+      }
+
+      res.json({
+        success: true,
+        search,
+      });
+    } catch (error) {
+      console.error("Mark saved search seen error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to update saved search",
+      });
+    }
+  });
+
+  app.delete("/api/individual/saved-searches/:id", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+
+      const [deleted] = await db.delete(savedSearches)
+        .where(and(eq(savedSearches.id, req.params.id), eq(savedSearches.userId, user.id)))
+        .returning();
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          message: "Saved search not found",
+        });
+      }
+
+      res.json({
+        success: true,
+        message: "Saved search deleted",
+      });
+    } catch (error) {
+      console.error("Delete saved search error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to delete saved search",
+      });
+    }
+  });
+
   // Delete account request (soft delete - just marks data for deletion)
   app.post("/api/individual/delete-account", authenticateSession, async (req, res) => {
     try {
@@ -6791,7 +7812,8 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
               description: sectionData.description || null,
               timeMinutes: sectionData.time_minutes || sectionData.timeMinutes,
               weight: sectionData.weight,
-              orderIndex: sectionData.order_index ?? sectionData.orderIndex ?? 0
+              orderIndex: sectionData.order_index ?? sectionData.orderIndex ?? 0,
+              itemSampling: sectionData.item_sampling || sectionData.itemSampling || null
             })
             .returning();
 
@@ -6954,39 +7976,252 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
     }
   });
 
-  // Update test (including status changes for publish/archive)
-  app.patch("/api/competency-tests/:id", authenticateSession, async (req: AuthRequest, res) => {
+  // Get a test's submitted attempts with section results and missed cut scores
+  app.get("/api/competency-tests/:id/attempts", authenticateSession, async (req, res) => {
     try {
-      const userId = req.user?.id;
+      const userId = (req.user as any)?.id;
       if (!userId) {
         return res.status(401).json({ success: false, message: "Not authenticated" });
       }
 
       const testId = req.params.id;
-      const { status, title, jobTitle } = req.body;
-
-      // Get the test
-      const [test] = await db
-        .select()
-        .from(competencyTests)
-        .where(eq(competencyTests.id, testId))
-        .limit(1);
 
-      if (!test) {
-        return res.status(404).json({ success: false, message: "Test not found" });
+      const access = await getManagedTest(userId, testId);
+      if (!access.ok) {
+        return access.reason === 'NOT_FOUND'
+          ? res.status(404).json({ success: false, message: "Test not found" })
+          : res.status(403).json({ success: false, message: "Access denied" });
       }
+      const { test } = access;
 
-      // Verify user has access - either created it or has access via organization
-      const membership = await db
+      const sections = await db
         .select()
-        .from(memberships)
-        .where(and(
-          eq(memberships.userId, userId),
-          eq(memberships.organizationId, test.organizationId)
-        ))
-        .limit(1);
-
-      const hasOrgAccess = membership.length > 0;
+        .from(testSections)
+        .where(eq(testSections.testId, testId))
+        .orderBy(testSections.orderIndex);
+
+      const attempts = await db
+        .select({
+          attempt: testAttempts,
+          candidate: {
+            firstName: users.firstName,
+            lastName: users.lastName,
+            email: users.email,
+          },
+        })
+        .from(testAttempts)
+        .leftJoin(users, eq(testAttempts.candidateId, users.id))
+        .where(and(
+          eq(testAttempts.testId, testId),
+          sql`${testAttempts.status} != 'in_progress'`
+        ))
+        .orderBy(desc(testAttempts.submittedAt));
+
+      res.json({
+        success: true,
+        attempts: attempts.map(({ attempt, candidate }) => ({
+          id: attempt.id,
+          candidateName: [candidate?.firstName, candidate?.lastName].filter(Boolean).join(' ') || candidate?.email || 'Candidate',
+          status: attempt.status,
+          submittedAt: attempt.submittedAt,
+          overallScore: attempt.overallScore,
+          passed: attempt.passed === 1,
+          missedCutScores: attempt.missedCutScores || [],
+          sections: attemptSectionResults(test, sections, attempt),
+          fraudScore: attempt.fraudScore,
+          riskFactors: attempt.riskFactors || [],
+          reviewRequired: attempt.reviewRequired === 1,
+          reviewOutcome: attempt.reviewOutcome,
+          reviewNotes: attempt.reviewNotes,
+          reviewedAt: attempt.reviewedAt,
+        })),
+      });
+    } catch (error: any) {
+      console.error("[Get Test Attempts] Error:", error);
+      res.status(500).json({
+        success: false,
+        message: error.message || "Failed to get test attempts"
+      });
+    }
+  });
+
+  // Review a flagged attempt: clear it, or invalidate it so it can't pass
+  app.put("/api/competency-tests/:id/attempts/:attemptId/review", authenticateSession, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: "Not authenticated" });
+      }
+
+      const access = await getManagedTest(userId, req.params.id);
+      if (!access.ok) {
+        return access.reason === 'NOT_FOUND'
+          ? res.status(404).json({ success: false, message: "Test not found" })
+          : res.status(403).json({ success: false, message: "Access denied" });
+      }
+
+      const input = reviewTestAttemptSchema.parse(req.body);
+      const result = await reviewAttempt(access.test.id, req.params.attemptId, userId, input);
+      if (!result.ok) {
+        return result.reason === 'NOT_FOUND'
+          ? res.status(404).json({ success: false, message: "Test attempt not found" })
+          : res.status(400).json({ success: false, message: "The test hasn't been submitted yet" });
+      }
+
+      res.json({ success: true, attempt: result.attempt });
+    } catch (error: any) {
+      console.error("[Review Test Attempt] Error:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          message: "Validation error: " + error.errors.map((e: any) => `${e.path.join('.')}: ${e.message}`).join(', '),
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: error.message || "Failed to review test attempt"
+      });
+    }
+  });
+
+  // Grading queue: ungraded open-ended responses on a test's submitted attempts
+  app.get("/api/competency-tests/:id/grading-queue", authenticateSession, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: "Not authenticated" });
+      }
+
+      const access = await getManagedTest(userId, req.params.id);
+      if (!access.ok) {
+        return access.reason === 'NOT_FOUND'
+          ? res.status(404).json({ success: false, message: "Test not found" })
+          : res.status(403).json({ success: false, message: "Access denied" });
+      }
+
+      const queue = await getGradingQueue(access.test.id);
+      res.json({ success: true, queue });
+    } catch (error: any) {
+      console.error("[Grading Queue] Error:", error);
+      res.status(500).json({
+        success: false,
+        message: error.message || "Failed to get grading queue"
+      });
+    }
+  });
+
+  // Ask the AI for a suggested grade on a response (again)
+  app.post("/api/competency-tests/:id/responses/:responseId/suggest-grade", authenticateSession, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: "Not authenticated" });
+      }
+
+      const access = await getManagedTest(userId, req.params.id);
+      if (!access.ok) {
+        return access.reason === 'NOT_FOUND'
+          ? res.status(404).json({ success: false, message: "Test not found" })
+          : res.status(403).json({ success: false, message: "Access denied" });
+      }
+
+      const result = await suggestGrade(req.params.responseId, access.test.id);
+      if (!result.ok) {
+        const errors = {
+          NOT_FOUND: { status: 404, message: "Response not found" },
+          NOT_AI_GRADABLE: { status: 400, message: "This question type must be graded by hand" },
+          AI_NOT_CONFIGURED: { status: 503, message: "AI grading is not available" },
+        } as const;
+        const { status, message } = errors[result.reason];
+        return res.status(status).json({ success: false, message });
+      }
+
+      res.json({ success: true, response: result.response });
+    } catch (error: any) {
+      console.error("[Suggest Grade] Error:", error);
+      res.status(500).json({
+        success: false,
+        message: error.message || "Failed to suggest a grade"
+      });
+    }
+  });
+
+  // Grade a response (accepting or adjusting the AI suggestion)
+  app.put("/api/competency-tests/:id/responses/:responseId/grade", authenticateSession, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: "Not authenticated" });
+      }
+
+      const access = await getManagedTest(userId, req.params.id);
+      if (!access.ok) {
+        return access.reason === 'NOT_FOUND'
+          ? res.status(404).json({ success: false, message: "Test not found" })
+          : res.status(403).json({ success: false, message: "Access denied" });
+      }
+
+      const input = gradeTestResponseSchema.parse(req.body);
+      const result = await gradeResponse(access.test.id, req.params.responseId, userId, input);
+      if (!result.ok) {
+        return result.reason === 'NOT_FOUND'
+          ? res.status(404).json({ success: false, message: "Response not found" })
+          : res.status(400).json({ success: false, message: "Points exceed the question's maximum" });
+      }
+
+      res.json({ success: true, response: result.response, attemptStatus: result.attemptStatus });
+    } catch (error: any) {
+      console.error("[Grade Response] Error:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          message: "Validation error: " + error.errors.map((e: any) => `${e.path.join('.')}: ${e.message}`).join(', '),
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: error.message || "Failed to grade response"
+      });
+    }
+  });
+
+  // Update test (including status changes for publish/archive)
+  app.patch("/api/competency-tests/:id", authenticateSession, async (req: AuthRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: "Not authenticated" });
+      }
+
+      const testId = req.params.id;
+      const { status, title, jobTitle } = req.body;
+
+      // Get the test
+      const [test] = await db
+        .select()
+        .from(competencyTests)
+        .where(eq(competencyTests.id, testId))
+        .limit(1);
+
+      if (!test) {
+        return res.status(404).json({ success: false, message: "Test not found" });
+      }
+
+      // Verify user has access - either created it or has access via organization
+      const membership = await db
+        .select()
+        .from(memberships)
+        .where(and(
+          eq(memberships.userId, userId),
+          eq(memberships.organizationId, test.organizationId)
+        ))
+        .limit(1);
+
+      const hasOrgAccess = membership.length > 0;
       const isCreator = test.createdByUserId === userId;
 
       if (!hasOrgAccess && !isCreator) {
@@ -7275,7 +8510,9 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
         return res.status(403).json({ success: false, message: "Test is no longer in progress" });
       }
 
-      // Get sections with items
+      // Get sections with the items this attempt draws, in its own (shuffled) order
+      const layout = await getAttemptLayout(attempt);
+
       const sections = await db
         .select()
         .from(testSections)
@@ -7294,12 +8531,11 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
               orderIndex: testItems.orderIndex,
             })
             .from(testItems)
-            .where(eq(testItems.sectionId, section.id))
-            .orderBy(testItems.orderIndex);
+            .where(eq(testItems.sectionId, section.id));
 
           return {
             ...section,
-            items
+            items: layoutSectionItems(layout, section.id, items)
           };
         })
       );
@@ -7364,6 +8600,8 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
         updates.fullscreenExits = (attempt.fullscreenExits || 0) + 1;
       } else if (eventType === 'tab_switch') {
         updates.tabSwitches = (attempt.tabSwitches || 0) + 1;
+      } else if (eventType === 'copy' || eventType === 'paste') {
+        updates.copyPasteAttempts = (attempt.copyPasteAttempts || 0) + 1;
       }
 
       await db
@@ -7420,18 +8658,15 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
         .where(eq(testItems.id, itemId))
         .limit(1);
 
-      if (!item) {
+      const layout = await getAttemptLayout(attempt);
+      if (!item || !isItemInLayout(layout, item.id)) {
         return res.status(404).json({ success: false, message: "Question not found" });
       }
 
-      // Check if answer is correct (for auto-gradable questions)
-      let isCorrect: number | null = null;
-      let pointsAwarded: number | null = null;
-
-      if (item.format === 'mcq' && item.correctAnswer) {
-        isCorrect = response === item.correctAnswer ? 1 : 0;
-        pointsAwarded = isCorrect === 1 ? item.maxPoints : 0;
-      }
+      // Auto-score closed formats against the options as this attempt showed them; open formats are left for manual grading
+      const score = scoreItemResponse(item, response, optionsInLayout(layout, item));
+      const isCorrect = score?.isCorrect ?? null;
+      const pointsAwarded = score?.pointsAwarded ?? null;
 
       // Upsert response
       const [savedResponse] = await db
@@ -7499,7 +8734,10 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
 
       // Verify time limit hasn't been exceeded
       const [testDetails] = await db.select().from(competencyTests).where(eq(competencyTests.id, attempt.testId)).limit(1);
-      if (testDetails?.durationMinutes) {
+      if (!testDetails) {
+        return res.status(404).json({ success: false, message: "Test not found" });
+      }
+      if (testDetails.durationMinutes) {
         const startTime = new Date(attempt.startedAt);
         const maxDurationMs = testDetails.durationMinutes * 60 * 1000;
         const elapsedMs = Date.now() - startTime.getTime();
@@ -7512,7 +8750,7 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
         }
       }
 
-      // Calculate scores
+      // Score sections by type, weighted and checked against the test's cut scores
       const responses = await db
         .select()
         .from(testResponses)
@@ -7521,65 +8759,58 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
       const sections = await db
         .select()
         .from(testSections)
-        .where(eq(testSections.testId, attempt.testId))
-        .orderBy(testSections.orderIndex);
-
-      const sectionScores: Record<string, number> = {};
-      let totalPoints = 0;
-      let earnedPoints = 0;
-
-      for (const section of sections) {
-        const sectionItems = await db
-          .select()
-          .from(testItems)
-          .where(eq(testItems.sectionId, section.id));
-
-        let sectionTotal = 0;
-        let sectionEarned = 0;
-
-        for (const item of sectionItems) {
-          sectionTotal += item.maxPoints;
-          const response = responses.find(r => r.itemId === item.id);
-          if (response && response.pointsAwarded !== null) {
-            sectionEarned += response.pointsAwarded;
-          }
-        }
-
-        const sectionScore = sectionTotal > 0 ? Math.round((sectionEarned / sectionTotal) * 100) : 0;
-        sectionScores[section.id] = sectionScore;
-
-        totalPoints += sectionTotal;
-        earnedPoints += sectionEarned;
-      }
-
-      const overallScore = totalPoints > 0 ? Math.round((earnedPoints / totalPoints) * 100) : 0;
-
-      // Get test to check cut scores
-      const [test] = await db
-        .select()
-        .from(competencyTests)
-        .where(eq(competencyTests.id, attempt.testId))
-        .limit(1);
+        .where(eq(testSections.testId, attempt.testId));
 
-      // Determine if passed (simplified - just check overall score >= 50%)
-      const passed = overallScore >= 50 ? 1 : 0;
+      const items = sections.length > 0
+        ? await db
+            .select()
+            .from(testItems)
+            .where(inArray(testItems.sectionId, sections.map(s => s.id)))
+        : [];
+
+      // Only the items this attempt drew count towards its score
+      const drawnItems = attemptItems(items, attempt.itemLayout as AttemptItemLayout | null);
+      const score = scoreAttempt(testDetails, sections, drawnItems, responses);
+      const { overallScore, sectionScores, missedCutScores } = score;
+      const passed = score.passed ? 1 : 0;
+
+      // Open-ended responses wait in the grading queue; the attempt is scored once they're graded
+      const awaitingGrading = responses.some(r => r.pointsAwarded === null);
+
+      // Proctoring risk from the final event counts; risky attempts are flagged for review
+      const finalFullscreenExits = fullscreenExits || attempt.fullscreenExits || 0;
+      const finalTabSwitches = tabSwitches || attempt.tabSwitches || 0;
+      const proctoring = await assessProctoringRisk(
+        { ...attempt, fullscreenExits: finalFullscreenExits, tabSwitches: finalTabSwitches },
+        responses
+      );
 
       // Update attempt with final anti-cheat counts
       const [updatedAttempt] = await db
         .update(testAttempts)
         .set({
-          status: 'submitted',
+          status: awaitingGrading ? 'submitted' : 'scored',
           submittedAt: new Date(),
           timeSpentSeconds: timeSpentSeconds || null,
           overallScore,
           passed,
           sectionScores,
-          fullscreenExits: fullscreenExits || attempt.fullscreenExits || 0,
-          tabSwitches: tabSwitches || attempt.tabSwitches || 0,
+          missedCutScores,
+          fullscreenExits: finalFullscreenExits,
+          tabSwitches: finalTabSwitches,
+          fraudScore: proctoring.fraudScore,
+          riskFactors: proctoring.riskFactors,
+          reviewRequired: proctoring.reviewRequired,
         })
         .where(eq(testAttempts.id, attemptId))
         .returning();
 
+      if (awaitingGrading) {
+        suggestGradesForAttempt(attemptId).catch(error => {
+          console.error(`[Submit Test] Failed to suggest grades for attempt ${attemptId}:`, error);
+        });
+      }
+
       res.json({
         success: true,
         attempt: updatedAttempt,
@@ -7587,6 +8818,7 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
           overall: overallScore,
           sections: sectionScores,
           passed: passed === 1,
+          missedCutScores,
         }
       });
     } catch (error: any) {
@@ -7648,11 +8880,7 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
           title: test.title,
           jobTitle: test.jobTitle,
         },
-        sections: sections.map(s => ({
-          id: s.id,
-          title: s.title,
-          score: (attempt.sectionScores as Record<string, number>)?.[s.id] || 0,
-        })),
+        sections: attemptSectionResults(test, sections, attempt),
       });
     } catch (error: any) {
       console.error("[Get Test Results] Error:", error);
@@ -8510,7 +9738,7 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
         }
       }
       
-      // Get active subscription
+      // Get active (or trialing) subscription; past-due ones stay current through dunning
       const now = new Date();
       const [result] = await db.select({
         subscription: subscriptions,
@@ -8521,8 +9749,13 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
         .where(and(
           eq(subscriptions.holderType, holderType),
           eq(subscriptions.holderId, holderId),
-          eq(subscriptions.status, 'active'),
-          gte(subscriptions.currentPeriodEnd, now)
+          or(
+            and(
+              inArray(subscriptions.status, ['active', 'trialing']),
+              gte(subscriptions.currentPeriodEnd, now)
+            ),
+            eq(subscriptions.status, 'past_due')
+          )
         ))
         .orderBy(desc(subscriptions.createdAt))
         .limit(1);
@@ -8539,6 +9772,10 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
         success: true,
         subscription: result.subscription,
         plan: result.plan,
+        // When a past-due account loses access, if it hasn't already
+        restrictOn: result.subscription.pastDueSince && !result.subscription.restrictedAt
+          ? getRestrictionDate(result.subscription.pastDueSince)
+          : null,
       });
     } catch (error: any) {
       console.error("[Billing] Error fetching subscription:", error);
@@ -8586,11 +9823,11 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
     }
   });
 
-  // Create checkout session (Netcash integration - stub for now)
+  // Start a Netcash Pay Now checkout for a paid plan, or its free trial
   app.post("/api/billing/checkout", authenticateSession, async (req, res) => {
     try {
       const user = req.user as any;
-      const { planId, interval } = req.body;
+      const { planId } = req.body;
       
       // Validate plan exists
       const [plan] = await db.select()
@@ -8607,14 +9844,52 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
           message: "Plan not found",
         });
       }
+
+      if (plan.priceCents <= 0) {
+        return res.status(400).json({
+          success: false,
+          message: "Free plans don't require checkout",
+        });
+      }
+      
+      const holder = await resolveBillingHolder(user);
+      
+      // First checkout of a product with a trial starts the trial; payment
+      // can be added from the billing page before it ends
+      if (await isTrialEligible(holder, plan)) {
+        const trial = await startTrial(holder, plan);
+        return res.json({
+          success: true,
+          status: 'trialing',
+          subscriptionId: trial.id,
+          trialEndsAt: trial.trialEndsAt,
+        });
+      }
+      
+      const [trialing] = await db.select()
+        .from(subscriptions)
+        .where(and(
+          eq(subscriptions.holderType, holder.type),
+          eq(subscriptions.holderId, holder.id),
+          eq(subscriptions.planId, plan.id),
+          eq(subscriptions.status, 'trialing')
+        ))
+        .limit(1);
+      
+      if ((trialing?.metadata as any)?.paymentMethodCaptured) {
+        return res.status(400).json({
+          success: false,
+          message: "Payment for this trial has already been captured",
+        });
+      }
+      
+      const { subscription, checkout } = await startCheckout(holder, plan, user.email);
       
-      // TODO: Create Netcash checkout session
-      // For now, return stub response
       res.json({
         success: true,
-        message: "Checkout session creation - Netcash integration coming soon",
-        plan,
-        // checkoutUrl: netcashCheckoutUrl,
+        status: 'checkout',
+        subscriptionId: subscription.id,
+        checkout,
       });
     } catch (error: any) {
       console.error("[Billing] Error creating checkout:", error);
@@ -8625,41 +9900,47 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
     }
   });
 
-  // Handle Netcash webhooks (stub for now)
+  // Netcash Pay Now notify callback (form-encoded). Always 200 for authentic
+  // notifications so the gateway stops retrying; failures are kept on payment_events
   app.post("/api/billing/webhook", async (req, res) => {
     try {
-      // TODO: Verify Netcash signature
-      const event = req.body;
-      
-      // Store event
-      await db.insert(paymentEvents).values({
-        gateway: 'netcash',
-        eventId: event.id || `evt_${Date.now()}`,
-        eventType: event.type || 'unknown',
-        payload: event,
-        processed: 0,
-      });
+      const result = await handleGatewayNotification(req.body);
       
-      // TODO: Process event based on type
-      // - subscription.activated -> activate subscription
-      // - payment.failed -> mark past_due
-      // - subscription.canceled -> cancel subscription
+      if (result.status === 'invalid') {
+        return res.status(400).json({ error: "Invalid notification" });
+      }
       
-      res.json({ received: true });
+      res.json({ received: true, status: result.status });
     } catch (error: any) {
       console.error("[Billing] Error processing webhook:", error);
       res.status(500).json({ error: "Webhook processing failed" });
     }
   });
 
-  // Get billing portal link (stub for now)
+  // Billing management for the current holder. Netcash has no hosted customer
+  // portal, so this points at the in-app billing page
   app.get("/api/billing/portal", authenticateSession, async (req, res) => {
     try {
-      // TODO: Generate Netcash customer portal URL
+      const user = req.user as any;
+      const holder = await resolveBillingHolder(user);
+      
+      const holderSubscriptions = await db.select({
+        subscription: subscriptions,
+        plan: plans,
+      })
+        .from(subscriptions)
+        .innerJoin(plans, eq(subscriptions.planId, plans.id))
+        .where(and(
+          eq(subscriptions.holderType, holder.type),
+          eq(subscriptions.holderId, holder.id),
+          inArray(subscriptions.status, ['pending', 'trialing', 'active', 'past_due'])
+        ))
+        .orderBy(desc(subscriptions.createdAt));
+      
       res.json({
         success: true,
-        message: "Billing portal - Netcash integration coming soon",
-        // portalUrl: netcashPortalUrl,
+        portalUrl: holder.type === 'org' ? "/dashboard/recruiter/billing" : "/dashboard/individual/billing",
+        subscriptions: holderSubscriptions,
       });
     } catch (error: any) {
       console.error("[Billing] Error generating portal link:", error);
@@ -8670,6 +9951,500 @@ Write a compelling 5-10 line company description in a ${selectedTone} tone.`;
     }
   });
 
+  // Cancel the current holder's subscription (at period end if it is active)
+  app.post("/api/billing/subscriptions/:id/cancel", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const holder = await resolveBillingHolder(user);
+      
+      const [subscription] = await db.select()
+        .from(subscriptions)
+        .where(and(
+          eq(subscriptions.id, req.params.id),
+          eq(subscriptions.holderType, holder.type),
+          eq(subscriptions.holderId, holder.id)
+        ));
+      
+      if (!subscription) {
+        return res.status(404).json({
+          success: false,
+          message: "Subscription not found",
+        });
+      }
+
+      if (subscription.status === 'canceled') {
+        return res.status(400).json({
+          success: false,
+          message: "Subscription is already canceled",
+        });
+      }
+      
+      const updated = await cancelSubscription(subscription);
+      
+      res.json({
+        success: true,
+        subscription: updated,
+        message: updated.status === 'canceled'
+          ? "Subscription canceled"
+          : "Subscription will be canceled at the end of the current period",
+      });
+    } catch (error: any) {
+      console.error("[Billing] Error canceling subscription:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to cancel subscription",
+      });
+    }
+  });
+
+  // Tax invoices for the current billing holder, newest first
+  app.get("/api/billing/invoices", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const holder = await resolveBillingHolder(user);
+      const holderInvoices = await listInvoices(holder);
+      
+      res.json({
+        success: true,
+        invoices: holderInvoices,
+      });
+    } catch (error: any) {
+      console.error("[Billing] Error fetching invoices:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch invoices",
+      });
+    }
+  });
+
+  // Single invoice, with the buyer and supplier details it was issued with
+  app.get("/api/billing/invoices/:id", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const holder = await resolveBillingHolder(user);
+      const invoice = await getInvoice(holder, req.params.id);
+      
+      if (!invoice) {
+        return res.status(404).json({
+          success: false,
+          message: "Invoice not found",
+        });
+      }
+      
+      res.json({
+        success: true,
+        invoice,
+      });
+    } catch (error: any) {
+      console.error("[Billing] Error fetching invoice:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch invoice",
+      });
+    }
+  });
+
+  // Organization registration / VAT details printed on future invoices
+  app.get("/api/billing/details", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const holder = await resolveBillingHolder(user);
+      
+      if (holder.type !== 'org') {
+        return res.json({ success: true, details: null });
+      }
+      
+      const [organization] = await db.select()
+        .from(organizations)
+        .where(eq(organizations.id, holder.id));
+      
+      res.json({
+        success: true,
+        details: {
+          organizationName: organization?.name,
+          registrationNumber: organization?.registrationNumber || "",
+          vatNumber: organization?.vatNumber || "",
+          billingAddress: organization?.billingAddress || "",
+        },
+      });
+    } catch (error: any) {
+      console.error("[Billing] Error fetching billing details:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch billing details",
+      });
+    }
+  });
+
+  app.put("/api/billing/details", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const holder = await resolveBillingHolder(user);
+      
+      if (holder.type !== 'org') {
+        return res.status(400).json({
+          success: false,
+          message: "Billing details are only kept for organizations",
+        });
+      }
+      
+      if (!(await canManageBilling(user.id, holder))) {
+        return res.status(403).json({
+          success: false,
+          message: "Only organization owners and admins can change billing details",
+        });
+      }
+      
+      const validated = organizationBillingDetailsSchema.parse(req.body);
+      
+      const [organization] = await db.update(organizations)
+        .set({
+          registrationNumber: validated.registrationNumber || null,
+          vatNumber: validated.vatNumber || null,
+          billingAddress: validated.billingAddress || null,
+        })
+        .where(eq(organizations.id, holder.id))
+        .returning();
+      
+      res.json({
+        success: true,
+        details: {
+          organizationName: organization.name,
+          registrationNumber: organization.registrationNumber || "",
+          vatNumber: organization.vatNumber || "",
+          billingAddress: organization.billingAddress || "",
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid billing details",
+          errors: error.errors,
+        });
+      }
+      console.error("[Billing] Error updating billing details:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to update billing details",
+      });
+    }
+  });
+
+  // Pay a past-due subscription's outstanding amount (dunning recovery)
+  app.post("/api/billing/pay-outstanding", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const holder = await resolveBillingHolder(user);
+      
+      if (!(await canManageBilling(user.id, holder))) {
+        return res.status(403).json({
+          success: false,
+          message: "Only organization owners and admins can pay for the subscription",
+        });
+      }
+      
+      const [row] = await db.select({ subscription: subscriptions, plan: plans })
+        .from(subscriptions)
+        .innerJoin(plans, eq(subscriptions.planId, plans.id))
+        .where(and(
+          eq(subscriptions.holderType, holder.type),
+          eq(subscriptions.holderId, holder.id),
+          eq(subscriptions.status, 'past_due')
+        ))
+        .limit(1);
+      
+      if (!row) {
+        return res.status(404).json({
+          success: false,
+          message: "Nothing is outstanding",
+        });
+      }
+      
+      const checkout = await startPastDueCheckout(row.subscription, row.plan, user.email);
+      
+      res.json({
+        success: true,
+        subscriptionId: row.subscription.id,
+        checkout,
+      });
+    } catch (error: any) {
+      console.error("[Billing] Error starting past-due checkout:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to create checkout session",
+      });
+    }
+  });
+
+  const PLAN_CHANGE_ERRORS: Record<string, string> = {
+    NO_SUBSCRIPTION: "You don't have an active subscription to change",
+    SAME_PLAN: "You're already on this plan",
+    PRODUCT_MISMATCH: "This plan isn't available for your account type",
+  };
+
+  // Preview a plan change: prorated charge for upgrades, effective date for downgrades.
+  // Without a planId, previews the next plan up from the current one
+  app.get("/api/billing/plan-change/preview", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const holder = await resolveBillingHolder(user);
+      const planId = typeof req.query.planId === "string" ? req.query.planId : undefined;
+      
+      let newPlan;
+      if (planId) {
+        [newPlan] = await db.select()
+          .from(plans)
+          .where(and(eq(plans.id, planId), eq(plans.isPublic, 1)));
+      } else {
+        const current = await getCurrentSubscription(holder);
+        newPlan = current ? await suggestUpgradePlan(current.plan) : null;
+      }
+      
+      if (!newPlan) {
+        return res.status(404).json({
+          success: false,
+          message: "Plan not found",
+        });
+      }
+      
+      const result = await previewPlanChange(holder, newPlan);
+      if (!result.ok) {
+        return res.status(400).json({
+          success: false,
+          message: PLAN_CHANGE_ERRORS[result.reason],
+          reason: result.reason,
+        });
+      }
+      
+      res.json({
+        success: true,
+        preview: result.preview,
+        scheduledPlanId: result.subscription.scheduledPlanId,
+      });
+    } catch (error: any) {
+      console.error("[Billing] Error previewing plan change:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to preview plan change",
+      });
+    }
+  });
+
+  // Change plan: upgrades apply now (with a checkout for the prorated charge),
+  // downgrades are scheduled for the end of the current period
+  app.post("/api/billing/plan-change", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const holder = await resolveBillingHolder(user);
+      
+      if (!(await canManageBilling(user.id, holder))) {
+        return res.status(403).json({
+          success: false,
+          message: "Only organization owners and admins can change the plan",
+        });
+      }
+      
+      const { planId } = changePlanSchema.parse(req.body);
+      
+      const [newPlan] = await db.select()
+        .from(plans)
+        .where(and(eq(plans.id, planId), eq(plans.isPublic, 1)));
+      
+      if (!newPlan) {
+        return res.status(404).json({
+          success: false,
+          message: "Plan not found",
+        });
+      }
+      
+      const check = await previewPlanChange(holder, newPlan);
+      if (!check.ok) {
+        return res.status(400).json({
+          success: false,
+          message: PLAN_CHANGE_ERRORS[check.reason],
+          reason: check.reason,
+        });
+      }
+      
+      const result = await changePlan(check.subscription, check.preview, user.email);
+      
+      res.json({
+        success: true,
+        ...result,
+        message: result.status === 'scheduled'
+          ? "Your plan will change at the end of the current billing period"
+          : result.status === 'changed'
+            ? "Your plan has been upgraded"
+            : result.status === 'trialing'
+              ? `Your ${result.preview.trialDays}-day free trial has started`
+              : "Complete payment to upgrade your plan",
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid plan change",
+          errors: error.errors,
+        });
+      }
+      console.error("[Billing] Error changing plan:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to change plan",
+      });
+    }
+  });
+
+  // Cancel a scheduled downgrade
+  app.delete("/api/billing/plan-change", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const holder = await resolveBillingHolder(user);
+      
+      if (!(await canManageBilling(user.id, holder))) {
+        return res.status(403).json({
+          success: false,
+          message: "Only organization owners and admins can change the plan",
+        });
+      }
+      
+      const current = await getCurrentSubscription(holder);
+      if (!current?.subscription.scheduledPlanId) {
+        return res.status(404).json({
+          success: false,
+          message: "No scheduled plan change",
+        });
+      }
+      
+      const subscription = await cancelScheduledPlanChange(current.subscription);
+      
+      res.json({
+        success: true,
+        subscription,
+        message: "Scheduled plan change canceled",
+      });
+    } catch (error: any) {
+      console.error("[Billing] Error canceling plan change:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to cancel plan change",
+      });
+    }
+  });
+
+  // Running overage estimate for metered features in the current period
+  app.get("/api/billing/overage", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const holder = await resolveBillingHolder(user);
+      const overage = await getOverageEstimate(holder);
+      
+      res.json({
+        success: true,
+        overage,
+      });
+    } catch (error: any) {
+      console.error("[Billing] Error fetching overage estimate:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch overage estimate",
+      });
+    }
+  });
+
+  // Set or remove the holder's overage spending limit per billing period
+  app.put("/api/billing/spending-limit", authenticateSession, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const holder = await resolveBillingHolder(user);
+      
+      if (!(await canManageBilling(user.id, holder))) {
+        return res.status(403).json({
+          success: false,
+          message: "Only organization owners and admins can change the spending limit",
+        });
+      }
+      
+      const { limitCents } = updateSpendingLimitSchema.parse(req.body);
+      await setSpendingLimit(holder, limitCents);
+      
+      res.json({
+        success: true,
+        limitCents,
+        message: limitCents === null ? "Spending limit removed" : "Spending limit updated",
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid spending limit",
+          errors: error.errors,
+        });
+      }
+      console.error("[Billing] Error updating spending limit:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to update spending limit",
+      });
+    }
+  });
+
+  // Fake payment page - only responds when the fake gateway is active.
+  // Mirrors Pay Now: receives the checkout form, then sends a signed notify callback
+  app.post("/api/billing/fake-gateway/pay", (req, res) => {
+    if (!(getPaymentGateway() instanceof FakeGateway)) {
+      return res.status(404).send("Not found");
+    }
+
+    const fields = req.body as Record<string, string>;
+    const hiddenFields = Object.entries(fields)
+      .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(String(value))}" />`)
+      .join("");
+
+    res.send(`<!DOCTYPE html>
+<html>
+  <body style="font-family: sans-serif; max-width: 480px; margin: 60px auto;">
+    <h2>Fake payment gateway</h2>
+    <p>${escapeHtml(fields.p3 || "")} — R${escapeHtml(fields.p4 || "0.00")}</p>
+    <p style="color: #666;">Reference ${escapeHtml(fields.p2 || "")}</p>
+    <form method="POST" action="/api/billing/fake-gateway/complete">
+      ${hiddenFields}
+      <button name="outcome" value="accepted">Pay</button>
+      <button name="outcome" value="declined">Decline</button>
+    </form>
+  </body>
+</html>`);
+  });
+
+  app.post("/api/billing/fake-gateway/complete", async (req, res) => {
+    const gateway = getPaymentGateway();
+    if (!(gateway instanceof FakeGateway)) {
+      return res.status(404).send("Not found");
+    }
+
+    try {
+      const { outcome, ...fields } = req.body as Record<string, string>;
+      const notification = gateway.buildNotification(
+        fields,
+        outcome === 'accepted' ? 'accepted' : 'declined',
+        `fake-${randomUUID()}`
+      );
+      const result = await handleGatewayNotification(notification);
+      
+      console.log(`[Billing] Fake gateway ${outcome} payment ${fields.p2}: ${result.status}`);
+
+      const [subscription] = await db.select()
+        .from(subscriptions)
+        .where(eq(subscriptions.id, fields.m4 || ''));
+      const billingPage = subscription?.holderType === 'org' ? "/dashboard/recruiter/billing" : "/dashboard/individual/billing";
+      res.redirect(`${billingPage}?payment=${outcome === 'accepted' ? 'success' : 'declined'}`);
+    } catch (error: any) {
+      console.error("[Billing] Fake gateway error:", error);
+      res.status(500).send("Fake payment failed");
+    }
+  });
+
   // Admin: Get all subscriptions
   app.get("/api/admin/billing/subscriptions", authenticateSession, async (req, res) => {
     try {
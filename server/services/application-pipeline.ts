@@ -0,0 +1,147 @@
+/**
+ * Application Pipeline Service
+ *
+ * Moves in-app job applications through an organization's hiring pipeline.
+ * - Resolve the pipeline stages that apply to a job
+ * - Map recruiter-facing stages onto the candidate-facing application status
+ * - Record every move as an auditable stage transition
+ */
+
+import { db } from "../db";
+import {
+  jobApplications,
+  applicationStageTransitions,
+  pipelineStages,
+  jobAdminSchema,
+  JOB_APPLICATION_STATUSES,
+  type Job,
+  type JobApplication,
+} from "../../shared/schema";
+import { eq, asc } from "drizzle-orm";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ApplicationStatus = typeof JOB_APPLICATION_STATUSES[number];
+
+export interface StageMoveResult {
+  application: JobApplication;
+  fromStage: string | null;
+  toStage: string;
+}
+
+// Used when neither the organization nor the job defines a pipeline
+const DEFAULT_PIPELINE: string[] = jobAdminSchema.shape.pipeline.parse(undefined);
+
+// ============================================================================
+// STAGE RESOLUTION
+// ============================================================================
+
+/**
+ * Get the ordered pipeline stage names for a job
+ *
+ * Organization pipeline stages (configured in Settings) take precedence,
+ * then the stages stored on the job (admin.pipeline), then the defaults.
+ */
+export async function getJobPipeline(job: Pick<Job, "organizationId" | "admin">): Promise<string[]> {
+  if (job.organizationId) {
+    const orgStages = await db.select()
+      .from(pipelineStages)
+      .where(eq(pipelineStages.organizationId, job.organizationId))
+      .orderBy(asc(pipelineStages.order));
+
+    if (orgStages.length > 0) {
+      return orgStages.map(stage => stage.name);
+    }
+  }
+
+  const jobPipeline = (job.admin as any)?.pipeline;
+  if (Array.isArray(jobPipeline) && jobPipeline.length > 0) {
+    return jobPipeline.filter((stage: unknown): stage is string => typeof stage === "string" && stage.length > 0);
+  }
+
+  return DEFAULT_PIPELINE;
+}
+
+/**
+ * Map a pipeline stage onto the status shown on the candidate's Applications page
+ *
+ * Stage names are free text per organization, so the mapping is keyword based:
+ * the first stage means "Applied" and unrecognised later stages mean "Viewed".
+ */
+export function stageToStatus(stage: string, stages: string[]): ApplicationStatus {
+  const name = stage.toLowerCase();
+
+  if (/(reject|declin|unsuccessful|withdr)/.test(name)) return "Rejected";
+  if (/(offer|hired|placed)/.test(name)) return "Offer";
+  if (/interview/.test(name)) return "Interview";
+  if (stages.indexOf(stage) <= 0) return "Applied";
+  return "Viewed";
+}
+
+/**
+ * Find the stage a recruiter's status change should move the application to
+ *
+ * Returns null when no stage maps to the status (e.g. "Rejected" in a pipeline
+ * without a rejection stage) - the status is then changed in place.
+ */
+export function statusToStage(status: ApplicationStatus, stages: string[]): string | null {
+  return stages.find(stage => stageToStatus(stage, stages) === status) ?? null;
+}
+
+/**
+ * Current stage of an application, defaulting to the first pipeline stage
+ */
+export function currentStage(application: Pick<JobApplication, "pipelineStage">, stages: string[]): string | null {
+  if (application.pipelineStage && stages.includes(application.pipelineStage)) {
+    return application.pipelineStage;
+  }
+  return stages[0] ?? null;
+}
+
+// ============================================================================
+// TRANSITIONS
+// ============================================================================
+
+/**
+ * Move an application to a pipeline stage and record the transition
+ *
+ * Callers must check that toStage is one of the job's stages.
+ * @param status - Optional explicit status; defaults to the status the stage maps to
+ */
+export async function moveApplicationToStage(
+  application: JobApplication,
+  stages: string[],
+  toStage: string,
+  actorUserId: string,
+  options: { status?: ApplicationStatus; note?: string } = {}
+): Promise<StageMoveResult> {
+  const fromStage = application.pipelineStage;
+  const toStatus = options.status ?? stageToStatus(toStage, stages);
+
+  const [updated] = await db.update(jobApplications)
+    .set({
+      pipelineStage: toStage,
+      status: toStatus,
+      statusUpdatedBy: actorUserId,
+      updatedAt: new Date(),
+    })
+    .where(eq(jobApplications.id, application.id))
+    .returning();
+
+  await db.insert(applicationStageTransitions).values({
+    applicationId: application.id,
+    jobId: application.jobId,
+    fromStage,
+    toStage,
+    fromStatus: application.status,
+    toStatus,
+    actorUserId,
+    note: options.note || null,
+  });
+
+  console.log(`[Pipeline] Application ${application.id}: ${fromStage ?? "(none)"} -> ${toStage} (${toStatus}) by ${actorUserId}`);
+
+  return { application: updated, fromStage, toStage };
+}
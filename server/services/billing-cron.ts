@@ -1,11 +1,20 @@
 /**
  * Billing Cron Job Service
- * Handles automated billing period resets and subscription management
+ * Handles automated billing period resets, overage invoicing, trial expiry, dunning and subscription management
  */
 
 import { db } from '../db';
-import { subscriptions, usage } from '@shared/schema';
+import { subscriptions, usage, plans, type Plan, type Subscription } from '@shared/schema';
 import { and, eq, lte, gte, sql } from 'drizzle-orm';
+import { addBillingInterval, cancelOtherSubscriptions, requestRenewalPayment } from './billing';
+import { issueInvoice, issueOverageInvoice } from './invoices';
+import { getBillingContact, getBillingPageUrl, formatPlanName } from './billing-notices';
+import { processDunningStep } from './dunning';
+import { sendTrialEndingEmail, sendTrialEndedEmail } from '../emails';
+import type { Holder } from './entitlements';
+
+// Days before a trial ends that the reminder email goes out
+const TRIAL_REMINDER_DAYS = 3;
 
 /**
  * Reset usage counters for subscriptions whose billing period has ended
@@ -18,10 +27,12 @@ export async function resetBillingPeriods() {
   
   try {
     // Find all active subscriptions whose current period has ended
+    // (those canceling at period end are left for processCancellations)
     const expiredSubscriptions = await db.select()
       .from(subscriptions)
       .where(and(
         eq(subscriptions.status, 'active'),
+        eq(subscriptions.cancelAtPeriodEnd, 0),
         lte(subscriptions.currentPeriodEnd, now)
       ));
     
@@ -57,12 +68,13 @@ async function resetSubscriptionPeriod(subscription: any) {
   const oldPeriodEnd = new Date(subscription.currentPeriodEnd);
   
   // Calculate new billing period based on interval
-  let newPeriodStart = oldPeriodEnd;
-  let newPeriodEnd = new Date(oldPeriodEnd);
+  const newPeriodStart = oldPeriodEnd;
   
-  // Determine interval from plan (monthly or annual)
+  // Determine interval from plan (monthly or annual) - a scheduled downgrade
+  // replaces the plan from the new period onwards
+  const nextPlanId = subscription.scheduledPlanId || subscription.planId;
   const [planData] = await db.query.plans.findMany({
-    where: (plans, { eq }) => eq(plans.id, subscription.planId),
+    where: (plans, { eq }) => eq(plans.id, nextPlanId),
     limit: 1,
   });
   
@@ -71,28 +83,34 @@ async function resetSubscriptionPeriod(subscription: any) {
     return;
   }
   
-  // Add interval to period end
-  if (planData.interval === 'month') {
-    newPeriodEnd.setMonth(newPeriodEnd.getMonth() + 1);
-  } else if (planData.interval === 'year') {
-    newPeriodEnd.setFullYear(newPeriodEnd.getFullYear() + 1);
-  } else {
-    console.error(`[Billing Cron] Unknown interval '${planData.interval}' for subscription ${subscription.id}`);
-    return;
+  if (subscription.scheduledPlanId) {
+    console.log(`[Billing Cron] Applying scheduled plan change ${subscription.planId} → ${planData.id} for subscription ${subscription.id}`);
   }
   
+  // Add interval to period end
+  const newPeriodEnd = addBillingInterval(planData, newPeriodStart);
+  
   console.log(`[Billing Cron] Resetting subscription ${subscription.id} (${subscription.holderType}:${subscription.holderId})`);
   console.log(`[Billing Cron]   Old period: ${subscription.currentPeriodStart} → ${subscription.currentPeriodEnd}`);
   console.log(`[Billing Cron]   New period: ${newPeriodStart.toISOString()} → ${newPeriodEnd.toISOString()}`);
   
+  // Bill the ended period's metered overage before its usage is cleared
+  const overageInvoice = await issueOverageInvoice(subscription, new Date(subscription.currentPeriodStart), oldPeriodEnd);
+  if (overageInvoice) {
+    console.log(`[Billing Cron]   Issued overage invoice ${overageInvoice.invoiceNumber}`);
+  }
+  
   // Update subscription period
-  await db.update(subscriptions)
+  const [renewed] = await db.update(subscriptions)
     .set({
+      planId: planData.id,
+      scheduledPlanId: null,
       currentPeriodStart: newPeriodStart,
       currentPeriodEnd: newPeriodEnd,
       updatedAt: now,
     })
-    .where(eq(subscriptions.id, subscription.id));
+    .where(eq(subscriptions.id, subscription.id))
+    .returning();
   
   // Reset usage counters for this subscription holder
   // Strategy: Delete old usage records (they're no longer needed since period ended)
@@ -104,6 +122,19 @@ async function resetSubscriptionPeriod(subscription: any) {
     ));
   
   console.log(`[Billing Cron]   Deleted ${deleteResult.rowCount || 0} old usage records`);
+  
+  // Tax invoice for the new period (free plans are skipped)
+  const invoice = await issueInvoice(renewed, planData, newPeriodStart, newPeriodEnd);
+  if (invoice) {
+    console.log(`[Billing Cron]   Issued invoice ${invoice.invoiceNumber}`);
+  }
+  
+  // Nothing collects the renewal automatically, so an unpaid one is requested
+  // from the holder and the subscription is past due until it's paid
+  if (invoice && invoice.status !== 'paid') {
+    await requestRenewalPayment(renewed, planData, invoice);
+    console.log(`[Billing Cron]   Renewal payment requested, subscription is past due`);
+  }
   console.log(`[Billing Cron]   Subscription ${subscription.id} reset successfully`);
 }
 
@@ -128,6 +159,15 @@ export async function processCancellations() {
     console.log(`[Billing Cron] Found ${subscriptionsToCancel.length} subscriptions to cancel`);
     
     for (const subscription of subscriptionsToCancel) {
+      // Final period's metered overage is still billed
+      if (subscription.currentPeriodStart && subscription.currentPeriodEnd) {
+        try {
+          await issueOverageInvoice(subscription, subscription.currentPeriodStart, subscription.currentPeriodEnd);
+        } catch (error) {
+          console.error(`[Billing Cron] Error invoicing overage for subscription ${subscription.id}:`, error);
+        }
+      }
+      
       await db.update(subscriptions)
         .set({
           status: 'canceled',
@@ -149,6 +189,205 @@ export async function processCancellations() {
   }
 }
 
+/**
+ * Send trial reminders, and convert or end trials that have expired
+ *
+ * Trials with payment captured become active for their first paid period;
+ * the rest are canceled, and the holder drops to the free tier (provisioned
+ * on their next entitlement check).
+ */
+export async function processTrials() {
+  const now = new Date();
+  const reminderCutoff = new Date(now.getTime() + TRIAL_REMINDER_DAYS * 24 * 60 * 60 * 1000);
+  
+  console.log('[Billing Cron] Processing trials...');
+  
+  try {
+    const trials = await db.select({ subscription: subscriptions, plan: plans })
+      .from(subscriptions)
+      .innerJoin(plans, eq(subscriptions.planId, plans.id))
+      .where(and(
+        eq(subscriptions.status, 'trialing'),
+        lte(subscriptions.trialEndsAt, reminderCutoff)
+      ));
+    
+    let reminded = 0;
+    let converted = 0;
+    let ended = 0;
+    
+    for (const { subscription, plan } of trials) {
+      try {
+        if (subscription.trialEndsAt! <= now) {
+          if (await expireTrial(subscription, plan, now)) {
+            converted++;
+          } else {
+            ended++;
+          }
+        } else if (!(subscription.metadata as any)?.trialReminderSentAt) {
+          await sendTrialReminder(subscription, plan, now);
+          reminded++;
+        }
+      } catch (error) {
+        console.error(`[Billing Cron] Error processing trial ${subscription.id}:`, error);
+      }
+    }
+    
+    console.log(`[Billing Cron] Trials: ${reminded} reminded, ${converted} converted, ${ended} ended`);
+    
+    return {
+      success: true,
+      remindedCount: reminded,
+      convertedCount: converted,
+      endedCount: ended,
+      timestamp: now.toISOString(),
+    };
+  } catch (error) {
+    console.error('[Billing Cron] Error in processTrials:', error);
+    throw error;
+  }
+}
+
+async function sendTrialReminder(subscription: Subscription, plan: Plan, now: Date) {
+  const holder = { type: subscription.holderType, id: subscription.holderId } as Holder;
+  const metadata = (subscription.metadata as Record<string, unknown>) || {};
+  
+  // Canceled trials won't convert, so there's nothing to remind about
+  if (subscription.cancelAtPeriodEnd !== 1) {
+    const contact = await getBillingContact(holder);
+    if (contact.email) {
+      await sendTrialEndingEmail({
+        email: contact.email,
+        name: contact.name,
+        planName: formatPlanName(plan),
+        trialEndsAt: subscription.trialEndsAt!,
+        paymentCaptured: metadata.paymentMethodCaptured === true,
+        billingUrl: getBillingPageUrl(holder),
+      });
+    }
+  }
+  
+  await db.update(subscriptions)
+    .set({
+      metadata: { ...metadata, trialReminderSentAt: now.toISOString() },
+      updatedAt: now,
+    })
+    .where(eq(subscriptions.id, subscription.id));
+  
+  console.log(`[Billing Cron] Sent trial reminder for subscription ${subscription.id}`);
+}
+
+/**
+ * Convert an expired trial to active, or end it - returns whether it converted
+ */
+async function expireTrial(subscription: Subscription, plan: Plan, now: Date): Promise<boolean> {
+  const holder = { type: subscription.holderType, id: subscription.holderId } as Holder;
+  const trialEndsAt = subscription.trialEndsAt!;
+  const paymentCaptured = (subscription.metadata as any)?.paymentMethodCaptured === true;
+  const convert = paymentCaptured && subscription.cancelAtPeriodEnd !== 1;
+  
+  // Metered overage during the trial is billed like any other period
+  await issueOverageInvoice(subscription, subscription.currentPeriodStart ?? trialEndsAt, trialEndsAt);
+  
+  if (convert) {
+    const periodEnd = addBillingInterval(plan, trialEndsAt);
+    
+    const [activated] = await db.update(subscriptions)
+      .set({
+        status: 'active',
+        currentPeriodStart: trialEndsAt,
+        currentPeriodEnd: periodEnd,
+        updatedAt: now,
+      })
+      .where(eq(subscriptions.id, subscription.id))
+      .returning();
+    
+    // A free tier may have been provisioned between the trial ending and this run
+    await cancelOtherSubscriptions(activated, now);
+    
+    await db.delete(usage)
+      .where(and(
+        eq(usage.holderType, subscription.holderType),
+        eq(usage.holderId, subscription.holderId),
+        lte(usage.periodEnd, trialEndsAt)
+      ));
+    
+    // Already issued (and paid) when payment was captured; this returns it
+    await issueInvoice(activated, plan, trialEndsAt, periodEnd, { paid: true });
+    
+    console.log(`[Billing Cron] Trial ${subscription.id} converted to active until ${periodEnd.toISOString()}`);
+  } else {
+    await db.update(subscriptions)
+      .set({ status: 'canceled', updatedAt: now })
+      .where(eq(subscriptions.id, subscription.id));
+    
+    console.log(`[Billing Cron] Trial ${subscription.id} ended without payment, holder moves to the free tier`);
+  }
+  
+  // Trials the holder canceled themselves end quietly
+  if (subscription.cancelAtPeriodEnd !== 1) {
+    try {
+      const contact = await getBillingContact(holder);
+      if (contact.email) {
+        await sendTrialEndedEmail({
+          email: contact.email,
+          name: contact.name,
+          planName: formatPlanName(plan),
+          converted: convert,
+          billingUrl: getBillingPageUrl(holder),
+        });
+      }
+    } catch (error) {
+      console.error(`[Billing Cron] Failed to send trial ended email for ${subscription.id}:`, error);
+    }
+  }
+  
+  return convert;
+}
+
+/**
+ * Run the due dunning steps for past-due subscriptions
+ */
+export async function processDunning() {
+  const now = new Date();
+  
+  console.log('[Billing Cron] Processing dunning...');
+  
+  try {
+    const due = await db.select({ subscription: subscriptions, plan: plans })
+      .from(subscriptions)
+      .innerJoin(plans, eq(subscriptions.planId, plans.id))
+      .where(and(
+        eq(subscriptions.status, 'past_due'),
+        lte(subscriptions.nextDunningAt, now)
+      ));
+    
+    let restricted = 0;
+    
+    for (const { subscription, plan } of due) {
+      try {
+        const stage = await processDunningStep(subscription, plan, now);
+        if (stage === 'restricted' && !subscription.restrictedAt) {
+          restricted++;
+        }
+      } catch (error) {
+        console.error(`[Billing Cron] Error processing dunning for subscription ${subscription.id}:`, error);
+      }
+    }
+    
+    console.log(`[Billing Cron] Dunning: ${due.length} steps run, ${restricted} accounts restricted`);
+    
+    return {
+      success: true,
+      processedCount: due.length,
+      restrictedCount: restricted,
+      timestamp: now.toISOString(),
+    };
+  } catch (error) {
+    console.error('[Billing Cron] Error in processDunning:', error);
+    throw error;
+  }
+}
+
 /**
  * Main cron job that runs all billing tasks
  * This should be scheduled to run daily (e.g., at midnight)
@@ -167,6 +406,12 @@ export async function runBillingCronJob() {
     // Process cancellations
     const cancelResult = await processCancellations();
     
+    // Trial reminders and expiry
+    const trialResult = await processTrials();
+    
+    // Failed-payment retries and restrictions
+    const dunningResult = await processDunning();
+    
     const duration = Date.now() - startTime;
     
     console.log('='.repeat(60));
@@ -174,6 +419,8 @@ export async function runBillingCronJob() {
     console.log(`[Billing Cron]   Duration: ${duration}ms`);
     console.log(`[Billing Cron]   Periods reset: ${resetResult.processedCount}`);
     console.log(`[Billing Cron]   Subscriptions canceled: ${cancelResult.canceledCount}`);
+    console.log(`[Billing Cron]   Trials converted: ${trialResult.convertedCount}, ended: ${trialResult.endedCount}`);
+    console.log(`[Billing Cron]   Dunning steps: ${dunningResult.processedCount}, restricted: ${dunningResult.restrictedCount}`);
     console.log('='.repeat(60));
     
     return {
@@ -181,6 +428,8 @@ export async function runBillingCronJob() {
       duration,
       resetResult,
       cancelResult,
+      trialResult,
+      dunningResult,
     };
   } catch (error) {
     console.error('[Billing Cron] Error in runBillingCronJob:', error);
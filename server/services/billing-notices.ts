@@ -0,0 +1,69 @@
+/**
+ * Billing Notices
+ *
+ * Who to contact about a holder's billing, and where to send them.
+ * - Contact: the invoice bill-to name / email, plus a WhatsApp-capable phone
+ * - Links back to the holder's billing page
+ */
+
+import { db } from "../db";
+import {
+  memberships,
+  candidateProfiles,
+  recruiterProfiles,
+  type Plan,
+} from "../../shared/schema";
+import { eq, and } from "drizzle-orm";
+import { resolveBillTo } from "./invoices";
+import type { Holder } from "./entitlements";
+
+export interface BillingContact {
+  name: string;
+  email?: string;
+  phone?: string;
+}
+
+function getBaseUrl(): string {
+  if (process.env.REPLIT_DEPLOYMENT) {
+    return process.env.PUBLIC_URL || 'https://sebenzahub.replit.app';
+  }
+  if (process.env.REPLIT_DEV_DOMAIN) {
+    return `https://${process.env.REPLIT_DEV_DOMAIN}`;
+  }
+  return 'http://localhost:5000';
+}
+
+export function getBillingPageUrl(holder: Holder): string {
+  return `${getBaseUrl()}/dashboard/${holder.type === 'org' ? 'recruiter' : 'individual'}/billing`;
+}
+
+export function formatPlanName(plan: Pick<Plan, 'product' | 'tier'>): string {
+  const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+  return `${capitalize(plan.product)} ${capitalize(plan.tier)}`;
+}
+
+/**
+ * Billing contact for a holder - the individual, or an organization's owner
+ */
+export async function getBillingContact(holder: Holder): Promise<BillingContact> {
+  const billTo = await resolveBillTo(holder);
+
+  if (holder.type === 'user') {
+    const [profile] = await db.select({ telephone: candidateProfiles.telephone })
+      .from(candidateProfiles)
+      .where(eq(candidateProfiles.userId, holder.id));
+
+    return { name: billTo.name, email: billTo.email, phone: profile?.telephone || undefined };
+  }
+
+  const [owner] = await db.select({ telephone: recruiterProfiles.telephone })
+    .from(memberships)
+    .innerJoin(recruiterProfiles, eq(recruiterProfiles.userId, memberships.userId))
+    .where(and(
+      eq(memberships.organizationId, holder.id),
+      eq(memberships.role, 'owner')
+    ))
+    .limit(1);
+
+  return { name: billTo.name, email: billTo.email, phone: owner?.telephone || undefined };
+}
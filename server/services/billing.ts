@@ -0,0 +1,821 @@
+/**
+ * Billing Service
+ *
+ * Paid subscription lifecycle on top of the payment gateway adapters.
+ * - Start a checkout for a plan (creates a pending subscription)
+ * - Record gateway notifications idempotently, once per payment reference and outcome
+ * - Move subscriptions through pending → active → past_due → canceled
+ * - Renewals are requested from the holder: unpaid ones go past_due and start dunning,
+ *   and paying a past-due subscription ends it
+ * - Self-service plan changes: prorated upgrades now, downgrades at period end
+ * - Free trials: one per holder per product, converted or ended by the billing cron
+ */
+
+import { randomBytes } from "crypto";
+import { db } from "../db";
+import {
+  subscriptions,
+  plans,
+  features,
+  featureEntitlements,
+  paymentEvents,
+  memberships,
+  type Plan,
+  type Subscription,
+  type PaymentEvent,
+  type Invoice,
+} from "../../shared/schema";
+import { eq, and, or, ne, gt, gte, desc, inArray, isNotNull } from "drizzle-orm";
+import { getPaymentGateway, type CheckoutSession, type GatewayEvent } from "./payment-gateway";
+import { carryOverUsage, getEntitlements, type Holder } from "./entitlements";
+import { issueInvoice, issueOverageInvoice } from "./invoices";
+import { startDunning, endDunning } from "./dunning";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SubscriptionStatus = 'pending' | 'trialing' | 'active' | 'past_due' | 'canceled';
+
+export interface NotificationResult {
+  status: 'processed' | 'duplicate' | 'invalid' | 'failed';
+  eventId?: string;
+  error?: string;
+}
+
+// Stored on a pending subscription's metadata while a prorated upgrade is paid for
+export interface PendingPlanChange {
+  fromSubscriptionId: string;
+  creditCents: number;
+  chargeCents: number;
+}
+
+export interface PlanChangePreview {
+  type: 'upgrade' | 'downgrade';
+  effective: 'immediate' | 'period_end';
+  effectiveAt: Date;
+  currentPlan: Plan;
+  newPlan: Plan;
+  creditCents: number; // Unused time on the current plan
+  chargeCents: number; // Due now (upgrades only)
+  trialDays: number; // Free trial before the first charge, 0 when none
+  newPeriodEnd: Date; // End of the first period (or the trial) on the new plan
+  quotaChanges: Array<{
+    featureKey: string;
+    featureName: string;
+    used: number; // Carried over on upgrade; reset at period end on downgrade
+    currentLimit: number | null;
+    newLimit: number | null;
+  }>;
+}
+
+export type PlanChangeCheck =
+  | { ok: true; subscription: Subscription; preview: PlanChangePreview }
+  | { ok: false; reason: 'NO_SUBSCRIPTION' | 'SAME_PLAN' | 'PRODUCT_MISMATCH' };
+
+export type PlanChangeResult =
+  | { status: 'checkout'; subscription: Subscription; checkout: CheckoutSession; preview: PlanChangePreview }
+  | { status: 'changed' | 'scheduled' | 'trialing'; subscription: Subscription; preview: PlanChangePreview };
+
+// Allowed status changes; anything else is rejected and recorded on the payment event
+const SUBSCRIPTION_TRANSITIONS: Record<SubscriptionStatus, SubscriptionStatus[]> = {
+  pending: ['active', 'canceled'],
+  trialing: ['active', 'past_due', 'canceled'],
+  active: ['active', 'past_due', 'canceled'],
+  past_due: ['active', 'past_due', 'canceled'],
+  canceled: [],
+};
+
+export function canTransition(from: string, to: SubscriptionStatus): boolean {
+  return SUBSCRIPTION_TRANSITIONS[from as SubscriptionStatus]?.includes(to) ?? false;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Billing holder for a user - recruiters and businesses bill through their organization
+ */
+export async function resolveBillingHolder(user: { id: string; role: string }): Promise<Holder> {
+  if (user.role === 'recruiter' || user.role === 'business') {
+    const [membership] = await db.select()
+      .from(memberships)
+      .where(eq(memberships.userId, user.id))
+      .limit(1);
+
+    if (membership) {
+      return { type: 'org', id: membership.organizationId };
+    }
+  }
+
+  return { type: 'user', id: user.id };
+}
+
+/**
+ * Whether a user may change the holder's billing settings - themselves, or
+ * as an owner / admin of the billing organization
+ */
+export async function canManageBilling(userId: string, holder: Holder): Promise<boolean> {
+  if (holder.type === 'user') {
+    return holder.id === userId;
+  }
+
+  const [membership] = await db.select()
+    .from(memberships)
+    .where(and(
+      eq(memberships.userId, userId),
+      eq(memberships.organizationId, holder.id)
+    ));
+
+  return !!membership && ['owner', 'admin'].includes(membership.role);
+}
+
+/**
+ * End of a billing period starting at `start` for the plan's interval
+ */
+export function addBillingInterval(plan: Pick<Plan, 'interval'>, start: Date): Date {
+  const end = new Date(start);
+  // Plans use 'monthly' / 'annual'; older rows use 'month' / 'year'
+  if (plan.interval === 'annual' || plan.interval === 'year') {
+    end.setFullYear(end.getFullYear() + 1);
+  } else {
+    end.setMonth(end.getMonth() + 1);
+  }
+  return end;
+}
+
+/**
+ * Plan price per month, so monthly and annual plans can be compared
+ */
+function monthlyPriceCents(plan: Plan): number {
+  return plan.interval === 'annual' || plan.interval === 'year' ? plan.priceCents / 12 : plan.priceCents;
+}
+
+/**
+ * Whether the holder has ever been on a paid plan of this product
+ */
+async function hasUsedPaidProduct(holder: Holder, product: string): Promise<boolean> {
+  const [previous] = await db.select({ id: subscriptions.id })
+    .from(subscriptions)
+    .innerJoin(plans, eq(subscriptions.planId, plans.id))
+    .where(and(
+      eq(subscriptions.holderType, holder.type),
+      eq(subscriptions.holderId, holder.id),
+      eq(plans.product, product),
+      gt(plans.priceCents, 0),
+      // Trialled, or paid for at least one period (pending checkouts never have one)
+      or(isNotNull(subscriptions.trialEndsAt), isNotNull(subscriptions.currentPeriodStart))
+    ))
+    .limit(1);
+
+  return !!previous;
+}
+
+function generatePaymentReference(): string {
+  return `SH-${Date.now().toString(36).toUpperCase()}-${randomBytes(3).toString('hex').toUpperCase()}`;
+}
+
+// ============================================================================
+// CHECKOUT
+// ============================================================================
+
+/**
+ * Start a checkout for a paid plan
+ *
+ * Reuses the holder's pending subscription for the same plan, so abandoned
+ * checkouts don't pile up. Paying during a trial captures payment on the
+ * trialing subscription itself. Every attempt gets a fresh payment reference.
+ */
+export async function startCheckout(
+  holder: Holder,
+  plan: Plan,
+  email?: string,
+  planChange?: PendingPlanChange
+): Promise<{ subscription: Subscription; checkout: CheckoutSession }> {
+  const gateway = getPaymentGateway();
+  const reference = generatePaymentReference();
+
+  let [subscription] = await db.select()
+    .from(subscriptions)
+    .where(and(
+      eq(subscriptions.holderType, holder.type),
+      eq(subscriptions.holderId, holder.id),
+      eq(subscriptions.planId, plan.id),
+      inArray(subscriptions.status, ['pending', 'trialing'])
+    ))
+    .orderBy(desc(subscriptions.status)) // 'trialing' before 'pending'
+    .limit(1);
+
+  const metadata = {
+    ...((subscription?.metadata as Record<string, unknown>) || {}),
+    gateway: gateway.name,
+    checkoutReference: reference,
+    planChange: planChange ?? null,
+  };
+
+  if (subscription) {
+    [subscription] = await db.update(subscriptions)
+      .set({ netcashRef: reference, metadata, updatedAt: new Date() })
+      .where(eq(subscriptions.id, subscription.id))
+      .returning();
+  } else {
+    [subscription] = await db.insert(subscriptions).values({
+      planId: plan.id,
+      holderType: holder.type,
+      holderId: holder.id,
+      status: 'pending',
+      netcashRef: reference,
+      metadata,
+    }).returning();
+  }
+
+  const checkout = gateway.createCheckout({
+    reference,
+    subscriptionId: subscription.id,
+    amountCents: planChange ? planChange.chargeCents : plan.priceCents,
+    description: `Sebenza Hub ${plan.product} ${plan.tier} (${plan.interval})`,
+    email,
+  });
+
+  console.log(`[Billing] Checkout ${reference} started for ${holder.type}:${holder.id} on plan ${plan.id}`);
+
+  return { subscription, checkout };
+}
+
+/**
+ * Checkout to pay a past-due subscription's outstanding amount
+ */
+export async function startPastDueCheckout(
+  subscription: Subscription,
+  plan: Plan,
+  email?: string
+): Promise<CheckoutSession> {
+  const gateway = getPaymentGateway();
+  const reference = generatePaymentReference();
+
+  await db.update(subscriptions)
+    .set({
+      netcashRef: reference,
+      metadata: {
+        ...((subscription.metadata as Record<string, unknown>) || {}),
+        gateway: gateway.name,
+        checkoutReference: reference,
+      },
+      updatedAt: new Date(),
+    })
+    .where(eq(subscriptions.id, subscription.id));
+
+  console.log(`[Billing] Past-due checkout ${reference} started for subscription ${subscription.id}`);
+
+  return gateway.createCheckout({
+    reference,
+    subscriptionId: subscription.id,
+    amountCents: plan.priceCents,
+    description: `Sebenza Hub ${plan.product} ${plan.tier} (${plan.interval})`,
+    email,
+  });
+}
+
+// ============================================================================
+// EVENT PROCESSING
+// ============================================================================
+
+/**
+ * Store a verified gateway event unless it was already processed
+ *
+ * Returns null for duplicates. Events that previously failed are returned
+ * again so a gateway retry can complete them.
+ */
+async function recordPaymentEvent(gatewayName: string, event: GatewayEvent): Promise<PaymentEvent | null> {
+  const [inserted] = await db.insert(paymentEvents)
+    .values({
+      gateway: gatewayName,
+      eventId: event.eventId,
+      eventType: event.type,
+      payload: event.payload,
+      processed: 0,
+    })
+    .onConflictDoNothing({ target: paymentEvents.eventId })
+    .returning();
+
+  if (inserted) return inserted;
+
+  const [existing] = await db.select()
+    .from(paymentEvents)
+    .where(eq(paymentEvents.eventId, event.eventId));
+
+  return existing && existing.processed === 0 ? existing : null;
+}
+
+async function setSubscriptionStatus(
+  subscription: Subscription,
+  status: SubscriptionStatus,
+  changes: Partial<Subscription> = {}
+): Promise<Subscription> {
+  if (!canTransition(subscription.status, status)) {
+    throw new Error(`Cannot move subscription ${subscription.id} from ${subscription.status} to ${status}`);
+  }
+
+  const [updated] = await db.update(subscriptions)
+    .set({ ...changes, status, updatedAt: new Date() })
+    .where(eq(subscriptions.id, subscription.id))
+    .returning();
+
+  console.log(`[Billing] Subscription ${subscription.id}: ${subscription.status} -> ${status}`);
+  return updated;
+}
+
+/**
+ * Successful payment - activate a pending subscription, pay ahead for a
+ * trialing one, or renew an active / past-due one
+ */
+async function applyPaymentSucceeded(subscription: Subscription, plan: Plan, event: GatewayEvent): Promise<void> {
+  // Prorated upgrades are paid at the plan price less the credit for the replaced subscription
+  const planChange = subscription.status === 'pending'
+    ? ((subscription.metadata as any)?.planChange as PendingPlanChange | null | undefined)
+    : null;
+  const expectedCents = planChange ? planChange.chargeCents : plan.priceCents;
+
+  if (event.amountCents !== expectedCents) {
+    throw new Error(`Amount ${event.amountCents} does not match expected ${expectedCents}`);
+  }
+
+  const checkoutReference = (subscription.metadata as any)?.checkoutReference;
+  if (['pending', 'trialing'].includes(subscription.status) && checkoutReference && checkoutReference !== event.reference) {
+    throw new Error(`Reference ${event.reference} does not match pending checkout ${checkoutReference}`);
+  }
+
+  if (subscription.status === 'trialing') {
+    return captureTrialPayment(subscription, plan, event);
+  }
+
+  const wasPastDue = subscription.status === 'past_due';
+
+  // Renewals of a current period extend it, and a past-due renewal pays for the
+  // period it renewed into (and its invoice); otherwise a new period starts now
+  const now = new Date();
+  let periodStart = now;
+  if (subscription.status === 'active' && subscription.currentPeriodEnd && subscription.currentPeriodEnd > now) {
+    periodStart = subscription.currentPeriodEnd;
+  } else if (wasPastDue && subscription.currentPeriodStart) {
+    periodStart = subscription.currentPeriodStart;
+  }
+
+  const periodEnd = addBillingInterval(plan, periodStart);
+
+  const [replaced] = planChange
+    ? await db.select().from(subscriptions).where(eq(subscriptions.id, planChange.fromSubscriptionId))
+    : [];
+
+  const activated = await setSubscriptionStatus(subscription, 'active', {
+    currentPeriodStart: periodStart,
+    currentPeriodEnd: periodEnd,
+    metadata: {
+      ...((subscription.metadata as Record<string, unknown>) || {}),
+      planChange: null,
+      lastPaymentReference: event.reference,
+      lastPaymentAt: now.toISOString(),
+    },
+  });
+
+  // The paid plan replaces any other live subscription (e.g. the auto-provisioned free tier)
+  await cancelOtherSubscriptions(activated, now);
+
+  if (replaced) {
+    await settleReplacedSubscription(replaced, activated, now);
+  }
+
+  await issueInvoice(activated, plan, periodStart, periodEnd, {
+    paid: true,
+    creditCents: planChange?.creditCents,
+  });
+
+  if (wasPastDue) {
+    await endDunning(subscription, plan, event.reference);
+  }
+}
+
+/**
+ * Payment taken during a trial pays for the first period after it, so the
+ * billing cron converts the trial instead of ending it
+ */
+async function captureTrialPayment(subscription: Subscription, plan: Plan, event: GatewayEvent): Promise<void> {
+  const firstPeriodStart = subscription.trialEndsAt ?? subscription.currentPeriodEnd ?? new Date();
+
+  const [updated] = await db.update(subscriptions)
+    .set({
+      metadata: {
+        ...((subscription.metadata as Record<string, unknown>) || {}),
+        paymentMethodCaptured: true,
+        lastPaymentReference: event.reference,
+        lastPaymentAt: new Date().toISOString(),
+      },
+      updatedAt: new Date(),
+    })
+    .where(eq(subscriptions.id, subscription.id))
+    .returning();
+
+  console.log(`[Billing] Payment captured for trialing subscription ${subscription.id}`);
+
+  await issueInvoice(updated, plan, firstPeriodStart, addBillingInterval(plan, firstPeriodStart), { paid: true });
+}
+
+/**
+ * Cancel the holder's other live subscriptions once `current` takes over
+ */
+export async function cancelOtherSubscriptions(current: Subscription, now: Date = new Date()): Promise<void> {
+  await db.update(subscriptions)
+    .set({ status: 'canceled', updatedAt: now })
+    .where(and(
+      eq(subscriptions.holderType, current.holderType),
+      eq(subscriptions.holderId, current.holderId),
+      inArray(subscriptions.status, ['active', 'trialing']),
+      ne(subscriptions.id, current.id)
+    ));
+}
+
+/**
+ * Failed payment - declined checkouts (including payment during a trial) stay
+ * as they are so they can be retried; failed renewals put the subscription
+ * into past_due and start dunning
+ */
+async function applyPaymentFailed(subscription: Subscription, plan: Plan, event: GatewayEvent): Promise<void> {
+  const reason = event.reason || 'Payment declined';
+  const metadata = {
+    ...((subscription.metadata as Record<string, unknown>) || {}),
+    lastFailureReason: reason,
+    lastFailureAt: new Date().toISOString(),
+  };
+
+  if (subscription.status === 'pending' || subscription.status === 'trialing') {
+    await db.update(subscriptions)
+      .set({ metadata, updatedAt: new Date() })
+      .where(eq(subscriptions.id, subscription.id));
+    console.log(`[Billing] Checkout ${event.reference} declined for subscription ${subscription.id}`);
+    return;
+  }
+
+  const pastDue = await setSubscriptionStatus(subscription, 'past_due', { metadata });
+
+  // A failed retry leaves the running dunning schedule as it is
+  if (subscription.status !== 'past_due') {
+    await startDunning(pastDue, plan, reason);
+  }
+}
+
+/**
+ * Ask the holder to pay for a paid period the billing cron has just renewed
+ *
+ * Pay Now can't charge a stored card from our side, so the renewal invoice is
+ * paid through a past-due checkout from the billing page. Until then the
+ * subscription is past_due, and dunning sends the request and the reminders.
+ */
+export async function requestRenewalPayment(subscription: Subscription, plan: Plan, invoice: Invoice): Promise<Subscription> {
+  const pastDue = await setSubscriptionStatus(subscription, 'past_due', {
+    metadata: {
+      ...((subscription.metadata as Record<string, unknown>) || {}),
+      renewalInvoiceId: invoice.id,
+      renewalRequestedAt: new Date().toISOString(),
+    },
+  });
+
+  console.log(`[Billing] Renewal payment requested for subscription ${subscription.id} (invoice ${invoice.invoiceNumber})`);
+
+  return startDunning(pastDue, plan, `Renewal invoice ${invoice.invoiceNumber} is unpaid`, 'due');
+}
+
+async function applyEvent(event: GatewayEvent): Promise<void> {
+  const [row] = await db.select({ subscription: subscriptions, plan: plans })
+    .from(subscriptions)
+    .innerJoin(plans, eq(subscriptions.planId, plans.id))
+    .where(eq(subscriptions.id, event.subscriptionId));
+
+  if (!row) {
+    throw new Error(`Subscription ${event.subscriptionId} not found`);
+  }
+
+  switch (event.type) {
+    case 'payment.succeeded':
+      return applyPaymentSucceeded(row.subscription, row.plan, event);
+    case 'payment.failed':
+      return applyPaymentFailed(row.subscription, row.plan, event);
+  }
+}
+
+/**
+ * Verify, record and apply a payment gateway notification
+ *
+ * Safe to call repeatedly with the same notification: processed events are
+ * skipped, and failures are stored on the payment event for investigation.
+ */
+export async function handleGatewayNotification(body: Record<string, unknown>): Promise<NotificationResult> {
+  const gateway = getPaymentGateway();
+  const event = await gateway.verifyNotification(body);
+
+  if (!event) {
+    console.warn('[Billing] Rejected payment notification with an invalid signature or no matching gateway transaction');
+    return { status: 'invalid' };
+  }
+
+  const record = await recordPaymentEvent(gateway.name, event);
+  if (!record) {
+    console.log(`[Billing] Duplicate payment event ${event.eventId} ignored`);
+    return { status: 'duplicate', eventId: event.eventId };
+  }
+
+  try {
+    await applyEvent(event);
+
+    await db.update(paymentEvents)
+      .set({ processed: 1, processedAt: new Date(), error: null })
+      .where(eq(paymentEvents.id, record.id));
+
+    return { status: 'processed', eventId: event.eventId };
+  } catch (error: any) {
+    console.error(`[Billing] Failed to process payment event ${event.eventId}:`, error.message);
+
+    await db.update(paymentEvents)
+      .set({ error: error.message })
+      .where(eq(paymentEvents.id, record.id));
+
+    return { status: 'failed', eventId: event.eventId, error: error.message };
+  }
+}
+
+/**
+ * Cancel a subscription
+ *
+ * Active subscriptions keep access until the period ends (the billing cron
+ * cancels them then); pending and past-due subscriptions cancel immediately.
+ */
+export async function cancelSubscription(subscription: Subscription): Promise<Subscription> {
+  if (subscription.status === 'active' || subscription.status === 'trialing') {
+    const [updated] = await db.update(subscriptions)
+      .set({ cancelAtPeriodEnd: 1, updatedAt: new Date() })
+      .where(eq(subscriptions.id, subscription.id))
+      .returning();
+    return updated;
+  }
+
+  return setSubscriptionStatus(subscription, 'canceled');
+}
+
+// ============================================================================
+// PLAN CHANGES
+// ============================================================================
+
+/**
+ * The holder's current active subscription and plan
+ */
+export async function getCurrentSubscription(holder: Holder): Promise<{ subscription: Subscription; plan: Plan } | null> {
+  const [row] = await db.select({ subscription: subscriptions, plan: plans })
+    .from(subscriptions)
+    .innerJoin(plans, eq(subscriptions.planId, plans.id))
+    .where(and(
+      eq(subscriptions.holderType, holder.type),
+      eq(subscriptions.holderId, holder.id),
+      eq(subscriptions.status, 'active'),
+      gte(subscriptions.currentPeriodEnd, new Date())
+    ))
+    .orderBy(desc(subscriptions.createdAt))
+    .limit(1);
+
+  return row || null;
+}
+
+/**
+ * Work out what moving to `newPlan` would do
+ *
+ * Upgrades (a higher monthly-equivalent price) start a new period now and are
+ * charged the new price less a credit for the unused part of the current
+ * period. Anything else is a downgrade that takes effect when the period ends.
+ */
+export async function previewPlanChange(holder: Holder, newPlan: Plan, now: Date = new Date()): Promise<PlanChangeCheck> {
+  const current = await getCurrentSubscription(holder);
+  if (!current) {
+    return { ok: false, reason: 'NO_SUBSCRIPTION' };
+  }
+
+  const { subscription, plan: currentPlan } = current;
+  if (currentPlan.id === newPlan.id) {
+    return { ok: false, reason: 'SAME_PLAN' };
+  }
+  if (currentPlan.product !== newPlan.product) {
+    return { ok: false, reason: 'PRODUCT_MISMATCH' };
+  }
+
+  const isUpgrade = monthlyPriceCents(newPlan) > monthlyPriceCents(currentPlan);
+  const periodStart = subscription.currentPeriodStart ?? now;
+  const periodEnd = subscription.currentPeriodEnd ?? now;
+
+  let creditCents = 0;
+  if (isUpgrade && currentPlan.priceCents > 0) {
+    const periodMs = periodEnd.getTime() - periodStart.getTime();
+    const unusedMs = Math.max(0, periodEnd.getTime() - now.getTime());
+    creditCents = periodMs > 0 ? Math.floor(currentPlan.priceCents * unusedMs / periodMs) : 0;
+  }
+
+  const effectiveAt = isUpgrade ? now : periodEnd;
+
+  // Moving up from a free plan starts the new plan's trial, if the holder hasn't had one
+  const trialDays = isUpgrade && currentPlan.priceCents === 0 && await isTrialEligible(holder, newPlan)
+    ? newPlan.trialDays
+    : 0;
+
+  // Quota / metered limits before and after the change
+  const currentEntitlements = await getEntitlements(holder);
+  const newEntitlements = await db.select({ entitlement: featureEntitlements, feature: features })
+    .from(featureEntitlements)
+    .innerJoin(features, eq(featureEntitlements.featureKey, features.key))
+    .where(and(
+      eq(featureEntitlements.planId, newPlan.id),
+      inArray(features.kind, ['QUOTA', 'METERED'])
+    ));
+
+  const quotaChanges = newEntitlements.map(({ entitlement, feature }) => {
+    const existing = currentEntitlements.find(e => e.featureKey === feature.key);
+    return {
+      featureKey: feature.key,
+      featureName: feature.name,
+      used: isUpgrade ? existing?.used ?? 0 : 0,
+      currentLimit: existing?.limit ?? null,
+      newLimit: entitlement.monthlyCap,
+    };
+  });
+
+  return {
+    ok: true,
+    subscription,
+    preview: {
+      type: isUpgrade ? 'upgrade' : 'downgrade',
+      effective: isUpgrade ? 'immediate' : 'period_end',
+      effectiveAt,
+      currentPlan,
+      newPlan,
+      creditCents,
+      chargeCents: isUpgrade && trialDays === 0 ? Math.max(0, newPlan.priceCents - creditCents) : 0,
+      trialDays,
+      newPeriodEnd: trialDays > 0 ? trialEndFor(newPlan, effectiveAt) : addBillingInterval(newPlan, effectiveAt),
+      quotaChanges,
+    },
+  };
+}
+
+/**
+ * Next plan up from the current one: the cheapest public plan of the same
+ * product and interval that costs more
+ */
+export async function suggestUpgradePlan(currentPlan: Plan): Promise<Plan | null> {
+  const candidates = await db.select()
+    .from(plans)
+    .where(and(
+      eq(plans.product, currentPlan.product),
+      eq(plans.interval, currentPlan.interval),
+      eq(plans.isPublic, 1)
+    ));
+
+  return candidates
+    .filter(plan => plan.priceCents > currentPlan.priceCents)
+    .sort((a, b) => a.priceCents - b.priceCents)[0] ?? null;
+}
+
+/**
+ * Change the holder's plan
+ *
+ * Upgrades with something to pay return a checkout; the switch happens when
+ * the payment notification arrives. Upgrades fully covered by the credit
+ * switch straight away, and upgrades from a free plan may start a trial.
+ * Downgrades are scheduled on the current subscription and applied by the
+ * billing cron at period end.
+ */
+export async function changePlan(
+  subscription: Subscription,
+  preview: PlanChangePreview,
+  email?: string
+): Promise<PlanChangeResult> {
+  const holder = { type: subscription.holderType, id: subscription.holderId } as Holder;
+
+  if (preview.type === 'downgrade') {
+    const [scheduled] = await db.update(subscriptions)
+      .set({ scheduledPlanId: preview.newPlan.id, cancelAtPeriodEnd: 0, updatedAt: new Date() })
+      .where(eq(subscriptions.id, subscription.id))
+      .returning();
+
+    console.log(`[Billing] Subscription ${subscription.id} scheduled to move to plan ${preview.newPlan.id} at period end`);
+    return { status: 'scheduled', subscription: scheduled, preview };
+  }
+
+  if (preview.trialDays > 0) {
+    const now = new Date();
+    const trial = await startTrial(holder, preview.newPlan, now);
+    await settleReplacedSubscription(subscription, trial, now);
+    return { status: 'trialing', subscription: trial, preview };
+  }
+
+  if (preview.chargeCents > 0) {
+    const { subscription: pending, checkout } = await startCheckout(holder, preview.newPlan, email, {
+      fromSubscriptionId: subscription.id,
+      creditCents: preview.creditCents,
+      chargeCents: preview.chargeCents,
+    });
+    return { status: 'checkout', subscription: pending, checkout, preview };
+  }
+
+  // Credit covers the new plan - switch without a payment
+  const now = new Date();
+  const [upgraded] = await db.insert(subscriptions).values({
+    planId: preview.newPlan.id,
+    holderType: holder.type,
+    holderId: holder.id,
+    status: 'active',
+    currentPeriodStart: now,
+    currentPeriodEnd: addBillingInterval(preview.newPlan, now),
+    metadata: { upgradedFrom: subscription.id },
+  }).returning();
+
+  await db.update(subscriptions)
+    .set({ status: 'canceled', updatedAt: now })
+    .where(eq(subscriptions.id, subscription.id));
+
+  await settleReplacedSubscription(subscription, upgraded, now);
+
+  console.log(`[Billing] Subscription ${subscription.id} upgraded to ${upgraded.id} (plan ${preview.newPlan.id})`);
+  return { status: 'changed', subscription: upgraded, preview };
+}
+
+/**
+ * Drop a scheduled downgrade
+ */
+export async function cancelScheduledPlanChange(subscription: Subscription): Promise<Subscription> {
+  const [updated] = await db.update(subscriptions)
+    .set({ scheduledPlanId: null, updatedAt: new Date() })
+    .where(eq(subscriptions.id, subscription.id))
+    .returning();
+  return updated;
+}
+
+/**
+ * Close out a subscription replaced mid-period by an upgrade: bill its metered
+ * overage so far and carry its usage into the new period
+ */
+async function settleReplacedSubscription(replaced: Subscription, upgraded: Subscription, now: Date): Promise<void> {
+  if (!replaced.currentPeriodStart || !replaced.currentPeriodEnd) return;
+
+  const holder = { type: replaced.holderType, id: replaced.holderId } as Holder;
+
+  await issueOverageInvoice(replaced, replaced.currentPeriodStart, now);
+  await carryOverUsage(
+    holder,
+    { start: replaced.currentPeriodStart, end: replaced.currentPeriodEnd },
+    { start: upgraded.currentPeriodStart!, end: upgraded.currentPeriodEnd! }
+  );
+}
+
+// ============================================================================
+// TRIALS
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function trialEndFor(plan: Plan, start: Date): Date {
+  return new Date(start.getTime() + plan.trialDays * DAY_MS);
+}
+
+/**
+ * Whether checking out `plan` would start a free trial - the plan offers one
+ * and the holder has never trialled or paid for this product
+ */
+export async function isTrialEligible(holder: Holder, plan: Plan): Promise<boolean> {
+  if (plan.trialDays <= 0 || plan.priceCents <= 0) {
+    return false;
+  }
+  return !(await hasUsedPaidProduct(holder, plan.product));
+}
+
+/**
+ * Start a free trial of a paid plan
+ *
+ * The trial replaces the holder's live subscription (usually the free tier)
+ * and runs until trialEndsAt. Paying during the trial captures payment for
+ * the first period; the billing cron converts or ends the trial when it expires.
+ */
+export async function startTrial(holder: Holder, plan: Plan, now: Date = new Date()): Promise<Subscription> {
+  const trialEndsAt = trialEndFor(plan, now);
+
+  const [trial] = await db.insert(subscriptions).values({
+    planId: plan.id,
+    holderType: holder.type,
+    holderId: holder.id,
+    status: 'trialing',
+    trialEndsAt,
+    currentPeriodStart: now,
+    currentPeriodEnd: trialEndsAt,
+    metadata: { paymentMethodCaptured: false },
+  }).returning();
+
+  await cancelOtherSubscriptions(trial, now);
+
+  console.log(`[Billing] ${plan.trialDays}-day trial of plan ${plan.id} started for ${holder.type}:${holder.id} (subscription ${trial.id})`);
+  return trial;
+}
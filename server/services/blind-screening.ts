@@ -0,0 +1,287 @@
+/**
+ * Blind Screening Service
+ *
+ * Anonymized first-round reviews for Employment Equity and bias reduction.
+ * - Switched on per organization (compliance settings) and overridable per role
+ * - Name, photo, gender, age, address, institution names, profile links and contact details are withheld
+ *   from role screenings, job applicants, shortlist exports, shared shortlists, the talent pool
+ *   and the AI screening prompt
+ * - A candidate's identity is revealed once they are moved past the organization's reveal stage
+ *   in the hiring pipeline; in the talent pool, once that has happened on any of the organization's roles
+ */
+
+import { db } from "../db";
+import { complianceSettings, roles, screenings, type Job, type Role, type Screening } from "../../shared/schema";
+import { eq, and, inArray } from "drizzle-orm";
+import { getJobPipeline, currentStage } from "./application-pipeline";
+import { getOwnedRole, ownedRoles } from "./talent-pool";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BlindScreeningSettings {
+  enabled: boolean;
+  revealStage: string | null;
+}
+
+export interface BlindReview {
+  blind: boolean;
+  stages: string[];
+  revealStage: string | null;
+}
+
+export type MoveScreeningStageResult =
+  | { ok: true; screening: Screening; identityWithheld: boolean }
+  | { ok: false; reason: 'NOT_FOUND' | 'INVALID_STAGE' };
+
+// Parts of a CV-style profile that identify the person rather than their fit for the role
+interface ScreeningProfile {
+  full_name?: string | null;
+  contact?: { email?: string | null; phone?: string | null; city?: string | null; country?: string | null } | null;
+  education?: Array<{ institution?: string | null }> | null;
+  links?: unknown;
+}
+
+// Candidate fields that identify the person: contact details, address, profile links,
+// and free text that usually names them
+const WITHHELD_CANDIDATE_FIELDS = ['email', 'phone', 'emailNormalized', 'phoneNormalized', 'city', 'links', 'summary', 'notes'] as const;
+
+// Added to AI screening prompts when the candidate profile is anonymized
+export const BLIND_SCREENING_INSTRUCTION =
+  "This is a blind screening: the candidate's name, address, contact details and institution names are withheld. " +
+  "Do not infer or take into account gender, age, race, nationality or the prestige of any institution.";
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+/**
+ * The organization's blind screening settings (off when it has no compliance settings yet)
+ */
+export async function getBlindScreeningSettings(organizationId: string | null): Promise<BlindScreeningSettings> {
+  if (!organizationId) {
+    return { enabled: false, revealStage: null };
+  }
+
+  const [settings] = await db.select({
+    blindScreening: complianceSettings.blindScreening,
+    blindRevealStage: complianceSettings.blindRevealStage,
+  })
+    .from(complianceSettings)
+    .where(eq(complianceSettings.organizationId, organizationId));
+
+  return {
+    enabled: settings?.blindScreening === 1,
+    revealStage: settings?.blindRevealStage ?? null,
+  };
+}
+
+/**
+ * Whether a role's screenings are blind - the role's own setting, else the organization's
+ */
+export function isRoleBlind(role: Pick<Role, "blindScreening">, settings: BlindScreeningSettings): boolean {
+  return role.blindScreening !== null ? role.blindScreening === 1 : settings.enabled;
+}
+
+/**
+ * Blind review of a role's screenings, staged through the organization's pipeline
+ */
+export async function getRoleBlindReview(organizationId: string, role: Pick<Role, "blindScreening">): Promise<BlindReview> {
+  const [settings, stages] = await Promise.all([
+    getBlindScreeningSettings(organizationId),
+    getJobPipeline({ organizationId, admin: null }),
+  ]);
+
+  return { blind: isRoleBlind(role, settings), stages, revealStage: settings.revealStage };
+}
+
+/**
+ * Blind review of a job's in-app applicants (organization setting)
+ */
+export async function getJobBlindReview(job: Pick<Job, "organizationId">, stages: string[]): Promise<BlindReview> {
+  const settings = await getBlindScreeningSettings(job.organizationId);
+  return { blind: settings.enabled, stages, revealStage: settings.revealStage };
+}
+
+/**
+ * Whether a candidate at this pipeline stage is still anonymous.
+ * Identity is revealed once they are past the reveal stage (the first stage when none is set,
+ * or when the configured stage is no longer in the pipeline).
+ */
+export function isIdentityWithheld(review: BlindReview, stage: string | null): boolean {
+  if (!review.blind) {
+    return false;
+  }
+
+  const revealIndex = review.revealStage ? Math.max(0, review.stages.indexOf(review.revealStage)) : 0;
+  const stageIndex = stage ? review.stages.indexOf(stage) : 0;
+  return stageIndex <= revealIndex;
+}
+
+/**
+ * The candidates whose identity the talent pool withholds: all of them while the organization
+ * screens blind, except those past the reveal stage on one of its roles (or screened on a role
+ * that isn't blind)
+ */
+export async function getWithheldCandidateIds(organizationId: string, candidateIds: string[]): Promise<Set<string>> {
+  const settings = await getBlindScreeningSettings(organizationId);
+  if (!settings.enabled || candidateIds.length === 0) {
+    return new Set();
+  }
+
+  const [stages, rows] = await Promise.all([
+    getJobPipeline({ organizationId, admin: null }),
+    db.select({ candidateId: screenings.candidateId, pipelineStage: screenings.pipelineStage, blindScreening: roles.blindScreening })
+      .from(screenings)
+      .innerJoin(roles, eq(screenings.roleId, roles.id))
+      .where(and(inArray(screenings.candidateId, candidateIds), ownedRoles(organizationId))),
+  ]);
+
+  const revealed = new Set(rows
+    .filter(row => !isIdentityWithheld(
+      { blind: isRoleBlind(row, settings), stages, revealStage: settings.revealStage },
+      currentStage(row, stages)
+    ))
+    .map(row => row.candidateId));
+
+  return new Set(candidateIds.filter(candidateId => !revealed.has(candidateId)));
+}
+
+// ============================================================================
+// ROLE PIPELINE
+// ============================================================================
+
+/**
+ * Move a screened candidate to a stage of the organization's pipeline for the role.
+ * Moving them past the reveal stage shows their identity on blind roles.
+ */
+export async function moveScreeningStage(organizationId: string, screeningId: string, stage: string): Promise<MoveScreeningStageResult> {
+  const [screening] = await db.select()
+    .from(screenings)
+    .where(eq(screenings.id, screeningId));
+
+  const role = screening && await getOwnedRole(organizationId, screening.roleId);
+  if (!screening || !role) {
+    return { ok: false, reason: 'NOT_FOUND' };
+  }
+
+  const review = await getRoleBlindReview(organizationId, role);
+  if (!review.stages.includes(stage)) {
+    return { ok: false, reason: 'INVALID_STAGE' };
+  }
+
+  const [updated] = await db.update(screenings)
+    .set({ pipelineStage: stage })
+    .where(eq(screenings.id, screeningId))
+    .returning();
+
+  return { ok: true, screening: updated, identityWithheld: isIdentityWithheld(review, stage) };
+}
+
+// ============================================================================
+// ANONYMIZATION
+// ============================================================================
+
+/**
+ * Stable stand-in name, so recruiters can still tell blind candidates apart
+ */
+export function blindLabel(id: string): string {
+  return `Candidate ${id.replace(/-/g, '').slice(0, 6).toUpperCase()}`;
+}
+
+/**
+ * An ATS candidate as shown in the talent pool, role screening results, shortlists and exports
+ */
+export function anonymizeCandidate<T extends { id: string; fullName?: string | null }>(candidate: T): T {
+  const anonymous: Record<string, unknown> = { ...candidate, fullName: blindLabel(candidate.id) };
+  for (const field of WITHHELD_CANDIDATE_FIELDS) {
+    if (field in candidate) {
+      anonymous[field] = null;
+    }
+  }
+  return anonymous as T;
+}
+
+/**
+ * A candidate update without the fields anonymizeCandidate withholds, so saving an
+ * anonymized profile can't overwrite the candidate's identity
+ */
+export function withoutIdentityFields<T extends object>(update: T): Partial<T> {
+  const kept = { ...update } as Record<string, unknown>;
+  for (const field of ['fullName', ...WITHHELD_CANDIDATE_FIELDS]) {
+    delete kept[field];
+  }
+  return kept as Partial<T>;
+}
+
+/**
+ * An ATS candidate's education entries without institution names
+ */
+export function anonymizeEducation<T extends { institution: string | null }>(entries: T[]): T[] {
+  return entries.map(entry => ({ ...entry, institution: "Withheld" }));
+}
+
+/**
+ * An ATS candidate's full profile as shown in the talent pool: the candidate, institution names,
+ * project links and CV files (whose names and text carry the candidate's name)
+ */
+export function anonymizeCandidateProfile<T extends {
+  id: string;
+  fullName: string | null;
+  education: Array<{ institution: string | null }>;
+  projects: Array<{ link: string | null }>;
+  resumes: Array<{ filename: string | null; rawText: string | null }>;
+}>(profile: T): T {
+  return {
+    ...anonymizeCandidate(profile),
+    education: anonymizeEducation(profile.education),
+    projects: profile.projects.map(project => ({ ...project, link: null })),
+    resumes: profile.resumes.map(resume => ({ ...resume, filename: null, rawText: null })),
+  } as T;
+}
+
+/**
+ * A job applicant's account details and CV (see cvPersonalInfoSchema)
+ */
+export function anonymizeApplicant<
+  A extends { id: string; email: string | null; firstName: string | null; lastName: string | null } | null,
+  C extends { personalInfo: unknown; education: unknown; references: unknown; photoUrl: string | null; includePhoto: number } | null,
+>(applicationId: string, applicant: A, cv: C): { applicant: A; cv: C } {
+  const label = blindLabel(applicationId);
+
+  const anonymousApplicant = applicant && { ...applicant, email: null, firstName: label, lastName: null };
+
+  let anonymousCv = cv;
+  if (cv) {
+    const { legalName, age, gender, physicalAddress, postalCode, city, province, contactEmail, contactPhone, ...personalInfo } =
+      (cv.personalInfo || {}) as Record<string, unknown>;
+    const education = Array.isArray(cv.education)
+      ? cv.education.map((entry: any) => ({ ...entry, institution: "Withheld" }))
+      : cv.education;
+
+    anonymousCv = {
+      ...cv,
+      personalInfo: { ...personalInfo, fullName: label },
+      education,
+      references: null,
+      photoUrl: null,
+      includePhoto: 0,
+    } as C;
+  }
+
+  return { applicant: anonymousApplicant as A, cv: anonymousCv };
+}
+
+/**
+ * A candidate profile as sent to the AI screening prompt: only what bears on fit for the role
+ */
+export function anonymizeScreeningProfile<T extends ScreeningProfile>(profile: T): T {
+  const { full_name, links, ...rest } = profile;
+
+  return {
+    ...rest,
+    contact: { city: null, country: profile.contact?.country ?? null },
+    education: (profile.education || []).map(({ institution, ...entry }) => entry),
+  } as T;
+}
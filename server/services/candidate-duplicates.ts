@@ -0,0 +1,502 @@
+/**
+ * Candidate Duplicates Service
+ *
+ * Fuzzy duplicate detection and merging within an organization's talent pool.
+ * - On ingest, a candidate is compared to the pool by email, SA phone number,
+ *   name and profile embedding similarity
+ * - Likely matches are flagged as open pairs for a recruiter to review
+ * - Merging combines sub-records into the surviving candidate, keeps every
+ *   resume, and re-points screenings, embeddings, client shares and shared shortlists
+ */
+
+import { db } from "../db";
+import { pool } from "../db-pool";
+import {
+  candidates,
+  experiences,
+  education,
+  certifications,
+  projects,
+  awards,
+  candidateSkills,
+  resumes,
+  screenings,
+  candidateEmbeddings,
+  candidateShares,
+  candidateDuplicates,
+  shortlistShares,
+  shortlistFeedback,
+  type Candidate,
+  type CandidateDuplicate,
+} from "../../shared/schema";
+import { eq, and, or, ne, inArray, desc, arrayContains } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import type { BatchItem } from "drizzle-orm/batch";
+import { jaccard } from "../auto-search/utils";
+import { getOwnedCandidate, candidateMatchKeys } from "./talent-pool";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DuplicateReason = 'email' | 'phone' | 'name' | 'similar_name' | 'profile';
+
+export interface DuplicateMatch {
+  candidateId: string;
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+export type MergeResult =
+  | { ok: true; candidate: Candidate }
+  | { ok: false; reason: 'CANDIDATE_NOT_FOUND' | 'SAME_CANDIDATE' };
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Points each signal adds to a pair's score (capped at 100)
+const SIGNAL_WEIGHTS: Record<DuplicateReason, number> = {
+  email: 60,
+  phone: 60,
+  name: 45,
+  similar_name: 25,
+  profile: 35,
+};
+
+// Pairs scoring at least this are flagged - a name alone isn't enough
+const FLAG_THRESHOLD = 50;
+
+// Cosine similarity above which two profile embeddings count as the same person
+const PROFILE_SIMILARITY = 0.92;
+
+// Candidate fields filled from the merged record when the survivor has none
+const MERGE_FIELDS = [
+  'userId',
+  'fullName',
+  'headline',
+  'email',
+  'phone',
+  'city',
+  'country',
+  'summary',
+  'workAuthorization',
+  'availability',
+  'salaryExpectation',
+] as const;
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+function nameTokens(name: string | null): string[] {
+  return (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(token => token.length > 1);
+}
+
+/**
+ * Pool candidates with a profile embedding close to this candidate's
+ * @returns similarity by candidate ID, empty when the candidate isn't indexed
+ */
+async function findSimilarProfiles(organizationId: string, candidateId: string): Promise<Map<string, number>> {
+  try {
+    const { rows } = await pool.query(
+      `SELECT ce.candidate_id, 1 - (ce.embedding <=> target.embedding) AS similarity
+       FROM candidate_embeddings target
+       JOIN candidate_embeddings ce ON ce.candidate_id <> target.candidate_id
+       JOIN candidates c ON c.id = ce.candidate_id
+       WHERE target.candidate_id = $1 AND c.organization_id = $2
+       ORDER BY ce.embedding <=> target.embedding
+       LIMIT 10`,
+      [candidateId, organizationId]
+    );
+
+    return new Map(rows.map((row: any) => [row.candidate_id as string, Number(row.similarity)]));
+  } catch (error) {
+    console.warn(`[ATS] Profile similarity lookup failed for candidate ${candidateId}:`, error);
+    return new Map();
+  }
+}
+
+/**
+ * Score every other candidate in the pool against this one
+ */
+async function findMatches(candidate: Candidate): Promise<DuplicateMatch[]> {
+  const organizationId = candidate.organizationId!;
+
+  const poolCandidates = await db.select({
+    id: candidates.id,
+    fullName: candidates.fullName,
+    emailNormalized: candidates.emailNormalized,
+    phoneNormalized: candidates.phoneNormalized,
+  })
+    .from(candidates)
+    .where(and(
+      eq(candidates.organizationId, organizationId),
+      ne(candidates.id, candidate.id)
+    ));
+
+  const similarProfiles = await findSimilarProfiles(organizationId, candidate.id);
+  const tokens = nameTokens(candidate.fullName);
+  const matches: DuplicateMatch[] = [];
+
+  for (const other of poolCandidates) {
+    const reasons: DuplicateReason[] = [];
+
+    if (candidate.emailNormalized && candidate.emailNormalized === other.emailNormalized) {
+      reasons.push('email');
+    }
+    if (candidate.phoneNormalized && candidate.phoneNormalized === other.phoneNormalized) {
+      reasons.push('phone');
+    }
+
+    const nameSimilarity = tokens.length > 0 ? jaccard(tokens, nameTokens(other.fullName)) : 0;
+    if (nameSimilarity === 1) {
+      reasons.push('name');
+    } else if (nameSimilarity >= 0.5) {
+      reasons.push('similar_name');
+    }
+
+    if ((similarProfiles.get(other.id) ?? 0) >= PROFILE_SIMILARITY) {
+      reasons.push('profile');
+    }
+
+    const score = Math.min(100, reasons.reduce((sum, reason) => sum + SIGNAL_WEIGHTS[reason], 0));
+    if (score >= FLAG_THRESHOLD) {
+      matches.push({ candidateId: other.id, score, reasons });
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Compare a candidate to the rest of its talent pool and flag likely duplicates
+ *
+ * Safe to re-run (e.g. once the profile embedding exists): a pair is only
+ * flagged once, its score can only go up, and dismissed pairs stay dismissed.
+ */
+export async function detectDuplicates(candidate: Candidate): Promise<DuplicateMatch[]> {
+  if (!candidate.organizationId) {
+    return [];
+  }
+
+  const matches = await findMatches(candidate);
+
+  for (const match of matches) {
+    const [existing] = await db.select()
+      .from(candidateDuplicates)
+      .where(or(
+        and(eq(candidateDuplicates.candidateId, candidate.id), eq(candidateDuplicates.duplicateOfId, match.candidateId)),
+        and(eq(candidateDuplicates.candidateId, match.candidateId), eq(candidateDuplicates.duplicateOfId, candidate.id))
+      ))
+      .limit(1);
+
+    if (existing) {
+      // New signals (e.g. the embedding) can raise an open pair's score
+      if (existing.status === 'open' && match.score > existing.score) {
+        await db.update(candidateDuplicates)
+          .set({ score: match.score, reasons: match.reasons })
+          .where(eq(candidateDuplicates.id, existing.id));
+      }
+      continue;
+    }
+
+    await db.insert(candidateDuplicates)
+      .values({
+        organizationId: candidate.organizationId,
+        candidateId: candidate.id,
+        duplicateOfId: match.candidateId,
+        score: match.score,
+        reasons: match.reasons,
+      })
+      .onConflictDoNothing();
+  }
+
+  if (matches.length > 0) {
+    console.log(`[ATS] Flagged ${matches.length} possible duplicate(s) for candidate ${candidate.id}`);
+  }
+
+  return matches;
+}
+
+// ============================================================================
+// REVIEW
+// ============================================================================
+
+/**
+ * Open duplicate pairs in an organization's pool, with both candidates
+ */
+export async function listOpenDuplicates(organizationId: string) {
+  const duplicateOf = alias(candidates, 'duplicate_of');
+
+  const rows = await db.select({
+    pair: candidateDuplicates,
+    candidate: candidates,
+    duplicateOf,
+  })
+    .from(candidateDuplicates)
+    .innerJoin(candidates, eq(candidateDuplicates.candidateId, candidates.id))
+    .innerJoin(duplicateOf, eq(candidateDuplicates.duplicateOfId, duplicateOf.id))
+    .where(and(
+      eq(candidateDuplicates.organizationId, organizationId),
+      eq(candidateDuplicates.status, 'open')
+    ))
+    .orderBy(desc(candidateDuplicates.score), desc(candidateDuplicates.createdAt));
+
+  return rows.map(({ pair, candidate, duplicateOf }) => ({
+    ...pair,
+    candidate,
+    duplicateOf,
+  }));
+}
+
+/**
+ * Mark a flagged pair as not being the same person
+ */
+export async function dismissDuplicate(
+  organizationId: string,
+  duplicateId: string,
+  userId: string
+): Promise<CandidateDuplicate | undefined> {
+  const [dismissed] = await db.update(candidateDuplicates)
+    .set({ status: 'dismissed', resolvedBy: userId, resolvedAt: new Date() })
+    .where(and(
+      eq(candidateDuplicates.id, duplicateId),
+      eq(candidateDuplicates.organizationId, organizationId),
+      eq(candidateDuplicates.status, 'open')
+    ))
+    .returning();
+
+  return dismissed;
+}
+
+// ============================================================================
+// MERGE
+// ============================================================================
+
+/**
+ * The writes that move a merged candidate's sub-records to the survivor, dropping
+ * entries the survivor already has (compared by the given key)
+ */
+function moveRecords<T extends { id: string }>(
+  existing: T[],
+  incoming: T[],
+  key: (record: T) => string,
+  move: (ids: string[]) => BatchItem<'pg'>,
+  remove: (ids: string[]) => BatchItem<'pg'>
+): BatchItem<'pg'>[] {
+  const existingKeys = new Set(existing.map(key));
+  const toMove = incoming.filter(record => !existingKeys.has(key(record))).map(record => record.id);
+  const toRemove = incoming.filter(record => existingKeys.has(key(record))).map(record => record.id);
+
+  return [
+    ...(toMove.length > 0 ? [move(toMove)] : []),
+    ...(toRemove.length > 0 ? [remove(toRemove)] : []),
+  ];
+}
+
+const recordKey = (...parts: Array<string | number | null | undefined>) =>
+  parts.map(part => String(part ?? '').trim().toLowerCase()).join('|');
+
+/**
+ * Merge one candidate into another and delete the merged record
+ *
+ * The survivor keeps its own details and gains anything it was missing;
+ * screenings for a role both were screened against keep the survivor's.
+ * Everything is read first and written in a single batch, so a failed merge
+ * changes nothing and can simply be retried.
+ */
+export async function mergeCandidates(
+  organizationId: string,
+  survivorId: string,
+  mergedId: string,
+  userId: string
+): Promise<MergeResult> {
+  if (survivorId === mergedId) {
+    return { ok: false, reason: 'SAME_CANDIDATE' };
+  }
+
+  const survivor = await getOwnedCandidate(organizationId, survivorId);
+  const merged = await getOwnedCandidate(organizationId, mergedId);
+  if (!survivor || !merged) {
+    return { ok: false, reason: 'CANDIDATE_NOT_FOUND' };
+  }
+
+  // Profile fields
+  const updates: Partial<Candidate> = {};
+  for (const field of MERGE_FIELDS) {
+    if (!survivor[field] && merged[field]) {
+      updates[field] = merged[field];
+    }
+  }
+  updates.links = { ...(merged.links as object || {}), ...(survivor.links as object || {}) };
+  if (merged.notes && merged.notes !== survivor.notes) {
+    updates.notes = survivor.notes ? `${survivor.notes}\n\n${merged.notes}` : merged.notes;
+  }
+
+  const updateSurvivor = db.update(candidates)
+    .set({
+      ...updates,
+      ...candidateMatchKeys({
+        email: updates.email ?? survivor.email,
+        phone: updates.phone ?? survivor.phone,
+      }),
+    })
+    .where(eq(candidates.id, survivorId))
+    .returning();
+
+  const writes: BatchItem<'pg'>[] = [];
+
+  // Experiences, education, certifications, projects and awards
+  writes.push(...moveRecords(
+    await db.select().from(experiences).where(eq(experiences.candidateId, survivorId)),
+    await db.select().from(experiences).where(eq(experiences.candidateId, mergedId)),
+    exp => recordKey(exp.title, exp.company, exp.startDate),
+    ids => db.update(experiences).set({ candidateId: survivorId }).where(inArray(experiences.id, ids)),
+    ids => db.delete(experiences).where(inArray(experiences.id, ids))
+  ));
+  writes.push(...moveRecords(
+    await db.select().from(education).where(eq(education.candidateId, survivorId)),
+    await db.select().from(education).where(eq(education.candidateId, mergedId)),
+    edu => recordKey(edu.institution, edu.qualification),
+    ids => db.update(education).set({ candidateId: survivorId }).where(inArray(education.id, ids)),
+    ids => db.delete(education).where(inArray(education.id, ids))
+  ));
+  writes.push(...moveRecords(
+    await db.select().from(certifications).where(eq(certifications.candidateId, survivorId)),
+    await db.select().from(certifications).where(eq(certifications.candidateId, mergedId)),
+    cert => recordKey(cert.name, cert.issuer),
+    ids => db.update(certifications).set({ candidateId: survivorId }).where(inArray(certifications.id, ids)),
+    ids => db.delete(certifications).where(inArray(certifications.id, ids))
+  ));
+  writes.push(...moveRecords(
+    await db.select().from(projects).where(eq(projects.candidateId, survivorId)),
+    await db.select().from(projects).where(eq(projects.candidateId, mergedId)),
+    proj => recordKey(proj.name),
+    ids => db.update(projects).set({ candidateId: survivorId }).where(inArray(projects.id, ids)),
+    ids => db.delete(projects).where(inArray(projects.id, ids))
+  ));
+  writes.push(...moveRecords(
+    await db.select().from(awards).where(eq(awards.candidateId, survivorId)),
+    await db.select().from(awards).where(eq(awards.candidateId, mergedId)),
+    award => recordKey(award.name, award.year),
+    ids => db.update(awards).set({ candidateId: survivorId }).where(inArray(awards.id, ids)),
+    ids => db.delete(awards).where(inArray(awards.id, ids))
+  ));
+
+  // Skills
+  const mergedSkills = await db.select().from(candidateSkills).where(eq(candidateSkills.candidateId, mergedId));
+  if (mergedSkills.length > 0) {
+    writes.push(
+      db.insert(candidateSkills)
+        .values(mergedSkills.map(skill => ({ candidateId: survivorId, skillId: skill.skillId, kind: skill.kind })))
+        .onConflictDoNothing(),
+      db.delete(candidateSkills).where(eq(candidateSkills.candidateId, mergedId))
+    );
+  }
+
+  // Every resume is kept
+  writes.push(db.update(resumes).set({ candidateId: survivorId }).where(eq(resumes.candidateId, mergedId)));
+
+  // Screenings - one per role and candidate
+  const survivorRoleIds = (await db.select({ roleId: screenings.roleId })
+    .from(screenings)
+    .where(eq(screenings.candidateId, survivorId)))
+    .map(screening => screening.roleId);
+  if (survivorRoleIds.length > 0) {
+    writes.push(db.delete(screenings).where(and(
+      eq(screenings.candidateId, mergedId),
+      inArray(screenings.roleId, survivorRoleIds)
+    )));
+  }
+  writes.push(db.update(screenings).set({ candidateId: survivorId }).where(eq(screenings.candidateId, mergedId)));
+
+  // Embedding - keep the survivor's, or adopt the merged one
+  const [survivorEmbedding] = await db.select({ candidateId: candidateEmbeddings.candidateId })
+    .from(candidateEmbeddings)
+    .where(eq(candidateEmbeddings.candidateId, survivorId));
+  if (survivorEmbedding) {
+    writes.push(db.delete(candidateEmbeddings).where(eq(candidateEmbeddings.candidateId, mergedId)));
+  } else {
+    writes.push(db.update(candidateEmbeddings)
+      .set({ candidateId: survivorId })
+      .where(eq(candidateEmbeddings.candidateId, mergedId)));
+  }
+
+  // Client shares
+  const mergedShares = await db.select().from(candidateShares).where(eq(candidateShares.candidateId, mergedId));
+  if (mergedShares.length > 0) {
+    writes.push(
+      db.insert(candidateShares)
+        .values(mergedShares.map(share => ({
+          candidateId: survivorId,
+          organizationId: share.organizationId,
+          clientId: share.clientId,
+          sharedBy: share.sharedBy,
+        })))
+        .onConflictDoNothing(),
+      db.delete(candidateShares).where(eq(candidateShares.candidateId, mergedId))
+    );
+  }
+
+  // Shared shortlists - the survivor takes the merged candidate's place, and the
+  // client's feedback on them unless the survivor already has some on that shortlist
+  const mergedShortlists = await db.select({ id: shortlistShares.id, candidateIds: shortlistShares.candidateIds })
+    .from(shortlistShares)
+    .where(and(
+      eq(shortlistShares.organizationId, organizationId),
+      arrayContains(shortlistShares.candidateIds, [mergedId])
+    ));
+  for (const shortlist of mergedShortlists) {
+    const candidateIds = Array.from(new Set(shortlist.candidateIds.map(id => id === mergedId ? survivorId : id)));
+    writes.push(db.update(shortlistShares).set({ candidateIds }).where(eq(shortlistShares.id, shortlist.id)));
+  }
+
+  const mergedFeedback = await db.select().from(shortlistFeedback).where(eq(shortlistFeedback.candidateId, mergedId));
+  if (mergedFeedback.length > 0) {
+    writes.push(
+      db.insert(shortlistFeedback)
+        .values(mergedFeedback.map(feedback => ({
+          shareId: feedback.shareId,
+          candidateId: survivorId,
+          decision: feedback.decision,
+          comment: feedback.comment,
+          createdAt: feedback.createdAt,
+          updatedAt: feedback.updatedAt,
+        })))
+        .onConflictDoNothing({ target: [shortlistFeedback.shareId, shortlistFeedback.candidateId] }),
+      db.delete(shortlistFeedback).where(eq(shortlistFeedback.candidateId, mergedId))
+    );
+  }
+
+  // Resolve the pair; other pairs with the merged record are re-checked against the survivor
+  writes.push(
+    db.update(candidateDuplicates)
+      .set({ status: 'merged', resolvedBy: userId, resolvedAt: new Date() })
+      .where(or(
+        and(eq(candidateDuplicates.candidateId, mergedId), eq(candidateDuplicates.duplicateOfId, survivorId)),
+        and(eq(candidateDuplicates.candidateId, survivorId), eq(candidateDuplicates.duplicateOfId, mergedId))
+      )),
+    db.delete(candidateDuplicates).where(and(
+      or(eq(candidateDuplicates.candidateId, mergedId), eq(candidateDuplicates.duplicateOfId, mergedId)),
+      eq(candidateDuplicates.status, 'open')
+    ))
+  );
+
+  // The merged record goes last, once everything has moved off it
+  writes.push(db.delete(candidates).where(eq(candidates.id, mergedId)));
+
+  // neon-http runs a batch as one transaction
+  const [[updatedSurvivor]] = await db.batch([updateSurvivor, ...writes]);
+
+  console.log(`[ATS] Merged candidate ${mergedId} into ${survivorId} by ${userId}`);
+
+  await detectDuplicates(updatedSurvivor);
+
+  return { ok: true, candidate: updatedSurvivor };
+}
@@ -0,0 +1,281 @@
+/**
+ * Candidate Search Service
+ *
+ * Natural-language search over an organization's ATS talent pool, e.g.
+ * "warehouse supervisor with forklift licence near Durban".
+ * - Semantic: the query is embedded and compared with stored candidate embeddings (pgvector)
+ * - Keyword: query terms are matched against the profile, skills, experience and certifications
+ * - Location: a candidate whose city is named in the query scores higher
+ * The signals are blended into a 0-100 relevance score, in the spirit of the auto-search job matching.
+ * Under blind screening, withheld candidates are matched by keyword on their anonymized profile
+ * (no name, city, contact details or employers), so a search can't single out who they are.
+ */
+
+import { db } from "../db";
+import { pool } from "../db-pool";
+import {
+  candidates,
+  candidateSkills,
+  skills,
+  experiences,
+  certifications,
+  type Candidate,
+} from "../../shared/schema";
+import { eq, inArray } from "drizzle-orm";
+import { ownedCandidateIds } from "./talent-pool";
+import { getWithheldCandidateIds, anonymizeCandidate } from "./blind-screening";
+import { generateEmbedding, isEmbeddingsConfigured } from "../embeddings";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const WEIGHTS = {
+  semantic: 0.5,
+  keyword: 0.35,
+  location: 0.15,
+};
+
+// Used when no query embedding is available
+const KEYWORD_ONLY_WEIGHTS = {
+  semantic: 0,
+  keyword: 0.8,
+  location: 0.2,
+};
+
+const SEMANTIC_CANDIDATES = 200; // Nearest profiles considered from the vector index
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'or', 'the', 'with', 'without', 'near', 'in', 'at', 'on', 'of', 'for', 'to', 'from',
+  'who', 'has', 'have', 'having', 'is', 'are', 'be', 'that', 'can', 'some', 'someone', 'looking',
+  'candidate', 'candidates', 'person', 'people', 'around', 'based', 'area', 'plus',
+]);
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CandidateSearchOptions {
+  query: string;
+  city?: string;
+  country?: string;
+  limit?: number;
+}
+
+export interface CandidateSearchResult {
+  candidate: Candidate;
+  relevance: number; // 0-100
+  matchedSkills: string[];
+  scores: {
+    semantic: number | null; // Cosine similarity (0-1), null when the candidate has no embedding
+    keyword: number; // Share of query terms found on the profile (0-1)
+    location: number; // 1 when the candidate's city is named in the query
+  };
+}
+
+interface CandidateDocument {
+  tokens: Set<string>;
+  skillNames: string[];
+}
+
+// ============================================================================
+// TEXT MATCHING
+// ============================================================================
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9+#]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+/**
+ * Whether a token matches a query term, allowing simple word-form
+ * differences ("supervisor" / "supervisors", "forklift" / "forklifts")
+ */
+function termMatches(token: string, term: string): boolean {
+  if (token === term) return true;
+  return token.length >= 4 && term.length >= 4 && (token.startsWith(term) || term.startsWith(token));
+}
+
+function hasTerm(tokens: Set<string>, term: string): boolean {
+  return tokens.has(term) || Array.from(tokens).some(token => termMatches(token, term));
+}
+
+/**
+ * Searchable text for every candidate in the pool, built from the profile
+ * and its skills, experience and certifications (without employers for
+ * candidates whose identity is withheld)
+ */
+async function buildDocuments(
+  organizationId: string,
+  talentPool: Candidate[],
+  withheld: Set<string>
+): Promise<Map<string, CandidateDocument>> {
+  const ownedIds = ownedCandidateIds(organizationId);
+
+  const [skillRows, experienceRows, certificationRows] = await Promise.all([
+    db.select({ candidateId: candidateSkills.candidateId, name: skills.name })
+      .from(candidateSkills)
+      .innerJoin(skills, eq(candidateSkills.skillId, skills.id))
+      .where(inArray(candidateSkills.candidateId, ownedIds)),
+    db.select({
+      candidateId: experiences.candidateId,
+      title: experiences.title,
+      company: experiences.company,
+      industry: experiences.industry,
+    })
+      .from(experiences)
+      .where(inArray(experiences.candidateId, ownedIds)),
+    db.select({ candidateId: certifications.candidateId, name: certifications.name })
+      .from(certifications)
+      .where(inArray(certifications.candidateId, ownedIds)),
+  ]);
+
+  const texts = new Map<string, string[]>();
+  const skillNames = new Map<string, string[]>();
+  for (const candidate of talentPool) {
+    texts.set(candidate.id, [
+      candidate.fullName,
+      candidate.headline,
+      candidate.summary,
+      candidate.city,
+      candidate.country,
+    ].filter((part): part is string => !!part));
+    skillNames.set(candidate.id, []);
+  }
+
+  for (const row of skillRows) {
+    texts.get(row.candidateId)?.push(row.name);
+    skillNames.get(row.candidateId)?.push(row.name);
+  }
+  for (const row of experienceRows) {
+    const company = withheld.has(row.candidateId) ? null : row.company;
+    texts.get(row.candidateId)?.push(...[row.title, company, row.industry].filter((part): part is string => !!part));
+  }
+  for (const row of certificationRows) {
+    if (!row.name) continue;
+    texts.get(row.candidateId)?.push(row.name);
+    skillNames.get(row.candidateId)?.push(row.name);
+  }
+
+  const documents = new Map<string, CandidateDocument>();
+  for (const candidate of talentPool) {
+    documents.set(candidate.id, {
+      tokens: new Set(tokenize(texts.get(candidate.id)!.join(' '))),
+      skillNames: skillNames.get(candidate.id)!,
+    });
+  }
+  return documents;
+}
+
+// ============================================================================
+// SEMANTIC MATCHING
+// ============================================================================
+
+/**
+ * Cosine similarity of the query to the nearest candidate profiles in the pool,
+ * or null when embeddings aren't available
+ */
+async function semanticSimilarities(organizationId: string, query: string): Promise<Map<string, number> | null> {
+  if (!isEmbeddingsConfigured()) {
+    return null;
+  }
+
+  try {
+    const embedding = await generateEmbedding(query);
+    const { rows } = await pool.query(
+      `SELECT ce.candidate_id, 1 - (ce.embedding <=> $1) AS similarity
+       FROM candidate_embeddings ce
+       JOIN candidates c ON c.id = ce.candidate_id
+       WHERE c.organization_id = $2
+       ORDER BY ce.embedding <=> $1
+       LIMIT ${SEMANTIC_CANDIDATES}`,
+      [JSON.stringify(embedding), organizationId]
+    );
+
+    return new Map(rows.map((row: any) => [row.candidate_id as string, Math.max(0, Number(row.similarity))]));
+  } catch (error) {
+    console.warn(`[ATS] Semantic candidate search unavailable, falling back to keywords:`, error);
+    return null;
+  }
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+/**
+ * Search the organization's talent pool, most relevant candidates first
+ */
+export async function searchCandidates(
+  organizationId: string,
+  options: CandidateSearchOptions
+): Promise<{ semantic: boolean; results: CandidateSearchResult[] }> {
+  const limit = Math.min(Math.max(options.limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const queryTerms = Array.from(new Set(tokenize(options.query)));
+
+  const allCandidates = await db.select()
+    .from(candidates)
+    .where(eq(candidates.organizationId, organizationId));
+
+  // Blind screening: withheld candidates are searched, filtered and returned anonymized
+  const withheld = await getWithheldCandidateIds(organizationId, allCandidates.map(candidate => candidate.id));
+
+  const talentPool = allCandidates
+    .map(candidate => withheld.has(candidate.id) ? anonymizeCandidate(candidate) : candidate)
+    .filter(candidate =>
+      (!options.city || candidate.city?.toLowerCase() === options.city.toLowerCase()) &&
+      (!options.country || candidate.country?.toLowerCase() === options.country.toLowerCase())
+    );
+
+  if (talentPool.length === 0) {
+    return { semantic: false, results: [] };
+  }
+
+  const [documents, similarities] = await Promise.all([
+    buildDocuments(organizationId, talentPool, withheld),
+    semanticSimilarities(organizationId, options.query),
+  ]);
+  const weights = similarities ? WEIGHTS : KEYWORD_ONLY_WEIGHTS;
+
+  const results: CandidateSearchResult[] = [];
+  for (const candidate of talentPool) {
+    const document = documents.get(candidate.id)!;
+    // A withheld candidate's embedding is built from their full profile, so only keywords count
+    const semantic = withheld.has(candidate.id) ? null : similarities?.get(candidate.id) ?? null;
+
+    const matchedTerms = queryTerms.filter(term => hasTerm(document.tokens, term));
+    const keyword = queryTerms.length > 0 ? matchedTerms.length / queryTerms.length : 0;
+
+    const cityTokens = tokenize(candidate.city || '');
+    const location = cityTokens.length > 0 && cityTokens.every(token => queryTerms.includes(token)) ? 1 : 0;
+
+    // Only candidates the query actually points at
+    if (semantic === null && keyword === 0) {
+      continue;
+    }
+
+    const matchedSkills = document.skillNames.filter(name =>
+      tokenize(name).some(token => queryTerms.some(term => termMatches(token, term)))
+    );
+
+    const relevance = Math.round(100 * (
+      weights.semantic * (semantic ?? 0) +
+      weights.keyword * keyword +
+      weights.location * location
+    ));
+
+    results.push({
+      candidate,
+      relevance: Math.max(0, Math.min(100, relevance)),
+      matchedSkills: Array.from(new Set(matchedSkills)),
+      scores: { semantic, keyword, location },
+    });
+  }
+
+  results.sort((a, b) => b.relevance - a.relevance);
+  return { semantic: !!similarities, results: results.slice(0, limit) };
+}
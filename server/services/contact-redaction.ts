@@ -0,0 +1,68 @@
+/**
+ * Contact Redaction Service
+ *
+ * POPIA masking of candidate contact details that leave the ATS
+ * (spreadsheet exports, shared shortlists), per the organization's compliance settings.
+ * - none: shown in full
+ * - partial: enough to recognise, e.g. "t***@gmail.com", "*** *** 4567"
+ * - full: hidden
+ */
+
+import { db } from "../db";
+import { complianceSettings, type ContactRedaction } from "../../shared/schema";
+import { eq } from "drizzle-orm";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ContactDetails {
+  email: string | null;
+  phone: string | null;
+}
+
+const DEFAULT_REDACTION: ContactRedaction = 'partial';
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+/**
+ * The organization's contact redaction level (partial when it has no compliance settings yet)
+ */
+export async function getContactRedaction(organizationId: string): Promise<ContactRedaction> {
+  const [settings] = await db.select({ contactRedaction: complianceSettings.contactRedaction })
+    .from(complianceSettings)
+    .where(eq(complianceSettings.organizationId, organizationId));
+
+  return (settings?.contactRedaction as ContactRedaction) || DEFAULT_REDACTION;
+}
+
+// ============================================================================
+// MASKING
+// ============================================================================
+
+export function maskEmail(email: string): string {
+  const [local, domain] = email.split('@');
+  if (!domain) return '***';
+  return `${local.charAt(0)}***@${domain}`;
+}
+
+export function maskPhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length < 4) return '***';
+  return `*** *** ${digits.slice(-4)}`;
+}
+
+export function redactContact(contact: ContactDetails, level: ContactRedaction): ContactDetails {
+  if (level === 'none') {
+    return contact;
+  }
+  if (level === 'full') {
+    return { email: null, phone: null };
+  }
+  return {
+    email: contact.email ? maskEmail(contact.email) : null,
+    phone: contact.phone ? maskPhone(contact.phone) : null,
+  };
+}
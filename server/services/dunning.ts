@@ -0,0 +1,289 @@
+/**
+ * Dunning Service
+ *
+ * Recovery of failed and unpaid subscription payments.
+ * - A failed or unpaid renewal moves the subscription to past_due and starts a retry schedule
+ * - Each retry asks for payment again, with notices escalating from email to WhatsApp
+ * - Once the grace period runs out the holder is restricted to read-only access
+ * - A successful payment ends dunning and lifts the restriction
+ * - Every step is logged in payment_events (gateway 'dunning')
+ *
+ * Netcash Pay Now can't charge a stored card from our side, so a retry is a
+ * request to pay again through a new checkout from the billing page.
+ */
+
+import { db } from "../db";
+import {
+  subscriptions,
+  paymentEvents,
+  type Plan,
+  type Subscription,
+} from "../../shared/schema";
+import { eq } from "drizzle-orm";
+import { sendDunningNoticeEmail } from "../emails";
+import { sendWhatsAppMessage } from "../whatsapp";
+import { getBillingContact, getBillingPageUrl, formatPlanName } from "./billing-notices";
+import type { Holder } from "./entitlements";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DunningStage = 'due' | 'failed' | 'reminder' | 'final' | 'restricted' | 'restored';
+
+export interface DunningConfig {
+  retryDays: number[]; // Days after the failure that a retry goes out
+  graceDays: number; // Days after the failure before access is restricted
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stages that also go out on WhatsApp - earlier notices are email only
+const WHATSAPP_STAGES: DunningStage[] = ['final', 'restricted', 'restored'];
+
+/**
+ * Retry schedule and grace period, from DUNNING_RETRY_DAYS (e.g. "1,3,5")
+ * and DUNNING_GRACE_DAYS
+ */
+export function getDunningConfig(): DunningConfig {
+  const retryDays = (process.env.DUNNING_RETRY_DAYS || '1,3,5')
+    .split(',')
+    .map(day => parseInt(day.trim(), 10))
+    .filter(day => Number.isFinite(day) && day > 0);
+  const graceDays = parseInt(process.env.DUNNING_GRACE_DAYS || '7', 10);
+
+  return {
+    retryDays: Array.from(new Set(retryDays)).sort((a, b) => a - b),
+    graceDays: Number.isFinite(graceDays) && graceDays >= 0 ? graceDays : 7,
+  };
+}
+
+/**
+ * When the first scheduled step after `afterDays` is due, or null when the schedule is done
+ *
+ * The schedule is every retry day plus the end of the grace period.
+ */
+function nextDunningAt(pastDueSince: Date, afterDays: number, config: DunningConfig): Date | null {
+  const next = [...config.retryDays, config.graceDays]
+    .sort((a, b) => a - b)
+    .find(day => day > afterDays);
+  return next === undefined ? null : new Date(pastDueSince.getTime() + next * DAY_MS);
+}
+
+export function getRestrictionDate(pastDueSince: Date, config: DunningConfig = getDunningConfig()): Date {
+  return new Date(pastDueSince.getTime() + config.graceDays * DAY_MS);
+}
+
+/**
+ * Whether the holder's subscription is restricted for non-payment
+ */
+export function isRestricted(subscription: Pick<Subscription, 'status' | 'restrictedAt'>): boolean {
+  return subscription.status === 'past_due' && !!subscription.restrictedAt;
+}
+
+// ============================================================================
+// EVENT LOG & NOTICES
+// ============================================================================
+
+/**
+ * Record a dunning step in payment_events
+ *
+ * Event IDs are derived from the subscription, dunning start and step, so a
+ * step that is re-run is only logged once.
+ */
+async function logDunningEvent(
+  subscription: Subscription,
+  eventType: string,
+  step: number,
+  details: Record<string, unknown> = {}
+): Promise<void> {
+  const since = subscription.pastDueSince?.getTime() ?? 0;
+
+  await db.insert(paymentEvents)
+    .values({
+      gateway: 'dunning',
+      eventId: `dunning-${subscription.id}-${since}-${step}-${eventType}`,
+      eventType,
+      payload: {
+        subscriptionId: subscription.id,
+        holderType: subscription.holderType,
+        holderId: subscription.holderId,
+        step,
+        ...details,
+      },
+      processed: 1,
+      processedAt: new Date(),
+    })
+    .onConflictDoNothing({ target: paymentEvents.eventId });
+
+  console.log(`[Dunning] ${eventType} for subscription ${subscription.id} (step ${step})`);
+}
+
+function formatAmount(cents: number): string {
+  return `R${(cents / 100).toFixed(2)}`;
+}
+
+function whatsAppNotice(stage: DunningStage, planName: string, amount: string, billingUrl: string): string {
+  switch (stage) {
+    case 'restored':
+      return `Sebenza Hub: thank you, your payment of ${amount} was received and your ${planName} account is fully active again.`;
+    case 'restricted':
+      return `Sebenza Hub: your ${planName} account is now read-only because ${amount} is overdue. Pay now to restore access: ${billingUrl}`;
+    default:
+      return `Sebenza Hub: your ${planName} payment of ${amount} is overdue and your account will soon be restricted. Pay now: ${billingUrl}`;
+  }
+}
+
+/**
+ * Send a dunning notice to the holder's billing contact
+ * @returns the channels the notice went out on
+ */
+async function sendDunningNotice(
+  subscription: Subscription,
+  plan: Plan,
+  stage: DunningStage,
+  restrictOn?: Date
+): Promise<string[]> {
+  const holder = { type: subscription.holderType, id: subscription.holderId } as Holder;
+  const contact = await getBillingContact(holder);
+  const planName = formatPlanName(plan);
+  const amount = formatAmount(plan.priceCents);
+  const billingUrl = getBillingPageUrl(holder);
+  const channels: string[] = [];
+
+  if (contact.email) {
+    try {
+      await sendDunningNoticeEmail({ email: contact.email, name: contact.name, planName, stage, amount, restrictOn, billingUrl });
+      channels.push('email');
+    } catch (error) {
+      console.error(`[Dunning] Failed to email ${stage} notice for subscription ${subscription.id}:`, error);
+    }
+  }
+
+  if (contact.phone && WHATSAPP_STAGES.includes(stage)) {
+    try {
+      if (await sendWhatsAppMessage(contact.phone, whatsAppNotice(stage, planName, amount, billingUrl))) {
+        channels.push('whatsapp');
+      }
+    } catch (error) {
+      console.error(`[Dunning] Failed to send WhatsApp ${stage} notice for subscription ${subscription.id}:`, error);
+    }
+  }
+
+  return channels;
+}
+
+// ============================================================================
+// DUNNING STEPS
+// ============================================================================
+
+/**
+ * Start dunning for a subscription that has just gone past_due
+ *
+ * The first notice asks for payment of a renewal (`due`) or reports a declined payment (`failed`).
+ */
+export async function startDunning(
+  subscription: Subscription,
+  plan: Plan,
+  reason: string,
+  stage: 'due' | 'failed' = 'failed'
+): Promise<Subscription> {
+  const config = getDunningConfig();
+  const now = new Date();
+  const restrictOn = getRestrictionDate(now, config);
+
+  const [updated] = await db.update(subscriptions)
+    .set({
+      pastDueSince: now,
+      dunningAttempts: 0,
+      nextDunningAt: nextDunningAt(now, -1, config),
+      restrictedAt: null,
+      updatedAt: now,
+    })
+    .where(eq(subscriptions.id, subscription.id))
+    .returning();
+
+  await logDunningEvent(updated, 'dunning.started', 0, {
+    reason,
+    nextDunningAt: updated.nextDunningAt?.toISOString() ?? null,
+    restrictOn: restrictOn.toISOString(),
+  });
+
+  const channels = await sendDunningNotice(updated, plan, stage, restrictOn);
+  await logDunningEvent(updated, 'dunning.notice_sent', 0, { stage, channels });
+
+  return updated;
+}
+
+/**
+ * Run a past_due subscription's next scheduled step: a payment retry with an
+ * escalating notice, or the restriction once the grace period has run out
+ */
+export async function processDunningStep(subscription: Subscription, plan: Plan, now: Date = new Date()): Promise<DunningStage> {
+  const config = getDunningConfig();
+  const pastDueSince = subscription.pastDueSince ?? now;
+  const dueAt = subscription.nextDunningAt ?? now;
+  const dueDay = Math.round((dueAt.getTime() - pastDueSince.getTime()) / DAY_MS);
+  const step = subscription.dunningAttempts + 1;
+  const restrictOn = getRestrictionDate(pastDueSince, config);
+  const next = nextDunningAt(pastDueSince, dueDay, config);
+
+  const restrict = !subscription.restrictedAt && dueDay >= config.graceDays;
+  const stage: DunningStage = restrict || subscription.restrictedAt
+    ? 'restricted'
+    : next && next.getTime() === restrictOn.getTime() ? 'final' : 'reminder';
+
+  const [updated] = await db.update(subscriptions)
+    .set({
+      dunningAttempts: step,
+      nextDunningAt: next,
+      restrictedAt: restrict ? now : subscription.restrictedAt,
+      updatedAt: now,
+    })
+    .where(eq(subscriptions.id, subscription.id))
+    .returning();
+
+  if (restrict) {
+    await logDunningEvent(updated, 'dunning.restricted', step, { graceDays: config.graceDays });
+  } else {
+    await logDunningEvent(updated, 'dunning.retry', step, {
+      nextDunningAt: next?.toISOString() ?? null,
+    });
+  }
+
+  // Restriction reminders repeat the restricted notice without a new date
+  const channels = await sendDunningNotice(updated, plan, stage, stage === 'restricted' ? undefined : restrictOn);
+  await logDunningEvent(updated, 'dunning.notice_sent', step, { stage, channels });
+
+  return stage;
+}
+
+/**
+ * End dunning after a successful payment and lift any restriction
+ */
+export async function endDunning(subscription: Subscription, plan: Plan, paymentReference: string): Promise<void> {
+  const wasRestricted = !!subscription.restrictedAt;
+
+  await db.update(subscriptions)
+    .set({
+      pastDueSince: null,
+      dunningAttempts: 0,
+      nextDunningAt: null,
+      restrictedAt: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(subscriptions.id, subscription.id));
+
+  // Logged against the dunning run that just ended
+  await logDunningEvent(subscription, 'dunning.recovered', subscription.dunningAttempts, {
+    paymentReference,
+    wasRestricted,
+  });
+
+  const channels = await sendDunningNotice(subscription, plan, 'restored');
+  await logDunningEvent(subscription, 'dunning.notice_sent', subscription.dunningAttempts + 1, { stage: 'restored', channels });
+}
@@ -3,8 +3,10 @@
  * 
  * Handles all feature-gating logic for the billing system.
  * - Check if a user/org is allowed to use a feature
- * - Consume (increment) usage for quota-based features
+ * - Consume (increment) usage for quota-based and metered features
+ * - Price metered usage past the included amount as overage
  * - Get current usage and limits for display
+ * - Past-due accounts restricted by dunning can't consume usage
  */
 
 import { db } from "../db";
@@ -21,8 +23,10 @@ import {
   type FeatureEntitlement,
   type Usage,
 } from "../../shared/schema";
-import { eq, and, gte, lte, sql } from "drizzle-orm";
+import { eq, and, or, gte, lte, sql, inArray } from "drizzle-orm";
 import { sendPricingPlanSelectedEmail } from "../emails";
+import { overageUnitsFor, recordOverage, getOverageSpend, getOverageTotals, getSpendingLimit } from "./overage";
+import { isRestricted } from "./dunning";
 
 // ============================================================================
 // TYPES
@@ -39,6 +43,8 @@ export interface CheckResult {
   remaining?: number;
   limit?: number;
   used?: number;
+  overageUnits?: number; // METERED: units of this request past the included amount
+  overageCents?: number;
 }
 
 export interface ConsumeResult extends CheckResult {
@@ -53,6 +59,27 @@ export interface EntitlementInfo {
   limit: number | null; // null = unlimited
   used: number;
   remaining: number | null;
+  overageUnitCents?: number | null; // METERED only
+  overageUnits?: number;
+  overageCents?: number;
+}
+
+export interface OverageEstimate {
+  periodStart: Date;
+  periodEnd: Date;
+  features: Array<{
+    featureKey: string;
+    featureName: string;
+    unit: string | null;
+    included: number;
+    used: number;
+    overageUnits: number;
+    unitCents: number;
+    amountCents: number;
+  }>;
+  totalCents: number;
+  spendingLimitCents: number | null;
+  remainingCents: number | null;
 }
 
 // ============================================================================
@@ -68,14 +95,20 @@ export interface EntitlementInfo {
 async function getActiveSubscription(holder: Holder): Promise<Subscription | null> {
   const now = new Date();
   
-  // Try to find existing active subscription
+  // Try to find existing active subscription (trials get the plan's full entitlements;
+  // past-due ones keep the plan through dunning, restricted once the grace period ends)
   const [sub] = await db.select()
     .from(subscriptions)
     .where(and(
       eq(subscriptions.holderType, holder.type),
       eq(subscriptions.holderId, holder.id),
-      eq(subscriptions.status, 'active'),
-      gte(subscriptions.currentPeriodEnd, now) // Not expired
+      or(
+        and(
+          inArray(subscriptions.status, ['active', 'trialing']),
+          gte(subscriptions.currentPeriodEnd, now) // Not expired
+        ),
+        eq(subscriptions.status, 'past_due')
+      )
     ))
     .limit(1);
   
@@ -353,6 +386,14 @@ export async function checkAllowed(
   // 4. Check feature kind
   const { feature, ...entitlement } = ent;
   
+  // Restricted for non-payment: read-only access, so nothing that consumes usage
+  if (isRestricted(subscription) && feature.kind !== 'TOGGLE') {
+    return {
+      ok: false,
+      reason: 'ACCOUNT_RESTRICTED',
+    };
+  }
+  
   if (feature.kind === 'TOGGLE') {
     // Toggle features: just check enabled flag
     return {
@@ -379,9 +420,40 @@ export async function checkAllowed(
   }
   
   if (feature.kind === 'METERED') {
-    // Metered features: always allowed (will be billed later)
+    // Metered features: usage past the included amount is billed as overage,
+    // up to the holder's spending limit (if any)
+    const period = getCurrentPeriod(subscription);
+    const currentUsage = await getUsage(holder, featureKey, period.start, period.end);
+    
+    const included = (entitlement.monthlyCap ?? 0) + currentUsage.extraAllowance;
+    const overageUnits = overageUnitsFor(currentUsage.used, included, increment);
+    const overageCents = overageUnits * (entitlement.overageUnitCents ?? 0);
+    
+    if (overageCents > 0) {
+      const spendingLimit = await getSpendingLimit(holder);
+      if (spendingLimit !== null) {
+        const spent = await getOverageSpend(holder, period.start);
+        if (spent + overageCents > spendingLimit) {
+          return {
+            ok: false,
+            reason: 'SPENDING_LIMIT_REACHED',
+            limit: included,
+            used: currentUsage.used,
+            remaining: Math.max(0, included - currentUsage.used),
+            overageUnits,
+            overageCents,
+          };
+        }
+      }
+    }
+    
     return {
       ok: true,
+      limit: included,
+      used: currentUsage.used,
+      remaining: Math.max(0, included - currentUsage.used),
+      overageUnits,
+      overageCents,
     };
   }
   
@@ -436,7 +508,35 @@ export async function consume(
     };
   }
   
-  // For TOGGLE and METERED, just return success
+  if (ent.feature.kind === 'METERED') {
+    const period = getCurrentPeriod(subscription);
+    const newUsed = await incrementUsage(holder, featureKey, period.start, period.end, increment);
+    
+    // Price the units that went past the included amount
+    if (allowed.overageUnits && ent.overageUnitCents) {
+      await recordOverage({
+        holder,
+        subscriptionId: subscription.id,
+        featureKey,
+        periodStart: period.start,
+        periodEnd: period.end,
+        units: allowed.overageUnits,
+        unitCents: ent.overageUnitCents,
+      });
+    }
+    
+    return {
+      ok: true,
+      newUsed,
+      used: newUsed,
+      limit: allowed.limit,
+      remaining: allowed.limit !== undefined ? Math.max(0, allowed.limit - newUsed) : undefined,
+      overageUnits: allowed.overageUnits,
+      overageCents: allowed.overageCents,
+    };
+  }
+  
+  // For TOGGLE, just return success
   return {
     ok: true,
     newUsed: 0,
@@ -499,14 +599,21 @@ export async function getEntitlements(holder: Holder): Promise<EntitlementInfo[]
         remaining: totalAllowed - currentUsage.used,
       });
     } else if (feature.kind === 'METERED') {
+      const currentUsage = await getUsage(holder, feature.key, period.start, period.end);
+      const included = (entitlement.monthlyCap ?? 0) + currentUsage.extraAllowance;
+      const overageUnits = Math.max(0, currentUsage.used - included);
+      
       result.push({
         featureKey: feature.key,
         featureName: feature.name,
         kind: feature.kind,
         enabled: true,
-        limit: null,
-        used: 0, // Metered usage would be tracked differently
-        remaining: null,
+        limit: included,
+        used: currentUsage.used,
+        remaining: Math.max(0, included - currentUsage.used),
+        overageUnitCents: entitlement.overageUnitCents,
+        overageUnits,
+        overageCents: overageUnits * (entitlement.overageUnitCents ?? 0),
       });
     }
   }
@@ -514,6 +621,65 @@ export async function getEntitlements(holder: Holder): Promise<EntitlementInfo[]
   return result;
 }
 
+// ============================================================================
+// OVERAGE
+// ============================================================================
+
+/**
+ * Running overage for the holder's current billing period (for the Billing dashboards)
+ *
+ * Amounts come from the recorded overage lines, so they match what the billing
+ * cron will invoice even if the plan's unit price changed mid-period.
+ */
+export async function getOverageEstimate(holder: Holder): Promise<OverageEstimate | null> {
+  const subscription = await getActiveSubscription(holder);
+  if (!subscription) return null;
+  
+  const period = getCurrentPeriod(subscription);
+  
+  const meteredEntitlements = await db.select({
+    entitlement: featureEntitlements,
+    feature: features,
+  })
+    .from(featureEntitlements)
+    .innerJoin(features, eq(featureEntitlements.featureKey, features.key))
+    .where(and(
+      eq(featureEntitlements.planId, subscription.planId),
+      eq(features.kind, 'METERED')
+    ));
+  
+  const totals = await getOverageTotals(holder, period.start);
+  
+  const result: OverageEstimate['features'] = [];
+  for (const { entitlement, feature } of meteredEntitlements) {
+    const currentUsage = await getUsage(holder, feature.key, period.start, period.end);
+    const featureTotals = totals.filter(t => t.featureKey === feature.key);
+    
+    result.push({
+      featureKey: feature.key,
+      featureName: feature.name,
+      unit: feature.unit,
+      included: (entitlement.monthlyCap ?? 0) + currentUsage.extraAllowance,
+      used: currentUsage.used,
+      overageUnits: featureTotals.reduce((sum, t) => sum + t.units, 0),
+      unitCents: entitlement.overageUnitCents ?? 0,
+      amountCents: featureTotals.reduce((sum, t) => sum + t.amountCents, 0),
+    });
+  }
+  
+  const totalCents = totals.reduce((sum, t) => sum + t.amountCents, 0);
+  const spendingLimitCents = await getSpendingLimit(holder);
+  
+  return {
+    periodStart: period.start,
+    periodEnd: period.end,
+    features: result,
+    totalCents,
+    spendingLimitCents,
+    remainingCents: spendingLimitCents === null ? null : Math.max(0, spendingLimitCents - totalCents),
+  };
+}
+
 // ============================================================================
 // ADMIN HELPERS
 // ============================================================================
@@ -543,6 +709,43 @@ export async function grantExtraAllowance(
     .where(eq(usage.id, currentUsage.id));
 }
 
+/**
+ * Carry usage from one period into another
+ * 
+ * Used when a plan change starts a new period mid-way: counts already used
+ * are kept and checked against the new plan's caps rather than starting at 0.
+ */
+export async function carryOverUsage(
+  holder: Holder,
+  from: { start: Date; end: Date },
+  to: { start: Date; end: Date }
+): Promise<number> {
+  const previous = await db.select()
+    .from(usage)
+    .where(and(
+      eq(usage.holderType, holder.type),
+      eq(usage.holderId, holder.id),
+      eq(usage.periodStart, from.start),
+      eq(usage.periodEnd, from.end)
+    ));
+  
+  if (previous.length === 0) return 0;
+  
+  await db.insert(usage)
+    .values(previous.map(row => ({
+      holderType: holder.type,
+      holderId: holder.id,
+      featureKey: row.featureKey,
+      periodStart: to.start,
+      periodEnd: to.end,
+      used: row.used,
+      extraAllowance: row.extraAllowance,
+    })))
+    .onConflictDoNothing();
+  
+  return previous.length;
+}
+
 /**
  * Reset usage for a holder/feature (for monthly resets)
  */
@@ -0,0 +1,320 @@
+/**
+ * Invoice Service
+ *
+ * VAT tax invoices for paid subscription periods.
+ * - One invoice per subscription billing period (idempotent on subscription + period start)
+ * - A separate overage invoice for a period's METERED usage past the included amount
+ * - Sequential, gapless invoice numbers (INV-000001, INV-000002, ...)
+ * - Plan prices are VAT-inclusive; VAT is split out at the standard 15% rate
+ * - Buyer and supplier details (registration / VAT number, address) are snapshotted at issue time
+ */
+
+import { db } from "../db";
+import {
+  invoices,
+  features,
+  organizations,
+  memberships,
+  users,
+  type Invoice,
+  type InvoiceBillTo,
+  type InvoiceLineItem,
+  type InvoiceSeller,
+  type Plan,
+  type Subscription,
+} from "../../shared/schema";
+import { eq, and, desc, sql, inArray } from "drizzle-orm";
+import type { Holder } from "./entitlements";
+import { getOverageTotals, markOverageInvoiced } from "./overage";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const VAT_RATE_PERCENT = 15;
+
+// Retries when two invoices race for the same sequence number
+const MAX_NUMBERING_ATTEMPTS = 5;
+
+/**
+ * Supplier details printed on invoices issued now; each invoice keeps its own copy
+ */
+export function getInvoiceSeller(): InvoiceSeller {
+  return {
+    name: process.env.INVOICE_SELLER_NAME || 'Sebenza Hub (Pty) Ltd',
+    registrationNumber: process.env.INVOICE_SELLER_REGISTRATION_NUMBER || '',
+    vatNumber: process.env.INVOICE_SELLER_VAT_NUMBER || '',
+    address: process.env.INVOICE_SELLER_ADDRESS || 'South Africa',
+    email: process.env.INVOICE_SELLER_EMAIL || 'billing@sebenzahub.co.za',
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Split a VAT-inclusive amount into subtotal and VAT
+ */
+export function splitVat(totalCents: number, ratePercent: number = VAT_RATE_PERCENT) {
+  const subtotalCents = Math.round(totalCents * 100 / (100 + ratePercent));
+  return { subtotalCents, vatCents: totalCents - subtotalCents, totalCents };
+}
+
+export function formatInvoiceNumber(sequenceNumber: number): string {
+  return `INV-${String(sequenceNumber).padStart(6, '0')}`;
+}
+
+function isUniqueViolation(error: any): boolean {
+  return error?.code === '23505';
+}
+
+/**
+ * Snapshot of the buyer as it should appear on the invoice - also the
+ * contact for billing notices
+ */
+export async function resolveBillTo(holder: Holder): Promise<InvoiceBillTo> {
+  if (holder.type === 'org') {
+    const [org] = await db.select()
+      .from(organizations)
+      .where(eq(organizations.id, holder.id));
+
+    const [owner] = await db.select({ email: users.email })
+      .from(memberships)
+      .innerJoin(users, eq(memberships.userId, users.id))
+      .where(and(
+        eq(memberships.organizationId, holder.id),
+        eq(memberships.role, 'owner')
+      ))
+      .limit(1);
+
+    return {
+      name: org?.name || 'Organization',
+      email: owner?.email,
+      registrationNumber: org?.registrationNumber || undefined,
+      vatNumber: org?.vatNumber || undefined,
+      address: org?.billingAddress || [org?.city, org?.province].filter(Boolean).join(', ') || undefined,
+    };
+  }
+
+  const [user] = await db.select()
+    .from(users)
+    .where(eq(users.id, holder.id));
+
+  const name = [user?.firstName, user?.lastName].filter(Boolean).join(' ');
+  return {
+    name: name || user?.email || 'Customer',
+    email: user?.email,
+  };
+}
+
+// ============================================================================
+// ISSUING
+// ============================================================================
+
+/**
+ * Issue the tax invoice for a subscription period
+ *
+ * Safe to call more than once for the same period: the existing invoice is
+ * returned (and marked paid when `paid` is set). Free plans are not invoiced.
+ * A `creditCents` (prorated upgrade) is shown as its own line and deducted.
+ */
+export async function issueInvoice(
+  subscription: Subscription,
+  plan: Plan,
+  periodStart: Date,
+  periodEnd: Date,
+  options: { paid?: boolean; creditCents?: number } = {}
+): Promise<Invoice | null> {
+  const creditCents = options.creditCents ?? 0;
+  if (plan.priceCents - creditCents <= 0) return null;
+
+  const [existing] = await db.select()
+    .from(invoices)
+    .where(and(
+      eq(invoices.subscriptionId, subscription.id),
+      eq(invoices.kind, 'subscription'),
+      eq(invoices.periodStart, periodStart)
+    ));
+
+  if (existing) {
+    return options.paid && existing.status === 'issued' ? markInvoicePaid(existing) : existing;
+  }
+
+  const description = `Sebenza Hub ${plan.product} ${plan.tier} subscription (${plan.interval})`;
+  const lineItems: InvoiceLineItem[] | undefined = creditCents > 0
+    ? [
+        { description, quantity: 1, unitCents: plan.priceCents, amountCents: plan.priceCents },
+        { description: 'Credit for unused time on previous plan', quantity: 1, unitCents: -creditCents, amountCents: -creditCents },
+      ]
+    : undefined;
+
+  const invoice = await insertInvoice({
+    subscriptionId: subscription.id,
+    kind: 'subscription',
+    planId: plan.id,
+    holder: { type: subscription.holderType, id: subscription.holderId } as Holder,
+    periodStart,
+    periodEnd,
+    description,
+    currency: plan.currency,
+    totalCents: plan.priceCents - creditCents,
+    lineItems,
+    paid: options.paid,
+  });
+
+  // Another process issued this period first
+  return invoice ?? issueInvoice(subscription, plan, periodStart, periodEnd, options);
+}
+
+/**
+ * Invoice a period's unbilled METERED overage
+ *
+ * Called by the billing cron when the period ends. Returns null when there
+ * is nothing to bill or the period's overage was already invoiced.
+ */
+export async function issueOverageInvoice(
+  subscription: Subscription,
+  periodStart: Date,
+  periodEnd: Date
+): Promise<Invoice | null> {
+  const holder = { type: subscription.holderType, id: subscription.holderId } as Holder;
+  const totals = await getOverageTotals(holder, periodStart, { unbilledOnly: true });
+  const totalCents = totals.reduce((sum, t) => sum + t.amountCents, 0);
+  if (totalCents <= 0) return null;
+
+  const featureRows = await db.select()
+    .from(features)
+    .where(inArray(features.key, totals.map(t => t.featureKey)));
+  const featureNames = new Map(featureRows.map(f => [f.key, f.name]));
+
+  const lineItems: InvoiceLineItem[] = totals.map(t => ({
+    description: `${featureNames.get(t.featureKey) || t.featureKey} - usage over plan allowance`,
+    quantity: t.units,
+    unitCents: t.unitCents,
+    amountCents: t.amountCents,
+  }));
+
+  const invoice = await insertInvoice({
+    subscriptionId: subscription.id,
+    kind: 'overage',
+    planId: subscription.planId,
+    holder,
+    periodStart,
+    periodEnd,
+    description: 'Sebenza Hub usage overage',
+    currency: 'ZAR',
+    totalCents,
+    lineItems,
+  });
+
+  if (invoice) {
+    await markOverageInvoiced(holder, periodStart, invoice.id);
+  }
+
+  return invoice;
+}
+
+/**
+ * Insert an invoice under the next sequence number
+ *
+ * Returns null if the subscription already has an invoice of this kind for the period.
+ */
+async function insertInvoice(params: {
+  subscriptionId: string;
+  kind: 'subscription' | 'overage';
+  planId: string;
+  holder: Holder;
+  periodStart: Date;
+  periodEnd: Date;
+  description: string;
+  currency: string;
+  totalCents: number;
+  lineItems?: InvoiceLineItem[];
+  paid?: boolean;
+}): Promise<Invoice | null> {
+  const { holder } = params;
+  const billTo = await resolveBillTo(holder);
+  const amounts = splitVat(params.totalCents);
+  const now = new Date();
+
+  for (let attempt = 1; attempt <= MAX_NUMBERING_ATTEMPTS; attempt++) {
+    const [{ lastSequence }] = await db.select({
+      lastSequence: sql<number>`coalesce(max(${invoices.sequenceNumber}), 0)::int`,
+    }).from(invoices);
+    const sequenceNumber = lastSequence + 1;
+
+    try {
+      const [invoice] = await db.insert(invoices)
+        .values({
+          sequenceNumber,
+          invoiceNumber: formatInvoiceNumber(sequenceNumber),
+          subscriptionId: params.subscriptionId,
+          kind: params.kind,
+          planId: params.planId,
+          holderType: holder.type,
+          holderId: holder.id,
+          periodStart: params.periodStart,
+          periodEnd: params.periodEnd,
+          description: params.description,
+          lineItems: params.lineItems ?? null,
+          currency: params.currency,
+          ...amounts,
+          vatRate: VAT_RATE_PERCENT,
+          billTo,
+          seller: getInvoiceSeller(),
+          status: params.paid ? 'paid' : 'issued',
+          paidAt: params.paid ? now : null,
+          issuedAt: now,
+        })
+        .onConflictDoNothing({ target: [invoices.subscriptionId, invoices.kind, invoices.periodStart] })
+        .returning();
+
+      if (invoice) {
+        console.log(`[Invoices] Issued ${params.kind} invoice ${invoice.invoiceNumber} for subscription ${params.subscriptionId} (${holder.type}:${holder.id})`);
+      }
+      return invoice ?? null;
+    } catch (error) {
+      // A concurrent invoice took this number - take the next one
+      if (!isUniqueViolation(error) || attempt === MAX_NUMBERING_ATTEMPTS) throw error;
+    }
+  }
+
+  return null;
+}
+
+export async function markInvoicePaid(invoice: Invoice): Promise<Invoice> {
+  const [updated] = await db.update(invoices)
+    .set({ status: 'paid', paidAt: new Date() })
+    .where(eq(invoices.id, invoice.id))
+    .returning();
+
+  console.log(`[Invoices] ${invoice.invoiceNumber} marked paid`);
+  return updated;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function listInvoices(holder: Holder): Promise<Invoice[]> {
+  return db.select()
+    .from(invoices)
+    .where(and(
+      eq(invoices.holderType, holder.type),
+      eq(invoices.holderId, holder.id)
+    ))
+    .orderBy(desc(invoices.sequenceNumber));
+}
+
+export async function getInvoice(holder: Holder, invoiceId: string): Promise<Invoice | null> {
+  const [invoice] = await db.select()
+    .from(invoices)
+    .where(and(
+      eq(invoices.id, invoiceId),
+      eq(invoices.holderType, holder.type),
+      eq(invoices.holderId, holder.id)
+    ));
+
+  return invoice || null;
+}
@@ -0,0 +1,237 @@
+/**
+ * Job Search Service
+ *
+ * Server-side search over Live jobs for the individual portal.
+ * - Full-text search over title, summary and required skills
+ * - Filters on location, work arrangement, seniority, salary, type, industry and closing date
+ * - Facet counts for the filter dropdowns
+ * - Keyset (cursor) pagination ordered by newest first
+ */
+
+import { db } from "../db";
+import {
+  jobs,
+  JOB_SEARCH_FACETS,
+  type Job,
+  type JobSearchQuery,
+  type JobSearchFacet,
+  type JobSearchFacetCounts,
+  type SavedSearchFilters,
+} from "../../shared/schema";
+import { and, desc, gt, sql, type SQL } from "drizzle-orm";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface JobSearchResult {
+  jobs: Job[];
+  total: number;
+  nextCursor: string | null;
+  facets: JobSearchFacetCounts;
+}
+
+interface JobCursor {
+  createdAt: string; // Postgres timestamp text - keeps microsecond precision
+  id: string;
+}
+
+// ============================================================================
+// SQL EXPRESSIONS
+// ============================================================================
+
+// Comprehensive jobs keep these in JSONB; legacy rows fall back to the flat columns
+const closingDateExpr = sql`left(coalesce(${jobs.application}->>'closingDate', ${jobs.admin}->>'closingDate'), 10)`;
+const salaryLowExpr = sql`coalesce((${jobs.compensation}->>'min')::numeric, (${jobs.compensation}->>'max')::numeric, ${jobs.salaryMin}, ${jobs.salaryMax})`;
+const salaryHighExpr = sql`coalesce((${jobs.compensation}->>'max')::numeric, (${jobs.compensation}->>'min')::numeric, ${jobs.salaryMax}, ${jobs.salaryMin})`;
+
+// requiredSkills holds { skill, ... } objects, or plain strings on legacy jobs
+const skillsTextExpr = sql`coalesce(
+  jsonb_path_query_array(${jobs.core}->'requiredSkills', '$[*].skill')::text || ' ' ||
+  jsonb_path_query_array(${jobs.core}->'requiredSkills', '$[*] ? (@.type() == "string")')::text,
+  ''
+)`;
+
+const searchDocumentExpr = sql`to_tsvector('english',
+  coalesce(${jobs.title}, '') || ' ' ||
+  coalesce(${jobs.core}->>'summary', '') || ' ' ||
+  ${skillsTextExpr}
+)`;
+
+const facetExpressions: Record<JobSearchFacet, SQL> = {
+  province: sql`${jobs.core}->'location'->>'province'`,
+  city: sql`${jobs.core}->'location'->>'city'`,
+  workArrangement: sql`${jobs.core}->>'workArrangement'`,
+  seniority: sql`${jobs.core}->>'seniority'`,
+  employmentType: sql`${jobs.employmentType}`,
+  industry: sql`coalesce(${jobs.industry}, ${jobs.companyDetails}->>'industry')`,
+};
+
+// ============================================================================
+// CURSOR
+// ============================================================================
+
+// Cursors carry jobs.createdAt as Postgres prints it ("2025-01-02 10:11:12.123456")
+const CURSOR_TIMESTAMP = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,6})?$/;
+
+/**
+ * Whether a cursor's createdAt is a real timestamp Postgres will cast. Date.parse alone
+ * accepts values like "1" and rolls days like Feb 30 over into the next month.
+ */
+function isCursorTimestamp(value: string): boolean {
+  if (!CURSOR_TIMESTAMP.test(value)) return false;
+  const seconds = value.slice(0, 19).replace(" ", "T");
+  const parsed = Date.parse(`${seconds}Z`);
+  return !Number.isNaN(parsed) && new Date(parsed).toISOString().startsWith(seconds);
+}
+
+function encodeCursor(cursor: JobCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * Decode a cursor from the previous page. Returns null for anything malformed
+ * so a stale or tampered cursor restarts from the first page.
+ */
+function decodeCursor(value: string | undefined): JobCursor | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (typeof parsed?.createdAt === "string" && isCursorTimestamp(parsed.createdAt) && typeof parsed?.id === "string") {
+      return { createdAt: parsed.createdAt, id: parsed.id };
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+// ============================================================================
+// FILTERS
+// ============================================================================
+
+/**
+ * Build the WHERE conditions for a search
+ * @param excludeFacet - Leave this facet's own filter out, so its counts show every option
+ */
+function buildConditions(query: SavedSearchFilters, excludeFacet?: JobSearchFacet): SQL[] {
+  const conditions: SQL[] = [sql`${jobs.admin}->>'status' = 'Live'`];
+
+  if (query.q) {
+    // Title and company substring match keeps partial words ("dev") working
+    const like = `%${query.q}%`;
+    conditions.push(sql`(
+      ${searchDocumentExpr} @@ websearch_to_tsquery('english', ${query.q})
+      OR ${jobs.title} ILIKE ${like}
+      OR ${jobs.company} ILIKE ${like}
+    )`);
+  }
+
+  for (const facet of JOB_SEARCH_FACETS) {
+    const value = query[facet];
+    if (value && facet !== excludeFacet) {
+      conditions.push(sql`lower(${facetExpressions[facet]}) = lower(${value})`);
+    }
+  }
+
+  // Salary range matches any job whose range overlaps the requested one
+  if (query.salaryMin !== undefined) {
+    conditions.push(sql`${salaryHighExpr} >= ${query.salaryMin}`);
+  }
+  if (query.salaryMax !== undefined) {
+    conditions.push(sql`${salaryLowExpr} <= ${query.salaryMax}`);
+  }
+
+  if (query.closingAfter) {
+    conditions.push(sql`${closingDateExpr} >= ${query.closingAfter}`);
+  }
+  if (query.closingBefore) {
+    conditions.push(sql`${closingDateExpr} <= ${query.closingBefore}`);
+  }
+
+  return conditions;
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+async function countFacet(query: JobSearchQuery, facet: JobSearchFacet): Promise<{ value: string; count: number }[]> {
+  const expr = facetExpressions[facet];
+  const rows = await db.select({
+    value: sql<string>`${expr}`,
+    count: sql<number>`count(*)::int`,
+  })
+    .from(jobs)
+    .where(and(...buildConditions(query, facet), sql`coalesce(${expr}, '') <> ''`))
+    .groupBy(expr)
+    .orderBy(desc(sql`count(*)`), expr);
+
+  return rows;
+}
+
+/**
+ * Search Live jobs
+ *
+ * Results are ordered newest first. Pass the returned nextCursor back as
+ * query.cursor to fetch the following page; it is null on the last page.
+ */
+export async function searchJobs(query: JobSearchQuery): Promise<JobSearchResult> {
+  const conditions = buildConditions(query);
+  const cursor = decodeCursor(query.cursor);
+
+  const pageConditions = cursor
+    ? [...conditions, sql`(${jobs.createdAt}, ${jobs.id}) < (${cursor.createdAt}::timestamp, ${cursor.id})`]
+    : conditions;
+
+  const [rows, [{ total }], facetCounts] = await Promise.all([
+    db.select({ job: jobs, cursorAt: sql<string>`${jobs.createdAt}::text` })
+      .from(jobs)
+      .where(and(...pageConditions))
+      .orderBy(desc(jobs.createdAt), desc(jobs.id))
+      .limit(query.limit + 1),
+    db.select({ total: sql<number>`count(*)::int` })
+      .from(jobs)
+      .where(and(...conditions)),
+    Promise.all(JOB_SEARCH_FACETS.map(facet => countFacet(query, facet))),
+  ]);
+
+  // One extra row was fetched to tell whether another page exists
+  const hasMore = rows.length > query.limit;
+  const page = hasMore ? rows.slice(0, query.limit) : rows;
+  const last = page[page.length - 1];
+
+  const facets = Object.fromEntries(
+    JOB_SEARCH_FACETS.map((facet, i) => [facet, facetCounts[i]])
+  ) as JobSearchFacetCounts;
+
+  return {
+    jobs: page.map(row => row.job),
+    total,
+    nextCursor: hasMore && last ? encodeCursor({ createdAt: last.cursorAt, id: last.job.id }) : null,
+    facets,
+  };
+}
+
+/**
+ * Live jobs matching a saved filter set that were posted after a given time
+ *
+ * Used for the "N new jobs" badge on saved searches and for new-match alerts.
+ * @param limit - Maximum jobs returned; total always counts every match
+ */
+export async function findNewMatchingJobs(
+  filters: SavedSearchFilters,
+  postedAfter: Date,
+  limit = 10
+): Promise<{ jobs: Job[]; total: number }> {
+  const conditions = [...buildConditions(filters), gt(jobs.createdAt, postedAfter)];
+
+  const [matches, [{ total }]] = await Promise.all([
+    limit > 0
+      ? db.select().from(jobs).where(and(...conditions)).orderBy(desc(jobs.createdAt)).limit(limit)
+      : Promise.resolve([] as Job[]),
+    db.select({ total: sql<number>`count(*)::int` }).from(jobs).where(and(...conditions)),
+  ]);
+
+  return { jobs: matches, total };
+}
@@ -0,0 +1,216 @@
+/**
+ * Knockout Rules Service
+ *
+ * Deterministic knockout rules for roles, e.g. "certifications contains Code 10"
+ * or "work_authorization contains citizen".
+ * - Rules are checked against the candidate's parsed profile before any AI call
+ * - A candidate who fails a rule is knocked out without an AI screening (and without using a credit)
+ * - The failed rules and the candidate's actual values are kept on the screening
+ */
+
+import { knockoutRuleSchema, type KnockoutRule, type KnockoutRuleField } from "../../shared/schema";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const FIELD_LABELS: Record<KnockoutRuleField, string> = {
+  work_authorization: "Work authorization",
+  city: "City",
+  country: "Country",
+  availability: "Availability",
+  skills: "Skills",
+  certifications: "Certifications",
+  qualifications: "Qualifications",
+  years_experience: "Years of experience",
+  salary_expectation: "Salary expectation",
+};
+
+const OPERATOR_LABELS: Record<KnockoutRule['operator'], string> = {
+  equals: "is",
+  not_equals: "is not",
+  contains: "includes",
+  not_contains: "does not include",
+  one_of: "is one of",
+  gte: "is at least",
+  lte: "is at most",
+  exists: "is provided",
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type ProfileValue = string | string[] | number | null;
+
+/** The parsed candidate data knockout rules can test */
+export type KnockoutProfile = Record<KnockoutRuleField, ProfileValue>;
+
+export interface FailedKnockoutRule {
+  rule: KnockoutRule;
+  actual: ProfileValue;
+  reason: string;
+}
+
+/** Stored in `screenings.knockout` for candidates knocked out by rules */
+export interface RuleKnockout {
+  is_ko: true;
+  source: 'rules';
+  reasons: string[];
+  failed_rules: FailedKnockoutRule[];
+}
+
+// ============================================================================
+// PROFILE
+// ============================================================================
+
+function parseDate(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const parsed = Date.parse(value);
+  if (!Number.isNaN(parsed)) return parsed;
+
+  const year = value.match(/\b(19|20)\d{2}\b/);
+  return year ? Date.UTC(Number(year[0]), 0, 1) : null;
+}
+
+/**
+ * Years of experience from dated roles, counting overlapping roles once.
+ * Null when no role has a usable start date.
+ */
+export function experienceYears(experience: Array<{ start_date?: string | null; end_date?: string | null; is_current?: number | null }>): number | null {
+  const spans = experience
+    .map(role => {
+      const start = parseDate(role.start_date);
+      const end = role.is_current || !role.end_date ? Date.now() : parseDate(role.end_date);
+      return start !== null && end !== null && end > start ? [start, end] as const : null;
+    })
+    .filter((span): span is readonly [number, number] => span !== null)
+    .sort((a, b) => a[0] - b[0]);
+
+  if (spans.length === 0) return null;
+
+  let total = 0;
+  let [currentStart, currentEnd] = spans[0];
+  for (const [start, end] of spans.slice(1)) {
+    if (start > currentEnd) {
+      total += currentEnd - currentStart;
+      [currentStart, currentEnd] = [start, end];
+    } else {
+      currentEnd = Math.max(currentEnd, end);
+    }
+  }
+  total += currentEnd - currentStart;
+
+  return Math.round(total / (365.25 * 24 * 60 * 60 * 1000) * 10) / 10;
+}
+
+/**
+ * A salary amount from free text like "R25 000 pm", "25k" or "R 300,000 per annum"
+ */
+export function parseSalary(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = value.replace(/(\d)[\s,](?=\d{3}\b)/g, '$1').match(/(\d+(?:\.\d+)?)\s*(k\b)?/i);
+  if (!match) return null;
+  return Number(match[1]) * (match[2] ? 1000 : 1);
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+function isMissing(value: ProfileValue): boolean {
+  return value === null || (typeof value === 'string' && !value.trim()) || (Array.isArray(value) && value.length === 0);
+}
+
+function formatValue(value: KnockoutRule['value'] | ProfileValue): string {
+  if (Array.isArray(value)) return value.join(', ');
+  return value === null || value === undefined ? '' : String(value);
+}
+
+/**
+ * How a rule reads to a recruiter, e.g. "Certifications includes Code 10"
+ */
+export function describeKnockoutRule(rule: KnockoutRule): string {
+  if (rule.label) return rule.label;
+  const value = rule.operator === 'exists' ? '' : ` ${formatValue(rule.value)}`;
+  return `${FIELD_LABELS[rule.field]} ${OPERATOR_LABELS[rule.operator]}${value}`;
+}
+
+/**
+ * Whether a profile value satisfies a rule. Missing data only satisfies the
+ * negative operators (nothing excluded is present).
+ */
+function satisfies(rule: KnockoutRule, actual: ProfileValue): boolean {
+  if (isMissing(actual)) {
+    return rule.operator === 'not_equals' || rule.operator === 'not_contains';
+  }
+  if (rule.operator === 'exists') {
+    return true;
+  }
+
+  if (typeof actual === 'number') {
+    const expected = Number(rule.value);
+    switch (rule.operator) {
+      case 'gte': return actual >= expected;
+      case 'lte': return actual <= expected;
+      case 'equals': return actual === expected;
+      case 'not_equals': return actual !== expected;
+      default: return false;
+    }
+  }
+
+  // Text fields are tested like a one-item list
+  const items = (Array.isArray(actual) ? actual : [actual as string]).map(normalize);
+  const expected = (Array.isArray(rule.value) ? rule.value : [String(rule.value)]).map(normalize);
+
+  switch (rule.operator) {
+    case 'equals': return items.some(item => item === expected[0]);
+    case 'not_equals': return !items.some(item => item === expected[0]);
+    case 'contains': return items.some(item => item.includes(expected[0]));
+    case 'not_contains': return !items.some(item => item.includes(expected[0]));
+    case 'one_of': return items.some(item => expected.includes(item));
+    default: return false;
+  }
+}
+
+/**
+ * Check a role's knockout rules against a candidate profile.
+ * Malformed stored rules are ignored rather than knocking everyone out.
+ * @returns the knockout to record, or null when the candidate passes every rule
+ */
+export function evaluateKnockoutRules(rules: unknown, profile: KnockoutProfile): RuleKnockout | null {
+  const failed: FailedKnockoutRule[] = [];
+
+  for (const stored of Array.isArray(rules) ? rules : []) {
+    const parsed = knockoutRuleSchema.safeParse(stored);
+    if (!parsed.success) {
+      console.warn(`[Screening] Ignoring invalid knockout rule:`, stored);
+      continue;
+    }
+
+    const rule = parsed.data;
+    const actual = profile[rule.field];
+    if (!satisfies(rule, actual)) {
+      failed.push({
+        rule,
+        actual,
+        reason: isMissing(actual)
+          ? `${describeKnockoutRule(rule)} (no ${FIELD_LABELS[rule.field].toLowerCase()} on profile)`
+          : `${describeKnockoutRule(rule)} (candidate: ${formatValue(actual)})`,
+      });
+    }
+  }
+
+  if (failed.length === 0) {
+    return null;
+  }
+
+  return {
+    is_ko: true,
+    source: 'rules',
+    reasons: failed.map(failure => failure.reason),
+    failed_rules: failed,
+  };
+}
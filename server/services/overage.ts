@@ -0,0 +1,151 @@
+/**
+ * Overage Service
+ *
+ * Priced usage of METERED features past the plan's included amount.
+ * - Overage lines are recorded as usage happens, at the plan's overageUnitCents
+ * - Optional per-holder spending limit caps overage spend per billing period
+ * - The billing cron invoices a period's unbilled lines when the period rolls
+ */
+
+import { db } from "../db";
+import {
+  overageCharges,
+  spendingLimits,
+  type OverageCharge,
+} from "../../shared/schema";
+import { eq, and, isNull, sql } from "drizzle-orm";
+import type { Holder } from "./entitlements";
+
+// ============================================================================
+// PRICING
+// ============================================================================
+
+/**
+ * Units of an increment that fall past the included amount
+ *
+ * e.g. 8 used of 10 included, consuming 5 → 3 overage units
+ */
+export function overageUnitsFor(used: number, included: number, increment: number): number {
+  const before = Math.max(0, used - included);
+  const after = Math.max(0, used + increment - included);
+  return after - before;
+}
+
+// ============================================================================
+// OVERAGE LINES
+// ============================================================================
+
+export async function recordOverage(params: {
+  holder: Holder;
+  subscriptionId: string;
+  featureKey: string;
+  periodStart: Date;
+  periodEnd: Date;
+  units: number;
+  unitCents: number;
+}): Promise<OverageCharge> {
+  const [charge] = await db.insert(overageCharges).values({
+    holderType: params.holder.type,
+    holderId: params.holder.id,
+    subscriptionId: params.subscriptionId,
+    featureKey: params.featureKey,
+    periodStart: params.periodStart,
+    periodEnd: params.periodEnd,
+    units: params.units,
+    unitCents: params.unitCents,
+    amountCents: params.units * params.unitCents,
+  }).returning();
+
+  console.log(`[Overage] ${params.holder.type}:${params.holder.id} ${params.featureKey} +${params.units} units (${charge.amountCents}c)`);
+  return charge;
+}
+
+/**
+ * Total overage recorded for a holder in the billing period starting at periodStart
+ */
+export async function getOverageSpend(holder: Holder, periodStart: Date): Promise<number> {
+  const [row] = await db.select({
+    total: sql<number>`coalesce(sum(${overageCharges.amountCents}), 0)::int`,
+  })
+    .from(overageCharges)
+    .where(and(
+      eq(overageCharges.holderType, holder.type),
+      eq(overageCharges.holderId, holder.id),
+      eq(overageCharges.periodStart, periodStart)
+    ));
+
+  return row?.total ?? 0;
+}
+
+/**
+ * Overage for a period grouped by feature and unit price
+ */
+export async function getOverageTotals(holder: Holder, periodStart: Date, options: { unbilledOnly?: boolean } = {}) {
+  return db.select({
+    featureKey: overageCharges.featureKey,
+    unitCents: overageCharges.unitCents,
+    units: sql<number>`sum(${overageCharges.units})::int`,
+    amountCents: sql<number>`sum(${overageCharges.amountCents})::int`,
+  })
+    .from(overageCharges)
+    .where(and(
+      eq(overageCharges.holderType, holder.type),
+      eq(overageCharges.holderId, holder.id),
+      eq(overageCharges.periodStart, periodStart),
+      options.unbilledOnly ? isNull(overageCharges.invoiceId) : undefined
+    ))
+    .groupBy(overageCharges.featureKey, overageCharges.unitCents);
+}
+
+/**
+ * Attach a period's unbilled overage lines to the invoice that bills them
+ */
+export async function markOverageInvoiced(holder: Holder, periodStart: Date, invoiceId: string): Promise<void> {
+  await db.update(overageCharges)
+    .set({ invoiceId })
+    .where(and(
+      eq(overageCharges.holderType, holder.type),
+      eq(overageCharges.holderId, holder.id),
+      eq(overageCharges.periodStart, periodStart),
+      isNull(overageCharges.invoiceId)
+    ));
+}
+
+// ============================================================================
+// SPENDING LIMITS
+// ============================================================================
+
+/**
+ * Holder's overage limit per billing period in cents, or null when unlimited
+ */
+export async function getSpendingLimit(holder: Holder): Promise<number | null> {
+  const [limit] = await db.select()
+    .from(spendingLimits)
+    .where(and(
+      eq(spendingLimits.holderType, holder.type),
+      eq(spendingLimits.holderId, holder.id)
+    ));
+
+  return limit ? limit.limitCents : null;
+}
+
+/**
+ * Set (or with null, remove) the holder's spending limit
+ */
+export async function setSpendingLimit(holder: Holder, limitCents: number | null): Promise<void> {
+  if (limitCents === null) {
+    await db.delete(spendingLimits)
+      .where(and(
+        eq(spendingLimits.holderType, holder.type),
+        eq(spendingLimits.holderId, holder.id)
+      ));
+    return;
+  }
+
+  await db.insert(spendingLimits)
+    .values({ holderType: holder.type, holderId: holder.id, limitCents })
+    .onConflictDoUpdate({
+      target: [spendingLimits.holderType, spendingLimits.holderId],
+      set: { limitCents, updatedAt: new Date() },
+    });
+}
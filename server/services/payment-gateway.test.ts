@@ -0,0 +1,104 @@
+import { describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { FakeGateway, signCheckout } from "./payment-gateway";
+
+const SECRET = "test-secret";
+
+function checkout(gateway: FakeGateway, amountCents = 19900) {
+  return gateway.createCheckout({
+    reference: "SH-TEST-1",
+    subscriptionId: "sub-1",
+    amountCents,
+    description: "Sebenza Hub recruiter standard (monthly)",
+  });
+}
+
+describe("createCheckout", () => {
+  it("signs the reference, amount and subscription into Extra3", () => {
+    const gateway = new FakeGateway(SECRET);
+    const { fields } = checkout(gateway);
+
+    assert.equal(fields.p2, "SH-TEST-1");
+    assert.equal(fields.p4, "199.00");
+    assert.equal(fields.m4, "sub-1");
+    assert.equal(fields.m6, signCheckout(SECRET, "SH-TEST-1", "199.00", "sub-1"));
+  });
+});
+
+describe("verifyNotification", () => {
+  it("accepts a signed notification the gateway has a transaction for", async () => {
+    const gateway = new FakeGateway(SECRET);
+    const notification = gateway.buildNotification(checkout(gateway).fields, "accepted", "trace-1");
+
+    const event = await gateway.verifyNotification(notification);
+
+    assert.ok(event);
+    assert.equal(event.type, "payment.succeeded");
+    assert.equal(event.reference, "SH-TEST-1");
+    assert.equal(event.subscriptionId, "sub-1");
+    assert.equal(event.amountCents, 19900);
+  });
+
+  it("rejects a notification without an Extra3 signature", async () => {
+    const gateway = new FakeGateway(SECRET);
+    const { Extra3, ...unsigned } = gateway.buildNotification(checkout(gateway).fields, "accepted", "trace-1");
+
+    assert.equal(await gateway.verifyNotification(unsigned), null);
+  });
+
+  it("rejects a tampered or foreign signature", async () => {
+    const gateway = new FakeGateway(SECRET);
+    const notification = gateway.buildNotification(checkout(gateway).fields, "accepted", "trace-1");
+
+    assert.equal(await gateway.verifyNotification({ ...notification, Extra3: "0".repeat(64) }), null);
+    assert.equal(await gateway.verifyNotification({
+      ...notification,
+      Extra3: signCheckout("another-secret", "SH-TEST-1", "199.00", "sub-1"),
+    }), null);
+  });
+
+  it("rejects a signed notification moved to another subscription or amount", async () => {
+    const gateway = new FakeGateway(SECRET);
+    const notification = gateway.buildNotification(checkout(gateway).fields, "accepted", "trace-1");
+
+    assert.equal(await gateway.verifyNotification({ ...notification, Extra1: "sub-2" }), null);
+    assert.equal(await gateway.verifyNotification({ ...notification, Amount: "1.00" }), null);
+  });
+
+  it("rejects a signed notification the gateway has no transaction for", async () => {
+    const gateway = new FakeGateway(SECRET);
+    const { fields } = checkout(gateway);
+    const notification = new FakeGateway(SECRET).buildNotification(fields, "accepted", "trace-1");
+
+    assert.equal(await gateway.verifyNotification(notification), null);
+  });
+
+  it("takes the outcome and amount from the transaction lookup, not the notify", async () => {
+    const gateway = new FakeGateway(SECRET);
+    const notification = gateway.buildNotification(checkout(gateway).fields, "accepted", "trace-1");
+    mock.method(gateway, "lookupTransaction", async (reference: string) => ({
+      reference,
+      accepted: false,
+      amountCents: 100,
+      reason: "Insufficient funds",
+    }));
+
+    const event = await gateway.verifyNotification({ ...notification, TransactionAccepted: "true" });
+
+    assert.ok(event);
+    assert.equal(event.type, "payment.failed");
+    assert.equal(event.amountCents, 100);
+    assert.equal(event.reason, "Insufficient funds");
+  });
+
+  it("gives every notify for a reference and outcome the same event ID", async () => {
+    const gateway = new FakeGateway(SECRET);
+    const notification = gateway.buildNotification(checkout(gateway).fields, "accepted", "trace-1");
+
+    const first = await gateway.verifyNotification(notification);
+    const replay = await gateway.verifyNotification({ ...notification, RequestTrace: "trace-2" });
+
+    assert.equal(first?.eventId, "fake_SH-TEST-1_accepted");
+    assert.equal(replay?.eventId, first?.eventId);
+  });
+});
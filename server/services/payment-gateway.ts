@@ -0,0 +1,305 @@
+/**
+ * Payment Gateway Adapters
+ *
+ * Builds checkout requests and verifies payment notifications.
+ * - NetcashGateway: Netcash Pay Now (hosted payment page + notify callback)
+ * - FakeGateway: local stand-in with the same request/notify shape, for development and tests
+ *
+ * Pay Now notifications are not signed by Netcash, so every checkout request
+ * carries our own HMAC signature in Extra3 (m6). Netcash echoes the Extra fields
+ * back in the notify callback, where the signature ties the reference, amount
+ * and subscription to a checkout we started. The signature is visible to the
+ * browser, so it says nothing about whether the payment went through: the
+ * outcome and amount always come from a server-to-server transaction lookup.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type GatewayName = 'netcash' | 'fake';
+
+export type GatewayEventType = 'payment.succeeded' | 'payment.failed';
+
+export interface CheckoutRequest {
+  reference: string; // Unique per payment attempt (Netcash p2)
+  subscriptionId: string;
+  amountCents: number;
+  description: string;
+  email?: string;
+}
+
+export interface CheckoutSession {
+  url: string;
+  method: 'POST';
+  fields: Record<string, string>; // Submitted as a form to the hosted payment page
+}
+
+export interface GatewayEvent {
+  eventId: string; // Idempotency key, one per payment reference and confirmed outcome
+  type: GatewayEventType;
+  reference: string;
+  subscriptionId: string;
+  amountCents: number;
+  reason?: string;
+  payload: Record<string, string>;
+}
+
+export interface TransactionStatus {
+  reference: string;
+  accepted: boolean;
+  amountCents: number;
+  reason?: string;
+}
+
+export interface PaymentGateway {
+  name: GatewayName;
+  createCheckout(request: CheckoutRequest): CheckoutSession;
+  /** The gateway's own record of a transaction, or null when it has none */
+  lookupTransaction(reference: string): Promise<TransactionStatus | null>;
+  /**
+   * Returns null when the notification is not authentic, is malformed, or the
+   * gateway has no record of the transaction
+   */
+  verifyNotification(body: Record<string, unknown>): Promise<GatewayEvent | null>;
+}
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+const NETCASH_PAYNOW_URL = 'https://paynow.netcash.co.za/site/paynow.aspx';
+const NETCASH_TRANSACTION_STATUS_URL = 'https://ws.netcash.co.za/PayNow/TransactionStatus/Check';
+// Netcash's default software vendor key for merchants without their own
+const NETCASH_DEFAULT_VENDOR_KEY = '24ade73c-98cf-47b3-99be-cc7b867b3080';
+
+function formatAmount(amountCents: number): string {
+  return (amountCents / 100).toFixed(2);
+}
+
+function parseAmountCents(amount: unknown): number {
+  const value = parseFloat(String(amount ?? ''));
+  return Number.isFinite(value) ? Math.round(value * 100) : NaN;
+}
+
+export function signCheckout(secret: string, reference: string, amount: string, subscriptionId: string): string {
+  return createHmac('sha256', secret)
+    .update(`${reference}|${amount}|${subscriptionId}`)
+    .digest('hex');
+}
+
+function signaturesMatch(expected: string, received: string): boolean {
+  const a = Buffer.from(expected, 'utf8');
+  const b = Buffer.from(received, 'utf8');
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function toStringRecord(body: Record<string, unknown>): Record<string, string> {
+  const record: Record<string, string> = {};
+  for (const [key, value] of Object.entries(body || {})) {
+    if (value !== undefined && value !== null) {
+      record[key] = String(value);
+    }
+  }
+  return record;
+}
+
+// ============================================================================
+// NETCASH PAY NOW
+// ============================================================================
+
+export class NetcashGateway implements PaymentGateway {
+  name: GatewayName = 'netcash';
+
+  constructor(
+    private serviceKey: string,
+    private signingSecret: string,
+    private vendorKey: string = NETCASH_DEFAULT_VENDOR_KEY,
+    private paymentUrl: string = NETCASH_PAYNOW_URL,
+    private transactionStatusUrl: string = NETCASH_TRANSACTION_STATUS_URL,
+  ) {}
+
+  createCheckout(request: CheckoutRequest): CheckoutSession {
+    const amount = formatAmount(request.amountCents);
+
+    const fields: Record<string, string> = {
+      M1: this.serviceKey,
+      M2: this.vendorKey,
+      p2: request.reference,
+      p3: request.description.slice(0, 50),
+      p4: amount,
+      Budget: 'N',
+      m4: request.subscriptionId, // Extra1
+      m5: request.reference, // Extra2
+      m6: signCheckout(this.signingSecret, request.reference, amount, request.subscriptionId), // Extra3
+    };
+
+    if (request.email) {
+      fields.m9 = request.email;
+    }
+
+    return { url: this.paymentUrl, method: 'POST', fields };
+  }
+
+  /**
+   * Look up a Pay Now transaction by our payment reference
+   *
+   * The status response carries the same TransactionAccepted, Reference,
+   * Amount and Reason fields as the notify callback.
+   */
+  async lookupTransaction(reference: string): Promise<TransactionStatus | null> {
+    const url = new URL(this.transactionStatusUrl);
+    url.searchParams.set('ServiceKey', this.serviceKey);
+    url.searchParams.set('Reference', reference);
+
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Netcash transaction lookup for ${reference} failed with status ${response.status}`);
+    }
+
+    const status = toStringRecord(await response.json());
+    const amountCents = parseAmountCents(status.Amount);
+    if (status.Reference !== reference || Number.isNaN(amountCents)) {
+      return null;
+    }
+
+    return {
+      reference,
+      accepted: status.TransactionAccepted?.toLowerCase() === 'true',
+      amountCents,
+      reason: status.Reason || undefined,
+    };
+  }
+
+  /**
+   * Verify a Pay Now notify callback
+   *
+   * Netcash posts TransactionAccepted, Reference, Amount, RequestTrace, Reason
+   * and the Extra1-3 fields from the original request. Only the signed Extra
+   * fields are taken from the callback; the outcome and amount come from
+   * lookupTransaction().
+   */
+  async verifyNotification(body: Record<string, unknown>): Promise<GatewayEvent | null> {
+    const payload = toStringRecord(body);
+    const subscriptionId = payload.Extra1;
+    const reference = payload.Reference || payload.Extra2;
+    const signature = payload.Extra3;
+    const amountCents = parseAmountCents(payload.Amount);
+
+    if (!subscriptionId || !reference || !signature || Number.isNaN(amountCents)) {
+      return null;
+    }
+
+    const expected = signCheckout(this.signingSecret, reference, formatAmount(amountCents), subscriptionId);
+    if (!signaturesMatch(expected, signature)) {
+      return null;
+    }
+
+    const transaction = await this.lookupTransaction(reference);
+    if (!transaction) {
+      return null;
+    }
+
+    return {
+      // A reference is paid at most once, however often the notify is posted
+      eventId: `${this.name}_${reference}_${transaction.accepted ? 'accepted' : 'declined'}`,
+      type: transaction.accepted ? 'payment.succeeded' : 'payment.failed',
+      reference,
+      subscriptionId,
+      amountCents: transaction.amountCents,
+      reason: transaction.reason,
+      payload,
+    };
+  }
+}
+
+// ============================================================================
+// FAKE GATEWAY
+// ============================================================================
+
+/**
+ * Local gateway that mimics Pay Now
+ *
+ * Checkout posts to /api/billing/fake-gateway/pay, and buildNotification()
+ * produces the same notify payload Netcash would send. Each notification built
+ * is recorded as a transaction, so lookups only confirm payments the fake
+ * gateway actually took.
+ */
+export class FakeGateway extends NetcashGateway {
+  name: GatewayName = 'fake';
+
+  private transactions = new Map<string, TransactionStatus>();
+
+  constructor(secret: string, paymentUrl = '/api/billing/fake-gateway/pay') {
+    super('fake-service-key', secret, 'fake-vendor-key', paymentUrl);
+  }
+
+  async lookupTransaction(reference: string): Promise<TransactionStatus | null> {
+    return this.transactions.get(reference) ?? null;
+  }
+
+  buildNotification(
+    fields: Record<string, string>,
+    outcome: 'accepted' | 'declined',
+    requestTrace: string,
+  ): Record<string, string> {
+    this.transactions.set(fields.p2, {
+      reference: fields.p2,
+      accepted: outcome === 'accepted',
+      amountCents: parseAmountCents(fields.p4),
+      reason: outcome === 'accepted' ? undefined : 'Declined by fake gateway',
+    });
+
+    return {
+      TransactionAccepted: outcome === 'accepted' ? 'true' : 'false',
+      CardHolderIpAddr: '127.0.0.1',
+      RequestTrace: requestTrace,
+      Reference: fields.p2,
+      Extra1: fields.m4,
+      Extra2: fields.m5,
+      Extra3: fields.m6,
+      Amount: fields.p4,
+      Method: '1',
+      Reason: outcome === 'accepted' ? '' : 'Declined by fake gateway',
+    };
+  }
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+let gateway: PaymentGateway | null = null;
+
+/**
+ * Get the configured gateway
+ *
+ * Uses Netcash when NETCASH_SERVICE_KEY and NETCASH_SIGNING_SECRET are set.
+ * Outside production it falls back to the fake gateway (or PAYMENT_GATEWAY=fake
+ * forces it); in production the fake gateway is never used.
+ */
+export function getPaymentGateway(): PaymentGateway {
+  if (gateway) return gateway;
+
+  const serviceKey = process.env.NETCASH_SERVICE_KEY;
+  const signingSecret = process.env.NETCASH_SIGNING_SECRET;
+
+  const useFake = process.env.PAYMENT_GATEWAY === 'fake' || !serviceKey || !signingSecret;
+
+  if (!useFake) {
+    gateway = new NetcashGateway(serviceKey, signingSecret, process.env.NETCASH_VENDOR_KEY || undefined);
+    console.log('[Payments] Using Netcash Pay Now gateway');
+  } else if (process.env.NODE_ENV !== 'production') {
+    gateway = new FakeGateway(signingSecret || process.env.SESSION_SECRET || 'fake-gateway-secret');
+    console.warn('[Payments] Netcash not configured, using fake payment gateway');
+  } else {
+    throw new Error('Netcash is not configured - set NETCASH_SERVICE_KEY and NETCASH_SIGNING_SECRET');
+  }
+
+  return gateway;
+}
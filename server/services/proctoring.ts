@@ -0,0 +1,183 @@
+/**
+ * Proctoring Service
+ *
+ * Rule-based risk scoring of competency test attempts, run when an attempt is submitted.
+ * - Rules look at fullscreen exits, tab switches, copy/paste, answers given faster than
+ *   anyone could read the question, and other candidates taking the same test from the same IP
+ * - Points from the rules that fire add up to the attempt's fraud score (0-100), and the
+ *   rules are kept on the attempt so reviewers can see why
+ * - Attempts at or above the review threshold are flagged; a recruiter clears or invalidates
+ *   them with notes. Invalidated attempts don't pass.
+ */
+
+import { db } from "../db";
+import { testAttempts, testItems, type ReviewTestAttempt, type TestAttempt, type TestResponse } from "../../shared/schema";
+import { eq, and, ne, inArray } from "drizzle-orm";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const RULE_POINTS = {
+  fullscreenExit: { each: 5, max: 20 },
+  tabSwitch: { each: 5, max: 25 },
+  copyPaste: { each: 10, max: 30 },
+  fastCorrectAnswer: { each: 10, max: 30 },
+  sharedIp: { each: 15, max: 30 },
+};
+
+// Fraud score at which an attempt needs a recruiter's review
+const REVIEW_THRESHOLD = 40;
+
+// A correct answer given this soon after the previous one wasn't read first
+const FAST_ANSWER_MS = 1000;
+
+// Self-report items have no right answer to rush to
+const UNTIMED_FORMATS = ['likert'];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ProctoringRule = keyof typeof RULE_POINTS;
+
+export interface RiskFactor {
+  rule: ProctoringRule;
+  detail: string;
+  points: number;
+}
+
+export interface ProctoringAssessment {
+  fraudScore: number;
+  riskFactors: RiskFactor[];
+  reviewRequired: number; // 1 = flagged for review
+}
+
+export type ReviewAttemptResult =
+  | { ok: true; attempt: TestAttempt }
+  | { ok: false; reason: 'NOT_FOUND' | 'NOT_SUBMITTED' };
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+function ruleFactor(rule: ProctoringRule, count: number, detail: string): RiskFactor | null {
+  if (count <= 0) return null;
+  const { each, max } = RULE_POINTS[rule];
+  return { rule, detail, points: Math.min(max, count * each) };
+}
+
+/**
+ * Correct answers saved less than FAST_ANSWER_MS after the previous answer (or the start of the attempt)
+ */
+async function countFastCorrectAnswers(
+  attempt: Pick<TestAttempt, 'startedAt'>,
+  responses: Array<Pick<TestResponse, 'itemId' | 'isCorrect' | 'answeredAt'>>
+): Promise<number> {
+  if (responses.length === 0) return 0;
+
+  const items = await db.select({ id: testItems.id, format: testItems.format })
+    .from(testItems)
+    .where(inArray(testItems.id, responses.map(response => response.itemId)));
+  const untimed = new Set(items.filter(item => UNTIMED_FORMATS.includes(item.format)).map(item => item.id));
+
+  const ordered = [...responses].sort((a, b) => a.answeredAt.getTime() - b.answeredAt.getTime());
+
+  let previous = attempt.startedAt.getTime();
+  let count = 0;
+  for (const response of ordered) {
+    const answeredAt = response.answeredAt.getTime();
+    if (response.isCorrect === 1 && !untimed.has(response.itemId) && answeredAt - previous < FAST_ANSWER_MS) {
+      count++;
+    }
+    previous = answeredAt;
+  }
+  return count;
+}
+
+/**
+ * Other candidates who took the same test from the attempt's IP address
+ */
+async function countSharedIpCandidates(attempt: Pick<TestAttempt, 'id' | 'testId' | 'candidateId' | 'ipAddress'>): Promise<number> {
+  if (!attempt.ipAddress) return 0;
+
+  const others = await db.select({ candidateId: testAttempts.candidateId })
+    .from(testAttempts)
+    .where(and(
+      eq(testAttempts.testId, attempt.testId),
+      eq(testAttempts.ipAddress, attempt.ipAddress),
+      ne(testAttempts.candidateId, attempt.candidateId)
+    ));
+
+  return new Set(others.map(other => other.candidateId)).size;
+}
+
+/**
+ * Score an attempt's proctoring risk from its final event counts and responses
+ */
+export async function assessProctoringRisk(
+  attempt: Pick<TestAttempt, 'id' | 'testId' | 'candidateId' | 'ipAddress' | 'startedAt' | 'fullscreenExits' | 'tabSwitches' | 'copyPasteAttempts'>,
+  responses: Array<Pick<TestResponse, 'itemId' | 'isCorrect' | 'answeredAt'>>
+): Promise<ProctoringAssessment> {
+  const [fastCorrectAnswers, sharedIpCandidates] = await Promise.all([
+    countFastCorrectAnswers(attempt, responses),
+    countSharedIpCandidates(attempt),
+  ]);
+
+  const riskFactors = [
+    ruleFactor('fullscreenExit', attempt.fullscreenExits, `Left fullscreen ${attempt.fullscreenExits} time(s)`),
+    ruleFactor('tabSwitch', attempt.tabSwitches, `Switched tabs ${attempt.tabSwitches} time(s)`),
+    ruleFactor('copyPaste', attempt.copyPasteAttempts, `Copied or pasted ${attempt.copyPasteAttempts} time(s)`),
+    ruleFactor('fastCorrectAnswer', fastCorrectAnswers, `${fastCorrectAnswers} correct answer(s) in under a second`),
+    ruleFactor('sharedIp', sharedIpCandidates, `${sharedIpCandidates} other candidate(s) took this test from the same IP address`),
+  ].filter((factor): factor is RiskFactor => factor !== null);
+
+  const fraudScore = Math.min(100, riskFactors.reduce((sum, factor) => sum + factor.points, 0));
+  return { fraudScore, riskFactors, reviewRequired: fraudScore >= REVIEW_THRESHOLD ? 1 : 0 };
+}
+
+// ============================================================================
+// REVIEW
+// ============================================================================
+
+/**
+ * Record a recruiter's review of a submitted attempt: cleared, or invalidated so it can't pass
+ */
+export async function reviewAttempt(
+  testId: string,
+  attemptId: string,
+  reviewerId: string,
+  input: ReviewTestAttempt
+): Promise<ReviewAttemptResult> {
+  const [attempt] = await db.select()
+    .from(testAttempts)
+    .where(and(eq(testAttempts.id, attemptId), eq(testAttempts.testId, testId)));
+
+  if (!attempt) {
+    return { ok: false, reason: 'NOT_FOUND' };
+  }
+  if (attempt.status === 'in_progress') {
+    return { ok: false, reason: 'NOT_SUBMITTED' };
+  }
+
+  // Clearing a previously invalidated attempt restores its result from the cut scores
+  const missedCutScores = Array.isArray(attempt.missedCutScores) ? attempt.missedCutScores : [];
+  const passed = input.outcome === 'invalidated'
+    ? 0
+    : attempt.reviewOutcome === 'invalidated' ? (missedCutScores.length === 0 ? 1 : 0) : attempt.passed;
+
+  const [updated] = await db.update(testAttempts)
+    .set({
+      reviewRequired: 0,
+      reviewOutcome: input.outcome,
+      reviewNotes: input.notes,
+      reviewedAt: new Date(),
+      reviewedBy: reviewerId,
+      passed,
+    })
+    .where(eq(testAttempts.id, attemptId))
+    .returning();
+
+  console.log(`[Proctoring] Attempt ${attemptId} ${input.outcome} by ${reviewerId}`);
+  return { ok: true, attempt: updated };
+}
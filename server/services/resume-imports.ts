@@ -0,0 +1,355 @@
+/**
+ * Resume Import Service
+ *
+ * Bulk CV uploads for the ATS talent pool.
+ * - Recruiters upload many CVs at once, or ZIPs of CVs from job boards
+ * - Each CV is queued and parsed in the background worker, one job per file
+ * - Per-file progress and failures are kept on the import for the Candidates page
+ * - New candidates can optionally be screened against a chosen role
+ */
+
+import { db } from "../db";
+import {
+  resumeImports,
+  resumeImportFiles,
+  type ResumeImport,
+  type ResumeImportFile,
+} from "../../shared/schema";
+import { eq, and, desc, inArray, sql } from "drizzle-orm";
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import JSZip from "jszip";
+import { resumeImportQueue, screeningQueue } from "../queue";
+import { extractTextFromFile, mimetypeForFilename } from "../text-extraction";
+import { parseCVWithAI, isAIConfigured } from "../ai-cv-ingestion";
+import { ingestParsedResume } from "./resume-ingestion";
+import { getOwnedRole } from "./talent-pool";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MAX_IMPORT_FILES = 500;
+const MAX_RESUME_BYTES = 10 * 1024 * 1024; // Same limit as a single resume upload
+const IMPORT_DIR = path.join(process.cwd(), 'uploads', 'resume-imports');
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A file received by the bulk upload endpoint (multer disk storage) */
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  path: string;
+}
+
+export type ImportFileStatus = 'queued' | 'processing' | 'created' | 'duplicate' | 'failed';
+
+export interface ImportProgress {
+  total: number;
+  queued: number;
+  processing: number;
+  created: number;
+  duplicate: number;
+  failed: number;
+}
+
+export type CreateImportResult =
+  | { ok: true; resumeImport: ResumeImport; progress: ImportProgress }
+  | { ok: false; reason: 'QUEUE_UNAVAILABLE' | 'ROLE_NOT_FOUND' | 'NO_RESUMES' | 'TOO_MANY_FILES' };
+
+interface PendingFile {
+  filename: string;
+  mimetype: string;
+  filesizeBytes: number;
+  path: string | null;
+  error: string | null;
+}
+
+// ============================================================================
+// UPLOAD
+// ============================================================================
+
+function isZip(file: UploadedFile): boolean {
+  return file.mimetype === 'application/zip'
+    || file.mimetype === 'application/x-zip-compressed'
+    || path.extname(file.originalname).toLowerCase() === '.zip';
+}
+
+/**
+ * Unpack the CVs in a ZIP into the import directory. Folders, macOS metadata
+ * and hidden files are skipped; unsupported or oversized files are kept as
+ * failed entries so the recruiter can see what wasn't imported.
+ */
+async function unpackZip(zipPath: string, importDir: string, startIndex: number): Promise<PendingFile[]> {
+  const zip = await JSZip.loadAsync(await fs.readFile(zipPath));
+  const pending: PendingFile[] = [];
+
+  for (const entry of Object.values(zip.files)) {
+    const filename = path.posix.basename(entry.name);
+    if (entry.dir || entry.name.startsWith('__MACOSX/') || !filename || filename.startsWith('.')) {
+      continue;
+    }
+
+    const mimetype = mimetypeForFilename(filename);
+    if (!mimetype) {
+      pending.push({ filename, mimetype: 'application/octet-stream', filesizeBytes: 0, path: null, error: "Unsupported file type. Only TXT, PDF, DOC and DOCX files are imported." });
+      continue;
+    }
+
+    const content = await entry.async('nodebuffer');
+    if (content.length > MAX_RESUME_BYTES) {
+      pending.push({ filename, mimetype, filesizeBytes: content.length, path: null, error: "File is larger than 10MB" });
+      continue;
+    }
+
+    const filePath = path.join(importDir, `${startIndex + pending.length}${path.extname(filename).toLowerCase()}`);
+    await fs.writeFile(filePath, content);
+    pending.push({ filename, mimetype, filesizeBytes: content.length, path: filePath, error: null });
+  }
+
+  return pending;
+}
+
+/**
+ * Start a bulk import: unpack any ZIPs, record every CV and queue it for parsing.
+ * The uploaded temporary files are always removed.
+ */
+export async function createResumeImport(
+  organizationId: string,
+  userId: string,
+  roleId: string | null,
+  uploads: UploadedFile[]
+): Promise<CreateImportResult> {
+  const importId = randomUUID();
+  const importDir = path.join(IMPORT_DIR, importId);
+  const pending: PendingFile[] = [];
+
+  try {
+    if (!resumeImportQueue) {
+      return { ok: false, reason: 'QUEUE_UNAVAILABLE' };
+    }
+
+    if (roleId && !(await getOwnedRole(organizationId, roleId))) {
+      return { ok: false, reason: 'ROLE_NOT_FOUND' };
+    }
+
+    await fs.mkdir(importDir, { recursive: true });
+
+    for (const upload of uploads) {
+      if (isZip(upload)) {
+        pending.push(...await unpackZip(upload.path, importDir, pending.length));
+      } else {
+        const filePath = path.join(importDir, `${pending.length}${path.extname(upload.originalname).toLowerCase()}`);
+        await fs.rename(upload.path, filePath);
+        pending.push({ filename: upload.originalname, mimetype: upload.mimetype, filesizeBytes: upload.size, path: filePath, error: null });
+      }
+
+      if (pending.length > MAX_IMPORT_FILES) {
+        await fs.rm(importDir, { recursive: true, force: true });
+        return { ok: false, reason: 'TOO_MANY_FILES' };
+      }
+    }
+
+    if (pending.length === 0) {
+      await fs.rm(importDir, { recursive: true, force: true });
+      return { ok: false, reason: 'NO_RESUMES' };
+    }
+
+    const queued = pending.filter(file => !file.error);
+    const [resumeImport] = await db.insert(resumeImports)
+      .values({
+        id: importId,
+        organizationId,
+        createdBy: userId,
+        roleId,
+        totalFiles: pending.length,
+        status: queued.length > 0 ? 'processing' : 'completed',
+        completedAt: queued.length > 0 ? null : new Date(),
+      })
+      .returning();
+
+    const files = await db.insert(resumeImportFiles)
+      .values(pending.map(file => ({
+        importId,
+        filename: file.filename,
+        mimetype: file.mimetype,
+        filesizeBytes: file.filesizeBytes,
+        path: file.path,
+        status: file.error ? 'failed' : 'queued',
+        error: file.error,
+        processedAt: file.error ? new Date() : null,
+      })))
+      .returning();
+
+    for (const file of files.filter(file => file.status === 'queued')) {
+      await resumeImportQueue.add("parse-resume", { fileId: file.id });
+    }
+
+    console.log(`[ResumeImport] Import ${importId} queued ${queued.length} of ${pending.length} file(s) for organization ${organizationId}`);
+
+    return { ok: true, resumeImport, progress: summarizeFiles(files) };
+  } finally {
+    for (const upload of uploads) {
+      await fs.unlink(upload.path).catch(() => {});
+    }
+  }
+}
+
+// ============================================================================
+// PROCESSING (background worker)
+// ============================================================================
+
+/**
+ * Parse one queued CV into the talent pool and record the outcome.
+ * Failures are recorded on the file rather than thrown, so one bad CV
+ * doesn't hold up the rest of the import.
+ */
+export async function processResumeImportFile(fileId: string): Promise<void> {
+  const [file] = await db.select()
+    .from(resumeImportFiles)
+    .where(and(eq(resumeImportFiles.id, fileId), eq(resumeImportFiles.status, 'queued')));
+  if (!file) {
+    return;
+  }
+
+  const [resumeImport] = await db.select()
+    .from(resumeImports)
+    .where(eq(resumeImports.id, file.importId));
+  if (!resumeImport) {
+    return;
+  }
+
+  await db.update(resumeImportFiles)
+    .set({ status: 'processing' })
+    .where(eq(resumeImportFiles.id, fileId));
+
+  let outcome: Partial<ResumeImportFile>;
+  try {
+    if (!isAIConfigured()) {
+      throw new Error("AI integration is not configured");
+    }
+    if (!file.path) {
+      throw new Error("File is no longer available");
+    }
+
+    const text = await extractTextFromFile(file.path, file.mimetype);
+    if (!text.trim()) {
+      throw new Error("No text could be read from this file");
+    }
+
+    const parsedResult = await parseCVWithAI(text, file.filename, file.filesizeBytes || 0);
+    const result = await ingestParsedResume(resumeImport.organizationId, parsedResult, {
+      filename: file.filename,
+      filesizeBytes: file.filesizeBytes || 0,
+      rawText: file.mimetype === 'text/plain' ? text : null,
+    }, { userId: resumeImport.createdBy, autoScreen: false });
+
+    if (!result.duplicate && resumeImport.roleId && screeningQueue) {
+      await screeningQueue.add("screen", { roleId: resumeImport.roleId, candidateId: result.candidate.id });
+    }
+
+    outcome = { status: result.duplicate ? 'duplicate' : 'created', candidateId: result.candidate.id };
+  } catch (error: any) {
+    console.error(`[ResumeImport] Failed to import ${file.filename} (${fileId}):`, error);
+    outcome = { status: 'failed', error: error.message || "Failed to process resume" };
+  }
+
+  if (file.path) {
+    await fs.unlink(file.path).catch(() => {});
+  }
+
+  await db.update(resumeImportFiles)
+    .set({ ...outcome, path: null, processedAt: new Date() })
+    .where(eq(resumeImportFiles.id, fileId));
+
+  await completeImportIfDone(resumeImport.id);
+}
+
+async function completeImportIfDone(importId: string) {
+  const [{ remaining }] = await db.select({ remaining: sql<number>`count(*)::int` })
+    .from(resumeImportFiles)
+    .where(and(
+      eq(resumeImportFiles.importId, importId),
+      inArray(resumeImportFiles.status, ['queued', 'processing'])
+    ));
+
+  if (remaining > 0) {
+    return;
+  }
+
+  const [completed] = await db.update(resumeImports)
+    .set({ status: 'completed', completedAt: new Date() })
+    .where(and(eq(resumeImports.id, importId), eq(resumeImports.status, 'processing')))
+    .returning();
+
+  if (completed) {
+    await fs.rm(path.join(IMPORT_DIR, importId), { recursive: true, force: true });
+    console.log(`[ResumeImport] Import ${importId} completed`);
+  }
+}
+
+// ============================================================================
+// PROGRESS
+// ============================================================================
+
+function summarizeFiles(files: Array<Pick<ResumeImportFile, 'status'>>): ImportProgress {
+  const progress: ImportProgress = { total: files.length, queued: 0, processing: 0, created: 0, duplicate: 0, failed: 0 };
+  for (const file of files) {
+    progress[file.status as ImportFileStatus]++;
+  }
+  return progress;
+}
+
+/**
+ * An import with every file's status, for progress polling
+ */
+export async function getResumeImport(organizationId: string, importId: string) {
+  const [resumeImport] = await db.select()
+    .from(resumeImports)
+    .where(and(eq(resumeImports.id, importId), eq(resumeImports.organizationId, organizationId)));
+  if (!resumeImport) {
+    return null;
+  }
+
+  const files = await db.select({
+    id: resumeImportFiles.id,
+    filename: resumeImportFiles.filename,
+    status: resumeImportFiles.status,
+    candidateId: resumeImportFiles.candidateId,
+    error: resumeImportFiles.error,
+    processedAt: resumeImportFiles.processedAt,
+  })
+    .from(resumeImportFiles)
+    .where(eq(resumeImportFiles.importId, importId))
+    .orderBy(resumeImportFiles.createdAt);
+
+  return { ...resumeImport, progress: summarizeFiles(files), files };
+}
+
+/**
+ * The organization's most recent imports with their progress
+ */
+export async function listResumeImports(organizationId: string, limit = 10) {
+  const recent = await db.select()
+    .from(resumeImports)
+    .where(eq(resumeImports.organizationId, organizationId))
+    .orderBy(desc(resumeImports.createdAt))
+    .limit(limit);
+
+  if (recent.length === 0) {
+    return [];
+  }
+
+  const files = await db.select({ importId: resumeImportFiles.importId, status: resumeImportFiles.status })
+    .from(resumeImportFiles)
+    .where(inArray(resumeImportFiles.importId, recent.map(resumeImport => resumeImport.id)));
+
+  return recent.map(resumeImport => ({
+    ...resumeImport,
+    progress: summarizeFiles(files.filter(file => file.importId === resumeImport.id)),
+  }));
+}
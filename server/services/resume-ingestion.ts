@@ -0,0 +1,269 @@
+/**
+ * Resume Ingestion Service
+ *
+ * Turns an AI-parsed CV into an ATS candidate in an organization's talent pool.
+ * - A CV for someone already in the pool (same email or phone) is added to their profile
+ * - New candidates get their experience, education, skills etc. and are checked for fuzzy duplicates
+ * - Embeddings, auto-screening and fraud detection are kicked off in the background
+ *
+ * Shared by the single-resume endpoints and the bulk import worker.
+ */
+
+import { db } from "../db";
+import { pool } from "../db-pool";
+import {
+  candidates,
+  resumes,
+  experiences,
+  education,
+  certifications,
+  projects,
+  awards,
+  skills,
+  candidateSkills,
+  type Candidate,
+} from "../../shared/schema";
+import { eq } from "drizzle-orm";
+import { screeningQueue, isQueueAvailable } from "../queue";
+import { queueFraudDetection } from "../fraud-queue-helper";
+import { findDuplicateCandidate, candidateMatchKeys } from "./talent-pool";
+import { detectDuplicates, type DuplicateMatch } from "./candidate-duplicates";
+import type { CVIngestionResult } from "../ai-cv-ingestion";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ResumeFile {
+  filename: string;
+  filesizeBytes: number;
+  rawText: string | null;
+}
+
+export interface IngestOptions {
+  userId: string;
+  /** Screen the new candidate against all of the organization's active roles */
+  autoScreen?: boolean;
+}
+
+export type IngestResult =
+  | { duplicate: true; candidate: Candidate }
+  | { duplicate: false; candidate: Candidate; possibleDuplicates: DuplicateMatch[] };
+
+// ============================================================================
+// SCREENING
+// ============================================================================
+
+/**
+ * Enqueue screening jobs for the owning organization's active roles
+ */
+export async function enqueueScreeningsForCandidate(candidateId: string, organizationId: string) {
+  if (!isQueueAvailable()) {
+    console.log(`[Auto-Screen] Queue not available, skipping auto-screening for candidate ${candidateId}`);
+    return;
+  }
+
+  try {
+    const { rows: activeRoles } = await pool.query(
+      `SELECT id FROM roles
+       WHERE (is_active = TRUE OR is_active = 1)
+         AND (created_by = $1 OR created_by IN (SELECT user_id FROM memberships WHERE organization_id = $1))`,
+      [organizationId]
+    );
+
+    if (activeRoles.length === 0) {
+      console.log(`[Auto-Screen] No active roles found, skipping screening for candidate ${candidateId}`);
+      return;
+    }
+
+    for (const role of activeRoles) {
+      await screeningQueue!.add("screen", {
+        roleId: role.id,
+        candidateId
+      });
+    }
+
+    console.log(`[Auto-Screen] Enqueued ${activeRoles.length} screening job(s) for candidate ${candidateId}`);
+  } catch (error) {
+    console.error(`[Auto-Screen] Failed to enqueue screenings for candidate ${candidateId}:`, error);
+  }
+}
+
+// ============================================================================
+// INGESTION
+// ============================================================================
+
+/**
+ * Add a parsed CV to the organization's talent pool
+ */
+export async function ingestParsedResume(
+  organizationId: string,
+  parsedResult: CVIngestionResult,
+  file: ResumeFile,
+  options: IngestOptions
+): Promise<IngestResult> {
+  const { candidate: parsedCandidate } = parsedResult;
+  const contact = {
+    email: parsedCandidate.contact?.email || null,
+    phone: parsedCandidate.contact?.phone || null,
+  };
+
+  const resume = {
+    organizationId,
+    filename: file.filename,
+    filesizeBytes: file.filesizeBytes,
+    parsedOk: parsedResult.source_meta.parsed_ok ? 1 : 0,
+    parseNotes: parsedResult.source_meta.parse_notes,
+    rawText: file.rawText,
+  };
+
+  // Same person already in the talent pool - keep their profile and add the resume to it
+  const duplicate = await findDuplicateCandidate(organizationId, contact);
+  if (duplicate) {
+    await db.insert(resumes).values({ ...resume, candidateId: duplicate.id });
+
+    console.log(`[ATS] Resume matched existing candidate ${duplicate.id} in organization ${organizationId}`);
+    return { duplicate: true, candidate: duplicate };
+  }
+
+  const [newCandidate] = await db.insert(candidates)
+    .values({
+      organizationId,
+      ...candidateMatchKeys(contact),
+      fullName: parsedCandidate.full_name || null,
+      headline: parsedCandidate.headline || null,
+      email: parsedCandidate.contact?.email || null,
+      phone: parsedCandidate.contact?.phone || null,
+      city: parsedCandidate.contact?.city || null,
+      country: parsedCandidate.contact?.country || null,
+      links: parsedCandidate.links || {},
+      summary: parsedCandidate.summary || null,
+      workAuthorization: parsedCandidate.work_authorization || null,
+      availability: parsedCandidate.availability || null,
+      salaryExpectation: parsedCandidate.salary_expectation || null,
+      notes: parsedCandidate.notes || null,
+    })
+    .returning();
+
+  const candidateId = newCandidate.id;
+
+  await db.insert(resumes).values({ ...resume, candidateId });
+
+  for (const exp of parsedCandidate.experience || []) {
+    await db.insert(experiences).values({
+      candidateId,
+      title: exp.title || null,
+      company: exp.company || null,
+      industry: exp.industry || null,
+      location: exp.location || null,
+      startDate: exp.start_date || null,
+      endDate: exp.end_date || null,
+      isCurrent: exp.is_current ? 1 : 0,
+      bullets: exp.bullets || [],
+    });
+  }
+
+  for (const edu of parsedCandidate.education || []) {
+    await db.insert(education).values({
+      candidateId,
+      institution: edu.institution || null,
+      qualification: edu.qualification || null,
+      location: edu.location || null,
+      gradDate: edu.grad_date || null,
+    });
+  }
+
+  for (const cert of parsedCandidate.certifications || []) {
+    await db.insert(certifications).values({
+      candidateId,
+      name: cert.name || null,
+      issuer: cert.issuer || null,
+      year: cert.year || null,
+    });
+  }
+
+  for (const proj of parsedCandidate.projects || []) {
+    await db.insert(projects).values({
+      candidateId,
+      name: proj.name || null,
+      what: proj.what || null,
+      impact: proj.impact || null,
+      link: proj.link || null,
+    });
+  }
+
+  for (const award of parsedCandidate.awards || []) {
+    await db.insert(awards).values({
+      candidateId,
+      name: award.name || null,
+      byWhom: award.by || null,
+      year: award.year || null,
+      note: award.note || null,
+    });
+  }
+
+  await linkSkills(candidateId, parsedCandidate.skills);
+
+  console.log(`[ATS] Successfully created candidate: ${newCandidate.fullName} (${candidateId})`);
+
+  // Flag possible duplicates now, and again once the profile embedding exists
+  const possibleDuplicates = await detectDuplicates(newCandidate);
+
+  // Generate embeddings asynchronously (non-blocking)
+  const { indexCandidate, isEmbeddingsConfigured } = await import("../embeddings");
+  if (isEmbeddingsConfigured()) {
+    indexCandidate(candidateId)
+      .then(indexed => indexed ? detectDuplicates(newCandidate) : [])
+      .catch(err => {
+        console.error(`[ATS] Failed to generate embedding for candidate ${candidateId}:`, err);
+      });
+  } else {
+    console.log(`[ATS] Embeddings not configured, skipping embedding generation`);
+  }
+
+  if (options.autoScreen) {
+    enqueueScreeningsForCandidate(candidateId, organizationId).catch(err => {
+      console.error(`[Auto-Screen] Failed to enqueue screenings:`, err);
+    });
+  }
+
+  // Queue fraud detection for CV upload
+  await queueFraudDetection('cv_upload', candidateId, newCandidate, options.userId);
+
+  return { duplicate: false, candidate: newCandidate, possibleDuplicates };
+}
+
+/**
+ * Find or create each parsed skill and link it to the candidate
+ */
+async function linkSkills(candidateId: string, parsedSkills: CVIngestionResult['candidate']['skills']) {
+  if (!parsedSkills) return;
+
+  const allSkills: Array<{ name: string; kind: string }> = [
+    ...(parsedSkills.technical || []).map(s => ({ name: s, kind: 'technical' })),
+    ...(parsedSkills.tools || []).map(s => ({ name: s, kind: 'tools' })),
+    ...(parsedSkills.soft || []).map(s => ({ name: s, kind: 'soft' })),
+  ];
+
+  for (const { name, kind } of allSkills) {
+    if (!name?.trim()) continue;
+
+    let [skill] = await db.select()
+      .from(skills)
+      .where(eq(skills.name, name.trim()));
+
+    if (!skill) {
+      [skill] = await db.insert(skills)
+        .values({ name: name.trim() })
+        .returning();
+    }
+
+    await db.insert(candidateSkills)
+      .values({
+        candidateId,
+        skillId: skill.id,
+        kind,
+      })
+      .onConflictDoNothing();
+  }
+}
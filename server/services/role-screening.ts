@@ -0,0 +1,648 @@
+/**
+ * Role Screening Service
+ *
+ * Background screening of ATS candidates against a role.
+ * - A screening run queues one "screen" job per candidate, retried with backoff
+ * - The background worker checks the role's knockout rules, then evaluates the candidate
+ *   with the LLM (deterministic fallback on the last attempt)
+ * - Blind roles send the LLM an anonymized candidate profile
+ * - Run progress is counted as jobs finish, and `ai_screenings` usage is charged per completed AI evaluation
+ * - "seed-role-screenings" jobs queue the nearest candidates in the role owner's talent pool
+ *
+ * Used by both the standalone worker (worker.ts) and the in-process workers (start-workers.ts).
+ */
+
+import type { Job } from "bullmq";
+import OpenAI from "openai";
+import { db } from "../db";
+import { pool } from "../db-pool";
+import {
+  candidates,
+  screenings,
+  roleScreeningRuns,
+  type RoleScreeningRun,
+} from "../../shared/schema";
+import { eq, and, desc, inArray, sql } from "drizzle-orm";
+import { screeningQueue } from "../queue";
+import { checkAllowed, consume } from "./entitlements";
+import { getOwnedRole } from "./talent-pool";
+import { evaluateKnockoutRules, experienceYears, parseSalary, type KnockoutProfile } from "./knockout-rules";
+import {
+  getBlindScreeningSettings,
+  isRoleBlind,
+  anonymizeScreeningProfile,
+  BLIND_SCREENING_INSTRUCTION,
+} from "./blind-screening";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const SCREENING_ATTEMPTS = 3;
+const SCREENING_BACKOFF_MS = 5000; // Doubles on each retry
+const SEED_CANDIDATE_LIMIT = 300;
+
+const SYSTEM_PROMPT = process.env.SCREENING_SYSTEM_PROMPT || `You are an expert technical recruiter and talent evaluator.
+
+Given a job role specification and a candidate profile, evaluate how well the candidate matches the role.
+
+You must return a JSON object with this exact structure:
+{
+  "score_total": <number 0-100>,
+  "score_breakdown": {
+    "skills": <number 0-100>,
+    "experience": <number 0-100>,
+    "achievements": <number 0-100>,
+    "education": <number 0-100>,
+    "location_auth": <number 0-100>,
+    "salary_availability": <number 0-100>
+  },
+  "must_haves_satisfied": [<array of satisfied must-have skills>],
+  "missing_must_haves": [<array of missing must-have skills>],
+  "knockout": {
+    "is_ko": <boolean>,
+    "reasons": [<array of knockout reasons if any>]
+  },
+  "reasons": [<array of brief evaluation points>],
+  "flags": {
+    "red": [<array of critical concerns>],
+    "yellow": [<array of minor concerns>]
+  }
+}
+
+Evaluate based on:
+- Skills match (must-haves vs nice-to-haves)
+- Experience relevance and depth
+- Quantifiable achievements
+- Education alignment
+- Location and work authorization
+- Salary and availability alignment`;
+
+// This is using Replit's AI Integrations service, which provides OpenAI-compatible API access without requiring your own OpenAI API key.
+let openaiClient: OpenAI | null = null;
+
+function getOpenAIClient(): OpenAI {
+  if (!openaiClient) {
+    openaiClient = new OpenAI({
+      baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+      apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY
+    });
+  }
+  return openaiClient;
+}
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ScreenJobData {
+  roleId: string;
+  candidateId: string;
+  runId?: string; // Set for recruiter-started runs, which track progress and are billed
+}
+
+export type StartScreeningResult =
+  | { ok: true; run: RoleScreeningRun }
+  | { ok: false; reason: 'QUEUE_UNAVAILABLE' | 'ROLE_NOT_FOUND' | 'NO_CANDIDATES' }
+  | { ok: false; reason: 'NOT_ALLOWED'; entitlementReason?: string };
+
+interface ScreeningOutcome {
+  score: number;
+  aiEvaluated: boolean;
+}
+
+// ============================================================================
+// SCREENING RUNS
+// ============================================================================
+
+/**
+ * Queue a screening job for each of the organization's candidates.
+ * The AI screening quota is checked up front but only charged as evaluations complete.
+ */
+export async function startRoleScreening(
+  organizationId: string,
+  userId: string,
+  roleId: string,
+  candidateIds: string[]
+): Promise<StartScreeningResult> {
+  if (!screeningQueue) {
+    return { ok: false, reason: 'QUEUE_UNAVAILABLE' };
+  }
+
+  const role = await getOwnedRole(organizationId, roleId);
+  if (!role) {
+    return { ok: false, reason: 'ROLE_NOT_FOUND' };
+  }
+
+  const owned = await db.select({ id: candidates.id })
+    .from(candidates)
+    .where(and(
+      eq(candidates.organizationId, organizationId),
+      inArray(candidates.id, Array.from(new Set(candidateIds)))
+    ));
+  if (owned.length === 0) {
+    return { ok: false, reason: 'NO_CANDIDATES' };
+  }
+
+  const allowed = await checkAllowed({ type: 'org', id: organizationId }, 'ai_screenings', owned.length);
+  if (!allowed.ok) {
+    return { ok: false, reason: 'NOT_ALLOWED', entitlementReason: allowed.reason };
+  }
+
+  const [run] = await db.insert(roleScreeningRuns)
+    .values({
+      roleId,
+      organizationId,
+      requestedBy: userId,
+      total: owned.length,
+    })
+    .returning();
+
+  for (const { id: candidateId } of owned) {
+    const data: ScreenJobData = { roleId, candidateId, runId: run.id };
+    await screeningQueue.add("screen", data, {
+      jobId: `${run.id}-${candidateId}`,
+      attempts: SCREENING_ATTEMPTS,
+      backoff: {
+        type: 'exponential',
+        delay: SCREENING_BACKOFF_MS,
+      },
+    });
+  }
+
+  console.log(`[Screening] Run ${run.id} queued ${owned.length} candidate(s) for role ${roleId}`);
+  return { ok: true, run };
+}
+
+export async function getRoleScreeningRun(organizationId: string, runId: string): Promise<RoleScreeningRun | undefined> {
+  const [run] = await db.select()
+    .from(roleScreeningRuns)
+    .where(and(
+      eq(roleScreeningRuns.id, runId),
+      eq(roleScreeningRuns.organizationId, organizationId)
+    ));
+
+  return run;
+}
+
+/**
+ * The organization's most recent screening run for a role
+ */
+export async function getLatestRoleScreeningRun(organizationId: string, roleId: string): Promise<RoleScreeningRun | undefined> {
+  const [run] = await db.select()
+    .from(roleScreeningRuns)
+    .where(and(
+      eq(roleScreeningRuns.roleId, roleId),
+      eq(roleScreeningRuns.organizationId, organizationId)
+    ))
+    .orderBy(desc(roleScreeningRuns.createdAt))
+    .limit(1);
+
+  return run;
+}
+
+/**
+ * Count a finished screening towards its run, charging usage for AI evaluations
+ */
+async function recordRunOutcome(runId: string, outcome: 'completed' | 'failed', charge: boolean = false) {
+  const [run] = await db.update(roleScreeningRuns)
+    .set(outcome === 'completed'
+      ? { completed: sql`${roleScreeningRuns.completed} + 1` }
+      : { failed: sql`${roleScreeningRuns.failed} + 1` })
+    .where(eq(roleScreeningRuns.id, runId))
+    .returning();
+
+  if (!run) {
+    return;
+  }
+
+  if (charge) {
+    try {
+      await consume({ type: 'org', id: run.organizationId }, 'ai_screenings', 1);
+    } catch (error) {
+      // The evaluation is already stored, so log rather than fail the job
+      console.error(`[Screening] Failed to consume AI screening quota for run ${runId}:`, error);
+    }
+  }
+
+  if (run.completed + run.failed >= run.total) {
+    await db.update(roleScreeningRuns)
+      .set({ status: 'completed', completedAt: new Date() })
+      .where(and(eq(roleScreeningRuns.id, runId), eq(roleScreeningRuns.status, 'running')));
+  }
+}
+
+// ============================================================================
+// WORKER JOBS
+// ============================================================================
+
+/**
+ * Processor for the "screening" queue
+ */
+export async function processScreeningJob(job: Job) {
+  if (job.name === "seed-role-screenings") {
+    return seedRoleScreenings(job.data.roleId);
+  }
+
+  if (job.name === "screen") {
+    const { roleId, candidateId, runId } = job.data as ScreenJobData;
+    console.log(`[Screening] Processing role ${roleId} x candidate ${candidateId} (attempt ${job.attemptsMade + 1})`);
+
+    const isLastAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+    const outcome = await screenCandidateForRole(roleId, candidateId, isLastAttempt);
+
+    if (runId) {
+      await recordRunOutcome(runId, outcome ? 'completed' : 'failed', outcome?.aiEvaluated);
+    }
+
+    return outcome
+      ? { success: true, roleId, candidateId, totalScore: outcome.score }
+      : { success: false, roleId, candidateId };
+  }
+}
+
+/**
+ * Count a screening job that has used up its retries as failed
+ */
+export async function handleScreeningJobFailed(job: Job | undefined) {
+  if (!job || job.name !== "screen" || !job.data.runId) {
+    return;
+  }
+
+  if (job.attemptsMade >= (job.opts.attempts ?? 1)) {
+    await recordRunOutcome(job.data.runId, 'failed');
+  }
+}
+
+/**
+ * Queue screenings for the candidates in the role owner's talent pool closest to the role
+ */
+async function seedRoleScreenings(roleId: string) {
+  console.log(`[Screening] Seeding screenings for role ${roleId}`);
+
+  const { rows: roleRows } = await pool.query("SELECT * FROM roles WHERE id=$1", [roleId]);
+  if (!roleRows.length) {
+    console.warn(`[Screening] Role ${roleId} not found`);
+    return;
+  }
+  const role = roleRows[0];
+
+  // Compute embedding for role search string
+  const searchText = [
+    role.job_title,
+    role.job_description,
+    (role.must_have_skills || []).join(", "),
+    role.location_city || "",
+    role.work_type || ""
+  ].join("\n");
+
+  let emb: number[] | null = null;
+  try {
+    const e = await getOpenAIClient().embeddings.create({
+      model: "text-embedding-3-small",
+      input: searchText
+    });
+    emb = e.data[0].embedding as any;
+  } catch (error) {
+    console.warn(`[Screening] Failed to generate embedding for role ${roleId}:`, error);
+  }
+
+  // Only candidates from the talent pool of the organization that owns the role
+  const { rows: ownerRows } = await pool.query(
+    "SELECT COALESCE((SELECT organization_id FROM memberships WHERE user_id=$1 LIMIT 1), $1) AS organization_id",
+    [role.created_by]
+  );
+  const organizationId = ownerRows[0]?.organization_id;
+
+  let seeded;
+  if (emb) {
+    // Use semantic search
+    seeded = (await pool.query(
+      `SELECT c.id
+       FROM candidate_embeddings ce
+       JOIN candidates c ON c.id = ce.candidate_id
+       WHERE c.organization_id = $2
+       ORDER BY ce.embedding <=> $1
+       LIMIT ${SEED_CANDIDATE_LIMIT}`,
+      [JSON.stringify(emb), organizationId]
+    )).rows;
+  } else {
+    // Fallback to latest candidates
+    seeded = (await pool.query(
+      `SELECT id FROM candidates WHERE organization_id = $1 ORDER BY created_at DESC LIMIT ${SEED_CANDIDATE_LIMIT}`,
+      [organizationId]
+    )).rows;
+  }
+
+  console.log(`[Screening] Enqueuing ${seeded.length} candidates for role ${roleId}`);
+
+  for (const c of seeded) {
+    await screeningQueue!.add("screen", { roleId, candidateId: c.id });
+  }
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Evaluate a candidate against a role and store the screening.
+ * Candidates failing a knockout rule are recorded without calling the LLM.
+ * LLM errors are thrown so the job is retried; on the last attempt the
+ * deterministic scorer is used instead.
+ * @returns the outcome, or null when the role or candidate no longer exists
+ */
+async function screenCandidateForRole(roleId: string, candidateId: string, allowFallback: boolean): Promise<ScreeningOutcome | null> {
+  // Fetch role & candidate profile with all related data in one query
+  const { rows: rRows } = await pool.query("SELECT * FROM roles WHERE id=$1", [roleId]);
+  const { rows: cRows } = await pool.query(`
+    SELECT c.*,
+      COALESCE((
+        SELECT json_agg(e) FROM (
+          SELECT title, company, industry, location, start_date, end_date, is_current, bullets
+          FROM experiences WHERE candidate_id = c.id
+        ) e
+      ), '[]'::json) AS experience,
+      COALESCE((
+        SELECT json_agg(ed) FROM (
+          SELECT institution, qualification, location, grad_date
+          FROM education WHERE candidate_id = c.id
+        ) ed
+      ), '[]'::json) AS education,
+      COALESCE((
+        SELECT json_agg(cert) FROM (
+          SELECT name, issuer, year FROM certifications WHERE candidate_id = c.id
+        ) cert
+      ), '[]'::json) AS certifications,
+      COALESCE((
+        SELECT json_agg(p) FROM (
+          SELECT name, what, impact, link FROM projects WHERE candidate_id = c.id
+        ) p
+      ), '[]'::json) AS projects,
+      COALESCE((
+        SELECT json_agg(a) FROM (
+          SELECT name, by_whom AS "by", year, note FROM awards WHERE candidate_id = c.id
+        ) a
+      ), '[]'::json) AS awards,
+      COALESCE((
+        SELECT json_object_agg(kind, skills_array)
+        FROM (
+          SELECT kind, array_agg(s.name) AS skills_array
+          FROM candidate_skills cs
+          JOIN skills s ON s.id = cs.skill_id
+          WHERE cs.candidate_id = c.id
+          GROUP BY kind
+        ) skills_by_kind
+      ), '{"technical":[],"tools":[],"soft":[]}'::json) AS skills_json
+    FROM candidates c
+    WHERE c.id=$1
+  `, [candidateId]);
+
+  if (!rRows.length || !cRows.length) {
+    console.warn(`[Screening] Role or candidate not found: ${roleId}, ${candidateId}`);
+    return null;
+  }
+
+  const role = rRows[0];
+  const cand = cRows[0];
+
+  // Deterministic knockout rules run first, so knocked-out candidates never reach the LLM
+  const ruleKnockout = evaluateKnockoutRules(role.knockout_rules, knockoutProfile(cand));
+  if (ruleKnockout) {
+    await saveScreening(roleId, candidateId, {
+      scoreTotal: 0,
+      scoreBreakdown: null,
+      mustHavesSatisfied: [],
+      missingMustHaves: [],
+      knockout: ruleKnockout,
+      reasons: ruleKnockout.reasons.map(reason => `Knockout rule failed: ${reason}`),
+      flags: { red: ruleKnockout.reasons, yellow: [] },
+    });
+
+    console.log(`[Screening] Candidate ${candidateId} knocked out by ${ruleKnockout.failed_rules.length} rule(s) for role ${roleId}`);
+    return { score: 0, aiEvaluated: false };
+  }
+
+  // Blind roles never show the LLM who the candidate is
+  const blind = isRoleBlind({ blindScreening: role.blind_screening }, await getBlindScreeningSettings(cand.organization_id));
+
+  const candidateProfile = {
+    full_name: cand.full_name,
+    contact: {
+      email: cand.email,
+      phone: cand.phone,
+      city: cand.city,
+      country: cand.country
+    },
+    headline: cand.headline,
+    skills: cand.skills_json,
+    experience: cand.experience,
+    education: cand.education,
+    certifications: cand.certifications,
+    projects: cand.projects,
+    awards: cand.awards,
+    work_authorization: cand.work_authorization,
+    availability: cand.availability,
+    salary_expectation: cand.salary_expectation,
+    links: cand.links
+  };
+
+  // Build the user message for the LLM
+  const userMsg = {
+    role: {
+      job_title: role.job_title,
+      job_description: role.job_description,
+      seniority: role.seniority,
+      employment_type: role.employment_type,
+      location: {
+        city: role.location_city,
+        country: role.location_country,
+        work_type: role.work_type
+      },
+      must_have_skills: role.must_have_skills || [],
+      nice_to_have_skills: role.nice_to_have_skills || [],
+      salary_range: {
+        min: role.salary_min,
+        max: role.salary_max,
+        currency: role.salary_currency || "ZAR"
+      },
+      knockouts: role.knockouts || [],
+      weights: role.weights || undefined
+    },
+    candidate: blind ? anonymizeScreeningProfile(candidateProfile) : candidateProfile
+  };
+
+  // Call LLM (Screening Agent)
+  let llmScore: any;
+  let aiEvaluated = true;
+  try {
+    const completion = await getOpenAIClient().chat.completions.create({
+      model: "gpt-4o-mini",
+      temperature: 0,
+      response_format: { type: "json_object" },
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        {
+          role: "user",
+          content: "Evaluate this single candidate against the role. Return only a JSON object matching the schema described in the system prompt."
+        },
+        ...(blind ? [{ role: "user" as const, content: BLIND_SCREENING_INSTRUCTION }] : []),
+        { role: "user", content: JSON.stringify(userMsg) }
+      ]
+    });
+    llmScore = JSON.parse(completion.choices[0].message.content!);
+  } catch (error) {
+    if (!allowFallback) {
+      throw error;
+    }
+    console.warn(`[Screening] LLM evaluation failed for ${candidateId}, using deterministic fallback:`, error);
+    llmScore = scoreDeterministic(role, cand);
+    aiEvaluated = false;
+  }
+
+  const evaluation = {
+    scoreTotal: Math.round(llmScore.score_total ?? 0),
+    scoreBreakdown: llmScore.score_breakdown ?? {},
+    mustHavesSatisfied: llmScore.must_haves_satisfied ?? [],
+    missingMustHaves: llmScore.missing_must_haves ?? [],
+    knockout: llmScore.knockout ?? { is_ko: false, reasons: [] },
+    reasons: llmScore.reasons ?? [],
+    flags: llmScore.flags ?? { red: [], yellow: [] },
+  };
+
+  await saveScreening(roleId, candidateId, evaluation);
+
+  console.log(`[Screening] Screened candidate ${candidateId} for role ${roleId} (score: ${evaluation.scoreTotal})`);
+  return { score: evaluation.scoreTotal, aiEvaluated };
+}
+
+type ScreeningEvaluation = Pick<typeof screenings.$inferInsert,
+  'scoreTotal' | 'scoreBreakdown' | 'mustHavesSatisfied' | 'missingMustHaves' | 'knockout' | 'reasons' | 'flags'>;
+
+/**
+ * Save the screening (re-screening replaces the previous result; recruiter overrides are kept).
+ * screenings has no unique index on (role_id, candidate_id), so this can't be an ON CONFLICT upsert.
+ */
+async function saveScreening(roleId: string, candidateId: string, evaluation: ScreeningEvaluation) {
+  const match = and(eq(screenings.roleId, roleId), eq(screenings.candidateId, candidateId));
+
+  const updated = await db.update(screenings)
+    .set({ ...evaluation, createdAt: sql`now()` })
+    .where(match)
+    .returning({ id: screenings.id });
+
+  if (updated.length === 0) {
+    await db.insert(screenings).values({ roleId, candidateId, ...evaluation });
+  }
+}
+
+/**
+ * The parsed candidate data knockout rules are checked against
+ */
+function knockoutProfile(cand: any): KnockoutProfile {
+  const names = (rows: any[], key: string) => rows.map(row => row[key]).filter(Boolean);
+
+  return {
+    work_authorization: cand.work_authorization,
+    city: cand.city,
+    country: cand.country,
+    availability: cand.availability,
+    skills: Object.values(cand.skills_json || {}).flat() as string[],
+    certifications: names(cand.certifications || [], 'name'),
+    qualifications: names(cand.education || [], 'qualification'),
+    years_experience: experienceYears(cand.experience || []),
+    salary_expectation: parseSalary(cand.salary_expectation),
+  };
+}
+
+// Deterministic fallback scorer
+function scoreDeterministic(role: any, cand: any) {
+  const weights = role.weights || {
+    skills: 35,
+    experience: 25,
+    achievements: 15,
+    education: 10,
+    location_auth: 10,
+    salary_availability: 5
+  };
+
+  const clamp = (v: number) => Math.max(0, Math.min(100, v));
+
+  const skills = new Set<string>([
+    ...(cand.skills_json?.technical || []),
+    ...(cand.skills_json?.tools || []),
+    ...(cand.skills_json?.soft || [])
+  ].map((s: string) => s.toLowerCase()));
+
+  const must = (role.must_have_skills || []).map((s: string) => s.toLowerCase());
+  const nice = (role.nice_to_have_skills || []).map((s: string) => s.toLowerCase());
+  const haveMust = must.filter((m: string) => skills.has(m));
+  const haveNice = nice.filter((n: string) => skills.has(n));
+  const skillsScore = clamp(
+    (haveMust.length * 100 / (must.length || 1)) * 0.8 +
+    (haveNice.length * 100 / (nice.length || 1)) * 0.2
+  );
+
+  // Crude experience heuristic
+  const expYears = estimateYears(cand.experience || []);
+  const expScore = clamp(
+    Math.min(100, (expYears / (role.seniority?.toLowerCase().includes("senior") ? 7 : 3)) * 100)
+  );
+
+  // Achievements: count numeric tokens in bullets
+  const achCount = (cand.experience || [])
+    .flatMap((e: any) => e.bullets || [])
+    .join(" ")
+    .match(/\b(\d+%?|R\d+[kmb]?)/gi)?.length || 0;
+  const achScore = clamp(Math.min(100, achCount * 12));
+
+  const eduScore = 60 + Math.min(40, (cand.education || []).length * 20);
+  const locScore = (role.location_city && cand.city &&
+    role.location_city.toLowerCase() === cand.city.toLowerCase()) ? 100 : 60;
+  const salScore = 70; // Unknown → neutral
+
+  const total =
+    skillsScore * (weights.skills / 100) +
+    expScore * (weights.experience / 100) +
+    achScore * (weights.achievements / 100) +
+    eduScore * (weights.education / 100) +
+    locScore * (weights.location_auth / 100) +
+    salScore * (weights.salary_availability / 100);
+
+  // KO if missing any must-have
+  const missing = must.filter((m: string) => !skills.has(m));
+  const is_ko = missing.length > 0 && (role.knockouts || []).includes("missing_must_have");
+
+  return {
+    score_total: Math.round(total),
+    score_breakdown: {
+      skills: Math.round(skillsScore),
+      experience: Math.round(expScore),
+      achievements: Math.round(achScore),
+      education: Math.round(eduScore),
+      location_auth: Math.round(locScore),
+      salary_availability: Math.round(salScore)
+    },
+    must_haves_satisfied: haveMust,
+    missing_must_haves: missing,
+    knockout: { is_ko, reasons: is_ko ? ["Missing required skills"] : [] },
+    reasons: [
+      `${haveMust.length}/${must.length} must-haves present`,
+      `~${expYears} yrs relevant experience`,
+      `${achCount} quantified achievements detected`
+    ],
+    flags: {
+      red: [],
+      yellow: missing.length ? ["Missing some must-haves"] : []
+    }
+  };
+}
+
+function estimateYears(exps: any[]) {
+  // Very rough: count roles, assume ~1.5y each if no dates
+  if (!exps.length) return 0;
+  const dated = exps.filter((e: any) => e.start_date || e.end_date);
+  if (!dated.length) return Math.min(10, exps.length * 1.5);
+  // Better parsing left out for brevity
+  return Math.min(20, dated.length * 1.8);
+}
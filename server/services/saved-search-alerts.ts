@@ -0,0 +1,186 @@
+/**
+ * Saved Search Alerts Service
+ * Emails / WhatsApps job seekers the new jobs matching their saved searches
+ */
+
+import { db } from '../db';
+import {
+  savedSearches,
+  users,
+  candidateProfiles,
+  individualNotificationSettings,
+  savedSearchFiltersSchema,
+  type Job,
+  type SavedSearch,
+  type SavedSearchFilters,
+} from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { findNewMatchingJobs } from './job-search';
+import { sendSavedSearchAlertEmail } from '../emails';
+import { sendWhatsAppMessage } from '../whatsapp';
+
+// Jobs listed in a single alert; the rest are behind the "View All Matches" link
+const JOBS_PER_ALERT = 5;
+
+function getBaseUrl(): string {
+  if (process.env.REPLIT_DEPLOYMENT) {
+    return process.env.PUBLIC_URL || 'https://sebenzahub.replit.app';
+  }
+  if (process.env.REPLIT_DEV_DOMAIN) {
+    return `https://${process.env.REPLIT_DEV_DOMAIN}`;
+  }
+  return 'http://localhost:5000';
+}
+
+/**
+ * Parse the stored filters, dropping anything that no longer validates
+ */
+export function parseSavedSearchFilters(filters: unknown): SavedSearchFilters {
+  const parsed = savedSearchFiltersSchema.safeParse(filters);
+  return parsed.success ? parsed.data : {};
+}
+
+/**
+ * All Jobs page URL that re-runs a saved search
+ */
+export function getSavedSearchPath(search: Pick<SavedSearch, 'id' | 'filters'>): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(parseSavedSearchFilters(search.filters))) {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  }
+  params.set('savedSearch', search.id);
+  return `/dashboard/individual/jobs/all?${params.toString()}`;
+}
+
+function formatJobLocation(job: Job): string {
+  const location = (job.core as any)?.location;
+  const parts = [location?.city, location?.province].filter(Boolean);
+  return parts.join(', ') || job.location || 'South Africa';
+}
+
+/**
+ * Jobs posted since the search was last viewed or alerted, whichever is later
+ */
+function getAlertWindowStart(search: SavedSearch): Date {
+  const lastAlerted = search.lastAlertedAt ?? search.createdAt;
+  return lastAlerted > search.lastSeenAt ? lastAlerted : search.lastSeenAt;
+}
+
+/**
+ * Send alerts for every saved search with new matches
+ * This function should be run daily via cron job
+ */
+export async function runSavedSearchAlerts() {
+  const now = new Date();
+  let alertedCount = 0;
+
+  console.log('[Saved Search Alerts] Checking saved searches for new matches...');
+
+  const rows = await db.select({
+    search: savedSearches,
+    email: users.email,
+    firstName: users.firstName,
+    telephone: candidateProfiles.telephone,
+    emailJobAlerts: individualNotificationSettings.emailJobAlerts,
+    whatsappJobAlerts: individualNotificationSettings.whatsappJobAlerts,
+  })
+    .from(savedSearches)
+    .innerJoin(users, eq(users.id, savedSearches.userId))
+    .leftJoin(candidateProfiles, eq(candidateProfiles.userId, savedSearches.userId))
+    .leftJoin(individualNotificationSettings, eq(individualNotificationSettings.userId, savedSearches.userId));
+
+  for (const row of rows) {
+    // Users without a settings row get the column defaults (email on, WhatsApp off)
+    const emailEnabled = (row.emailJobAlerts ?? 1) === 1;
+    const whatsappEnabled = (row.whatsappJobAlerts ?? 0) === 1 && !!row.telephone;
+    if (!emailEnabled && !whatsappEnabled) continue;
+
+    try {
+      const filters = parseSavedSearchFilters(row.search.filters);
+      const { jobs: newJobs, total } = await findNewMatchingJobs(filters, getAlertWindowStart(row.search), JOBS_PER_ALERT);
+      if (total === 0) continue;
+
+      const baseUrl = getBaseUrl();
+      const resultsUrl = `${baseUrl}${getSavedSearchPath(row.search)}`;
+
+      if (emailEnabled) {
+        try {
+          await sendSavedSearchAlertEmail({
+            email: row.email,
+            firstName: row.firstName,
+            searchName: row.search.name,
+            totalNew: total,
+            jobs: newJobs.map(job => ({
+              title: job.title,
+              company: job.company,
+              location: formatJobLocation(job),
+              url: `${baseUrl}/jobs/${job.id}`,
+            })),
+            resultsUrl,
+          });
+        } catch (error) {
+          console.error(`[Saved Search Alerts] Email failed for search ${row.search.id}:`, error);
+        }
+      }
+
+      if (whatsappEnabled) {
+        const lines = newJobs.map(job => `• ${job.title} - ${job.company} (${formatJobLocation(job)})`);
+        const message = `Sebenza Hub: ${total} new job${total === 1 ? '' : 's'} for "${row.search.name}"\n\n${lines.join('\n')}\n\nView all: ${resultsUrl}`;
+        try {
+          await sendWhatsAppMessage(row.telephone!, message);
+        } catch (error) {
+          console.error(`[Saved Search Alerts] WhatsApp failed for search ${row.search.id}:`, error);
+        }
+      }
+
+      await db.update(savedSearches)
+        .set({ lastAlertedAt: now })
+        .where(eq(savedSearches.id, row.search.id));
+
+      alertedCount++;
+    } catch (error) {
+      console.error(`[Saved Search Alerts] Error processing search ${row.search.id}:`, error);
+      // Continue with other searches even if one fails
+    }
+  }
+
+  console.log(`[Saved Search Alerts] Sent alerts for ${alertedCount} of ${rows.length} saved searches`);
+
+  return {
+    success: true,
+    checkedCount: rows.length,
+    alertedCount,
+    timestamp: now.toISOString(),
+  };
+}
+
+/**
+ * Initialize the alert scheduler
+ * Runs daily at 08:00 server time so alerts arrive in the morning
+ */
+export function initializeSavedSearchAlerts() {
+  const now = new Date();
+  const nextRun = new Date(now);
+  nextRun.setHours(8, 0, 0, 0);
+  if (nextRun <= now) {
+    nextRun.setDate(nextRun.getDate() + 1);
+  }
+  const msUntilNextRun = nextRun.getTime() - now.getTime();
+
+  console.log(`[Saved Search Alerts] Next run at: ${nextRun.toISOString()}`);
+
+  setTimeout(() => {
+    runSavedSearchAlerts().catch(err => {
+      console.error('[Saved Search Alerts] Error in scheduled job:', err);
+    });
+
+    // Then run every 24 hours
+    setInterval(() => {
+      runSavedSearchAlerts().catch(err => {
+        console.error('[Saved Search Alerts] Error in scheduled job:', err);
+      });
+    }, 24 * 60 * 60 * 1000);
+  }, msUntilNextRun);
+}
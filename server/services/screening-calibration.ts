@@ -0,0 +1,339 @@
+/**
+ * Screening Calibration Service
+ *
+ * Recruiter overrides of AI screening results, and how they compare with the AI.
+ * - A recruiter can replace a screening's score and/or knockout decision, with a reason
+ * - The AI values stay on the screening, so both are always available
+ * - The calibration report shows per role where recruiters and the AI disagree,
+ *   and which score dimensions and knockout rules best explain the recruiters' scores
+ */
+
+import { db } from "../db";
+import {
+  screenings,
+  candidates,
+  type Role,
+  type Screening,
+} from "../../shared/schema";
+import { eq } from "drizzle-orm";
+import { getOwnedRole, getOwnedScreening } from "./talent-pool";
+import { currentStage } from "./application-pipeline";
+import { getRoleBlindReview, isIdentityWithheld, blindLabel } from "./blind-screening";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const SCORE_DIMENSIONS = ['skills', 'experience', 'achievements', 'education', 'location_auth', 'salary_availability'] as const;
+
+const DEFAULT_WEIGHTS: Record<ScoreDimension, number> = {
+  skills: 35,
+  experience: 25,
+  achievements: 15,
+  education: 10,
+  location_auth: 10,
+  salary_availability: 5,
+};
+
+// Score overrides needed before suggesting new weights
+const MIN_WEIGHT_SAMPLES = 5;
+const TOP_DIVERGENCES = 10;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type ScoreDimension = typeof SCORE_DIMENSIONS[number];
+
+export interface ScreeningOverrideInput {
+  scoreTotal?: number | null;
+  knockout?: boolean | null;
+  reason: string;
+}
+
+export type OverrideResult =
+  | { ok: true; screening: Screening }
+  | { ok: false; reason: 'NOT_FOUND' | 'NOTHING_TO_OVERRIDE' };
+
+export interface DimensionCalibration {
+  dimension: ScoreDimension;
+  currentWeight: number;
+  correlation: number | null; // Pearson correlation of the AI dimension score with the recruiter score
+  suggestedWeight: number | null;
+}
+
+export interface KnockoutReasonCalibration {
+  reason: string;
+  triggered: number; // AI knockouts citing this reason
+  overturned: number; // ...that a recruiter reversed
+}
+
+export interface CalibrationReport {
+  roleId: string;
+  screened: number;
+  overridden: number;
+  scores: {
+    overrides: number;
+    meanDelta: number | null; // Recruiter minus AI, positive = recruiters score higher
+    meanAbsoluteDelta: number | null;
+    raised: number;
+    lowered: number;
+  };
+  knockouts: {
+    overrides: number;
+    aiKnockoutsOverturned: number;
+    addedByRecruiters: number;
+    reasons: KnockoutReasonCalibration[];
+  };
+  dimensions: DimensionCalibration[];
+  divergences: Array<{
+    screeningId: string;
+    candidateId: string;
+    candidateName: string | null;
+    aiScore: number | null;
+    recruiterScore: number | null;
+    aiKnockout: boolean;
+    recruiterKnockout: boolean | null;
+    reason: string | null;
+  }>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function aiKnockout(screening: Pick<Screening, 'knockout'>): boolean {
+  return !!(screening.knockout as any)?.is_ko;
+}
+
+/**
+ * The score that stands for a screening: the recruiter's when overridden, else the AI's
+ */
+export function effectiveScore(screening: Pick<Screening, 'scoreTotal' | 'overrideScoreTotal'>): number | null {
+  return screening.overrideScoreTotal ?? screening.scoreTotal;
+}
+
+/**
+ * The knockout decision that stands for a screening
+ */
+export function effectiveKnockout(screening: Pick<Screening, 'knockout' | 'overrideKnockout'>): boolean {
+  return screening.overrideKnockout !== null ? screening.overrideKnockout === 1 : aiKnockout(screening);
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function correlation(xs: number[], ys: number[]): number | null {
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  if (meanX === null || meanY === null) return null;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : null;
+}
+
+const round = (value: number | null, places = 1) =>
+  value === null ? null : Math.round(value * 10 ** places) / 10 ** places;
+
+// ============================================================================
+// OVERRIDES
+// ============================================================================
+
+/**
+ * Record a recruiter's score and/or knockout decision on a screening.
+ * Omitted fields keep their current override; null clears it.
+ */
+export async function overrideScreening(
+  organizationId: string,
+  userId: string,
+  screeningId: string,
+  input: ScreeningOverrideInput
+): Promise<OverrideResult> {
+  const screening = await getOwnedScreening(organizationId, screeningId);
+  if (!screening) {
+    return { ok: false, reason: 'NOT_FOUND' };
+  }
+
+  const overrideScoreTotal = input.scoreTotal === undefined
+    ? screening.overrideScoreTotal
+    : input.scoreTotal === null ? null : Math.round(Math.max(0, Math.min(100, input.scoreTotal)));
+  const overrideKnockout = input.knockout === undefined
+    ? screening.overrideKnockout
+    : input.knockout === null ? null : input.knockout ? 1 : 0;
+
+  if (overrideScoreTotal === null && overrideKnockout === null) {
+    return { ok: false, reason: 'NOTHING_TO_OVERRIDE' };
+  }
+
+  const [updated] = await db.update(screenings)
+    .set({
+      overrideScoreTotal,
+      overrideKnockout,
+      overrideReason: input.reason.trim(),
+      overriddenBy: userId,
+      overriddenAt: new Date(),
+    })
+    .where(eq(screenings.id, screeningId))
+    .returning();
+
+  return { ok: true, screening: updated };
+}
+
+/**
+ * Remove a recruiter override so the AI result stands again
+ */
+export async function clearScreeningOverride(organizationId: string, screeningId: string): Promise<Screening | undefined> {
+  const screening = await getOwnedScreening(organizationId, screeningId);
+  if (!screening) {
+    return undefined;
+  }
+
+  const [updated] = await db.update(screenings)
+    .set({
+      overrideScoreTotal: null,
+      overrideKnockout: null,
+      overrideReason: null,
+      overriddenBy: null,
+      overriddenAt: null,
+    })
+    .where(eq(screenings.id, screeningId))
+    .returning();
+
+  return updated;
+}
+
+// ============================================================================
+// CALIBRATION REPORT
+// ============================================================================
+
+/**
+ * Suggest dimension weights in proportion to how well each AI dimension score
+ * tracks the recruiters' scores. Dimensions that don't track them get no weight.
+ */
+function calibrateDimensions(role: Role, scored: Screening[]): DimensionCalibration[] {
+  const weights = { ...DEFAULT_WEIGHTS, ...((role.weights as Record<string, number> | null) || {}) };
+
+  const correlations = SCORE_DIMENSIONS.map(dimension => {
+    const samples = scored.filter(screening => typeof (screening.scoreBreakdown as any)?.[dimension] === 'number');
+    if (samples.length < MIN_WEIGHT_SAMPLES) return null;
+
+    return correlation(
+      samples.map(screening => (screening.scoreBreakdown as any)[dimension]),
+      samples.map(screening => screening.overrideScoreTotal!)
+    );
+  });
+
+  const positiveTotal = correlations.reduce<number>((sum, value) => sum + Math.max(0, value ?? 0), 0);
+
+  return SCORE_DIMENSIONS.map((dimension, i) => ({
+    dimension,
+    currentWeight: weights[dimension],
+    correlation: round(correlations[i], 2),
+    suggestedWeight: correlations[i] !== null && positiveTotal > 0
+      ? Math.round(100 * Math.max(0, correlations[i]!) / positiveTotal)
+      : null,
+  }));
+}
+
+/**
+ * Where recruiters and the AI disagree for a role, or null when the role isn't the organization's
+ */
+export async function getRoleCalibration(organizationId: string, roleId: string): Promise<CalibrationReport | null> {
+  const role = await getOwnedRole(organizationId, roleId);
+  if (!role) {
+    return null;
+  }
+
+  const [rows, review] = await Promise.all([
+    db.select({
+      screening: screenings,
+      candidateName: candidates.fullName,
+    })
+      .from(screenings)
+      .innerJoin(candidates, eq(screenings.candidateId, candidates.id))
+      .where(eq(screenings.roleId, roleId)),
+    getRoleBlindReview(organizationId, role),
+  ]);
+
+  const overridden = rows.filter(({ screening }) =>
+    screening.overrideScoreTotal !== null || screening.overrideKnockout !== null
+  );
+
+  // Scores
+  const scored = overridden
+    .map(({ screening }) => screening)
+    .filter(screening => screening.overrideScoreTotal !== null && screening.scoreTotal !== null);
+  const deltas = scored.map(screening => screening.overrideScoreTotal! - screening.scoreTotal!);
+
+  // Knockouts
+  const knockoutOverrides = overridden
+    .map(({ screening }) => screening)
+    .filter(screening => screening.overrideKnockout !== null);
+  const overturned = knockoutOverrides.filter(screening => aiKnockout(screening) && screening.overrideKnockout === 0);
+
+  const reasons = new Map<string, KnockoutReasonCalibration>();
+  for (const { screening } of rows) {
+    if (!aiKnockout(screening)) continue;
+
+    const wasOverturned = screening.overrideKnockout === 0;
+    for (const reason of ((screening.knockout as any)?.reasons || []) as string[]) {
+      const entry = reasons.get(reason) || { reason, triggered: 0, overturned: 0 };
+      entry.triggered++;
+      if (wasOverturned) entry.overturned++;
+      reasons.set(reason, entry);
+    }
+  }
+
+  const divergences = overridden
+    .map(({ screening, candidateName }) => ({
+      screeningId: screening.id,
+      candidateId: screening.candidateId,
+      candidateName: isIdentityWithheld(review, currentStage(screening, review.stages))
+        ? blindLabel(screening.candidateId)
+        : candidateName,
+      aiScore: screening.scoreTotal,
+      recruiterScore: screening.overrideScoreTotal,
+      aiKnockout: aiKnockout(screening),
+      recruiterKnockout: screening.overrideKnockout === null ? null : screening.overrideKnockout === 1,
+      reason: screening.overrideReason,
+    }))
+    .sort((a, b) => {
+      // Reversed knockouts first, then the biggest score gaps
+      const flipA = a.recruiterKnockout !== null && a.recruiterKnockout !== a.aiKnockout ? 1 : 0;
+      const flipB = b.recruiterKnockout !== null && b.recruiterKnockout !== b.aiKnockout ? 1 : 0;
+      const gapA = a.recruiterScore !== null && a.aiScore !== null ? Math.abs(a.recruiterScore - a.aiScore) : 0;
+      const gapB = b.recruiterScore !== null && b.aiScore !== null ? Math.abs(b.recruiterScore - b.aiScore) : 0;
+      return flipB - flipA || gapB - gapA;
+    })
+    .slice(0, TOP_DIVERGENCES);
+
+  return {
+    roleId,
+    screened: rows.length,
+    overridden: overridden.length,
+    scores: {
+      overrides: scored.length,
+      meanDelta: round(mean(deltas)),
+      meanAbsoluteDelta: round(mean(deltas.map(Math.abs))),
+      raised: deltas.filter(delta => delta > 0).length,
+      lowered: deltas.filter(delta => delta < 0).length,
+    },
+    knockouts: {
+      overrides: knockoutOverrides.length,
+      aiKnockoutsOverturned: overturned.length,
+      addedByRecruiters: knockoutOverrides.filter(screening => !aiKnockout(screening) && screening.overrideKnockout === 1).length,
+      reasons: Array.from(reasons.values()).sort((a, b) => b.overturned - a.overturned || b.triggered - a.triggered),
+    },
+    dimensions: calibrateDimensions(role, scored),
+    divergences,
+  };
+}
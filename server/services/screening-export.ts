@@ -0,0 +1,288 @@
+/**
+ * Screening Export Service
+ *
+ * Ranked shortlists as CSV or Excel for hiring managers.
+ * - Screening jobs (uploaded CV batches) and role screenings (ATS talent pool)
+ * - One row per candidate: rank, contact details, score breakdown, must-haves,
+ *   knockout and red/yellow flags
+ * - Contact details are masked per the organization's POPIA redaction setting
+ * - Blind roles leave out the identity of candidates who aren't past the reveal stage
+ */
+
+import ExcelJS from "exceljs";
+import { db } from "../db";
+import {
+  screeningCandidates,
+  screeningEvaluations,
+  screenings,
+  candidates,
+  type ScreeningJob,
+} from "../../shared/schema";
+import { eq } from "drizzle-orm";
+import { getOwnedRole } from "./talent-pool";
+import { getContactRedaction, redactContact } from "./contact-redaction";
+import { effectiveScore, effectiveKnockout } from "./screening-calibration";
+import { currentStage } from "./application-pipeline";
+import { getRoleBlindReview, isIdentityWithheld, anonymizeCandidate } from "./blind-screening";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+
+const BREAKDOWN_COLUMNS: Array<[key: string, header: string]> = [
+  ['skills', 'Skills'],
+  ['experience', 'Experience'],
+  ['achievements', 'Achievements'],
+  ['education', 'Education'],
+  ['location_auth', 'Location & Authorization'],
+  ['salary_availability', 'Salary & Availability'],
+];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export interface ShortlistExport {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+interface ShortlistRow {
+  name: string;
+  email: string | null;
+  phone: string | null;
+  city: string | null;
+  country: string | null;
+  headline: string | null;
+  score: number | null;
+  breakdown: Record<string, number>;
+  knockout: boolean;
+  knockoutReasons: string[];
+  mustHavesMet: string[];
+  mustHavesMissing: string[];
+  redFlags: string[];
+  yellowFlags: string[];
+  reasons: string[];
+  // Role screenings only
+  override?: {
+    aiScore: number | null;
+    recruiterScore: number | null;
+    reason: string | null;
+  };
+}
+
+interface Column {
+  header: string;
+  width: number;
+  value: (row: ShortlistRow, rank: number) => string | number | null;
+}
+
+// ============================================================================
+// SPREADSHEET
+// ============================================================================
+
+const list = (items: string[]) => items.join('; ');
+
+function columnsFor(rows: ShortlistRow[]): Column[] {
+  const columns: Column[] = [
+    { header: 'Rank', width: 6, value: (_, rank) => rank },
+    { header: 'Name', width: 24, value: row => row.name },
+    { header: 'Email', width: 28, value: row => row.email },
+    { header: 'Phone', width: 16, value: row => row.phone },
+    { header: 'City', width: 14, value: row => row.city },
+    { header: 'Country', width: 14, value: row => row.country },
+    { header: 'Headline', width: 30, value: row => row.headline },
+    { header: 'Total Score', width: 11, value: row => row.score },
+  ];
+
+  if (rows.some(row => row.override)) {
+    columns.push(
+      { header: 'AI Score', width: 10, value: row => row.override?.aiScore ?? null },
+      { header: 'Recruiter Score', width: 14, value: row => row.override?.recruiterScore ?? null },
+      { header: 'Override Reason', width: 30, value: row => row.override?.reason ?? null },
+    );
+  }
+
+  for (const [key, header] of BREAKDOWN_COLUMNS) {
+    columns.push({ header, width: 12, value: row => row.breakdown[key] ?? null });
+  }
+
+  columns.push(
+    { header: 'Knockout', width: 10, value: row => row.knockout ? 'Yes' : 'No' },
+    { header: 'Knockout Reasons', width: 30, value: row => list(row.knockoutReasons) },
+    { header: 'Must-Haves Met', width: 30, value: row => list(row.mustHavesMet) },
+    { header: 'Must-Haves Missing', width: 30, value: row => list(row.mustHavesMissing) },
+    { header: 'Red Flags', width: 30, value: row => list(row.redFlags) },
+    { header: 'Yellow Flags', width: 30, value: row => list(row.yellowFlags) },
+    { header: 'Evaluation Notes', width: 40, value: row => list(row.reasons) },
+  );
+
+  return columns;
+}
+
+/**
+ * Shortlist order: candidates still in the running first, then by score
+ */
+function rankRows(rows: ShortlistRow[]): ShortlistRow[] {
+  return [...rows].sort((a, b) =>
+    Number(a.knockout) - Number(b.knockout) || (b.score ?? -1) - (a.score ?? -1)
+  );
+}
+
+function csvCell(value: string | number | null): string {
+  if (value === null || value === '') return '';
+  let text = String(value);
+  // Stop spreadsheet apps from evaluating CV text as a formula
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function buildSpreadsheet(title: string, rows: ShortlistRow[], format: ExportFormat): Promise<Buffer> {
+  const ranked = rankRows(rows);
+  const columns = columnsFor(ranked);
+
+  if (format === 'csv') {
+    const lines = [
+      columns.map(column => csvCell(column.header)).join(','),
+      ...ranked.map((row, i) => columns.map(column => csvCell(column.value(row, i + 1))).join(',')),
+    ];
+    // BOM so Excel opens the file as UTF-8
+    return Buffer.from('\uFEFF' + lines.join('\r\n'), 'utf8');
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  const sheet = workbook.addWorksheet('Shortlist', {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+  sheet.columns = columns.map(column => ({ header: column.header, width: column.width }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+  sheet.headerFooter.oddHeader = title;
+
+  ranked.forEach((row, i) => {
+    sheet.addRow(columns.map(column => column.value(row, i + 1)));
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+function filenameFor(title: string, format: ExportFormat): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'screening';
+  return `${slug}-shortlist-${new Date().toISOString().slice(0, 10)}.${format}`;
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+/**
+ * Ranked shortlist of a screening job's evaluated CVs
+ */
+export async function exportScreeningJob(organizationId: string, job: ScreeningJob, format: ExportFormat): Promise<ShortlistExport> {
+  const [jobCandidates, evaluations, redaction] = await Promise.all([
+    db.select().from(screeningCandidates).where(eq(screeningCandidates.screeningJobId, job.id)),
+    db.select().from(screeningEvaluations).where(eq(screeningEvaluations.screeningJobId, job.id)),
+    getContactRedaction(organizationId),
+  ]);
+
+  const rows = evaluations.map((evaluation): ShortlistRow => {
+    const candidate = jobCandidates.find(c => c.id === evaluation.candidateId);
+    const contact = (candidate?.contact || {}) as any;
+    const masked = redactContact({ email: contact.email || null, phone: contact.phone || null }, redaction);
+    const knockout = (evaluation.knockout || {}) as any;
+    const flags = (evaluation.flags || {}) as any;
+
+    return {
+      name: candidate?.fullName || 'Unknown',
+      ...masked,
+      city: contact.city || null,
+      country: contact.country || null,
+      headline: candidate?.headline || null,
+      score: evaluation.scoreTotal,
+      breakdown: (evaluation.scoreBreakdown || {}) as Record<string, number>,
+      knockout: !!knockout.is_ko,
+      knockoutReasons: knockout.reasons || [],
+      mustHavesMet: evaluation.mustHavesSatisfied,
+      mustHavesMissing: evaluation.missingMustHaves,
+      redFlags: flags.red || [],
+      yellowFlags: flags.yellow || [],
+      reasons: evaluation.reasons,
+    };
+  });
+
+  return {
+    filename: filenameFor(job.jobTitle, format),
+    contentType: CONTENT_TYPES[format],
+    content: await buildSpreadsheet(job.jobTitle, rows, format),
+  };
+}
+
+/**
+ * Ranked shortlist of a role's screened candidates, with recruiter overrides applied.
+ * Null when the role isn't the organization's.
+ */
+export async function exportRoleScreenings(organizationId: string, roleId: string, format: ExportFormat): Promise<ShortlistExport | null> {
+  const role = await getOwnedRole(organizationId, roleId);
+  if (!role) {
+    return null;
+  }
+
+  const [results, redaction, review] = await Promise.all([
+    db.select({ screening: screenings, candidate: candidates })
+      .from(screenings)
+      .innerJoin(candidates, eq(screenings.candidateId, candidates.id))
+      .where(eq(screenings.roleId, roleId)),
+    getContactRedaction(organizationId),
+    getRoleBlindReview(organizationId, role),
+  ]);
+
+  const rows = results.map(({ screening, candidate: screened }): ShortlistRow => {
+    const candidate = isIdentityWithheld(review, currentStage(screening, review.stages))
+      ? anonymizeCandidate(screened)
+      : screened;
+    const knockout = (screening.knockout || {}) as any;
+    const flags = (screening.flags || {}) as any;
+    const overridden = screening.overrideScoreTotal !== null || screening.overrideKnockout !== null;
+
+    return {
+      name: candidate.fullName || 'Unnamed Candidate',
+      ...redactContact({ email: candidate.email, phone: candidate.phone }, redaction),
+      city: candidate.city,
+      country: candidate.country,
+      headline: candidate.headline,
+      score: effectiveScore(screening),
+      breakdown: (screening.scoreBreakdown || {}) as Record<string, number>,
+      knockout: effectiveKnockout(screening),
+      knockoutReasons: knockout.reasons || [],
+      mustHavesMet: screening.mustHavesSatisfied,
+      mustHavesMissing: screening.missingMustHaves,
+      redFlags: flags.red || [],
+      yellowFlags: flags.yellow || [],
+      reasons: screening.reasons,
+      override: {
+        aiScore: screening.scoreTotal,
+        recruiterScore: screening.overrideScoreTotal,
+        reason: overridden ? screening.overrideReason : null,
+      },
+    };
+  });
+
+  return {
+    filename: filenameFor(role.jobTitle, format),
+    contentType: CONTENT_TYPES[format],
+    content: await buildSpreadsheet(role.jobTitle, rows, format),
+  };
+}
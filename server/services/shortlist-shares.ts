@@ -0,0 +1,343 @@
+/**
+ * Shortlist Shares Service
+ *
+ * Expiring, tokenized shortlist links for client contacts who have no account.
+ * - A recruiter shares a role's top candidates (or a chosen set) with a named contact
+ * - The shared candidate cards follow the organization's POPIA contact redaction setting,
+ *   and blind roles keep candidates anonymous until they are past the reveal stage
+ * - The client marks each candidate Yes/No/Maybe with a comment; the feedback shows on the
+ *   recruiter's role view and the recruiter who shared the link is emailed
+ */
+
+import { db } from "../db";
+import {
+  shortlistShares,
+  shortlistFeedback,
+  screenings,
+  candidates,
+  candidateSkills,
+  skills,
+  roles,
+  users,
+  type CreateShortlistShare,
+  type ShortlistDecision,
+  type ShortlistShare,
+} from "../../shared/schema";
+import { eq, and, inArray, desc } from "drizzle-orm";
+import { randomBytes } from "crypto";
+import { getOwnedRole } from "./talent-pool";
+import { getContactRedaction, redactContact } from "./contact-redaction";
+import { effectiveScore, effectiveKnockout } from "./screening-calibration";
+import { currentStage } from "./application-pipeline";
+import { getRoleBlindReview, isIdentityWithheld, anonymizeCandidate, blindLabel } from "./blind-screening";
+import { sendShortlistFeedbackEmail } from "../emails";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const DEFAULT_SHORTLIST_SIZE = 10;
+const SKILLS_PER_CARD = 12;
+const REASONS_PER_CARD = 4;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CreateShareResult =
+  | { ok: true; share: ShortlistShare; url: string }
+  | { ok: false; reason: 'ROLE_NOT_FOUND' | 'NO_CANDIDATES' };
+
+export type SubmitFeedbackResult =
+  | { ok: true }
+  | { ok: false; reason: 'SHARE_NOT_FOUND' | 'CANDIDATE_NOT_SHARED' };
+
+export interface SharedCandidateCard {
+  candidateId: string;
+  rank: number;
+  fullName: string | null;
+  headline: string | null;
+  city: string | null;
+  country: string | null;
+  email: string | null;
+  phone: string | null;
+  summary: string | null;
+  score: number | null;
+  skills: string[];
+  mustHavesSatisfied: string[];
+  highlights: string[];
+  feedback: { decision: string; comment: string | null } | null;
+}
+
+export interface RoleShortlistFeedback {
+  shareId: string;
+  candidateId: string;
+  recipientName: string;
+  decision: string;
+  comment: string | null;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function getBaseUrl(): string {
+  if (process.env.REPLIT_DEPLOYMENT) {
+    return process.env.PUBLIC_URL || 'https://sebenzahub.replit.app';
+  }
+  if (process.env.REPLIT_DEV_DOMAIN) {
+    return `https://${process.env.REPLIT_DEV_DOMAIN}`;
+  }
+  return 'http://localhost:5000';
+}
+
+export function getShortlistShareUrl(token: string): string {
+  return `${getBaseUrl()}/shortlist/${token}`;
+}
+
+function isActive(share: ShortlistShare): boolean {
+  return !share.revokedAt && share.expiresAt > new Date();
+}
+
+async function getActiveShare(token: string): Promise<ShortlistShare | null> {
+  const [share] = await db.select()
+    .from(shortlistShares)
+    .where(eq(shortlistShares.token, token));
+
+  return share && isActive(share) ? share : null;
+}
+
+// ============================================================================
+// SHARING (recruiter)
+// ============================================================================
+
+/**
+ * Share a role's shortlist. Without candidateIds, the top-ranked candidates
+ * who weren't knocked out are shared.
+ */
+export async function createShortlistShare(
+  organizationId: string,
+  userId: string,
+  roleId: string,
+  input: CreateShortlistShare
+): Promise<CreateShareResult> {
+  const role = await getOwnedRole(organizationId, roleId);
+  if (!role) {
+    return { ok: false, reason: 'ROLE_NOT_FOUND' };
+  }
+
+  const screened = (await db.select()
+    .from(screenings)
+    .where(eq(screenings.roleId, roleId)))
+    .sort((a, b) => (effectiveScore(b) ?? -1) - (effectiveScore(a) ?? -1));
+
+  const candidateIds = input.candidateIds
+    ? screened.filter(screening => input.candidateIds!.includes(screening.candidateId)).map(screening => screening.candidateId)
+    : screened.filter(screening => !effectiveKnockout(screening)).slice(0, DEFAULT_SHORTLIST_SIZE).map(screening => screening.candidateId);
+
+  if (candidateIds.length === 0) {
+    return { ok: false, reason: 'NO_CANDIDATES' };
+  }
+
+  const [share] = await db.insert(shortlistShares)
+    .values({
+      roleId,
+      organizationId,
+      createdBy: userId,
+      token: randomBytes(24).toString('base64url'),
+      recipientName: input.recipientName,
+      recipientEmail: input.recipientEmail || null,
+      message: input.message || null,
+      candidateIds,
+      expiresAt: new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000),
+    })
+    .returning();
+
+  console.log(`[Shortlist] Shared ${candidateIds.length} candidate(s) for role ${roleId} with ${input.recipientName}`);
+  return { ok: true, share, url: getShortlistShareUrl(share.token) };
+}
+
+/**
+ * A role's shares, newest first, with their links and whether they still work
+ */
+export async function listShortlistShares(organizationId: string, roleId: string) {
+  const shares = await db.select()
+    .from(shortlistShares)
+    .where(and(eq(shortlistShares.roleId, roleId), eq(shortlistShares.organizationId, organizationId)))
+    .orderBy(desc(shortlistShares.createdAt));
+
+  return shares.map(share => ({
+    ...share,
+    url: getShortlistShareUrl(share.token),
+    status: share.revokedAt ? 'revoked' : share.expiresAt <= new Date() ? 'expired' : 'active',
+  }));
+}
+
+export async function revokeShortlistShare(organizationId: string, shareId: string): Promise<boolean> {
+  const revoked = await db.update(shortlistShares)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(shortlistShares.id, shareId), eq(shortlistShares.organizationId, organizationId)))
+    .returning();
+
+  return revoked.length > 0;
+}
+
+/**
+ * Client feedback on a role's candidates across all of its shares
+ */
+export async function getRoleShortlistFeedback(organizationId: string, roleId: string): Promise<RoleShortlistFeedback[]> {
+  return db.select({
+    shareId: shortlistShares.id,
+    candidateId: shortlistFeedback.candidateId,
+    recipientName: shortlistShares.recipientName,
+    decision: shortlistFeedback.decision,
+    comment: shortlistFeedback.comment,
+    updatedAt: shortlistFeedback.updatedAt,
+  })
+    .from(shortlistFeedback)
+    .innerJoin(shortlistShares, eq(shortlistFeedback.shareId, shortlistShares.id))
+    .where(and(eq(shortlistShares.roleId, roleId), eq(shortlistShares.organizationId, organizationId)))
+    .orderBy(desc(shortlistFeedback.updatedAt));
+}
+
+// ============================================================================
+// PORTAL (client, by token)
+// ============================================================================
+
+/**
+ * The shortlist behind a link, or null when the link is unknown, expired or revoked
+ */
+export async function getSharedShortlist(token: string) {
+  const share = await getActiveShare(token);
+  if (!share) {
+    return null;
+  }
+
+  const [[role], rows, skillRows, feedback, redaction] = await Promise.all([
+    db.select().from(roles).where(eq(roles.id, share.roleId)),
+    db.select({ screening: screenings, candidate: candidates })
+      .from(screenings)
+      .innerJoin(candidates, eq(screenings.candidateId, candidates.id))
+      .where(and(eq(screenings.roleId, share.roleId), inArray(screenings.candidateId, share.candidateIds))),
+    db.select({ candidateId: candidateSkills.candidateId, name: skills.name })
+      .from(candidateSkills)
+      .innerJoin(skills, eq(candidateSkills.skillId, skills.id))
+      .where(inArray(candidateSkills.candidateId, share.candidateIds)),
+    db.select().from(shortlistFeedback).where(eq(shortlistFeedback.shareId, share.id)),
+    getContactRedaction(share.organizationId),
+  ]);
+
+  if (!role) {
+    return null;
+  }
+
+  const review = await getRoleBlindReview(share.organizationId, role);
+
+  await db.update(shortlistShares)
+    .set({ lastViewedAt: new Date() })
+    .where(eq(shortlistShares.id, share.id));
+
+  const cards: SharedCandidateCard[] = [];
+  share.candidateIds.forEach((candidateId, i) => {
+    const row = rows.find(r => r.candidate.id === candidateId);
+    if (!row) return; // Removed since the link was shared
+
+    const { screening } = row;
+    const candidate = isIdentityWithheld(review, currentStage(screening, review.stages))
+      ? anonymizeCandidate(row.candidate)
+      : row.candidate;
+    const clientFeedback = feedback.find(f => f.candidateId === candidateId);
+
+    cards.push({
+      candidateId,
+      rank: i + 1,
+      fullName: candidate.fullName,
+      headline: candidate.headline,
+      city: candidate.city,
+      country: candidate.country,
+      ...redactContact({ email: candidate.email, phone: candidate.phone }, redaction),
+      summary: candidate.summary,
+      score: effectiveScore(screening),
+      skills: skillRows.filter(s => s.candidateId === candidateId).map(s => s.name).slice(0, SKILLS_PER_CARD),
+      mustHavesSatisfied: screening.mustHavesSatisfied,
+      highlights: screening.reasons.slice(0, REASONS_PER_CARD),
+      feedback: clientFeedback ? { decision: clientFeedback.decision, comment: clientFeedback.comment } : null,
+    });
+  });
+
+  return {
+    recipientName: share.recipientName,
+    message: share.message,
+    expiresAt: share.expiresAt,
+    role: {
+      jobTitle: role.jobTitle,
+      jobDescription: role.jobDescription,
+      locationCity: role.locationCity,
+      locationCountry: role.locationCountry,
+      workType: role.workType,
+    },
+    candidates: cards,
+  };
+}
+
+/**
+ * Record the client's decision on a shared candidate and let the recruiter know
+ */
+export async function submitShortlistFeedback(
+  token: string,
+  candidateId: string,
+  input: { decision: ShortlistDecision; comment?: string }
+): Promise<SubmitFeedbackResult> {
+  const share = await getActiveShare(token);
+  if (!share) {
+    return { ok: false, reason: 'SHARE_NOT_FOUND' };
+  }
+  if (!share.candidateIds.includes(candidateId)) {
+    return { ok: false, reason: 'CANDIDATE_NOT_SHARED' };
+  }
+
+  const comment = input.comment?.trim() || null;
+
+  await db.insert(shortlistFeedback)
+    .values({ shareId: share.id, candidateId, decision: input.decision, comment })
+    .onConflictDoUpdate({
+      target: [shortlistFeedback.shareId, shortlistFeedback.candidateId],
+      set: { decision: input.decision, comment, updatedAt: new Date() },
+    });
+
+  notifyShareOwner(share, candidateId, input.decision, comment).catch(error => {
+    console.error(`[Shortlist] Failed to notify owner of share ${share.id}:`, error);
+  });
+
+  return { ok: true };
+}
+
+async function notifyShareOwner(share: ShortlistShare, candidateId: string, decision: ShortlistDecision, comment: string | null) {
+  const [[owner], [role], [candidate], [screening]] = await Promise.all([
+    db.select().from(users).where(eq(users.id, share.createdBy)),
+    db.select().from(roles).where(eq(roles.id, share.roleId)),
+    db.select({ fullName: candidates.fullName }).from(candidates).where(eq(candidates.id, candidateId)),
+    db.select().from(screenings).where(and(eq(screenings.roleId, share.roleId), eq(screenings.candidateId, candidateId))),
+  ]);
+
+  if (!owner || !role) {
+    return;
+  }
+
+  const review = await getRoleBlindReview(share.organizationId, role);
+  const candidateName = screening && isIdentityWithheld(review, currentStage(screening, review.stages))
+    ? blindLabel(candidateId)
+    : candidate?.fullName;
+
+  await sendShortlistFeedbackEmail({
+    email: owner.email,
+    firstName: owner.firstName,
+    recipientName: share.recipientName,
+    roleTitle: role.jobTitle,
+    candidateName: candidateName || 'a candidate',
+    decision,
+    comment,
+    roleUrl: `${getBaseUrl()}/roles/${share.roleId}/screen`,
+  });
+}
@@ -0,0 +1,264 @@
+/**
+ * Talent Pool Service
+ *
+ * Organization-private ATS talent pools.
+ * - Candidates and resumes belong to the organization that added them
+ * - Within an organization a person is matched by email or phone, so they're only added once
+ * - An agency can share a candidate with one of its own corporate clients, and revoke the share
+ */
+
+import { db } from "../db";
+import {
+  memberships,
+  candidates,
+  candidateShares,
+  corporateClients,
+  roles,
+  screenings,
+  type Candidate,
+  type CandidateShare,
+  type Role,
+  type Screening,
+} from "../../shared/schema";
+import { eq, and, or, desc, inArray } from "drizzle-orm";
+import { normalizeWhatsAppNumber } from "../whatsapp";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CandidateContact {
+  email?: string | null;
+  phone?: string | null;
+}
+
+export type ShareResult =
+  | { ok: true; share: CandidateShare }
+  | { ok: false; reason: 'CANDIDATE_NOT_FOUND' | 'CLIENT_NOT_FOUND' };
+
+// ============================================================================
+// OWNERSHIP
+// ============================================================================
+
+/**
+ * The talent pool a user works in - their organization, or their own pool
+ * when they don't belong to one (matches the ATS feature-gate holder)
+ */
+export async function getTalentPoolOwner(userId: string): Promise<string> {
+  const [membership] = await db.select({ organizationId: memberships.organizationId })
+    .from(memberships)
+    .where(eq(memberships.userId, userId))
+    .limit(1);
+
+  return membership?.organizationId || userId;
+}
+
+/**
+ * IDs of the candidates in an organization's pool, for scoping queries on
+ * candidate sub-records (experiences, education, skills...)
+ */
+export function ownedCandidateIds(organizationId: string) {
+  return db.select({ id: candidates.id })
+    .from(candidates)
+    .where(eq(candidates.organizationId, organizationId));
+}
+
+export async function getOwnedCandidate(organizationId: string, candidateId: string): Promise<Candidate | undefined> {
+  const [candidate] = await db.select()
+    .from(candidates)
+    .where(and(
+      eq(candidates.id, candidateId),
+      eq(candidates.organizationId, organizationId)
+    ));
+
+  return candidate;
+}
+
+/**
+ * Condition matching the screening roles created by the organization or one of its members
+ */
+export function ownedRoles(organizationId: string) {
+  return or(
+    eq(roles.createdBy, organizationId),
+    inArray(roles.createdBy, db.select({ userId: memberships.userId })
+      .from(memberships)
+      .where(eq(memberships.organizationId, organizationId)))
+  );
+}
+
+export async function getOwnedRole(organizationId: string, roleId: string): Promise<Role | undefined> {
+  const [role] = await db.select()
+    .from(roles)
+    .where(and(eq(roles.id, roleId), ownedRoles(organizationId)));
+
+  return role;
+}
+
+/**
+ * A screening on one of the organization's roles
+ */
+export async function getOwnedScreening(organizationId: string, screeningId: string): Promise<Screening | undefined> {
+  const [screening] = await db.select()
+    .from(screenings)
+    .where(eq(screenings.id, screeningId));
+
+  if (!screening || !(await getOwnedRole(organizationId, screening.roleId))) {
+    return undefined;
+  }
+  return screening;
+}
+
+// ============================================================================
+// DE-DUPLICATION
+// ============================================================================
+
+export function normalizeEmail(email?: string | null): string | null {
+  const normalized = email?.trim().toLowerCase();
+  return normalized || null;
+}
+
+/**
+ * Phone number as digits only, with South African numbers in international
+ * form so "082 123 4567" and "+27 82 123 4567" match
+ */
+export function normalizePhone(phone?: string | null): string | null {
+  return phone ? normalizeWhatsAppNumber(phone) : null;
+}
+
+/**
+ * Match keys to store alongside a candidate's contact details
+ */
+export function candidateMatchKeys(contact: CandidateContact) {
+  return {
+    emailNormalized: normalizeEmail(contact.email),
+    phoneNormalized: normalizePhone(contact.phone),
+  };
+}
+
+/**
+ * Find a candidate already in the organization's pool with the same email or phone
+ */
+export async function findDuplicateCandidate(
+  organizationId: string,
+  contact: CandidateContact,
+  excludeCandidateId?: string
+): Promise<Candidate | undefined> {
+  const { emailNormalized, phoneNormalized } = candidateMatchKeys(contact);
+  const matches = [
+    emailNormalized ? eq(candidates.emailNormalized, emailNormalized) : undefined,
+    phoneNormalized ? eq(candidates.phoneNormalized, phoneNormalized) : undefined,
+  ].filter(Boolean);
+
+  if (matches.length === 0) {
+    return undefined;
+  }
+
+  const found = await db.select()
+    .from(candidates)
+    .where(and(
+      eq(candidates.organizationId, organizationId),
+      or(...matches)
+    ))
+    .orderBy(candidates.createdAt);
+
+  return found.find(candidate => candidate.id !== excludeCandidateId);
+}
+
+// ============================================================================
+// CLIENT SHARING
+// ============================================================================
+
+/**
+ * Share a candidate with one of the agency's corporate clients
+ */
+export async function shareCandidate(
+  organizationId: string,
+  candidateId: string,
+  clientId: string,
+  sharedBy: string
+): Promise<ShareResult> {
+  const candidate = await getOwnedCandidate(organizationId, candidateId);
+  if (!candidate) {
+    return { ok: false, reason: 'CANDIDATE_NOT_FOUND' };
+  }
+
+  const [client] = await db.select({ id: corporateClients.id })
+    .from(corporateClients)
+    .where(and(
+      eq(corporateClients.id, clientId),
+      eq(corporateClients.agencyOrganizationId, organizationId)
+    ));
+  if (!client) {
+    return { ok: false, reason: 'CLIENT_NOT_FOUND' };
+  }
+
+  await db.insert(candidateShares)
+    .values({ candidateId, organizationId, clientId, sharedBy })
+    .onConflictDoNothing();
+
+  const [share] = await db.select()
+    .from(candidateShares)
+    .where(and(
+      eq(candidateShares.candidateId, candidateId),
+      eq(candidateShares.clientId, clientId)
+    ));
+
+  console.log(`[ATS] Candidate ${candidateId} shared with client ${clientId} by ${sharedBy}`);
+  return { ok: true, share };
+}
+
+/**
+ * Revoke a candidate share
+ * @returns whether a share was removed
+ */
+export async function unshareCandidate(organizationId: string, candidateId: string, clientId: string): Promise<boolean> {
+  const removed = await db.delete(candidateShares)
+    .where(and(
+      eq(candidateShares.candidateId, candidateId),
+      eq(candidateShares.clientId, clientId),
+      eq(candidateShares.organizationId, organizationId)
+    ))
+    .returning();
+
+  return removed.length > 0;
+}
+
+/**
+ * Corporate clients a candidate is shared with
+ */
+export async function listCandidateShares(organizationId: string, candidateId: string) {
+  return db.select({
+    clientId: candidateShares.clientId,
+    clientName: corporateClients.name,
+    sharedBy: candidateShares.sharedBy,
+    sharedAt: candidateShares.createdAt,
+  })
+    .from(candidateShares)
+    .innerJoin(corporateClients, eq(candidateShares.clientId, corporateClients.id))
+    .where(and(
+      eq(candidateShares.candidateId, candidateId),
+      eq(candidateShares.organizationId, organizationId)
+    ))
+    .orderBy(desc(candidateShares.createdAt));
+}
+
+/**
+ * Candidates an agency has shared with a corporate client
+ */
+export async function listSharedCandidates(organizationId: string, clientId: string) {
+  return db.select({
+    id: candidates.id,
+    fullName: candidates.fullName,
+    headline: candidates.headline,
+    city: candidates.city,
+    country: candidates.country,
+    sharedAt: candidateShares.createdAt,
+  })
+    .from(candidateShares)
+    .innerJoin(candidates, eq(candidateShares.candidateId, candidates.id))
+    .where(and(
+      eq(candidateShares.clientId, clientId),
+      eq(candidateShares.organizationId, organizationId)
+    ))
+    .orderBy(desc(candidateShares.createdAt));
+}
@@ -0,0 +1,207 @@
+/**
+ * Test Randomization Service
+ *
+ * Per-attempt item order for competency tests, enforced on the server.
+ * - With antiCheatConfig.shuffle on, each attempt gets its own order of items within each section
+ *   and of the options of choice and ranking items
+ * - Sections with item sampling draw a set number of items per difficulty for each attempt;
+ *   difficulties left blank give every item
+ * - The layout is seeded by the attempt id and saved on the attempt, so reloads show the same
+ *   test even if its items are edited later
+ * - Responses that refer to options by position are mapped back to the canonical options for grading
+ */
+
+import { createHash } from "crypto";
+import { db } from "../db";
+import { competencyTests, testAttempts, testItems, testSections, type TestAttempt, type TestItem, type TestSection } from "../../shared/schema";
+import { eq, and, isNull, inArray } from "drizzle-orm";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Formats whose options are shuffled; true/false and Likert keep their natural order
+const SHUFFLED_OPTION_FORMATS = ['mcq', 'multi_select', 'sjt_rank', 'sjt_best_worst'];
+
+const DIFFICULTIES = ['E', 'M', 'H'] as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AttemptItemLayout {
+  sections: Record<string, string[]>; // Section id -> item ids in display order
+  options: Record<string, number[]>; // Item id -> canonical option index of each displayed option
+}
+
+type ItemSampling = Partial<Record<typeof DIFFICULTIES[number], number>>;
+
+type LayoutSection = Pick<TestSection, 'id' | 'itemSampling'>;
+type LayoutItem = Pick<TestItem, 'id' | 'sectionId' | 'format' | 'options' | 'difficulty' | 'orderIndex'>;
+
+// ============================================================================
+// SEEDED RANDOMNESS
+// ============================================================================
+
+/**
+ * Deterministic random numbers in [0, 1) for a seed (mulberry32)
+ */
+function seededRandom(seed: string): () => number {
+  let state = createHash('sha256').update(seed).digest().readUInt32LE(0);
+
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(values: T[], random: () => number): T[] {
+  const shuffled = [...values];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * The items an attempt draws from a section: all of them, or the configured number per difficulty.
+ * A difficulty without a count keeps all of its items.
+ */
+function sampleItems<T extends LayoutItem>(items: T[], sampling: unknown, random: () => number): T[] {
+  if (!sampling || typeof sampling !== 'object') {
+    return items;
+  }
+
+  const counts = sampling as ItemSampling;
+  const excluded = new Set(DIFFICULTIES.flatMap(difficulty => {
+    const count = counts[difficulty];
+    if (typeof count !== 'number') return [];
+    return shuffle(items.filter(item => item.difficulty === difficulty), random).slice(Math.max(count, 0));
+  }));
+
+  return items.filter(item => !excluded.has(item));
+}
+
+/**
+ * Build an attempt's layout. The same attempt id, test settings and items always give the same layout.
+ */
+export function buildAttemptLayout(
+  attemptId: string,
+  shuffleItems: boolean,
+  sections: LayoutSection[],
+  items: LayoutItem[]
+): AttemptItemLayout {
+  const layout: AttemptItemLayout = { sections: {}, options: {} };
+
+  for (const section of sections) {
+    const random = seededRandom(`${attemptId}:${section.id}`);
+    const sectionItems = items
+      .filter(item => item.sectionId === section.id)
+      .sort((a, b) => a.orderIndex - b.orderIndex);
+
+    const drawn = sampleItems(sectionItems, section.itemSampling, random);
+    const ordered = shuffleItems ? shuffle(drawn, random) : drawn;
+    layout.sections[section.id] = ordered.map(item => item.id);
+
+    if (!shuffleItems) continue;
+
+    for (const item of ordered) {
+      const options = Array.isArray(item.options) ? item.options : [];
+      if (SHUFFLED_OPTION_FORMATS.includes(item.format) && options.length > 1) {
+        layout.options[item.id] = shuffle(options.map((_, index) => index), seededRandom(`${attemptId}:${item.id}`));
+      }
+    }
+  }
+
+  return layout;
+}
+
+/**
+ * The attempt's saved layout, built and saved on first use
+ */
+export async function getAttemptLayout(attempt: Pick<TestAttempt, 'id' | 'testId' | 'itemLayout'>): Promise<AttemptItemLayout> {
+  if (attempt.itemLayout) {
+    return attempt.itemLayout as AttemptItemLayout;
+  }
+
+  const [[test], sections] = await Promise.all([
+    db.select().from(competencyTests).where(eq(competencyTests.id, attempt.testId)),
+    db.select().from(testSections).where(eq(testSections.testId, attempt.testId)),
+  ]);
+
+  const items = sections.length > 0
+    ? await db.select().from(testItems).where(inArray(testItems.sectionId, sections.map(section => section.id)))
+    : [];
+
+  const shuffleItems = !!(test?.antiCheatConfig as { shuffle?: boolean } | null)?.shuffle;
+  const layout = buildAttemptLayout(attempt.id, shuffleItems, sections, items);
+
+  // Only the first request saves a layout; a concurrent one reads it back
+  const [saved] = await db.update(testAttempts)
+    .set({ itemLayout: layout })
+    .where(and(eq(testAttempts.id, attempt.id), isNull(testAttempts.itemLayout)))
+    .returning({ itemLayout: testAttempts.itemLayout });
+
+  if (saved) {
+    return layout;
+  }
+
+  const [current] = await db.select({ itemLayout: testAttempts.itemLayout })
+    .from(testAttempts)
+    .where(eq(testAttempts.id, attempt.id));
+
+  return current.itemLayout as AttemptItemLayout;
+}
+
+// ============================================================================
+// APPLYING A LAYOUT
+// ============================================================================
+
+export function isItemInLayout(layout: AttemptItemLayout, itemId: string): boolean {
+  return Object.values(layout.sections).some(itemIds => itemIds.includes(itemId));
+}
+
+/**
+ * The items an attempt was given, for scoring. Attempts without a layout were given every item.
+ */
+export function attemptItems<T extends Pick<TestItem, 'id'>>(items: T[], layout: AttemptItemLayout | null): T[] {
+  return layout ? items.filter(item => isItemInLayout(layout, item.id)) : items;
+}
+
+/**
+ * An item's options in the order the attempt shows them, or null when they aren't shuffled
+ * (or the options have changed since the attempt started)
+ */
+export function optionsInLayout(layout: AttemptItemLayout, item: Pick<TestItem, 'id' | 'options'>): string[] | null {
+  const order = layout.options[item.id];
+  const options = item.options;
+  if (!order || !Array.isArray(options) || order.length !== options.length) {
+    return null;
+  }
+
+  return order.map(index => String(options[index]));
+}
+
+/**
+ * A section's items in the attempt's order, with options in the attempt's order
+ */
+export function layoutSectionItems<T extends Pick<TestItem, 'id' | 'options'>>(
+  layout: AttemptItemLayout,
+  sectionId: string,
+  items: T[]
+): T[] {
+  return (layout.sections[sectionId] || []).flatMap(itemId => {
+    const item = items.find(candidate => candidate.id === itemId);
+    if (!item) return []; // Removed from the test since the attempt started
+
+    const options = optionsInLayout(layout, item);
+    return [options ? { ...item, options } : item];
+  });
+}
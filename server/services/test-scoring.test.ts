@@ -0,0 +1,182 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  scoreMcq,
+  scoreTrueFalse,
+  scoreMultiSelect,
+  scoreSjtRank,
+  scoreSjtBestWorst,
+  scoreLikert,
+  scoreItemResponse,
+} from "./test-scoring";
+
+const OPTIONS = ["Alpha", "Bravo", "Charlie", "Delta"];
+
+describe("scoreMcq", () => {
+  it("gives full credit for the keyed option by text or index", () => {
+    assert.equal(scoreMcq("Bravo", "Bravo", OPTIONS), 1);
+    assert.equal(scoreMcq(1, "bravo ", OPTIONS), 1);
+    assert.equal(scoreMcq("1", 1, OPTIONS), 1);
+  });
+
+  it("gives no credit for another option or no answer", () => {
+    assert.equal(scoreMcq("Bravo", "Alpha", OPTIONS), 0);
+    assert.equal(scoreMcq("Bravo", null, OPTIONS), 0);
+  });
+
+  it("maps an answer by position through the shuffled order the candidate saw", () => {
+    const shown = ["Charlie", "Alpha", "Delta", "Bravo"];
+    assert.equal(scoreMcq(0, 1, OPTIONS, shown), 1);
+    assert.equal(scoreMcq(0, 0, OPTIONS, shown), 0);
+  });
+
+  it("can't score without a key", () => {
+    assert.equal(scoreMcq(null, "Alpha", OPTIONS), null);
+  });
+});
+
+describe("scoreTrueFalse", () => {
+  it("matches booleans, strings and 0/1", () => {
+    assert.equal(scoreTrueFalse(true, "true"), 1);
+    assert.equal(scoreTrueFalse("True", "yes"), 1);
+    assert.equal(scoreTrueFalse("false", 0), 1);
+    assert.equal(scoreTrueFalse("false", true), 0);
+  });
+
+  it("gives no credit for an unreadable answer", () => {
+    assert.equal(scoreTrueFalse(true, "maybe"), 0);
+  });
+
+  it("can't score with an unreadable key", () => {
+    assert.equal(scoreTrueFalse("sometimes", true), null);
+  });
+});
+
+describe("scoreMultiSelect", () => {
+  const key = "[0, 2]"; // Alpha and Charlie
+
+  it("gives full credit for exactly the keyed options", () => {
+    assert.equal(scoreMultiSelect(key, ["Alpha", "Charlie"], OPTIONS), 1);
+    assert.equal(scoreMultiSelect("0, 2", [2, 0], OPTIONS), 1);
+  });
+
+  it("gives partial credit for some keyed options", () => {
+    assert.equal(scoreMultiSelect(key, ["Alpha"], OPTIONS), 0.5);
+  });
+
+  it("takes a share away for each wrong pick", () => {
+    assert.equal(scoreMultiSelect(key, ["Alpha", "Charlie", "Delta"], OPTIONS), 0.5);
+    assert.equal(scoreMultiSelect(key, ["Alpha", "Bravo"], OPTIONS), 0);
+  });
+
+  it("never goes below zero", () => {
+    assert.equal(scoreMultiSelect(key, ["Bravo", "Delta"], OPTIONS), 0);
+    assert.equal(scoreMultiSelect(key, [], OPTIONS), 0);
+  });
+
+  it("can't score without keyed options", () => {
+    assert.equal(scoreMultiSelect("[]", ["Alpha"], OPTIONS), null);
+  });
+});
+
+describe("scoreSjtRank", () => {
+  const key = [0, 1, 2, 3];
+
+  it("gives full credit for the keyed order", () => {
+    assert.equal(scoreSjtRank(key, ["Alpha", "Bravo", "Charlie", "Delta"], OPTIONS), 1);
+  });
+
+  it("gives no credit for the reverse order", () => {
+    assert.equal(scoreSjtRank(key, ["Delta", "Charlie", "Bravo", "Alpha"], OPTIONS), 0);
+  });
+
+  it("gives partial credit by rank distance", () => {
+    // Alpha and Bravo swapped: distance 2 of a possible 8
+    assert.equal(scoreSjtRank(key, ["Bravo", "Alpha", "Charlie", "Delta"], OPTIONS), 0.75);
+    // Alpha moved to the end: distance 6 of a possible 8
+    assert.equal(scoreSjtRank(key, ["Bravo", "Charlie", "Delta", "Alpha"], OPTIONS), 0.25);
+  });
+
+  it("gives no credit for an incomplete or repeated ranking", () => {
+    assert.equal(scoreSjtRank(key, ["Alpha", "Bravo", "Charlie"], OPTIONS), 0);
+    assert.equal(scoreSjtRank(key, ["Alpha", "Alpha", "Charlie", "Delta"], OPTIONS), 0);
+  });
+
+  it("can't score a key with fewer than two options", () => {
+    assert.equal(scoreSjtRank([0], ["Alpha"], OPTIONS), null);
+  });
+});
+
+describe("scoreSjtBestWorst", () => {
+  const key = { best: 0, worst: 3 }; // Alpha best, Delta worst
+
+  it("gives full credit for the keyed best and worst", () => {
+    assert.equal(scoreSjtBestWorst(key, { best: "Alpha", worst: "Delta" }, OPTIONS), 1);
+    assert.equal(scoreSjtBestWorst("[0, 3]", '{"best":"Alpha","worst":"Delta"}', OPTIONS), 1);
+  });
+
+  it("gives half credit for each of best and worst", () => {
+    assert.equal(scoreSjtBestWorst(key, { best: "Alpha", worst: "Charlie" }, OPTIONS), 0.5);
+    assert.equal(scoreSjtBestWorst(key, { best: "Bravo", worst: "Delta" }, OPTIONS), 0.5);
+  });
+
+  it("gives no credit for best and worst swapped or no answer", () => {
+    assert.equal(scoreSjtBestWorst(key, { best: "Delta", worst: "Alpha" }, OPTIONS), 0);
+    assert.equal(scoreSjtBestWorst(key, null, OPTIONS), 0);
+  });
+
+  it("can't score without both a best and a worst key", () => {
+    assert.equal(scoreSjtBestWorst({ best: 0 }, { best: "Alpha", worst: "Delta" }, OPTIONS), null);
+  });
+});
+
+describe("scoreLikert", () => {
+  it("scores agreement higher on positively keyed items", () => {
+    assert.equal(scoreLikert(null, 5), 1);
+    assert.equal(scoreLikert("positive", 3), 0.5);
+    assert.equal(scoreLikert(undefined, 1), 0);
+  });
+
+  it("scores disagreement higher on reverse-scored items", () => {
+    assert.equal(scoreLikert("reverse", 1), 1);
+    assert.equal(scoreLikert({ reverse: true }, 2), 0.75);
+    assert.equal(scoreLikert("reversed", 5), 0);
+  });
+
+  it("gives partial credit by distance from an ideal scale point", () => {
+    assert.equal(scoreLikert(4, 4), 1);
+    assert.equal(scoreLikert("4", "2"), 0.5);
+  });
+
+  it("gives no credit for an answer off the scale", () => {
+    assert.equal(scoreLikert(null, 6), 0);
+    assert.equal(scoreLikert(null, "n/a"), 0);
+  });
+
+  it("can't score an ideal point off the scale", () => {
+    assert.equal(scoreLikert(7, 3), null);
+  });
+});
+
+describe("scoreItemResponse", () => {
+  it("awards points for the credit earned", () => {
+    const item = { format: "multi_select", options: OPTIONS, correctAnswer: [0, 2], maxPoints: 3 };
+    assert.deepEqual(scoreItemResponse(item, ["Alpha"]), { credit: 0.5, pointsAwarded: 1.5, isCorrect: 0 });
+    assert.deepEqual(scoreItemResponse(item, '["Alpha","Charlie"]'), { credit: 1, pointsAwarded: 3, isCorrect: 1 });
+  });
+
+  it("rounds partial credit", () => {
+    const item = { format: "multi_select", options: OPTIONS, correctAnswer: [0, 1, 2], maxPoints: 1 };
+    assert.deepEqual(scoreItemResponse(item, ["Alpha"]), { credit: 0.333, pointsAwarded: 0.33, isCorrect: 0 });
+  });
+
+  it("scores against the options the attempt showed", () => {
+    const item = { format: "mcq", options: OPTIONS, correctAnswer: "Delta", maxPoints: 2 };
+    assert.deepEqual(scoreItemResponse(item, 0, ["Delta", "Charlie", "Bravo", "Alpha"]), { credit: 1, pointsAwarded: 2, isCorrect: 1 });
+  });
+
+  it("leaves open formats and unkeyed items for manual grading", () => {
+    assert.equal(scoreItemResponse({ format: "essay", options: null, correctAnswer: null, maxPoints: 5 }, "An answer"), null);
+    assert.equal(scoreItemResponse({ format: "mcq", options: OPTIONS, correctAnswer: null, maxPoints: 1 }, "Alpha"), null);
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * Test Scoring Service
+ *
+ * Auto-scoring of closed competency test items (see testItems.format).
+ * - mcq / true_false: all or nothing
+ * - multi_select: partial credit - correct picks minus wrong picks, over the number of keyed options
+ * - sjt_rank: rank-distance credit against the keyed expert order
+ * - sjt_best_worst: half credit each for the keyed best and worst options
+ * - likert: credit along the scale, reversed for reverse-scored items
+ *
+ * Keys come from the AI test generator and the manual test builder, so an option may be
+ * keyed by its text or by its 0-based index, and keys may arrive as JSON strings ("[0,2]").
+ *
+ * Attempts are scored per section type (skills, aptitude, work_style), combined with the test's
+ * weights and passed against its overall and per-section cut scores.
+ */
+
+import type { CompetencyTest, TestItem, TestResponse, TestSection } from "../../shared/schema";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const CLOSED_ITEM_FORMATS = ['mcq', 'true_false', 'multi_select', 'sjt_rank', 'sjt_best_worst', 'likert'] as const;
+
+// The candidate test page shows a 1-5 agreement scale
+const LIKERT_POINTS = 5;
+
+// Pass mark for tests saved without an overall cut score
+const DEFAULT_OVERALL_CUT_SCORE = 50;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ClosedItemFormat = typeof CLOSED_ITEM_FORMATS[number];
+
+export type ScorableItem = Pick<TestItem, 'format' | 'options' | 'correctAnswer' | 'maxPoints'>;
+
+export interface ItemScore {
+  credit: number; // 0-1
+  pointsAwarded: number;
+  isCorrect: number; // 1 = full credit, 0 = otherwise
+}
+
+export interface MissedCutScore {
+  section: string; // Section type, or 'overall'
+  score: number;
+  cutScore: number;
+}
+
+export interface AttemptScore {
+  overallScore: number;
+  sectionScores: Record<string, number>; // By section type, 0-100
+  passed: boolean;
+  missedCutScores: MissedCutScore[];
+}
+
+// ============================================================================
+// KEY & RESPONSE NORMALIZATION
+// ============================================================================
+
+const normalizeText = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Parse a key or response that may have been stored as a JSON string,
+ * or as a comma-separated list typed into the test builder
+ */
+function parseValue(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+
+  const text = value.trim();
+  if (/^[\[{"]/.test(text)) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return value;
+    }
+  }
+  if (/^\d+(\s*,\s*\d+)+$/.test(text)) {
+    return text.split(',').map(part => Number(part.trim()));
+  }
+  return value;
+}
+
+/**
+ * The option a key or response refers to, by text or 0-based index,
+ * normalized for comparison. Null when it can't be read as an option.
+ */
+function resolveOption(value: unknown, options: string[]): string | null {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value >= 0 && value < options.length ? normalizeText(options[value]) : null;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+
+  const text = normalizeText(value);
+  if (options.some(option => normalizeText(option) === text)) {
+    return text;
+  }
+  if (/^\d+$/.test(text)) {
+    return resolveOption(Number(text), options);
+  }
+  return text;
+}
+
+function resolveOptionList(value: unknown, options: string[]): string[] | null {
+  const parsed = parseValue(value);
+  const list = Array.isArray(parsed) ? parsed : [parsed];
+  const resolved = list.map(entry => resolveOption(entry, options));
+  return resolved.every((entry): entry is string => entry !== null) ? resolved : null;
+}
+
+function resolveBestWorst(value: unknown, options: string[]): { best: string | null; worst: string | null } | null {
+  const parsed = parseValue(value);
+
+  if (Array.isArray(parsed) && parsed.length === 2) {
+    return { best: resolveOption(parsed[0], options), worst: resolveOption(parsed[1], options) };
+  }
+  if (parsed && typeof parsed === 'object') {
+    const { best, worst } = parsed as { best?: unknown; worst?: unknown };
+    return { best: resolveOption(best, options), worst: resolveOption(worst, options) };
+  }
+  return null;
+}
+
+function toBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value === 1 ? true : value === 0 ? false : null;
+  if (typeof value === 'string') {
+    const text = normalizeText(value);
+    if (['true', 't', 'yes', '1'].includes(text)) return true;
+    if (['false', 'f', 'no', '0'].includes(text)) return false;
+  }
+  return null;
+}
+
+function itemOptions(item: Pick<TestItem, 'options'>): string[] {
+  const options = parseValue(item.options);
+  return Array.isArray(options) ? options.map(String) : [];
+}
+
+// ============================================================================
+// FORMAT SCORERS
+// Each returns the credit (0-1) for a response, or null when the item can't be auto-scored
+// ============================================================================
+
+export function scoreMcq(key: unknown, response: unknown, options: string[], shownOptions = options): number | null {
+  const keyed = resolveOption(parseValue(key), options);
+  if (keyed === null) return null;
+  return resolveOption(response, shownOptions) === keyed ? 1 : 0;
+}
+
+export function scoreTrueFalse(key: unknown, response: unknown): number | null {
+  const keyed = toBoolean(parseValue(key));
+  if (keyed === null) return null;
+  return toBoolean(response) === keyed ? 1 : 0;
+}
+
+/**
+ * Each keyed option picked earns its share of the credit; each wrong pick takes a share away
+ */
+export function scoreMultiSelect(key: unknown, response: unknown, options: string[], shownOptions = options): number | null {
+  const keyed = resolveOptionList(key, options);
+  if (!keyed || keyed.length === 0) return null;
+
+  const keyedSet = new Set(keyed);
+  const picked = new Set(resolveOptionList(response, shownOptions) ?? []);
+
+  let hits = 0;
+  let misses = 0;
+  picked.forEach(option => (keyedSet.has(option) ? hits++ : misses++));
+
+  return Math.max(0, (hits - misses) / keyedSet.size);
+}
+
+/**
+ * Credit falls with the total distance between each option's rank and its keyed rank,
+ * from 1 for the keyed order to 0 for the furthest possible order (the reverse)
+ */
+export function scoreSjtRank(key: unknown, response: unknown, options: string[], shownOptions = options): number | null {
+  const keyed = resolveOptionList(key, options);
+  if (!keyed || keyed.length < 2) return null;
+
+  const ranked = resolveOptionList(response, shownOptions);
+  if (!ranked || ranked.length !== keyed.length || new Set(ranked).size !== ranked.length) {
+    return 0;
+  }
+
+  let distance = 0;
+  for (let keyedRank = 0; keyedRank < keyed.length; keyedRank++) {
+    const rank = ranked.indexOf(keyed[keyedRank]);
+    if (rank === -1) return 0;
+    distance += Math.abs(rank - keyedRank);
+  }
+
+  const maxDistance = Math.floor((keyed.length * keyed.length) / 2);
+  return 1 - distance / maxDistance;
+}
+
+export function scoreSjtBestWorst(key: unknown, response: unknown, options: string[], shownOptions = options): number | null {
+  const keyed = resolveBestWorst(key, options);
+  if (!keyed || keyed.best === null || keyed.worst === null) return null;
+
+  const answer = resolveBestWorst(response, shownOptions);
+  if (!answer) return 0;
+
+  return (answer.best === keyed.best ? 0.5 : 0) + (answer.worst === keyed.worst ? 0.5 : 0);
+}
+
+/**
+ * Likert keys: none or "positive" (agreement scores higher), "reverse" / { reverse: true }
+ * (disagreement scores higher), or a scale point that is the ideal answer
+ */
+export function scoreLikert(key: unknown, response: unknown): number | null {
+  const value = typeof response === 'string' ? Number(response) : response;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > LIKERT_POINTS) {
+    return 0;
+  }
+
+  const span = LIKERT_POINTS - 1;
+  const parsedKey = parseValue(key);
+  const keyed = typeof parsedKey === 'string' && /^\d+$/.test(parsedKey.trim()) ? Number(parsedKey) : parsedKey;
+
+  if (typeof keyed === 'number') {
+    if (keyed < 1 || keyed > LIKERT_POINTS) return null;
+    return 1 - Math.abs(value - keyed) / span;
+  }
+
+  const reverse = typeof keyed === 'string'
+    ? normalizeText(keyed).startsWith('reverse')
+    : !!(keyed && typeof keyed === 'object' && (keyed as { reverse?: unknown }).reverse);
+
+  return reverse ? (LIKERT_POINTS - value) / span : (value - 1) / span;
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+export function isClosedFormat(format: string): format is ClosedItemFormat {
+  return (CLOSED_ITEM_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * Score a response to a closed item. Null for open formats and closed items
+ * without a usable key - those are left for manual grading.
+ * Keys refer to the item's own option order; when the attempt shuffled the options,
+ * shownOptions is the order the candidate saw, so responses by position map back correctly.
+ */
+export function scoreItemResponse(item: ScorableItem, response: unknown, shownOptions?: string[] | null): ItemScore | null {
+  const options = itemOptions(item);
+  const shown = shownOptions ? shownOptions.map(String) : options;
+  const answer = parseValue(response);
+
+  let credit: number | null;
+  switch (item.format) {
+    case 'mcq':
+      credit = scoreMcq(item.correctAnswer, answer, options, shown);
+      break;
+    case 'true_false':
+      credit = scoreTrueFalse(item.correctAnswer, answer);
+      break;
+    case 'multi_select':
+      credit = scoreMultiSelect(item.correctAnswer, answer, options, shown);
+      break;
+    case 'sjt_rank':
+      credit = scoreSjtRank(item.correctAnswer, answer, options, shown);
+      break;
+    case 'sjt_best_worst':
+      credit = scoreSjtBestWorst(item.correctAnswer, answer, options, shown);
+      break;
+    case 'likert':
+      credit = scoreLikert(item.correctAnswer, answer);
+      break;
+    default:
+      credit = null;
+  }
+
+  if (credit === null) {
+    return null;
+  }
+
+  const rounded = Math.round(credit * 1000) / 1000;
+  return {
+    credit: rounded,
+    pointsAwarded: Math.round(rounded * item.maxPoints * 100) / 100,
+    isCorrect: rounded === 1 ? 1 : 0,
+  };
+}
+
+// ============================================================================
+// ATTEMPT SCORING
+// ============================================================================
+
+/**
+ * A test's weight or cut score for a section type. Manual tests key work style as
+ * "workStyle", AI-generated blueprints as "work_style".
+ */
+function bySectionType(values: unknown, type: string): number | null {
+  if (!values || typeof values !== 'object') return null;
+
+  const record = values as Record<string, unknown>;
+  const camelType = type.replace(/_(\w)/g, (_, letter: string) => letter.toUpperCase());
+  const value = record[type] ?? record[camelType];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function weightedAverage(entries: Array<{ score: number; weight: number }>): number {
+  const totalWeight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  if (totalWeight > 0) {
+    return entries.reduce((sum, entry) => sum + entry.score * entry.weight, 0) / totalWeight;
+  }
+  return entries.length > 0 ? entries.reduce((sum, entry) => sum + entry.score, 0) / entries.length : 0;
+}
+
+/**
+ * Score a submitted attempt.
+ * - Each section scores its points earned over points available
+ * - Sections of the same type combine by their section weight into a section type score
+ * - The overall score combines section type scores by the test's weights, falling back
+ *   to the section weights for types the test has no weight for
+ * - The attempt passes when the overall score and every section type with a cut score
+ *   meet their cut
+ */
+export function scoreAttempt(
+  test: Pick<CompetencyTest, 'weights' | 'cutScores'>,
+  sections: Array<Pick<TestSection, 'id' | 'type' | 'weight'>>,
+  items: Array<Pick<TestItem, 'id' | 'sectionId' | 'maxPoints'>>,
+  responses: Array<Pick<TestResponse, 'itemId' | 'pointsAwarded'>>
+): AttemptScore {
+  const pointsByItem = new Map(responses.map(response => [response.itemId, response.pointsAwarded ?? 0]));
+
+  const sectionsByType = new Map<string, Array<{ score: number; weight: number }>>();
+  for (const section of sections) {
+    const sectionItems = items.filter(item => item.sectionId === section.id);
+    const available = sectionItems.reduce((sum, item) => sum + item.maxPoints, 0);
+    if (available === 0) continue;
+
+    const earned = sectionItems.reduce((sum, item) => sum + (pointsByItem.get(item.id) ?? 0), 0);
+    const typeSections = sectionsByType.get(section.type) ?? [];
+    typeSections.push({ score: (earned / available) * 100, weight: section.weight });
+    sectionsByType.set(section.type, typeSections);
+  }
+
+  const sectionScores: Record<string, number> = {};
+  const typeScores: Array<{ score: number; weight: number }> = [];
+  sectionsByType.forEach((typeSections, type) => {
+    const score = weightedAverage(typeSections);
+    sectionScores[type] = Math.round(score);
+    typeScores.push({
+      score,
+      weight: bySectionType(test.weights, type) ?? typeSections.reduce((sum, section) => sum + section.weight, 0) / 100,
+    });
+  });
+
+  const overallScore = Math.round(weightedAverage(typeScores));
+
+  const cutScores = (test.cutScores || {}) as { overall?: unknown; sections?: unknown };
+  const overallCut = typeof cutScores.overall === 'number' ? cutScores.overall : DEFAULT_OVERALL_CUT_SCORE;
+
+  const missedCutScores: MissedCutScore[] = [];
+  if (overallScore < overallCut) {
+    missedCutScores.push({ section: 'overall', score: overallScore, cutScore: overallCut });
+  }
+  for (const [type, score] of Object.entries(sectionScores)) {
+    const cutScore = bySectionType(cutScores.sections, type);
+    if (cutScore !== null && score < cutScore) {
+      missedCutScores.push({ section: type, score, cutScore });
+    }
+  }
+
+  return { overallScore, sectionScores, passed: missedCutScores.length === 0, missedCutScores };
+}
+
+/**
+ * An attempt's section type scores for display, with each type's cut score and whether it was missed.
+ * Attempts scored before section types were used keep their scores by section id.
+ */
+export function attemptSectionResults(
+  test: Pick<CompetencyTest, 'cutScores'>,
+  sections: Array<Pick<TestSection, 'id' | 'type' | 'title'>>,
+  attempt: { sectionScores: unknown; missedCutScores: unknown }
+) {
+  const scores = (attempt.sectionScores || {}) as Record<string, number>;
+  const missed = (Array.isArray(attempt.missedCutScores) ? attempt.missedCutScores : []) as MissedCutScore[];
+  const cutScores = (test.cutScores || {}) as { sections?: unknown };
+
+  const types = Array.from(new Set(sections.map(section => section.type)));
+  return types.map(type => {
+    const typeSections = sections.filter(section => section.type === type);
+    return {
+      type,
+      title: typeSections.map(section => section.title).join(', '),
+      score: scores[type] ?? scores[typeSections[0].id] ?? 0,
+      cutScore: bySectionType(cutScores.sections, type),
+      missedCut: missed.some(miss => miss.section === type),
+    };
+  });
+}
@@ -1,6 +1,16 @@
 import { Router } from "express";
 import { authenticateSession, type AuthRequest } from "./auth-middleware";
 import { pool } from "./db-pool";
+import { createShortlistShareSchema, shortlistFeedbackSchema } from "@shared/schema";
+import { getTalentPoolOwner } from "./services/talent-pool";
+import {
+  createShortlistShare,
+  listShortlistShares,
+  revokeShortlistShare,
+  getRoleShortlistFeedback,
+  getSharedShortlist,
+  submitShortlistFeedback,
+} from "./services/shortlist-shares";
 const router = Router();
 
 // Get ranked shortlist
@@ -53,4 +63,108 @@ router.get("/roles/:roleId/candidates/:candidateId", authenticateSession, async
   }
 });
 
+// ============================================
+// SHARED SHORTLISTS (tokenized links for clients)
+// ============================================
+
+// Share a role's shortlist with a client contact
+router.post("/roles/:roleId/shortlist-shares", authenticateSession, async (req, res) => {
+  const parsed = createShortlistShareSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid share details" });
+  }
+
+  try {
+    const user = req.user as any;
+    const organizationId = await getTalentPoolOwner(user.id);
+    const result = await createShortlistShare(organizationId, user.id, req.params.roleId, parsed.data);
+
+    if (!result.ok) {
+      return result.reason === 'ROLE_NOT_FOUND'
+        ? res.status(404).json({ error: "Role not found" })
+        : res.status(400).json({ error: "There are no screened candidates to share yet" });
+    }
+
+    res.status(201).json({ share: result.share, url: result.url });
+  } catch (error: any) {
+    console.error("Create shortlist share error:", error);
+    res.status(500).json({ error: "Failed to share shortlist" });
+  }
+});
+
+// A role's shared links
+router.get("/roles/:roleId/shortlist-shares", authenticateSession, async (req, res) => {
+  try {
+    const user = req.user as any;
+    const organizationId = await getTalentPoolOwner(user.id);
+    res.json({ shares: await listShortlistShares(organizationId, req.params.roleId) });
+  } catch (error: any) {
+    console.error("List shortlist shares error:", error);
+    res.status(500).json({ error: "Failed to fetch shared shortlists" });
+  }
+});
+
+// Revoke a shared link
+router.delete("/shortlist-shares/:shareId", authenticateSession, async (req, res) => {
+  try {
+    const user = req.user as any;
+    const organizationId = await getTalentPoolOwner(user.id);
+
+    if (!await revokeShortlistShare(organizationId, req.params.shareId)) {
+      return res.status(404).json({ error: "Shared shortlist not found" });
+    }
+    res.json({ revoked: true });
+  } catch (error: any) {
+    console.error("Revoke shortlist share error:", error);
+    res.status(500).json({ error: "Failed to revoke shared shortlist" });
+  }
+});
+
+// Client feedback on a role's candidates
+router.get("/roles/:roleId/shortlist-feedback", authenticateSession, async (req, res) => {
+  try {
+    const user = req.user as any;
+    const organizationId = await getTalentPoolOwner(user.id);
+    res.json({ feedback: await getRoleShortlistFeedback(organizationId, req.params.roleId) });
+  } catch (error: any) {
+    console.error("Get shortlist feedback error:", error);
+    res.status(500).json({ error: "Failed to fetch shortlist feedback" });
+  }
+});
+
+// Public: the shortlist behind a link (no account needed)
+router.get("/public/shortlists/:token", async (req, res) => {
+  try {
+    const shortlist = await getSharedShortlist(req.params.token);
+    if (!shortlist) {
+      return res.status(404).json({ error: "This shortlist link has expired or is no longer available" });
+    }
+    res.json(shortlist);
+  } catch (error: any) {
+    console.error("Get shared shortlist error:", error);
+    res.status(500).json({ error: "Failed to load shortlist" });
+  }
+});
+
+// Public: the client's Yes/No/Maybe and comment on a candidate
+router.put("/public/shortlists/:token/candidates/:candidateId/feedback", async (req, res) => {
+  const parsed = shortlistFeedbackSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid feedback" });
+  }
+
+  try {
+    const result = await submitShortlistFeedback(req.params.token, req.params.candidateId, parsed.data);
+    if (!result.ok) {
+      return result.reason === 'SHARE_NOT_FOUND'
+        ? res.status(404).json({ error: "This shortlist link has expired or is no longer available" })
+        : res.status(404).json({ error: "Candidate is not on this shortlist" });
+    }
+    res.json({ saved: true });
+  } catch (error: any) {
+    console.error("Submit shortlist feedback error:", error);
+    res.status(500).json({ error: "Failed to save feedback" });
+  }
+});
+
 export default router;
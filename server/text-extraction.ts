@@ -0,0 +1,130 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Shared OpenAI client for OCR (reused across requests)
+let ocrOpenAI: any = null;
+async function getOCRClient() {
+  if (!ocrOpenAI) {
+    const { default: OpenAI } = await import('openai');
+    ocrOpenAI = new OpenAI({
+      baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+      apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY
+    });
+  }
+  return ocrOpenAI;
+}
+
+// Extract text from an uploaded file (PDF with OCR fallback, DOC, DOCX, TXT)
+export async function extractTextFromFile(filePath: string, mimetype: string): Promise<string> {
+  if (mimetype === 'application/pdf') {
+    // Try regular text extraction first (fast for text-based PDFs)
+    const { PDFParse } = await import('pdf-parse');
+    const dataBuffer = await fs.readFile(filePath);
+    
+    let parser: any = null;
+    try {
+      parser = new PDFParse({ data: dataBuffer });
+      const result = await parser.getText();
+      
+      // Check if we got meaningful text (>100 chars indicates text-based PDF)
+      if (result.text.trim().length > 100) {
+        console.log(`[PDF Parse] Text-based PDF: extracted ${result.text.length} characters, ${result.total} pages`);
+        return result.text;
+      }
+      
+      // Very little text extracted - likely image-based/scanned PDF, use OCR
+      console.log(`[PDF Parse] Image-based PDF detected (only ${result.text.length} chars). Falling back to OCR...`);
+      
+      // Convert PDF pages to images and use OpenAI Vision for OCR
+      const { pdf } = await import('pdf-to-img');
+      const openai = await getOCRClient();
+      
+      const document = await pdf(filePath, { scale: 2 });
+      const pageTexts: string[] = [];
+      let pageNum = 1;
+      
+      for await (const pageImage of document) {
+        console.log(`[OCR] Processing page ${pageNum}...`);
+        
+        // Convert image buffer to base64
+        const base64Image = pageImage.toString('base64');
+        const dataUrl = `data:image/png;base64,${base64Image}`;
+        
+        // Use OpenAI Vision to extract text
+        const response = await openai.chat.completions.create({
+          model: "gpt-4o",
+          messages: [
+            {
+              role: "user",
+              content: [
+                {
+                  type: "text",
+                  text: "Extract all text from this image. Return only the extracted text, preserving formatting and structure as much as possible."
+                },
+                {
+                  type: "image_url",
+                  image_url: { url: dataUrl }
+                }
+              ]
+            }
+          ],
+          max_tokens: 4000
+        });
+        
+        const extractedText = response.choices[0]?.message?.content || '';
+        pageTexts.push(extractedText);
+        pageNum++;
+      }
+      
+      const fullText = pageTexts.join('\n\n');
+      console.log(`[OCR] Successfully extracted ${fullText.length} characters from ${pageNum - 1} page(s)`);
+      return fullText;
+      
+    } catch (error) {
+      console.error(`[PDF Parse/OCR] Error extracting text:`, error);
+      throw new Error(`Failed to parse PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      // Ensure parser cleanup even if OCR fails
+      if (parser) {
+        try {
+          await parser.destroy();
+        } catch (cleanupError) {
+          console.warn('[PDF Parse] Cleanup error:', cleanupError);
+        }
+      }
+    }
+  } else if (mimetype === 'text/plain') {
+    const fileBuffer = await fs.readFile(filePath);
+    return fileBuffer.toString('utf-8');
+  } else if (mimetype === 'application/msword') {
+    // Use word-extractor for legacy .DOC files
+    const WordExtractor = (await import('word-extractor')).default;
+    const extractor = new WordExtractor();
+    const extracted = await extractor.extract(filePath);
+    const text = extracted.getBody();
+    console.log(`[DOC Parse] Extracted ${text.length} characters from DOC`);
+    return text;
+  } else if (mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
+    // Use mammoth to extract text from DOCX files
+    const mammoth = await import('mammoth');
+    const result = await mammoth.extractRawText({ path: filePath });
+    console.log(`[DOCX Parse] Extracted ${result.value.length} characters from DOCX`);
+    return result.value;
+  } else {
+    // Fallback: try to extract as text
+    const fileBuffer = await fs.readFile(filePath);
+    return fileBuffer.toString('utf-8');
+  }
+}
+
+const MIMETYPES_BY_EXTENSION: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+// Mimetype of a supported CV file by extension (e.g. for files unpacked from a ZIP), or null
+export function mimetypeForFilename(filename: string): string | null {
+  return MIMETYPES_BY_EXTENSION[path.extname(filename).toLowerCase()] || null;
+}
@@ -0,0 +1,61 @@
+/**
+ * WhatsApp notification service using the WhatsApp Business Cloud API
+ * Requires WHATSAPP_ACCESS_TOKEN and WHATSAPP_PHONE_NUMBER_ID; without them
+ * messages are logged and skipped.
+ */
+
+const GRAPH_API_URL = 'https://graph.facebook.com/v20.0';
+
+export function isWhatsAppConfigured(): boolean {
+  return !!(process.env.WHATSAPP_ACCESS_TOKEN && process.env.WHATSAPP_PHONE_NUMBER_ID);
+}
+
+/**
+ * Normalize a South African number to international format without '+' (e.g. 0821234567 -> 27821234567)
+ */
+export function normalizeWhatsAppNumber(phone: string): string | null {
+  let digits = phone.replace(/\D/g, '');
+  if (digits.startsWith('00')) digits = digits.slice(2);
+  if (digits.startsWith('0')) digits = `27${digits.slice(1)}`;
+  return digits.length >= 10 && digits.length <= 15 ? digits : null;
+}
+
+/**
+ * Send a plain text WhatsApp message
+ * @returns true if the message was accepted by WhatsApp, false if skipped
+ */
+export async function sendWhatsAppMessage(phone: string, body: string): Promise<boolean> {
+  const to = normalizeWhatsAppNumber(phone);
+  if (!to) {
+    console.warn(`[WhatsApp] Invalid number, message skipped: ${phone}`);
+    return false;
+  }
+
+  if (!isWhatsAppConfigured()) {
+    console.warn(`[WhatsApp] Not configured, message to ${to} skipped`);
+    return false;
+  }
+
+  const response = await fetch(`${GRAPH_API_URL}/${process.env.WHATSAPP_PHONE_NUMBER_ID}/messages`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${process.env.WHATSAPP_ACCESS_TOKEN}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      messaging_product: 'whatsapp',
+      to,
+      type: 'text',
+      text: { body, preview_url: true },
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    console.error('[WhatsApp] Failed to send message:', error);
+    throw new Error(`Failed to send WhatsApp message: ${response.status}`);
+  }
+
+  console.log(`[WhatsApp] Message sent to ${to}`);
+  return true;
+}
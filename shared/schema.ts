@@ -1,4 +1,4 @@
-import { pgTable, text, varchar, timestamp, integer, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, real, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { sql } from "drizzle-orm";
@@ -85,6 +85,10 @@ export const organizations = pgTable("organizations", {
   isVerified: integer("is_verified").notNull().default(0), // 0 = pending, 1 = verified
   plan: text("plan").notNull().default('free'), // 'free' or 'pro'
   jobPostLimit: integer("job_post_limit").notNull().default(3),
+  // Billing details printed on tax invoices
+  registrationNumber: text("registration_number"), // CIPC company registration number
+  vatNumber: text("vat_number"), // SARS VAT registration number (10 digits starting with 4)
+  billingAddress: text("billing_address"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -618,17 +622,52 @@ export const insertJobSchema = z.object({
 export type InsertJob = z.infer<typeof insertJobSchema>;
 export type Job = typeof jobs.$inferSelect;
 
+// Query string for GET /api/jobs/search - every filter is optional
+export const jobSearchQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  province: z.string().optional(),
+  city: z.string().optional(),
+  workArrangement: z.enum(["On-site", "Hybrid", "Remote"]).optional(),
+  seniority: z.enum(["Intern", "Junior", "Mid", "Senior", "Lead", "Manager", "Director", "Executive"]).optional(),
+  employmentType: z.string().optional(),
+  industry: z.string().optional(),
+  salaryMin: z.coerce.number().nonnegative().optional(),
+  salaryMax: z.coerce.number().nonnegative().optional(),
+  closingAfter: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use yyyy-mm-dd").optional(), // ISO yyyy-mm-dd
+  closingBefore: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use yyyy-mm-dd").optional(),
+  cursor: z.string().optional(), // Opaque value from the previous page's nextCursor
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export type JobSearchQuery = z.infer<typeof jobSearchQuerySchema>;
+
+export const JOB_SEARCH_FACETS = ["province", "city", "workArrangement", "seniority", "employmentType", "industry"] as const;
+export type JobSearchFacet = typeof JOB_SEARCH_FACETS[number];
+export type JobSearchFacetCounts = Record<JobSearchFacet, { value: string; count: number }[]>;
+
 // Job Applications - tracks which jobs individuals have applied to
+// 'in-app' applications carry a CV and attachments and are visible to the job's organization;
+// 'whatsapp' and 'external' rows are self-tracked by the individual only
 export const jobApplications = pgTable("job_applications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
   jobId: varchar("job_id").notNull(),
+  method: text("method").notNull().default("external"), // 'in-app', 'whatsapp', 'external'
+  cvId: varchar("cv_id"), // FK to cvs (required for in-app applications)
+  coverLetter: text("cover_letter"),
+  attachments: jsonb("attachments"), // array of uploaded files matching the job's required/optional attachments
+  answers: jsonb("answers"), // array of { question, answer }
   appliedAt: timestamp("applied_at").notNull().defaultNow(),
   status: text("status").notNull().default("Applied"), // Applied, Viewed, Interview, Rejected, Offer
+  statusUpdatedBy: varchar("status_updated_by"), // User who last changed the status (applicant or recruiter)
+  pipelineStage: text("pipeline_stage"), // Current recruiter pipeline stage name (in-app applications only)
   notes: text("notes"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+}, (table) => [
+  index("idx_job_applications_job").on(table.jobId),
+  index("idx_job_applications_user").on(table.userId),
+]);
 
 export const insertJobApplicationSchema = createInsertSchema(jobApplications).omit({
   id: true,
@@ -640,6 +679,76 @@ export const insertJobApplicationSchema = createInsertSchema(jobApplications).om
 export type InsertJobApplication = z.infer<typeof insertJobApplicationSchema>;
 export type JobApplication = typeof jobApplications.$inferSelect;
 
+export const JOB_APPLICATION_STATUSES = ["Applied", "Viewed", "Interview", "Rejected", "Offer"] as const;
+
+// File attached to an in-app application (uploaded via /api/applications/attachments/upload)
+export const applicationAttachmentSchema = z.object({
+  type: z.enum(["CV", "Cover Letter", "Certificates", "ID", "Work Permit", "Portfolio", "References", "Transcripts"]),
+  fileName: z.string().regex(/^[0-9a-f-]{36}\.[a-z0-9]+$/i, "Invalid attachment reference"), // Server-generated storage name
+  originalName: z.string().min(1),
+  mimeType: z.string().optional(),
+  size: z.number().int().nonnegative().optional(),
+});
+
+export const applicationAnswerSchema = z.object({
+  question: z.string().min(1),
+  answer: z.string(),
+});
+
+// Payload for applying to a job through SebenzaHub
+export const submitJobApplicationSchema = z.object({
+  jobId: z.string().min(1, "Job ID is required"),
+  method: z.enum(["in-app", "whatsapp", "external"]).default("external"),
+  cvId: z.string().optional(),
+  coverLetter: z.string().max(5000).optional(),
+  attachments: z.array(applicationAttachmentSchema).max(10).optional(),
+  answers: z.array(applicationAnswerSchema).max(20).optional(),
+  status: z.enum(JOB_APPLICATION_STATUSES).optional(),
+  notes: z.string().optional(),
+}).superRefine((val, ctx) => {
+  if (val.method === "in-app" && !val.cvId) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Select a CV to apply with",
+      path: ["cvId"],
+    });
+  }
+});
+
+// Application Stage Transitions - audit trail of pipeline moves made by recruiters
+export const applicationStageTransitions = pgTable("application_stage_transitions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  applicationId: varchar("application_id").notNull(),
+  jobId: varchar("job_id").notNull(),
+  fromStage: text("from_stage"), // Null when the application first enters the pipeline
+  toStage: text("to_stage").notNull(),
+  fromStatus: text("from_status"),
+  toStatus: text("to_status").notNull(), // Candidate-facing status the stage maps to
+  actorUserId: varchar("actor_user_id").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_stage_transitions_application").on(table.applicationId),
+  index("idx_stage_transitions_job").on(table.jobId),
+]);
+
+export const insertApplicationStageTransitionSchema = createInsertSchema(applicationStageTransitions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertApplicationStageTransition = z.infer<typeof insertApplicationStageTransitionSchema>;
+export type ApplicationStageTransition = typeof applicationStageTransitions.$inferSelect;
+
+export const moveApplicationStageSchema = z.object({
+  stage: z.string().min(1, "Stage is required"),
+  note: z.string().max(1000).optional(),
+});
+
+export type ApplicationAttachment = z.infer<typeof applicationAttachmentSchema>;
+export type ApplicationAnswer = z.infer<typeof applicationAnswerSchema>;
+export type SubmitJobApplication = z.infer<typeof submitJobApplicationSchema>;
+
 // CV Schema with Zod types for validation
 export const cvPersonalInfoSchema = z.object({
   fullName: z.string().min(1, "Full name is required"),
@@ -810,6 +919,38 @@ export type ScreeningEvaluation = typeof screeningEvaluations.$inferSelect;
 // ATS (Applicant Tracking System) Tables - Standalone Candidate Database
 // ============================================================================
 
+// Structured knockout rules - checked against parsed candidate data before any AI screening
+export const KNOCKOUT_RULE_FIELDS = [
+  'work_authorization', 'city', 'country', 'availability', // Text
+  'skills', 'certifications', 'qualifications', // Lists
+  'years_experience', 'salary_expectation', // Numbers
+] as const;
+
+export const KNOCKOUT_RULE_OPERATORS = ['equals', 'not_equals', 'contains', 'not_contains', 'one_of', 'gte', 'lte', 'exists'] as const;
+
+export const knockoutRuleSchema = z.object({
+  field: z.enum(KNOCKOUT_RULE_FIELDS),
+  operator: z.enum(KNOCKOUT_RULE_OPERATORS),
+  value: z.union([z.string().min(1), z.number(), z.array(z.string().min(1)).min(1)]).optional(),
+  label: z.string().max(200).optional(), // e.g. "Must have a Code 10 licence"
+}).superRefine((rule, ctx) => {
+  const numeric = rule.field === 'years_experience' || rule.field === 'salary_expectation';
+  if (rule.operator === 'exists') return;
+  if ((rule.operator === 'gte' || rule.operator === 'lte') && !numeric) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Greater/less than rules need a numeric field", path: ['operator'] });
+  } else if (numeric && typeof rule.value !== 'number') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Numeric fields need a number value", path: ['value'] });
+  } else if (rule.operator === 'one_of' && !Array.isArray(rule.value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "'One of' rules need a list of values", path: ['value'] });
+  } else if (!numeric && rule.operator !== 'one_of' && typeof rule.value !== 'string') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A value is required", path: ['value'] });
+  }
+});
+
+export type KnockoutRuleField = typeof KNOCKOUT_RULE_FIELDS[number];
+export type KnockoutRuleOperator = typeof KNOCKOUT_RULE_OPERATORS[number];
+export type KnockoutRule = z.infer<typeof knockoutRuleSchema>;
+
 // New integrated roles table - jobs/roles that reference ATS candidates directly
 export const roles = pgTable("roles", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -826,8 +967,10 @@ export const roles = pgTable("roles", {
   salaryMin: integer("salary_min"),
   salaryMax: integer("salary_max"),
   salaryCurrency: text("salary_currency").default('ZAR'),
-  knockouts: text("knockouts").array().notNull().default(sql`'{}'::text[]`),
+  knockouts: text("knockouts").array().notNull().default(sql`'{}'::text[]`), // Free-text criteria for the AI screening prompt
+  knockoutRules: jsonb("knockout_rules").notNull().default(sql`'[]'::jsonb`), // KnockoutRule[], applied before the AI screening
   weights: jsonb("weights").default(sql`'{"skills":35,"experience":25,"achievements":15,"education":10,"location_auth":10,"salary_availability":5}'::jsonb`),
+  blindScreening: integer("blind_screening"), // null = organization's compliance setting, 0 = off, 1 = on
   createdBy: varchar("created_by"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   isActive: integer("is_active").notNull().default(1), // 0 = inactive, 1 = active
@@ -836,6 +979,8 @@ export const roles = pgTable("roles", {
 export const insertRoleSchema = createInsertSchema(roles).omit({
   id: true,
   createdAt: true,
+}).extend({
+  knockoutRules: z.array(knockoutRuleSchema).default([]),
 });
 
 export type InsertRole = z.infer<typeof insertRoleSchema>;
@@ -853,6 +998,13 @@ export const screenings = pgTable("screenings", {
   knockout: jsonb("knockout"), // { is_ko: boolean, reasons: [] }
   reasons: text("reasons").array().notNull().default(sql`'{}'::text[]`), // 3-6 brief reasoning bullets
   flags: jsonb("flags"), // { red: [], yellow: [] }
+  // Recruiter override - the AI values above are kept for calibration
+  overrideScoreTotal: integer("override_score_total"), // Recruiter's score (0-100), null = AI score stands
+  overrideKnockout: integer("override_knockout"), // Recruiter's knockout decision (1 = knocked out, 0 = not), null = AI decision stands
+  overrideReason: text("override_reason"),
+  overriddenBy: varchar("overridden_by"), // FK to users
+  overriddenAt: timestamp("overridden_at"),
+  pipelineStage: text("pipeline_stage"), // Recruiter pipeline stage for this role (null = first stage)
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -864,9 +1016,84 @@ export const insertScreeningSchema = createInsertSchema(screenings).omit({
 export type InsertScreening = z.infer<typeof insertScreeningSchema>;
 export type Screening = typeof screenings.$inferSelect;
 
+export const moveScreeningStageSchema = z.object({
+  stage: z.string().min(1, "Stage is required"),
+});
+
+// Role Screening Runs - a batch of candidates queued for screening against a role, with progress counters
+export const roleScreeningRuns = pgTable("role_screening_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  roleId: varchar("role_id").notNull(), // FK to roles
+  organizationId: varchar("organization_id").notNull(), // Billed organization (FK to organizations)
+  requestedBy: varchar("requested_by"), // FK to users
+  total: integer("total").notNull(),
+  completed: integer("completed").notNull().default(0),
+  failed: integer("failed").notNull().default(0),
+  status: text("status").notNull().default('running'), // 'running', 'completed'
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("idx_role_screening_run_role").on(table.roleId, table.createdAt),
+]);
+
+export type RoleScreeningRun = typeof roleScreeningRuns.$inferSelect;
+
+// Shortlist Shares - expiring tokenized links sending a role's shortlist to a client contact without an account
+export const shortlistShares = pgTable("shortlist_shares", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  roleId: varchar("role_id").notNull(), // FK to roles
+  organizationId: varchar("organization_id").notNull(), // Sharing organization (FK to organizations)
+  createdBy: varchar("created_by").notNull(), // FK to users - notified of client feedback
+  token: varchar("token").notNull().unique(),
+  recipientName: text("recipient_name").notNull(),
+  recipientEmail: text("recipient_email"),
+  message: text("message"), // Note from the recruiter shown above the shortlist
+  candidateIds: text("candidate_ids").array().notNull(), // Candidates on the shortlist, in ranked order
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  lastViewedAt: timestamp("last_viewed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_shortlist_share_role").on(table.roleId),
+]);
+
+export const SHORTLIST_DECISIONS = ['yes', 'no', 'maybe'] as const;
+export type ShortlistDecision = typeof SHORTLIST_DECISIONS[number];
+
+// Shortlist Feedback - the client's Yes/No/Maybe and comment per shared candidate
+export const shortlistFeedback = pgTable("shortlist_feedback", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shareId: varchar("share_id").notNull(), // FK to shortlist_shares
+  candidateId: varchar("candidate_id").notNull(), // FK to candidates
+  decision: text("decision").notNull(), // 'yes', 'no', 'maybe'
+  comment: text("comment"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_shortlist_feedback_share_candidate").on(table.shareId, table.candidateId),
+]);
+
+export const createShortlistShareSchema = z.object({
+  recipientName: z.string().trim().min(1, "Recipient name is required").max(200),
+  recipientEmail: z.string().email("Valid email is required").optional().or(z.literal('')),
+  message: z.string().max(2000).optional(),
+  candidateIds: z.array(z.string()).min(1, "Select at least one candidate").max(100).optional(), // Defaults to the top of the ranking
+  expiresInDays: z.number().int().min(1).max(90).default(14),
+});
+
+export const shortlistFeedbackSchema = z.object({
+  decision: z.enum(SHORTLIST_DECISIONS),
+  comment: z.string().max(2000).optional(),
+});
+
+export type CreateShortlistShare = z.infer<typeof createShortlistShareSchema>;
+export type ShortlistShare = typeof shortlistShares.$inferSelect;
+export type ShortlistFeedback = typeof shortlistFeedback.$inferSelect;
+
 // Core candidate table
 export const candidates = pgTable("candidates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id"), // Owning organization's private talent pool (FK to organizations)
   userId: varchar("user_id").references(() => users.id), // Link to user account (for self-submitted profiles)
   fullName: text("full_name"),
   headline: text("headline"),
@@ -880,11 +1107,21 @@ export const candidates = pgTable("candidates", {
   availability: text("availability"),
   salaryExpectation: text("salary_expectation"),
   notes: text("notes"),
+  // Match keys for de-duplication within the owning organization
+  emailNormalized: text("email_normalized"), // Lower-cased email
+  phoneNormalized: text("phone_normalized"), // Digits only, SA numbers in 27XXXXXXXXX form
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => [
+  index("idx_candidate_org").on(table.organizationId),
+  index("idx_candidate_org_email").on(table.organizationId, table.emailNormalized),
+  index("idx_candidate_org_phone").on(table.organizationId, table.phoneNormalized),
+]);
 
 export const insertCandidateSchema = createInsertSchema(candidates).omit({
   id: true,
+  organizationId: true, // Set by backend based on user's organization
+  emailNormalized: true,
+  phoneNormalized: true,
   createdAt: true,
 });
 
@@ -895,6 +1132,7 @@ export type Candidate = typeof candidates.$inferSelect;
 export const resumes = pgTable("resumes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   candidateId: varchar("candidate_id").notNull(),
+  organizationId: varchar("organization_id"), // Uploading organization (FK to organizations)
   filename: text("filename"),
   filesizeBytes: integer("filesize_bytes"),
   parsedOk: integer("parsed_ok").notNull().default(1), // 0 = failed, 1 = success
@@ -911,6 +1149,79 @@ export const insertResumeSchema = createInsertSchema(resumes).omit({
 export type InsertResume = z.infer<typeof insertResumeSchema>;
 export type Resume = typeof resumes.$inferSelect;
 
+// Candidate Shares - ATS candidates an agency has chosen to share with one of its corporate clients
+export const candidateShares = pgTable("candidate_shares", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  candidateId: varchar("candidate_id").notNull(), // FK to candidates
+  organizationId: varchar("organization_id").notNull(), // Owning agency (FK to organizations)
+  clientId: varchar("client_id").notNull(), // FK to corporate_clients
+  sharedBy: varchar("shared_by"), // FK to users
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_candidate_share_unique").on(table.candidateId, table.clientId),
+  index("idx_candidate_share_client").on(table.clientId),
+]);
+
+export type CandidateShare = typeof candidateShares.$inferSelect;
+
+// Candidate Duplicates - possible duplicate pairs in an organization's talent pool, flagged on ingest for review
+export const candidateDuplicates = pgTable("candidate_duplicates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull(), // FK to organizations
+  candidateId: varchar("candidate_id").notNull(), // Newer record (FK to candidates)
+  duplicateOfId: varchar("duplicate_of_id").notNull(), // Existing record it resembles (FK to candidates)
+  score: integer("score").notNull(), // 0-100 match confidence
+  reasons: text("reasons").array().notNull().default(sql`'{}'::text[]`), // 'email', 'phone', 'name', 'similar_name', 'profile'
+  status: text("status").notNull().default('open'), // 'open', 'dismissed', 'merged'
+  resolvedBy: varchar("resolved_by"), // FK to users
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_candidate_duplicate_pair").on(table.candidateId, table.duplicateOfId),
+  index("idx_candidate_duplicate_org_status").on(table.organizationId, table.status),
+]);
+
+export type CandidateDuplicate = typeof candidateDuplicates.$inferSelect;
+
+export const mergeCandidatesSchema = z.object({
+  mergeCandidateId: z.string().min(1), // Record merged into the surviving candidate and then removed
+});
+
+// Resume Imports - bulk uploads of many CVs (or ZIPs of CVs), parsed one file at a time in the background
+export const resumeImports = pgTable("resume_imports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull(), // FK to organizations
+  createdBy: varchar("created_by").notNull(), // FK to users
+  roleId: varchar("role_id"), // Optional role every new candidate is screened against (FK to roles)
+  status: text("status").notNull().default('processing'), // 'processing', 'completed'
+  totalFiles: integer("total_files").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("idx_resume_import_org").on(table.organizationId, table.createdAt),
+]);
+
+export type ResumeImport = typeof resumeImports.$inferSelect;
+
+// Resume Import Files - one CV within a bulk import, with its parsing outcome
+export const resumeImportFiles = pgTable("resume_import_files", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  importId: varchar("import_id").notNull(), // FK to resume_imports
+  filename: text("filename").notNull(),
+  mimetype: text("mimetype").notNull(),
+  filesizeBytes: integer("filesize_bytes"),
+  path: text("path"), // Temporary file on disk, cleared once processed
+  status: text("status").notNull().default('queued'), // 'queued', 'processing', 'created', 'duplicate', 'failed'
+  candidateId: varchar("candidate_id"), // Created or matched candidate (FK to candidates)
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  processedAt: timestamp("processed_at"),
+}, (table) => [
+  index("idx_resume_import_file_import").on(table.importId),
+]);
+
+export type ResumeImportFile = typeof resumeImportFiles.$inferSelect;
+
 // Work experience entries
 export const experiences = pgTable("experiences", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1093,6 +1404,10 @@ export const insertInterviewSettingsSchema = createInsertSchema(interviewSetting
 export type InsertInterviewSettings = z.infer<typeof insertInterviewSettingsSchema>;
 export type InterviewSettings = typeof interviewSettings.$inferSelect;
 
+// How candidate contact details are masked when they leave the ATS (POPIA)
+export const CONTACT_REDACTION_LEVELS = ['none', 'partial', 'full'] as const;
+export type ContactRedaction = typeof CONTACT_REDACTION_LEVELS[number];
+
 // Compliance Settings - POPIA and EE compliance per organization
 export const complianceSettings = pgTable("compliance_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1102,6 +1417,9 @@ export const complianceSettings = pgTable("compliance_settings", {
   dataRetentionDays: integer("data_retention_days").notNull().default(365),
   popiaOfficer: text("popia_officer"),
   dataDeletionContact: text("data_deletion_contact"),
+  contactRedaction: text("contact_redaction").notNull().default('partial'), // 'none', 'partial', 'full' - candidate email/phone in exports and shared shortlists
+  blindScreening: integer("blind_screening").notNull().default(0), // 0 = off, 1 = hide candidate identity in first-round reviews and AI screening
+  blindRevealStage: text("blind_reveal_stage"), // Pipeline stage a candidate must move past before their identity is shown (null = first stage)
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
@@ -1242,6 +1560,9 @@ export const complianceSettingsValidationSchema = insertComplianceSettingsSchema
   dataRetentionDays: z.number().int().min(1, "Data retention must be at least 1 day").max(3650, "Data retention cannot exceed 10 years"),
   popiaOfficer: z.string().nullable().optional(),
   dataDeletionContact: z.string().nullable().optional(),
+  contactRedaction: z.enum(CONTACT_REDACTION_LEVELS).default('partial'),
+  blindScreening: z.number().int().min(0).max(1).default(0),
+  blindRevealStage: z.string().nullable().optional(),
 });
 
 export type ComplianceSettingsValidation = z.infer<typeof complianceSettingsValidationSchema>;
@@ -1408,6 +1729,31 @@ export const insertIndividualNotificationSettingsSchema = createInsertSchema(ind
 export type InsertIndividualNotificationSettings = z.infer<typeof insertIndividualNotificationSettingsSchema>;
 export type IndividualNotificationSettings = typeof individualNotificationSettings.$inferSelect;
 
+// Saved Searches - named All Jobs filter sets with new-match alerts
+export const savedSearches = pgTable("saved_searches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  name: text("name").notNull(),
+  filters: jsonb("filters").notNull(), // JobSearchFilters - q, province, city, seniority, salaryMin, etc.
+  lastSeenAt: timestamp("last_seen_at").notNull().defaultNow(), // Jobs posted after this count as "new"
+  lastAlertedAt: timestamp("last_alerted_at"), // Last email/WhatsApp alert sent for this search
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_saved_searches_user").on(table.userId),
+]);
+
+export const savedSearchFiltersSchema = jobSearchQuerySchema.omit({ cursor: true, limit: true });
+
+export const insertSavedSearchSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  filters: savedSearchFiltersSchema,
+});
+
+export type SavedSearchFilters = z.infer<typeof savedSearchFiltersSchema>;
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+
 // Fraud Detections - AI-powered fraud and spam detection across all content types
 export const fraudDetections = pgTable("fraud_detections", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1543,6 +1889,7 @@ export const testSections = pgTable("test_sections", {
   timeMinutes: integer("time_minutes").notNull(),
   weight: integer("weight").notNull(), // Percentage weight (0-100)
   orderIndex: integer("order_index").notNull(), // Display order
+  itemSampling: jsonb("item_sampling"), // Items each candidate draws by difficulty: { E: 2, M: 3, H: 1 }; null = every item
   
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => [
@@ -1634,15 +1981,21 @@ export const testAttempts = pgTable("test_attempts", {
   overallScore: integer("overall_score"), // 0-100
   passed: integer("passed"), // 0 = failed, 1 = passed
   
+  // Per-attempt item order and option order (see services/test-randomization)
+  itemLayout: jsonb("item_layout"),
+  
   // Section scores
-  sectionScores: jsonb("section_scores"), // { skills: 75, aptitude: 82, workStyle: 68 }
+  sectionScores: jsonb("section_scores"), // By section type: { skills: 75, aptitude: 82, work_style: 68 }
+  missedCutScores: jsonb("missed_cut_scores"), // [{ section: 'overall' | section type, score, cutScore }]
   
   // Flagging
   fraudScore: integer("fraud_score"), // 0-100, higher = more suspicious
+  riskFactors: jsonb("risk_factors"), // Proctoring rules that fired: [{ rule, detail, points }] (see services/proctoring)
   reviewRequired: integer("review_required").notNull().default(0),
   reviewedAt: timestamp("reviewed_at"),
   reviewedBy: varchar("reviewed_by"),
   reviewNotes: text("review_notes"),
+  reviewOutcome: text("review_outcome"), // 'cleared', 'invalidated'
   
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => [
@@ -1668,7 +2021,7 @@ export const testResponses = pgTable("test_responses", {
   // Response data
   response: jsonb("response").notNull(), // Candidate's answer (format varies by item type)
   isCorrect: integer("is_correct"), // 1 = correct, 0 = incorrect, null = pending grading
-  pointsAwarded: integer("points_awarded"),
+  pointsAwarded: real("points_awarded"), // Fractional for partial credit (see services/test-scoring)
   
   // Timing
   timeSpentSeconds: integer("time_spent_seconds"),
@@ -1679,6 +2032,10 @@ export const testResponses = pgTable("test_responses", {
   gradedAt: timestamp("graded_at"),
   graderNotes: text("grader_notes"),
   
+  // AI suggested grade against the item rubric, for the grader to accept or adjust
+  aiSuggestedPoints: real("ai_suggested_points"),
+  aiJustification: text("ai_justification"),
+  
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => [
   index("idx_test_response_attempt").on(table.attemptId),
@@ -1693,6 +2050,23 @@ export const insertTestResponseSchema = createInsertSchema(testResponses).omit({
 export type InsertTestResponse = z.infer<typeof insertTestResponseSchema>;
 export type TestResponse = typeof testResponses.$inferSelect;
 
+export const ATTEMPT_REVIEW_OUTCOMES = ['cleared', 'invalidated'] as const;
+export type AttemptReviewOutcome = typeof ATTEMPT_REVIEW_OUTCOMES[number];
+
+export const reviewTestAttemptSchema = z.object({
+  outcome: z.enum(ATTEMPT_REVIEW_OUTCOMES),
+  notes: z.string().trim().min(1, "Review notes are required").max(2000),
+});
+
+export type ReviewTestAttempt = z.infer<typeof reviewTestAttemptSchema>;
+
+export const gradeTestResponseSchema = z.object({
+  pointsAwarded: z.number().min(0, "Points can't be negative"),
+  graderNotes: z.string().max(2000).optional(),
+});
+
+export type GradeTestResponse = z.infer<typeof gradeTestResponseSchema>;
+
 // Job Embeddings - for semantic search and auto-matching
 // Stores embeddings as JSON array for compatibility (similar to candidateEmbeddings)
 export const jobEmbeddings = pgTable("job_embeddings", {
@@ -1977,6 +2351,7 @@ export const plans = pgTable("plans", {
   interval: text("interval").notNull(), // 'monthly', 'annual'
   priceCents: integer("price_cents").notNull(), // Price in cents (ZAR)
   currency: text("currency").notNull().default('ZAR'),
+  trialDays: integer("trial_days").notNull().default(0), // Free trial length on first checkout; 0 = no trial
   isPublic: integer("is_public").notNull().default(1), // 0 = hidden, 1 = visible
   version: integer("version").notNull().default(1), // Bump when changing entitlements
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -2020,8 +2395,8 @@ export const featureEntitlements = pgTable("feature_entitlements", {
   planId: varchar("plan_id").notNull(),
   featureKey: varchar("feature_key").notNull(),
   enabled: integer("enabled").notNull().default(0), // For TOGGLE features: 0 = off, 1 = on
-  monthlyCap: integer("monthly_cap"), // For QUOTA features: null = unlimited (or set to 1e9)
-  overageUnitCents: integer("overage_unit_cents"), // For METERED features: cost per unit over limit
+  monthlyCap: integer("monthly_cap"), // For QUOTA features: null = unlimited (or set to 1e9); for METERED: units included before overage
+  overageUnitCents: integer("overage_unit_cents"), // For METERED features: cost per unit over limit (incl. VAT)
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => [
@@ -2050,6 +2425,11 @@ export const subscriptions = pgTable("subscriptions", {
   currentPeriodEnd: timestamp("current_period_end"),
   trialEndsAt: timestamp("trial_ends_at"), // If in trial, when it ends
   cancelAtPeriodEnd: integer("cancel_at_period_end").notNull().default(0), // 0 = auto-renew, 1 = cancel at end
+  scheduledPlanId: varchar("scheduled_plan_id"), // Downgrade that takes effect when the current period ends
+  pastDueSince: timestamp("past_due_since"), // When the failed payment started dunning
+  dunningAttempts: integer("dunning_attempts").notNull().default(0), // Retries / notices sent since then
+  nextDunningAt: timestamp("next_dunning_at"), // Next scheduled retry, null once the schedule is exhausted
+  restrictedAt: timestamp("restricted_at"), // Set when the grace period runs out; cleared on payment
   netcashRef: text("netcash_ref"), // Netcash subscription/customer ID
   metadata: jsonb("metadata"), // Additional payment gateway data
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -2058,6 +2438,7 @@ export const subscriptions = pgTable("subscriptions", {
   index("idx_subscription_holder").on(table.holderType, table.holderId),
   index("idx_subscription_status").on(table.status),
   index("idx_subscription_period").on(table.currentPeriodEnd),
+  index("idx_subscription_next_dunning").on(table.nextDunningAt),
 ]);
 
 export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({
@@ -2069,6 +2450,10 @@ export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({
 export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
 export type Subscription = typeof subscriptions.$inferSelect;
 
+export const changePlanSchema = z.object({
+  planId: z.string().min(1, "Plan ID is required"),
+});
+
 // Usage - Tracks consumption of QUOTA features per billing period
 export const usage = pgTable("usage", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -2097,10 +2482,50 @@ export const insertUsageSchema = createInsertSchema(usage).omit({
 export type InsertUsage = z.infer<typeof insertUsageSchema>;
 export type Usage = typeof usage.$inferSelect;
 
+// Overage Charges - priced METERED usage past the plan's included amount
+export const overageCharges = pgTable("overage_charges", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  holderType: text("holder_type").notNull(), // 'user' or 'org'
+  holderId: varchar("holder_id").notNull(),
+  subscriptionId: varchar("subscription_id").notNull(),
+  featureKey: varchar("feature_key").notNull(),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  units: integer("units").notNull(),
+  unitCents: integer("unit_cents").notNull(), // featureEntitlements.overageUnitCents at the time of use (incl. VAT)
+  amountCents: integer("amount_cents").notNull(),
+  invoiceId: varchar("invoice_id"), // Set once billed by the billing cron
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_overage_holder_period").on(table.holderType, table.holderId, table.periodStart),
+  index("idx_overage_invoice").on(table.invoiceId),
+]);
+
+export type OverageCharge = typeof overageCharges.$inferSelect;
+
+// Spending Limits - optional cap on a holder's overage spend per billing period
+export const spendingLimits = pgTable("spending_limits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  holderType: text("holder_type").notNull(), // 'user' or 'org'
+  holderId: varchar("holder_id").notNull(),
+  limitCents: integer("limit_cents").notNull(), // 0 = no overage allowed
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_spending_limit_holder").on(table.holderType, table.holderId),
+]);
+
+export type SpendingLimit = typeof spendingLimits.$inferSelect;
+
+// null removes the limit
+export const updateSpendingLimitSchema = z.object({
+  limitCents: z.number().int().min(0).max(100_000_000).nullable(),
+});
+
 // Payment Events - Webhook event log from payment gateway (Netcash)
 export const paymentEvents = pgTable("payment_events", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  gateway: text("gateway").notNull(), // 'netcash', 'payfast', etc
+  gateway: text("gateway").notNull(), // 'netcash', 'payfast', etc, or 'dunning' for failed-payment recovery steps
   eventId: text("event_id").notNull().unique(), // Gateway's unique event ID (idempotency)
   eventType: text("event_type").notNull(), // 'subscription.activated', 'payment.failed', etc
   payload: jsonb("payload").notNull(), // Full webhook payload
@@ -2120,3 +2545,68 @@ export const insertPaymentEventSchema = createInsertSchema(paymentEvents).omit({
 
 export type InsertPaymentEvent = z.infer<typeof insertPaymentEventSchema>;
 export type PaymentEvent = typeof paymentEvents.$inferSelect;
+
+// Invoices - VAT tax invoices, one per paid subscription billing period plus one for any metered overage
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sequenceNumber: integer("sequence_number").notNull().unique(), // Gapless 1, 2, 3... across all invoices
+  invoiceNumber: text("invoice_number").notNull().unique(), // e.g. INV-000042
+  subscriptionId: varchar("subscription_id").notNull(),
+  kind: text("kind").notNull().default('subscription'), // 'subscription' (plan fee) or 'overage' (metered usage)
+  planId: varchar("plan_id").notNull(),
+  holderType: text("holder_type").notNull(), // 'user' or 'org'
+  holderId: varchar("holder_id").notNull(),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  description: text("description").notNull(),
+  lineItems: jsonb("line_items"), // InvoiceLineItem[] for itemised invoices (overage); null = single description line
+  currency: text("currency").notNull().default('ZAR'),
+  subtotalCents: integer("subtotal_cents").notNull(), // Excluding VAT
+  vatRate: integer("vat_rate").notNull().default(15), // Percent
+  vatCents: integer("vat_cents").notNull(),
+  totalCents: integer("total_cents").notNull(), // Including VAT
+  billTo: jsonb("bill_to").notNull(), // Snapshot: { name, email, registrationNumber, vatNumber, address }
+  seller: jsonb("seller"), // Snapshot: { name, registrationNumber, vatNumber, address, email } (InvoiceSeller)
+  status: text("status").notNull().default('issued'), // 'issued', 'paid', 'void'
+  paidAt: timestamp("paid_at"),
+  issuedAt: timestamp("issued_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_invoice_subscription_period").on(table.subscriptionId, table.kind, table.periodStart),
+  index("idx_invoice_holder").on(table.holderType, table.holderId),
+]);
+
+export type Invoice = typeof invoices.$inferSelect;
+
+export const invoiceBillToSchema = z.object({
+  name: z.string(),
+  email: z.string().optional(),
+  registrationNumber: z.string().optional(),
+  vatNumber: z.string().optional(),
+  address: z.string().optional(),
+});
+
+export type InvoiceBillTo = z.infer<typeof invoiceBillToSchema>;
+
+export interface InvoiceSeller {
+  name: string;
+  registrationNumber: string;
+  vatNumber: string;
+  address: string;
+  email: string;
+}
+
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number;
+  unitCents: number; // Including VAT
+  amountCents: number; // Including VAT
+}
+
+// Organization billing details editable from the Billing page
+export const organizationBillingDetailsSchema = z.object({
+  registrationNumber: z.string().trim().max(50).optional().or(z.literal("")),
+  vatNumber: z.string().trim().regex(/^4\d{9}$/, "VAT numbers are 10 digits starting with 4").optional().or(z.literal("")),
+  billingAddress: z.string().trim().max(500).optional().or(z.literal("")),
+});
+
+export type OrganizationBillingDetails = z.infer<typeof organizationBillingDetailsSchema>;